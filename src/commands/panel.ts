@@ -9,7 +9,7 @@ import {
   ButtonStyle,
 } from 'discord.js';
 import { BotClient } from '../core/client';
-import { PanelData } from '../core/db/postgresDB';
+import { PanelData } from '../core/db/storage';
 import { randomBytes } from 'crypto';
 
 interface PanelTemplate {
@@ -103,7 +103,7 @@ async function handleSave(
   const panelName = interaction.options.getString('panel-name', true);
 
   // Find panel by name
-  const panels = await client.db.getAllPanels();
+  const panels = await client.db.getPanelsByGuild(interaction.guildId!);
   const panel = panels.find((p: PanelData) => p.name?.toLowerCase() === panelName.toLowerCase());
 
   if (!panel) {
@@ -208,6 +208,7 @@ async function handleImport(
   const newPanel: PanelData = {
     id: newPanelId,
     type: 'panel',
+    guildId: interaction.guildId!,
     name: template.name,
     // Channels and roles not set - user must configure
     channel: undefined,
@@ -253,7 +254,7 @@ async function handleImport(
           '   • Panel channel (where the ticket button will be posted)',
           '   • Open category (where new tickets will be created)',
           '   • Close category (where closed tickets will be moved)',
-          '   • Staff role (who can manage tickets)',
+          '   • Staff roles (who can view, answer, close and manage tickets)',
           '   • Logs channel (optional)',
           '   • Transcript channel (optional)',
           '',
@@ -275,8 +276,7 @@ async function handleTemplates(
   await interaction.deferReply({ flags: 1 << 6 }); // MessageFlags.Ephemeral
 
   // Get all templates created by this user's guild
-  const allTemplates = await client.db.getAllTemplates();
-  const userTemplates = allTemplates.filter((t: any) => t.originalGuild === interaction.guildId);
+  const userTemplates = await client.db.getTemplatesByGuild(interaction.guildId!);
 
   if (userTemplates.length === 0) {
     await interaction.editReply({
@@ -346,8 +346,7 @@ async function handleDeleteTemplate(
   await interaction.deferReply({ flags: 1 << 6 }); // MessageFlags.Ephemeral
 
   // Get all templates created by this user's guild
-  const allTemplates = await client.db.getAllTemplates();
-  const userTemplates = allTemplates.filter((t: any) => t.originalGuild === interaction.guildId);
+  const userTemplates = await client.db.getTemplatesByGuild(interaction.guildId!);
 
   if (userTemplates.length === 0) {
     await interaction.editReply({
@@ -13,212 +13,6 @@ export const data = new SlashCommandBuilder()
 // Custom Discord tick emoji
 const TICK = '<:tcet_tick:1437995479567962184>';
 
-async function getDatabaseStats(client: BotClient): Promise<{
-  connected: boolean;
-  totalRecords: number;
-  panels: number;
-  tickets: number;
-  openTickets: number;
-  closedTickets: number;
-  storage: string;
-  totalStorage: string;
-  host: string;
-  port: string;
-  dbName: string;
-  dbVersion: string;
-  maxConnections: number;
-  activeConnections: number;
-  responseTime: number;
-  error?: string;
-}> {
-  const startTime = Date.now();
- 
-  
-  try {
-    if (!client.db.isConnectionActive()) {
-      
-      return {
-        connected: false,
-        totalRecords: 0,
-        panels: 0,
-        tickets: 0,
-        openTickets: 0,
-        closedTickets: 0,
-        storage: 'N/A',
-        totalStorage: 'N/A',
-        host: 'N/A',
-        port: 'N/A',
-        dbName: 'N/A',
-        dbVersion: 'N/A',
-        maxConnections: 0,
-        activeConnections: 0,
-        responseTime: 0,
-        error: 'Not connected'
-      };
-    }
-
-    const pool = client.db.getPool();
-    
-    // OPTIMIZED: Single query to get all counts at once
-    const statsResult = await pool.query(`
-      SELECT 
-        COUNT(*) FILTER (WHERE type IS NOT NULL) as total_records,
-        COUNT(*) FILTER (WHERE type = 'panel') as panels,
-        COUNT(*) FILTER (WHERE type = 'ticket') as tickets,
-        COUNT(*) FILTER (WHERE type = 'ticket' AND data->>'state' = 'open') as open_tickets,
-        COUNT(*) FILTER (WHERE type = 'ticket' AND data->>'state' = 'closed') as closed_tickets
-      FROM data
-    `);
-    
-    const totalRecords = parseInt(statsResult.rows[0].total_records);
-    const panels = parseInt(statsResult.rows[0].panels);
-    const tickets = parseInt(statsResult.rows[0].tickets);
-    const openTickets = parseInt(statsResult.rows[0].open_tickets);
-    const closedTickets = parseInt(statsResult.rows[0].closed_tickets);
-
-    // Get database size
-    const sizeResult = await pool.query(`
-      SELECT pg_size_pretty(pg_database_size(current_database())) as size
-    `);
-    const storage = sizeResult.rows[0].size;
-    
-    // Get total available storage (disk allocation)
-    let totalStorage = 'N/A';
-    try {
-      // Try to get actual disk space information
-      const diskResult = await pool.query(`
-        SELECT 
-          pg_size_pretty(
-            (SELECT sum(pg_database_size(datname))::bigint FROM pg_database) +
-            (SELECT sum(pg_tablespace_size(oid))::bigint FROM pg_tablespace)
-          ) as total_used,
-          pg_size_pretty(
-            (SELECT setting::bigint FROM pg_settings WHERE name = 'max_wal_size') * 16 * 1024 * 1024
-          ) as wal_size
-      `);
-      
-      // Try alternative method: get from pg_stat_file (requires superuser on some systems)
-      try {
-        const fsResult = await pool.query(`
-          SELECT 
-            (pg_stat_file('base')).size as base_size,
-            (pg_stat_file('global')).size as global_size
-        `);
-        // This won't work on Cloud SQL due to permissions
-      } catch (e) {
-        // Expected to fail on Cloud SQL
-      }
-      
-      // For Cloud SQL, query the actual allocated space via pg_ls_waldir and calculate
-      const walResult = await pool.query(`
-        SELECT 
-          COALESCE(sum(size), 0) as wal_size 
-        FROM pg_ls_waldir()
-      `);
-      
-      const allDbSize = await pool.query(`
-        SELECT pg_size_pretty(sum(pg_database_size(datname))::bigint) as all_db_size
-        FROM pg_database
-        WHERE datistemplate = false
-      `);
-      
-      // Get total space used by all objects
-      const totalUsed = await pool.query(`
-        SELECT pg_size_pretty(
-          (SELECT sum(pg_database_size(datname))::bigint FROM pg_database WHERE datistemplate = false) +
-          ${walResult.rows[0].wal_size}
-        ) as total_disk_usage
-      `);
-      
-      totalStorage = totalUsed.rows[0].total_disk_usage || allDbSize.rows[0].all_db_size;
-      
-    } catch (e) {
-      // Final fallback: sum all database sizes
-      try {
-        const allDbResult = await pool.query(`
-          SELECT pg_size_pretty(sum(pg_database_size(datname))::bigint) as total_size
-          FROM pg_database
-        `);
-        totalStorage = allDbResult.rows[0].total_size;
-      } catch (e2) {
-        totalStorage = 'Unable to determine';
-      }
-    }
-   
-    // Get database version and info
-    
-    const versionResult = await pool.query('SELECT version() as version, current_database() as dbname');
-    const fullVersion = versionResult.rows[0].version;
-    const dbVersion = fullVersion.split(',')[0].replace('PostgreSQL ', '');
-    const dbName = versionResult.rows[0].dbname;
-   
-
-    // Get connection info
-   
-    const hostResult = await pool.query(`
-      SELECT 
-        inet_server_addr() as host, 
-        inet_server_port() as port,
-        current_setting('max_connections')::int as max_conn
-    `);
-    const host = hostResult.rows[0].host || 'localhost';
-    const port = hostResult.rows[0].port || '5432';
-    const maxConnections = hostResult.rows[0].max_conn || 0;
-    
-
-  
-    const activeConnResult = await pool.query(`
-      SELECT COUNT(*) as count 
-      FROM pg_stat_activity 
-      WHERE datname = current_database()
-    `);
-    const activeConnections = parseInt(activeConnResult.rows[0].count);
-
-
-    const responseTime = Date.now() - startTime;
-   
-    return {
-      connected: true,
-      totalRecords,
-      panels,
-      tickets,
-      openTickets,
-      closedTickets,
-      storage,
-      totalStorage,
-      host,
-      port,
-      dbName,
-      dbVersion,
-      maxConnections,
-      activeConnections,
-      responseTime
-    };
-  } catch (error: any) {
-    
-    const responseTime = Date.now() - startTime;
-    return {
-      connected: false,
-      totalRecords: 0,
-      panels: 0,
-      tickets: 0,
-      openTickets: 0,
-      closedTickets: 0,
-      storage: 'N/A',
-      totalStorage: 'N/A',
-      host: 'N/A',
-      port: 'N/A',
-      dbName: 'N/A',
-      dbVersion: 'N/A',
-      maxConnections: 0,
-      activeConnections: 0,
-      responseTime,
-      error: error.message
-    };
-  }
-}
-
-
 export async function execute(
   interaction: ChatInputCommandInteraction,
   client: BotClient
@@ -294,7 +88,7 @@ export async function execute(
  
 
   // Database statistics
-  const dbStats = await getDatabaseStats(client);
+  const dbStats = await client.db.getStatus(interaction.guildId);
 
   
   const networkInterfaces = os.networkInterfaces();
@@ -371,7 +165,7 @@ export async function execute(
   const dbEmbed = new EmbedBuilder()
     .setColor(dbStats.connected ? '#00ff00' : '#ff0000')
     .setTitle('Database Status')
-    .setDescription(dbStats.connected ? `${TICK} PostgreSQL Database Connected` : `Database Disconnected`)
+    .setDescription(dbStats.connected ? `${TICK} ${dbStats.engine} Database Connected` : `Database Disconnected`)
     .addFields(
       {
         name: 'Connection Details',
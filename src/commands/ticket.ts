@@ -7,11 +7,35 @@ import {
   PermissionFlagsBits,
   ButtonBuilder,
   ButtonStyle,
+  GuildMember,
 } from 'discord.js';
 import { BotClient } from '../core/client';
 import { EmbedController } from '../core/embedController';
+import { PermissionHelper, TicketChannel } from '../core/permissionHelper';
 import { SetupWizardHandler } from '../modules/ticket/setupWizard';
-import { PanelData } from '../core/db/postgresDB';
+import { recordTicketEvent, formatTicketEvent } from '../modules/ticket/ticketEvents';
+import { getTicketNumber } from '../modules/ticket/transcriptGenerator';
+import { BlacklistEntry, PanelData, TicketData, TicketPriority } from '../core/db/storage';
+import {
+  parseDuration,
+  isBlacklistEntryActive,
+  describeBlacklistEntry,
+  logBlacklistChange,
+} from '../modules/ticket/blacklist';
+import { addTicketParticipant, removeTicketParticipant, formatParticipant } from '../modules/ticket/participants';
+import { applyExclusiveClaim, releaseExclusiveClaim } from '../modules/ticket/claims';
+import { computeSlaCompliance, formatCompliance, formatSlaTarget } from '../modules/ticket/sla';
+import { buildStatsPage, StatsView } from '../modules/ticket/ticketStats';
+import {
+  TICKET_PRIORITIES,
+  PRIORITY_DETAILS,
+  compareTicketsByPriority,
+  formatPriority,
+  getTicketPriority,
+  withPriorityPrefix,
+} from '../modules/ticket/priority';
+
+const PRIORITY_CHOICES = TICKET_PRIORITIES.map(priority => ({ name: PRIORITY_DETAILS[priority].label, value: priority }));
 
 export const data = new SlashCommandBuilder()
   .setName('ticket')
@@ -32,11 +56,63 @@ export const data = new SlashCommandBuilder()
       .addSubcommand(sub =>
         sub.setName('list').setDescription('List all configured panels')
       )
+      .addSubcommand(sub =>
+        sub.setName('group').setDescription('Put several panels on one message as buttons or a select menu')
+      )
+  )
+  .addSubcommandGroup(group =>
+    group
+      .setName('blacklist')
+      .setDescription('Stop users or roles from opening tickets')
+      .addSubcommand(sub =>
+        sub
+          .setName('add')
+          .setDescription('Blacklist a user or role')
+          .addUserOption(option =>
+            option.setName('user').setDescription('User to blacklist').setRequired(false)
+          )
+          .addRoleOption(option =>
+            option.setName('role').setDescription('Role to blacklist').setRequired(false)
+          )
+          .addStringOption(option =>
+            option.setName('reason').setDescription('Shown to the user when they are refused').setRequired(false).setMaxLength(200)
+          )
+          .addStringOption(option =>
+            option.setName('duration').setDescription('How long, e.g. 30m, 12h, 7d, 2w (permanent if empty)').setRequired(false)
+          )
+          .addStringOption(option =>
+            option.setName('panel').setDescription('Panel ID (optional, all panels if not specified)').setRequired(false)
+          )
+      )
+      .addSubcommand(sub =>
+        sub
+          .setName('remove')
+          .setDescription('Remove a user or role from the blacklist')
+          .addUserOption(option =>
+            option.setName('user').setDescription('User to remove').setRequired(false)
+          )
+          .addRoleOption(option =>
+            option.setName('role').setDescription('Role to remove').setRequired(false)
+          )
+          .addStringOption(option =>
+            option.setName('panel').setDescription('Panel ID (optional, the all-panels entry if not specified)').setRequired(false)
+          )
+      )
+      .addSubcommand(sub =>
+        sub.setName('list').setDescription('Show everyone who is blacklisted')
+      )
   )
   .addSubcommand(sub =>
     sub
       .setName('close')
       .setDescription('Close the current ticket')
+      .addStringOption(opt =>
+        opt
+          .setName('reason')
+          .setDescription('Why the ticket is being closed')
+          .setMaxLength(500)
+          .setRequired(false)
+      )
   )
   .addSubcommand(sub =>
     sub
@@ -57,12 +133,35 @@ export const data = new SlashCommandBuilder()
   .addSubcommand(sub =>
     sub
       .setName('add')
-      .setDescription('Add a user to the current ticket')
+      .setDescription('Add a user or role to the current ticket')
       .addUserOption(option =>
         option
           .setName('user')
           .setDescription('User to add to the ticket')
-          .setRequired(true)
+          .setRequired(false)
+      )
+      .addRoleOption(option =>
+        option
+          .setName('role')
+          .setDescription('Role to add to the ticket')
+          .setRequired(false)
+      )
+  )
+  .addSubcommand(sub =>
+    sub
+      .setName('remove')
+      .setDescription('Remove a user or role from the current ticket')
+      .addUserOption(option =>
+        option
+          .setName('user')
+          .setDescription('User to remove from the ticket')
+          .setRequired(false)
+      )
+      .addRoleOption(option =>
+        option
+          .setName('role')
+          .setDescription('Role to remove from the ticket')
+          .setRequired(false)
       )
   )
   .addSubcommand(sub =>
@@ -75,11 +174,144 @@ export const data = new SlashCommandBuilder()
       .setName('unclaim')
       .setDescription('Unclaim the current ticket')
   )
+  .addSubcommand(sub =>
+    sub
+      .setName('transfer')
+      .setDescription('Hand the current ticket to another staff member')
+      .addUserOption(option =>
+        option
+          .setName('staff')
+          .setDescription('Staff member who takes over the ticket')
+          .setRequired(true)
+      )
+  )
   .addSubcommand(sub =>
     sub
       .setName('delete')
       .setDescription('Delete the current ticket permanently')
   )
+  .addSubcommand(sub =>
+    sub
+      .setName('history')
+      .setDescription('Show the full timeline of a ticket')
+      .addStringOption(option =>
+        option
+          .setName('ticket')
+          .setDescription('Ticket number or ID (defaults to the current ticket)')
+          .setRequired(false)
+      )
+  )
+  .addSubcommand(sub =>
+    sub
+      .setName('priority')
+      .setDescription('Set the priority of the current ticket')
+      .addStringOption(option =>
+        option
+          .setName('level')
+          .setDescription('New priority')
+          .setRequired(true)
+          .addChoices(...PRIORITY_CHOICES)
+      )
+  )
+  .addSubcommand(sub =>
+    sub
+      .setName('move')
+      .setDescription('Move the current ticket to another panel')
+      .addStringOption(option =>
+        option
+          .setName('panel')
+          .setDescription('Panel ID or name to move the ticket to')
+          .setRequired(true)
+      )
+  )
+  .addSubcommand(sub =>
+    sub
+      .setName('list')
+      .setDescription('List tickets, most urgent first')
+      .addStringOption(option =>
+        option
+          .setName('priority')
+          .setDescription('Only show tickets with this priority')
+          .setRequired(false)
+          .addChoices(...PRIORITY_CHOICES)
+      )
+      .addStringOption(option =>
+        option
+          .setName('state')
+          .setDescription('Open or closed tickets (defaults to open)')
+          .setRequired(false)
+          .addChoices({ name: 'Open', value: 'open' }, { name: 'Closed', value: 'closed' }, { name: 'All', value: 'all' })
+      )
+      .addStringOption(option =>
+        option
+          .setName('panel')
+          .setDescription('Panel ID (optional, all panels if not specified)')
+          .setRequired(false)
+      )
+  )
+  .addSubcommand(sub =>
+    sub
+      .setName('sla')
+      .setDescription('Show SLA compliance per panel')
+      .addStringOption(option =>
+        option
+          .setName('panel')
+          .setDescription('Panel ID (optional, all panels with SLA targets if not specified)')
+          .setRequired(false)
+      )
+      .addIntegerOption(option =>
+        option
+          .setName('days')
+          .setDescription('Only count tickets opened in the last N days (all time if not specified)')
+          .setRequired(false)
+          .setMinValue(1)
+          .setMaxValue(365)
+      )
+  )
+  .addSubcommand(sub =>
+    sub
+      .setName('stats')
+      .setDescription('Show claims, closes and response times for the server, a panel or staff')
+      .addStringOption(option =>
+        option
+          .setName('view')
+          .setDescription('What to report on (defaults to the panel or staff member given, else the server)')
+          .setRequired(false)
+          .addChoices({ name: 'Server', value: 'guild' }, { name: 'Panel', value: 'panel' }, { name: 'Staff', value: 'staff' })
+      )
+      .addStringOption(option =>
+        option
+          .setName('panel')
+          .setDescription('Panel ID for the panel view')
+          .setRequired(false)
+      )
+      .addUserOption(option =>
+        option
+          .setName('staff')
+          .setDescription('Staff member for the staff view (all staff if not specified)')
+          .setRequired(false)
+      )
+      .addIntegerOption(option =>
+        option
+          .setName('days')
+          .setDescription('Only count the last N days')
+          .setRequired(false)
+          .setMinValue(1)
+          .setMaxValue(365)
+      )
+      .addStringOption(option =>
+        option
+          .setName('from')
+          .setDescription('Start date, YYYY-MM-DD')
+          .setRequired(false)
+      )
+      .addStringOption(option =>
+        option
+          .setName('to')
+          .setDescription('End date (inclusive), YYYY-MM-DD')
+          .setRequired(false)
+      )
+  )
   .addSubcommand(sub =>
     sub
       .setName('clear-ticket')
@@ -103,6 +335,14 @@ export async function execute(
   interaction: ChatInputCommandInteraction,
   client: BotClient
 ): Promise<void> {
+  if (!interaction.guildId) {
+    await interaction.reply({
+      content: '<:tcet_cross:1437995480754946178> This command can only be used in a server.',
+      flags: 1 << 6 // MessageFlags.Ephemeral
+    });
+    return;
+  }
+
   const subcommandGroup = interaction.options.getSubcommandGroup();
   const subcommand = interaction.options.getSubcommand();
 
@@ -120,6 +360,21 @@ export async function execute(
       case 'list':
         await handleList(interaction, client);
         break;
+      case 'group':
+        await handleGroups(interaction, client);
+        break;
+    }
+  } else if (subcommandGroup === 'blacklist') {
+    switch (subcommand) {
+      case 'add':
+        await handleBlacklistAdd(interaction, client);
+        break;
+      case 'remove':
+        await handleBlacklistRemove(interaction, client);
+        break;
+      case 'list':
+        await handleBlacklistList(interaction, client);
+        break;
     }
   } else {
     switch (subcommand) {
@@ -135,15 +390,39 @@ export async function execute(
       case 'add':
         await handleAddUser(interaction, client);
         break;
+      case 'remove':
+        await handleRemoveUser(interaction, client);
+        break;
       case 'claim':
         await handleClaim(interaction, client);
         break;
       case 'unclaim':
         await handleUnclaim(interaction, client);
         break;
+      case 'transfer':
+        await handleTransfer(interaction, client);
+        break;
       case 'delete':
         await handleDeleteTicket(interaction, client);
         break;
+      case 'history':
+        await handleHistory(interaction, client);
+        break;
+      case 'priority':
+        await handlePriority(interaction, client);
+        break;
+      case 'move':
+        await handleMove(interaction, client);
+        break;
+      case 'list':
+        await handleTicketList(interaction, client);
+        break;
+      case 'sla':
+        await handleSla(interaction, client);
+        break;
+      case 'stats':
+        await handleStats(interaction, client);
+        break;
       case 'clear-ticket':
         await handleClearTicket(interaction, client);
         break;
@@ -167,7 +446,7 @@ async function handleEdit(
 ): Promise<void> {
   await interaction.deferReply({ flags: 1 << 6 }); // MessageFlags.Ephemeral
 
-  const panels = await client.db.getAllPanels();
+  const panels = await client.db.getPanelsByGuild(interaction.guildId!);
   
   if (panels.length === 0) {
     await interaction.editReply({
@@ -202,7 +481,7 @@ async function handleDelete(
 ): Promise<void> {
   await interaction.deferReply({ flags: 1 << 6 }); // MessageFlags.Ephemeral
 
-  const panels = await client.db.getAllPanels();
+  const panels = await client.db.getPanelsByGuild(interaction.guildId!);
   
   if (panels.length === 0) {
     await interaction.editReply({
@@ -237,12 +516,171 @@ async function handleList(
 ): Promise<void> {
   await interaction.deferReply({ flags: 1 << 6 }); // MessageFlags.Ephemeral
 
-  const panels = await client.db.getAllPanels();
+  const panels = await client.db.getPanelsByGuild(interaction.guildId!);
   const embed = EmbedController.createPanelListEmbed(panels);
 
   await interaction.editReply({ embeds: [embed] });
 }
 
+async function handleGroups(
+  interaction: ChatInputCommandInteraction,
+  client: BotClient
+): Promise<void> {
+  await interaction.deferReply({ flags: 1 << 6 }); // MessageFlags.Ephemeral
+
+  const wizardHandler = new SetupWizardHandler();
+  await wizardHandler.showGroupList(interaction, client);
+}
+
+/**
+ * Read the user/role and panel options shared by blacklist add and remove.
+ * Replies with an error and returns null when they are invalid.
+ */
+async function getBlacklistTarget(
+  interaction: ChatInputCommandInteraction,
+  client: BotClient
+): Promise<{ targetId: string; targetType: 'user' | 'role'; panel: PanelData | null } | null> {
+  const user = interaction.options.getUser('user');
+  const role = interaction.options.getRole('role');
+
+  if (!user === !role) {
+    await interaction.editReply({
+      content: '<:tcet_cross:1437995480754946178> Choose either a user or a role.',
+    });
+    return null;
+  }
+
+  const panelId = interaction.options.getString('panel');
+  let panel: PanelData | null = null;
+  if (panelId) {
+    panel = await client.db.get<PanelData>(panelId);
+    if (!panel || panel.guildId !== interaction.guildId) {
+      await interaction.editReply({
+        content: '<:tcet_cross:1437995480754946178> Panel not found. Use `/ticket panel list` to see panel IDs.',
+      });
+      return null;
+    }
+  }
+
+  return user
+    ? { targetId: user.id, targetType: 'user', panel }
+    : { targetId: role!.id, targetType: 'role', panel };
+}
+
+async function handleBlacklistAdd(
+  interaction: ChatInputCommandInteraction,
+  client: BotClient
+): Promise<void> {
+  await interaction.deferReply({ flags: 1 << 6 }); // MessageFlags.Ephemeral
+
+  const target = await getBlacklistTarget(interaction, client);
+  if (!target) return;
+
+  const duration = interaction.options.getString('duration');
+  const durationMs = duration ? parseDuration(duration) : null;
+  if (duration && !durationMs) {
+    await interaction.editReply({
+      content: '<:tcet_cross:1437995480754946178> Invalid duration. Use a number followed by m, h, d or w - for example `12h` or `7d`.',
+    });
+    return;
+  }
+
+  const entry: BlacklistEntry = {
+    guildId: interaction.guildId!,
+    targetId: target.targetId,
+    targetType: target.targetType,
+    panelId: target.panel?.id,
+    reason: interaction.options.getString('reason') || undefined,
+    expiresAt: durationMs ? new Date(Date.now() + durationMs).toISOString() : undefined,
+    createdBy: interaction.user.id,
+    createdAt: new Date().toISOString(),
+  };
+  await client.db.saveBlacklistEntry(entry);
+
+  const mention = entry.targetType === 'user' ? `<@${entry.targetId}>` : `<@&${entry.targetId}>`;
+  const scope = target.panel ? target.panel.name || target.panel.id : 'All panels';
+  const expires = entry.expiresAt ? `<t:${Math.floor(new Date(entry.expiresAt).getTime() / 1000)}:R>` : 'Never';
+
+  const logEmbed = new EmbedBuilder()
+    .setTitle(`<:caution:1437997212008185866> ${entry.targetType === 'user' ? 'User' : 'Role'} Blacklisted`)
+    .setColor(0xED4245)
+    .addFields(
+      { name: 'Target', value: mention, inline: true },
+      { name: 'Blacklisted By', value: `<@${interaction.user.id}>`, inline: true },
+      { name: 'Scope', value: scope, inline: true },
+      { name: 'Expires', value: expires, inline: true },
+      { name: 'Reason', value: entry.reason || 'No reason given', inline: false }
+    )
+    .setTimestamp();
+  await logBlacklistChange(client, entry.guildId, entry.panelId, logEmbed);
+
+  await interaction.editReply({
+    content: `<:tcet_tick:1437995479567962184> ${mention} can no longer open tickets.\n**Scope:** ${scope}\n**Expires:** ${expires}`,
+  });
+}
+
+async function handleBlacklistRemove(
+  interaction: ChatInputCommandInteraction,
+  client: BotClient
+): Promise<void> {
+  await interaction.deferReply({ flags: 1 << 6 }); // MessageFlags.Ephemeral
+
+  const target = await getBlacklistTarget(interaction, client);
+  if (!target) return;
+
+  const removed = await client.db.deleteBlacklistEntry(interaction.guildId!, target.targetId, target.panel?.id);
+  const mention = target.targetType === 'user' ? `<@${target.targetId}>` : `<@&${target.targetId}>`;
+  const scope = target.panel ? target.panel.name || target.panel.id : 'All panels';
+
+  if (!removed) {
+    await interaction.editReply({
+      content: `<:tcet_cross:1437995480754946178> ${mention} is not blacklisted for ${target.panel ? scope : 'all panels'}.`,
+    });
+    return;
+  }
+
+  const logEmbed = new EmbedBuilder()
+    .setTitle('<:tcet_tick:1437995479567962184> Blacklist Entry Removed')
+    .setColor(0x57F287)
+    .addFields(
+      { name: 'Target', value: mention, inline: true },
+      { name: 'Removed By', value: `<@${interaction.user.id}>`, inline: true },
+      { name: 'Scope', value: scope, inline: true }
+    )
+    .setTimestamp();
+  await logBlacklistChange(client, interaction.guildId!, target.panel?.id, logEmbed);
+
+  await interaction.editReply({
+    content: `<:tcet_tick:1437995479567962184> ${mention} has been removed from the blacklist.`,
+  });
+}
+
+async function handleBlacklistList(
+  interaction: ChatInputCommandInteraction,
+  client: BotClient
+): Promise<void> {
+  await interaction.deferReply({ flags: 1 << 6 }); // MessageFlags.Ephemeral
+
+  const entries = (await client.db.getBlacklist(interaction.guildId!)).filter(entry => isBlacklistEntryActive(entry));
+  const panels = await client.db.getPanelsByGuild(interaction.guildId!);
+  const panelNames = new Map(panels.map(panel => [panel.id, panel.name]));
+
+  const lines = entries.map(entry => describeBlacklistEntry(entry, entry.panelId ? panelNames.get(entry.panelId) : undefined));
+  let description = lines.join('\n') || 'Nobody is blacklisted.';
+  if (description.length > 4000) {
+    description = `${description.slice(0, 3990)}\n…`;
+  }
+
+  const embed = new EmbedBuilder()
+    .setTitle('<:caution:1437997212008185866> Ticket Blacklist')
+    .setDescription(description)
+    .setColor(0xED4245)
+    .setFooter({ text: `${entries.length} active entr${entries.length === 1 ? 'y' : 'ies'}` })
+    .setTimestamp();
+
+  await interaction.editReply({ embeds: [embed] });
+}
+
 async function handleClearTicket(
   interaction: ChatInputCommandInteraction,
   client: BotClient
@@ -251,9 +689,9 @@ async function handleClearTicket(
 
   const user = interaction.options.getUser('user', true);
 
-  // Get all tickets for this user
-  const allTickets = await client.db.getAllTickets();
-  const userTickets = allTickets.filter((t: any) => t.owner === user.id);
+  // Get all tickets for this user in this server
+  const guildTickets = await client.db.getTicketsByGuild(interaction.guildId!);
+  const userTickets = guildTickets.filter((t: any) => t.owner === user.id);
 
   if (userTickets.length === 0) {
     await interaction.editReply({
@@ -263,14 +701,15 @@ async function handleClearTicket(
   }
 
   // Get all panels to show panel names
-  const allPanels = await client.db.getAllPanels();
-  const panelMap = new Map(allPanels.map(p => [p.id, p]));
+  const guildPanels = await client.db.getPanelsByGuild(interaction.guildId!);
+  const panelMap = new Map(guildPanels.map(p => [p.id, p]));
 
   // Create options for each ticket with panel info
   const options = await Promise.all(userTickets.map(async (ticket: any) => {
     const panel = panelMap.get(ticket.panelId);
     const panelName = panel?.name || 'Unknown Panel';
     const state = ticket.state === 'open' ? '🟢 Open' : '🔴 Closed';
+    const priority = PRIORITY_DETAILS[getTicketPriority(ticket)].label;
     
     // Try to get channel name
     let channelName = 'Unknown';
@@ -285,7 +724,7 @@ async function handleClearTicket(
 
     return {
       label: `${channelName} - ${panelName}`,
-      description: `${state} • Created: ${new Date(ticket.createdAt).toLocaleDateString()}`,
+      description: `${state} • ${priority} priority • Created: ${new Date(ticket.createdAt).toLocaleDateString()}`,
       value: ticket.id,
       emoji: state === '🟢 Open' ? '🟢' : '🔴'
     };
@@ -348,8 +787,7 @@ async function handleDeleteTicket(
   }
 
   // Find ticket by channel ID
-  const tickets = await client.db.getAllTickets();
-  const ticket = tickets.find((t: any) => t.channelId === channel.id);
+  const ticket = await client.db.getTicketByChannel(channel.id);
 
   if (!ticket) {
     await interaction.editReply({
@@ -360,100 +798,22 @@ async function handleDeleteTicket(
 
   // Check if user is staff or has manage channels permission
   const panel = await client.db.get<PanelData>(ticket.panelId);
-  const member = interaction.member as any;
-  const isStaff = member?.roles?.cache?.has(panel?.staffRole || '') || interaction.memberPermissions?.has('ManageChannels');
+  const hasManageChannels = interaction.memberPermissions?.has('ManageChannels') || false;
+  const canDelete = PermissionHelper.hasStaffLevel(interaction.member, panel, hasManageChannels, 'closer');
 
-  if (!isStaff) {
+  if (!canDelete) {
     await interaction.editReply({
-      content: '<:tcet_cross:1437995480754946178> **Only staff members can delete tickets.**',
+      content: '<:tcet_cross:1437995480754946178> **Only staff members who can close tickets can delete them.**',
     });
     return;
   }
 
   try {
-    // Import TextChannel type
-    const { TextChannel } = await import('discord.js');
-    
-    // Generate transcript before deleting if ticket is closed
-    if (ticket.state === 'closed' && channel instanceof TextChannel) {
-      const { generateProfessionalTranscript, createTranscriptEmbed } = await import('../modules/ticket/transcriptGenerator');
-      const ticketNumber = parseInt(ticket.id.split(':')[1]);
-      const owner = await client.users.fetch(ticket.owner);
-      
-      let staffName: string | undefined;
-      let staffId: string | undefined;
-      if (ticket.claimedBy) {
-        try {
-          const staff = await client.users.fetch(ticket.claimedBy);
-          staffName = staff.username;
-          staffId = staff.id;
-        } catch (error) {
-        }
-      }
-
-      const transcriptOptions = {
-        ticketId: ticket.id,
-        ticketNumber,
-        username: owner.username,
-        userId: owner.id,
-        staffName,
-        staffId,
-        panelName: panel?.name || 'Unknown Panel',
-        createdAt: new Date(ticket.createdAt),
-        closedAt: ticket.closedAt ? new Date(ticket.closedAt) : undefined
-      };
-
-      const attachment = await generateProfessionalTranscript(channel, transcriptOptions);
-      const transcriptEmbed = createTranscriptEmbed(transcriptOptions);
-
-      // Send transcript to transcript channel if configured
-      if (panel?.transcriptChannel) {
-        try {
-          const transcriptChannel = await client.channels.fetch(panel.transcriptChannel);
-          if (transcriptChannel?.isTextBased() && 'send' in transcriptChannel) {
-            await transcriptChannel.send({ 
-              content: '🗑️ **Ticket Deleted - Transcript Saved**',
-              embeds: [transcriptEmbed], 
-              files: [attachment] 
-            });
-          }
-        } catch (error) {
-        }
-      }
-
-      // Try to DM transcript to owner
-      try {
-        await owner.send({
-          content: `🗑️ **Your ticket has been deleted.** Here is the transcript:`,
-          embeds: [transcriptEmbed],
-          files: [attachment],
-        });
-      } catch (error) {
-      }
-    }
+    const { TicketHandler } = await import('../modules/ticket/ticketHandler');
+    const handler = new TicketHandler();
 
-    // Log to logs channel before deleting
-    if (panel?.logsChannel && 'name' in channel) {
-      try {
-        const logChannel = await client.channels.fetch(panel.logsChannel);
-        if (logChannel?.isTextBased() && 'send' in logChannel) {
-          const logEmbed = new EmbedBuilder()
-            .setTitle('🗑️ Ticket Deleted')
-            .setColor(0xED4245)
-            .addFields(
-              { name: 'Ticket', value: `\`#${channel.name}\``, inline: true },
-              { name: 'Deleted By', value: `<@${interaction.user.id}>`, inline: true },
-              { name: 'Owner', value: `<@${ticket.owner}>`, inline: true },
-              { name: 'Ticket ID', value: `\`${ticket.id}\``, inline: true },
-              { name: 'State', value: ticket.state, inline: true },
-              { name: 'Panel', value: panel.name || 'Unknown', inline: true }
-            )
-            .setTimestamp();
-          await logChannel.send({ embeds: [logEmbed] });
-        }
-      } catch (error) {
-      }
-    }
+    // Deliver the transcript (closed tickets only) and log before deleting
+    await handler.archiveBeforeDelete(client, ticket, panel, channel, interaction.user.id);
 
     // Send confirmation before deletion
     await interaction.editReply({
@@ -463,11 +823,8 @@ async function handleDeleteTicket(
     // Wait 3 seconds
     await new Promise(resolve => setTimeout(resolve, 3000));
 
-    // Delete ticket data
-    client.db.delete(ticket.id);
-
-    // Delete channel
-    await channel.delete();
+    // Delete ticket data and channel
+    await handler.removeTicket(client, ticket, channel, interaction.user.id);
   } catch (error) {
     await interaction.editReply({
       content: '<:tcet_cross:1437995480754946178> Failed to delete ticket. Please try again or delete the channel manually.',
@@ -490,8 +847,7 @@ async function handleClose(
   }
 
   // Find ticket by channel ID
-  const tickets = await client.db.getAllTickets();
-  const ticket = tickets.find((t: any) => t.channelId === channel.id);
+  const ticket = await client.db.getTicketByChannel(channel.id);
 
   if (!ticket) {
     await interaction.editReply({
@@ -525,7 +881,8 @@ async function handleClose(
   // Import TicketHandler dynamically
   const { TicketHandler } = await import('../modules/ticket/ticketHandler');
   const handler = new TicketHandler();
-  await handler.closeTicket(interaction, client, ticket.id);
+  const reason = interaction.options.getString('reason')?.trim() || undefined;
+  await handler.closeTicket(interaction, client, ticket.id, reason);
 }
 
 async function handleReopen(
@@ -543,8 +900,7 @@ async function handleReopen(
   }
 
   // Find ticket by channel ID
-  const tickets = await client.db.getAllTickets();
-  const ticket = tickets.find((t: any) => t.channelId === channel.id);
+  const ticket = await client.db.getTicketByChannel(channel.id);
 
   if (!ticket) {
     await interaction.editReply({
@@ -581,8 +937,7 @@ async function handleRename(
   }
 
   // Find ticket by channel ID
-  const tickets = await client.db.getAllTickets();
-  const ticket = tickets.find((t: any) => t.channelId === channel.id);
+  const ticket = await client.db.getTicketByChannel(channel.id);
 
   if (!ticket) {
     await interaction.editReply({
@@ -592,11 +947,13 @@ async function handleRename(
   }
 
   const newName = interaction.options.getString('name', true);
-  const sanitizedName = newName.toLowerCase().replace(/[^a-z0-9-]/g, '-');
+  const sanitizedName = withPriorityPrefix(newName.toLowerCase().replace(/[^a-z0-9-]/g, '-'), ticket.priority);
 
   try {
     if ('setName' in channel) {
+      const previousName = channel.name;
       await channel.setName(sanitizedName);
+      await recordTicketEvent(client, ticket, 'renamed', interaction.user.id, { from: previousName, to: sanitizedName });
       
       // Get panel for logging
       const panel = await client.db.get<PanelData>(ticket.panelId);
@@ -639,83 +996,150 @@ async function handleRename(
   }
 }
 
-async function handleAddUser(
+/**
+ * Shared checks for `/ticket add` and `/ticket remove`: a ticket channel, a staff member, and exactly one user or role.
+ * Replies with an error and returns null when any of them fails.
+ */
+async function getParticipantTarget(
   interaction: ChatInputCommandInteraction,
-  client: BotClient
-): Promise<void> {
-  await interaction.deferReply({ flags: 1 << 6 }); // MessageFlags.Ephemeral
-
+  client: BotClient,
+  action: 'add' | 'remove'
+): Promise<{ ticket: TicketData; panel: PanelData | null; channel: TicketChannel; target: { id: string; type: 'user' | 'role' } } | null> {
   const channel = interaction.channel;
-  if (!channel || !channel.isTextBased()) {
+  if (!PermissionHelper.isTicketChannel(channel)) {
     await interaction.editReply({
       content: '<:tcet_cross:1437995480754946178> This command can only be used in a ticket channel.',
     });
-    return;
+    return null;
   }
 
   // Find ticket by channel ID
-  const tickets = await client.db.getAllTickets();
-  const ticket = tickets.find((t: any) => t.channelId === channel.id);
+  const ticket = await client.db.getTicketByChannel(channel.id);
 
   if (!ticket) {
     await interaction.editReply({
       content: '<:tcet_cross:1437995480754946178> This is not a ticket channel.',
     });
-    return;
+    return null;
   }
 
   // Get panel to check staff role
   const panel = await client.db.get<PanelData>(ticket.panelId);
-  const member = interaction.member as any;
-  const isStaff = member?.roles?.cache?.has(panel?.staffRole || '') || interaction.memberPermissions?.has('ManageChannels');
+  const hasManageChannels = interaction.memberPermissions?.has('ManageChannels') || false;
+  const isStaff = PermissionHelper.isStaff(interaction.member, panel, hasManageChannels);
 
-  // Only staff can add users
+  // Only staff can manage participants
   if (!isStaff) {
     await interaction.editReply({
-      content: '<:tcet_cross:1437995480754946178> **Only staff members can add users to tickets.**\n\nYou must have the staff role or Manage Channels permission.',
+      content: `<:tcet_cross:1437995480754946178> **Only staff members can ${action} users ${action === 'add' ? 'to' : 'from'} tickets.**\n\nYou must have a staff role or Manage Channels permission.`,
     });
-    return;
+    return null;
   }
 
-  const user = interaction.options.getUser('user', true);
+  const user = interaction.options.getUser('user');
+  const role = interaction.options.getRole('role');
+  if (!user === !role) {
+    await interaction.editReply({
+      content: '<:tcet_cross:1437995480754946178> Choose either a user or a role.',
+    });
+    return null;
+  }
 
-  // Get panel to use configured permissions
-  const userPermissions = panel?.userPermissions || [];
+  if (user && (user.id === ticket.owner || user.id === client.user?.id)) {
+    await interaction.editReply({
+      content: `<:tcet_cross:1437995480754946178> ${user.id === ticket.owner ? 'The ticket owner' : 'The bot'} cannot be ${action === 'add' ? 'added' : 'removed'}.`,
+    });
+    return null;
+  }
 
-  try {
-    if ('permissionOverwrites' in channel) {
-      // Build permission object based on panel configuration
-      const permissions: any = {};
-      
-      if (userPermissions.length > 0) {
-        // Use configured permissions
-        for (const perm of userPermissions) {
-          permissions[perm] = true;
-        }
-      } else {
-        // Default permissions if none configured
-        permissions.ViewChannel = true;
-        permissions.SendMessages = true;
-        permissions.ReadMessageHistory = true;
-      }
+  // Threads only have members, so a role cannot be let into a thread ticket
+  if (role && PermissionHelper.isThread(channel)) {
+    await interaction.editReply({
+      content: `<:tcet_cross:1437995480754946178> Roles cannot be ${action === 'add' ? 'added to' : 'removed from'} thread tickets, only members.`,
+    });
+    return null;
+  }
 
-      await channel.permissionOverwrites.edit(user.id, permissions);
+  if (role && (role.id === interaction.guildId || PermissionHelper.getStaffRoles(panel).some(staffRole => staffRole.roleId === role.id))) {
+    await interaction.editReply({
+      content: `<:tcet_cross:1437995480754946178> ${role.id === interaction.guildId ? '@everyone' : 'The staff role'} cannot be ${action === 'add' ? 'added' : 'removed'}.`,
+    });
+    return null;
+  }
+
+  return {
+    ticket,
+    panel,
+    channel,
+    target: user ? { id: user.id, type: 'user' } : { id: role!.id, type: 'role' },
+  };
+}
+
+async function handleAddUser(
+  interaction: ChatInputCommandInteraction,
+  client: BotClient
+): Promise<void> {
+  await interaction.deferReply({ flags: 1 << 6 }); // MessageFlags.Ephemeral
 
+  const resolved = await getParticipantTarget(interaction, client, 'add');
+  if (!resolved) return;
+  const { ticket, panel, channel, target } = resolved;
+  const mention = formatParticipant(target);
+
+  try {
+    const added = await addTicketParticipant(client, ticket, panel, channel, target, interaction.user.id);
+    if (!added) {
       await interaction.editReply({
-        content: `<:tcet_tick:1437995479567962184> Added <@${user.id}> to the ticket.`,
+        content: `<:tcet_cross:1437995480754946178> ${mention} is already in this ticket.`,
       });
+      return;
+    }
 
-      await channel.send({
-        content: `<@${user.id}> has been added to the ticket by <@${interaction.user.id}>`,
-      });
-    } else {
+    await interaction.editReply({
+      content: `<:tcet_tick:1437995479567962184> Added ${mention} to the ticket.`,
+    });
+
+    await channel.send({
+      content: `${mention} has been added to the ticket by <@${interaction.user.id}>`,
+    });
+  } catch (error) {
+    await interaction.editReply({
+      content: `<:tcet_cross:1437995480754946178> Failed to add ${target.type}. Please check permissions.`,
+    });
+  }
+}
+
+async function handleRemoveUser(
+  interaction: ChatInputCommandInteraction,
+  client: BotClient
+): Promise<void> {
+  await interaction.deferReply({ flags: 1 << 6 }); // MessageFlags.Ephemeral
+
+  const resolved = await getParticipantTarget(interaction, client, 'remove');
+  if (!resolved) return;
+  const { ticket, channel, target } = resolved;
+  const mention = formatParticipant(target);
+
+  try {
+    const removed = await removeTicketParticipant(client, ticket, channel, target, interaction.user.id);
+    if (!removed) {
       await interaction.editReply({
-        content: '<:tcet_cross:1437995480754946178> Unable to modify permissions in this channel.',
+        content: `<:tcet_cross:1437995480754946178> ${mention} is not in this ticket.`,
       });
+      return;
     }
+
+    await interaction.editReply({
+      content: `<:tcet_tick:1437995479567962184> Removed ${mention} from the ticket.`,
+    });
+
+    await channel.send({
+      content: `${mention} has been removed from the ticket by <@${interaction.user.id}>`,
+      allowedMentions: { parse: [] },
+    });
   } catch (error) {
     await interaction.editReply({
-      content: '<:tcet_cross:1437995480754946178> Failed to add user. Please check permissions.',
+      content: `<:tcet_cross:1437995480754946178> Failed to remove ${target.type}. Please check permissions.`,
     });
   }
 }
@@ -735,8 +1159,7 @@ async function handleClaim(
   }
 
   // Find ticket by channel ID
-  const tickets = await client.db.getAllTickets();
-  const ticket = tickets.find((t: any) => t.channelId === channel.id);
+  const ticket = await client.db.getTicketByChannel(channel.id);
 
   if (!ticket) {
     await interaction.editReply({
@@ -747,8 +1170,8 @@ async function handleClaim(
 
   // Get panel to check staff role
   const panel = await client.db.get(ticket.panelId) as PanelData | null;
-  const member = interaction.member as any;
-  const isStaff = member?.roles?.cache?.has(panel?.staffRole || '') || interaction.memberPermissions?.has('ManageChannels');
+  const hasManageChannels = interaction.memberPermissions?.has('ManageChannels') || false;
+  const isStaff = PermissionHelper.isStaff(interaction.member, panel, hasManageChannels);
 
   if (!isStaff) {
     await interaction.editReply({
@@ -767,16 +1190,25 @@ async function handleClaim(
   // Update ticket
   ticket.claimedBy = interaction.user.id;
   client.db.save(ticket);
+  await recordTicketEvent(client, ticket, 'claimed', interaction.user.id);
 
   // Rename channel
   try {
     if ('setName' in channel) {
-      const newName = `claimed-${interaction.user.username}`.toLowerCase().replace(/[^a-z0-9-]/g, '-');
+      const newName = withPriorityPrefix(`claimed-${interaction.user.username}`.toLowerCase().replace(/[^a-z0-9-]/g, '-'), ticket.priority);
       await channel.setName(newName);
     }
   } catch (error) {
   }
 
+  if (panel) {
+    if (PermissionHelper.isTicketChannel(channel)) {
+      await applyExclusiveClaim(ticket, panel, channel);
+    }
+    const { TicketHandler } = await import('../modules/ticket/ticketHandler');
+    await new TicketHandler().updateWelcomeMessageButtons(channel, ticket, panel);
+  }
+
   // Send success embed (ephemeral to claimer)
   await interaction.editReply({
     content: '<:tcet_tick:1437995479567962184> **You have claimed this ticket.**\n\nYou are now responsible for helping the user.',
@@ -810,8 +1242,7 @@ async function handleUnclaim(
   }
 
   // Find ticket by channel ID
-  const tickets = await client.db.getAllTickets();
-  const ticket = tickets.find((t: any) => t.channelId === channel.id);
+  const ticket = await client.db.getTicketByChannel(channel.id);
 
   if (!ticket) {
     await interaction.editReply({
@@ -827,7 +1258,9 @@ async function handleUnclaim(
     return;
   }
 
-  if (ticket.claimedBy !== interaction.user.id && !interaction.memberPermissions?.has('ManageChannels')) {
+  const panel = await client.db.get<PanelData>(ticket.panelId);
+  const hasManageChannels = interaction.memberPermissions?.has('ManageChannels') || false;
+  if (ticket.claimedBy !== interaction.user.id && !PermissionHelper.hasStaffLevel(interaction.member, panel, hasManageChannels, 'manager')) {
     await interaction.editReply({
       content: '<:tcet_cross:1437995480754946178> You can only unclaim tickets that you claimed.',
     });
@@ -842,13 +1275,22 @@ async function handleUnclaim(
     // Update ticket
     ticket.claimedBy = undefined;
     client.db.save(ticket);
+    await recordTicketEvent(client, ticket, 'unclaimed', interaction.user.id, { previousClaimer: claimedBy });
 
     // Rename channel back to original
     if ('setName' in channel) {
-      const newName = `ticket-${owner.username}`.toLowerCase().replace(/[^a-z0-9-]/g, '-');
+      const newName = withPriorityPrefix(`ticket-${owner.username}`.toLowerCase().replace(/[^a-z0-9-]/g, '-'), ticket.priority);
       await channel.setName(newName);
     }
 
+    if (panel) {
+      if (PermissionHelper.isTicketChannel(channel)) {
+        await releaseExclusiveClaim(ticket, panel, channel, claimedBy);
+      }
+      const { TicketHandler } = await import('../modules/ticket/ticketHandler');
+      await new TicketHandler().updateWelcomeMessageButtons(channel, ticket, panel);
+    }
+
     // Send success embed (ephemeral to unclaimer)
     await interaction.editReply({
       content: '<:tcet_tick:1437995479567962184> **You have unclaimed this ticket.**\n\nOther staff members can now claim it.',
@@ -871,3 +1313,421 @@ async function handleUnclaim(
     });
   }
 }
+
+async function handleTransfer(
+  interaction: ChatInputCommandInteraction,
+  client: BotClient
+): Promise<void> {
+  await interaction.deferReply({ flags: 1 << 6 }); // MessageFlags.Ephemeral
+
+  const channel = interaction.channel;
+  const ticket = channel ? await client.db.getTicketByChannel(channel.id) : null;
+  if (!PermissionHelper.isTicketChannel(channel) || !ticket) {
+    await interaction.editReply({
+      content: '<:tcet_cross:1437995480754946178> This is not a ticket channel.',
+    });
+    return;
+  }
+
+  if (ticket.state !== 'open') {
+    await interaction.editReply({
+      content: '<:tcet_cross:1437995480754946178> Only open tickets can be transferred.',
+    });
+    return;
+  }
+
+  const panel = await client.db.get<PanelData>(ticket.panelId);
+  const hasManageChannels = interaction.memberPermissions?.has('ManageChannels') || false;
+  if (!panel || !PermissionHelper.isStaff(interaction.member, panel, hasManageChannels)) {
+    await interaction.editReply({
+      content: '<:tcet_cross:1437995480754946178> **Only staff members can transfer tickets.**',
+    });
+    return;
+  }
+
+  // Whoever holds the claim hands it on; senior staff (managers) can reassign anyone's ticket
+  const isSenior = PermissionHelper.hasStaffLevel(interaction.member, panel, hasManageChannels, 'manager');
+  if (ticket.claimedBy && ticket.claimedBy !== interaction.user.id && !isSenior) {
+    await interaction.editReply({
+      content: `<:tcet_cross:1437995480754946178> Only <@${ticket.claimedBy}> or senior staff can reassign this ticket. Use the **Request Transfer** button instead.`,
+    });
+    return;
+  }
+
+  const target = interaction.options.getUser('staff', true);
+  const targetMember = interaction.options.getMember('staff');
+  const targetHasManageChannels = targetMember instanceof GuildMember && targetMember.permissions.has(PermissionFlagsBits.ManageChannels);
+  if (target.bot || !(targetMember instanceof GuildMember) || !PermissionHelper.isStaff(targetMember, panel, targetHasManageChannels)) {
+    await interaction.editReply({
+      content: `<:tcet_cross:1437995480754946178> <@${target.id}> is not a staff member of this panel.`,
+    });
+    return;
+  }
+
+  if (ticket.claimedBy === target.id) {
+    await interaction.editReply({
+      content: `<:tcet_cross:1437995480754946178> <@${target.id}> already handles this ticket.`,
+    });
+    return;
+  }
+
+  const { TicketHandler } = await import('../modules/ticket/ticketHandler');
+  const handler = new TicketHandler();
+  await handler.transferClaim(client, ticket, panel, channel, target, interaction.user.id);
+
+  await interaction.editReply({
+    content: `<:tcet_tick:1437995479567962184> Ticket transferred to <@${target.id}>.`,
+  });
+}
+
+/**
+ * Find the ticket ID a history lookup refers to: an explicit ID, a per-guild number, or the current channel.
+ * Deleted tickets are only reachable through their events, so numbers fall back to the 'created' event.
+ */
+async function resolveHistoryTicketId(
+  interaction: ChatInputCommandInteraction,
+  client: BotClient
+): Promise<string | null> {
+  const guildId = interaction.guildId!;
+  const input = interaction.options.getString('ticket')?.trim();
+
+  if (!input) {
+    const ticket = interaction.channel ? await client.db.getTicketByChannel(interaction.channel.id) : null;
+    return ticket?.id ?? null;
+  }
+
+  if (input.startsWith('ticket:')) {
+    return input;
+  }
+
+  const number = parseInt(input.replace(/^#/, ''), 10);
+  if (isNaN(number)) {
+    return null;
+  }
+
+  const tickets = await client.db.getTicketsByGuild(guildId);
+  const ticket = tickets.find(t => getTicketNumber(t) === number);
+  if (ticket) {
+    return ticket.id;
+  }
+
+  const created = await client.db.getGuildEvents(guildId, { types: ['created'] });
+  return created.find(event => event.payload?.number === number)?.ticketId ?? null;
+}
+
+async function handlePriority(
+  interaction: ChatInputCommandInteraction,
+  client: BotClient
+): Promise<void> {
+  await interaction.deferReply({ flags: 1 << 6 }); // MessageFlags.Ephemeral
+
+  const channel = interaction.channel;
+  const ticket = channel ? await client.db.getTicketByChannel(channel.id) : null;
+  if (!PermissionHelper.isTicketChannel(channel) || !ticket) {
+    await interaction.editReply({
+      content: '<:tcet_cross:1437995480754946178> This is not a ticket channel.',
+    });
+    return;
+  }
+
+  if (ticket.state !== 'open') {
+    await interaction.editReply({
+      content: '<:tcet_cross:1437995480754946178> Only open tickets can have their priority changed.',
+    });
+    return;
+  }
+
+  const panel = await client.db.get<PanelData>(ticket.panelId);
+  const hasManageChannels = interaction.memberPermissions?.has('ManageChannels') || false;
+  const isStaff = PermissionHelper.isStaff(interaction.member, panel, hasManageChannels);
+  if (!panel || !isStaff) {
+    await interaction.editReply({
+      content: '<:tcet_cross:1437995480754946178> **Only staff members can change the priority.**',
+    });
+    return;
+  }
+
+  const priority = interaction.options.getString('level', true) as TicketPriority;
+  const { TicketHandler } = await import('../modules/ticket/ticketHandler');
+  const handler = new TicketHandler();
+  const changed = await handler.setPriority(client, ticket, panel, channel, priority, interaction.user.id);
+
+  await interaction.editReply({
+    content: changed
+      ? `<:tcet_tick:1437995479567962184> Priority set to **${formatPriority(priority)}**.`
+      : `<:tcet_cross:1437995480754946178> This ticket already has **${formatPriority(priority)}** priority.`,
+  });
+}
+
+async function handleMove(
+  interaction: ChatInputCommandInteraction,
+  client: BotClient
+): Promise<void> {
+  await interaction.deferReply({ flags: 1 << 6 }); // MessageFlags.Ephemeral
+
+  const channel = interaction.channel;
+  const ticket = channel ? await client.db.getTicketByChannel(channel.id) : null;
+  if (!PermissionHelper.isTicketChannel(channel) || !ticket) {
+    await interaction.editReply({
+      content: '<:tcet_cross:1437995480754946178> This is not a ticket channel.',
+    });
+    return;
+  }
+
+  if (ticket.state !== 'open') {
+    await interaction.editReply({
+      content: '<:tcet_cross:1437995480754946178> Reopen the ticket before moving it.',
+    });
+    return;
+  }
+
+  const panel = await client.db.get<PanelData>(ticket.panelId);
+  const hasManageChannels = interaction.memberPermissions?.has('ManageChannels') || false;
+  if (!PermissionHelper.isStaff(interaction.member, panel, hasManageChannels)) {
+    await interaction.editReply({
+      content: '<:tcet_cross:1437995480754946178> **Only staff members can move tickets.**',
+    });
+    return;
+  }
+
+  const query = interaction.options.getString('panel', true).trim();
+  const panels = await client.db.getPanelsByGuild(interaction.guildId!);
+  const target = panels.find(p => p.id === query) || panels.find(p => p.name?.toLowerCase() === query.toLowerCase());
+  if (!target) {
+    await interaction.editReply({
+      content: `<:tcet_cross:1437995480754946178> Panel "${query}" not found. Use \`/ticket panel list\` to see all panels.`,
+    });
+    return;
+  }
+
+  if (target.id === ticket.panelId) {
+    await interaction.editReply({
+      content: `<:tcet_cross:1437995480754946178> This ticket is already in **${target.name}**.`,
+    });
+    return;
+  }
+
+
+  const { TicketHandler } = await import('../modules/ticket/ticketHandler');
+  const handler = new TicketHandler();
+  const moved = await handler.moveTicket(client, ticket, panel, target, channel, interaction.user.id);
+
+  await interaction.editReply({
+    content: `<:tcet_tick:1437995479567962184> Ticket moved to **${target.name}**.` +
+      (moved ? '' : '\n⚠️ Note: Discord rate-limited the category change. The ticket now belongs to the new panel, but the channel may not have moved yet.'),
+  });
+}
+
+async function handleTicketList(
+  interaction: ChatInputCommandInteraction,
+  client: BotClient
+): Promise<void> {
+  await interaction.deferReply({ flags: 1 << 6 }); // MessageFlags.Ephemeral
+
+  const priority = interaction.options.getString('priority') as TicketPriority | null;
+  const state = interaction.options.getString('state') || 'open';
+  const panelId = interaction.options.getString('panel');
+
+  const panels = await client.db.getPanelsByGuild(interaction.guildId!);
+  const panelNames = new Map(panels.map(panel => [panel.id, panel.name || 'Unknown Panel']));
+
+  const tickets = (await client.db.getTicketsByGuild(interaction.guildId!))
+    .filter(ticket => state === 'all' || ticket.state === state)
+    .filter(ticket => !priority || getTicketPriority(ticket) === priority)
+    .filter(ticket => !panelId || ticket.panelId === panelId)
+    .sort(compareTicketsByPriority);
+
+  const lines = tickets.map(ticket => [
+    `${PRIORITY_DETAILS[getTicketPriority(ticket)].emoji} **#${getTicketNumber(ticket)}** <#${ticket.channelId}>`,
+    `<@${ticket.owner}>`,
+    panelNames.get(ticket.panelId) || 'Unknown Panel',
+    ticket.state === 'closed' ? 'closed' : `opened <t:${Math.floor(new Date(ticket.createdAt).getTime() / 1000)}:R>`,
+  ].join(' • '));
+
+  // Keep the most urgent tickets when the list does not fit
+  let description = '';
+  let shown = 0;
+  for (const line of lines) {
+    if (description.length + line.length + 1 > 4000) break;
+    description += `${description ? '\n' : ''}${line}`;
+    shown++;
+  }
+
+  const filters = [
+    state === 'all' ? 'all states' : state,
+    priority ? `${PRIORITY_DETAILS[priority].label.toLowerCase()} priority` : null,
+    panelId ? panelNames.get(panelId) || panelId : null,
+  ].filter(Boolean).join(', ');
+
+  const embed = new EmbedBuilder()
+    .setTitle('<:module:1437997093753983038> Tickets')
+    .setDescription(description || 'No tickets match these filters.')
+    .setColor(0x5865F2)
+    .setFooter({ text: `${shown < tickets.length ? `Showing ${shown} of ${tickets.length}` : `${tickets.length} ticket(s)`} • ${filters}` })
+    .setTimestamp();
+
+  await interaction.editReply({ embeds: [embed] });
+}
+
+async function handleSla(
+  interaction: ChatInputCommandInteraction,
+  client: BotClient
+): Promise<void> {
+  await interaction.deferReply({ flags: 1 << 6 }); // MessageFlags.Ephemeral
+
+  const panelId = interaction.options.getString('panel');
+  const days = interaction.options.getInteger('days');
+  const since = days ? new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString() : undefined;
+
+  const panels = (await client.db.getPanelsByGuild(interaction.guildId!))
+    .filter(panel => !panelId || panel.id === panelId);
+  const results = await computeSlaCompliance(client, interaction.guildId!, panels, since);
+
+  if (results.length === 0) {
+    await interaction.editReply({
+      content: panelId
+        ? '<:tcet_cross:1437995480754946178> That panel does not exist or has no SLA targets.'
+        : '<:tcet_cross:1437995480754946178> No panel has SLA targets. Set them under Extra Config → Automation.',
+    });
+    return;
+  }
+
+  const embed = new EmbedBuilder()
+    .setTitle('<:module:1437997093753983038> SLA Compliance')
+    .setColor(0x5865F2)
+    .addFields(results.slice(0, 25).map(result => ({
+      name: result.panel.name || 'Unknown Panel',
+      value: [
+        result.panel.sla?.firstResponseMinutes
+          ? `**First response** (${formatSlaTarget(result.panel, 'first-response')}): ${formatCompliance(result.firstResponse)}`
+          : null,
+        result.panel.sla?.resolutionHours
+          ? `**Resolution** (${formatSlaTarget(result.panel, 'resolution')}): ${formatCompliance(result.resolution)}`
+          : null,
+      ].filter(Boolean).join('\n'),
+      inline: false,
+    })))
+    .setFooter({ text: days ? `Tickets opened in the last ${days} day(s)` : 'All time' })
+    .setTimestamp();
+
+  await interaction.editReply({ embeds: [embed] });
+}
+
+/**
+ * Parse a YYYY-MM-DD date option as midnight UTC
+ */
+function parseDateOption(value: string | null): Date | null | undefined {
+  if (!value) return undefined;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value.trim())) return null;
+
+  const date = new Date(`${value.trim()}T00:00:00.000Z`);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+async function handleStats(
+  interaction: ChatInputCommandInteraction,
+  client: BotClient
+): Promise<void> {
+  await interaction.deferReply({ flags: 1 << 6 }); // MessageFlags.Ephemeral
+
+  const panelId = interaction.options.getString('panel');
+  const staff = interaction.options.getUser('staff');
+  const view = (interaction.options.getString('view') || (staff ? 'staff' : panelId ? 'panel' : 'guild')) as StatsView;
+  const days = interaction.options.getInteger('days');
+  const from = parseDateOption(interaction.options.getString('from'));
+  const to = parseDateOption(interaction.options.getString('to'));
+
+  if (from === null || to === null) {
+    await interaction.editReply({ content: '<:tcet_cross:1437995480754946178> Dates must look like `2026-01-31`.' });
+    return;
+  }
+
+  if (days && from) {
+    await interaction.editReply({ content: '<:tcet_cross:1437995480754946178> Use either `days` or `from`, not both.' });
+    return;
+  }
+
+  // `to` includes the whole day
+  const until = to ? new Date(to.getTime() + 24 * 60 * 60 * 1000) : undefined;
+  const since = from ?? (days ? new Date(Date.now() - days * 24 * 60 * 60 * 1000) : undefined);
+
+  if (since && until && since >= until) {
+    await interaction.editReply({ content: '<:tcet_cross:1437995480754946178> The start date must be before the end date.' });
+    return;
+  }
+
+  let targetId: string | undefined;
+  if (view === 'panel') {
+    const panel = panelId ? await client.db.get<PanelData>(panelId) : null;
+    if (!panel || panel.guildId !== interaction.guildId) {
+      await interaction.editReply({
+        content: '<:tcet_cross:1437995480754946178> The panel view needs a valid `panel` ID. Use `/ticket panel list` to find it.',
+      });
+      return;
+    }
+    targetId = panel.id;
+  } else if (view === 'staff') {
+    targetId = staff?.id;
+  }
+
+  await interaction.editReply(await buildStatsPage(client, interaction.guildId!, {
+    view,
+    targetId,
+    since: since?.toISOString(),
+    until: until?.toISOString(),
+  }, 0));
+}
+
+async function handleHistory(
+  interaction: ChatInputCommandInteraction,
+  client: BotClient
+): Promise<void> {
+  await interaction.deferReply({ flags: 1 << 6 }); // MessageFlags.Ephemeral
+
+  const ticketId = await resolveHistoryTicketId(interaction, client);
+  if (!ticketId) {
+    await interaction.editReply({
+      content: '<:tcet_cross:1437995480754946178> Ticket not found. Run this in a ticket channel or pass a ticket number.',
+    });
+    return;
+  }
+
+  // Never show another guild's history, even when given its raw ID
+  const events = (await client.db.getTicketEvents(ticketId))
+    .filter(event => event.guildId === interaction.guildId);
+
+  if (events.length === 0) {
+    await interaction.editReply({
+      content: '<:tcet_cross:1437995480754946178> No history has been recorded for this ticket.',
+    });
+    return;
+  }
+
+  const ticket = await client.db.get<TicketData>(ticketId);
+  const number = ticket
+    ? getTicketNumber(ticket)
+    : events.find(event => event.type === 'created')?.payload?.number ?? ticketId.split(':')[1];
+
+  // Keep the newest entries when the timeline outgrows an embed description
+  const lines: string[] = [];
+  let length = 0;
+  for (const event of [...events].reverse()) {
+    const line = formatTicketEvent(event);
+    if (length + line.length + 1 > 4000) break;
+    lines.unshift(line);
+    length += line.length + 1;
+  }
+
+  const embed = new EmbedBuilder()
+    .setTitle(`<:k9logging:1437996243803705354> Ticket #${number} History`)
+    .setDescription(lines.join('\n'))
+    .setColor(0x5865F2)
+    .setFooter({
+      text: lines.length < events.length
+        ? `Showing the latest ${lines.length} of ${events.length} events`
+        : `${events.length} event${events.length === 1 ? '' : 's'}${ticket ? '' : ' • ticket deleted'}`,
+    })
+    .setTimestamp();
+
+  await interaction.editReply({ embeds: [embed] });
+}
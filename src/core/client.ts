@@ -1,8 +1,9 @@
 import { Client, Collection, GatewayIntentBits, Partials } from 'discord.js';
-import PostgresDB from './db/postgresDB';
+import { createStorage } from './db';
+import { StorageAdapter } from './db/storage';
 
 export interface BotClient extends Client {
-  db: PostgresDB;
+  db: StorageAdapter;
   commands: Collection<string, any>;
 }
 
@@ -13,6 +14,7 @@ export function createClient(): BotClient {
       GatewayIntentBits.GuildMessages,
       GatewayIntentBits.GuildMembers,
       GatewayIntentBits.MessageContent,
+      GatewayIntentBits.DirectMessages, // Modmail
     ],
     partials: [
       Partials.Channel,
@@ -22,8 +24,8 @@ export function createClient(): BotClient {
     ],
   }) as BotClient;
 
-  // Initialize PostgreSQL cloud database
-  client.db = new PostgresDB();
+  // Initialize the configured database backend (PostgreSQL or SQLite)
+  client.db = createStorage();
   
   // Initialize commands collection
   client.commands = new Collection();
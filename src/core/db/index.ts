@@ -0,0 +1,33 @@
+import MemoryDB from './memoryDB';
+import PostgresDB from './postgresDB';
+import SqliteDB from './sqliteDB';
+import { StorageAdapter } from './storage';
+
+export type DatabaseType = 'postgres' | 'sqlite' | 'memory';
+
+/**
+ * Pick the storage backend from the environment.
+ * DATABASE_TYPE wins when set; otherwise PostgreSQL is used if DATABASE_URL is present and SQLite if not.
+ * `memory` keeps everything in process memory and loses it on restart.
+ */
+export function createStorage(env: NodeJS.ProcessEnv = process.env): StorageAdapter {
+  const configured = env.DATABASE_TYPE?.toLowerCase();
+
+  if (configured && !['postgres', 'postgresql', 'sqlite', 'memory'].includes(configured)) {
+    throw new Error(`Unsupported DATABASE_TYPE "${env.DATABASE_TYPE}" (expected "postgres", "sqlite" or "memory")`);
+  }
+
+  const type: DatabaseType = configured
+    ? (configured === 'postgresql' ? 'postgres' : configured as DatabaseType)
+    : (env.DATABASE_URL ? 'postgres' : 'sqlite');
+
+  if (type === 'memory') {
+    return new MemoryDB();
+  }
+
+  if (type === 'postgres') {
+    return new PostgresDB(env.DATABASE_URL);
+  }
+
+  return new SqliteDB(env.DATABASE_PATH);
+}
@@ -0,0 +1,430 @@
+import {
+  BaseStorage,
+  BlacklistEntry,
+  DatabaseStatus,
+  RelayedMessage,
+  RecordType,
+  StoredData,
+  PanelData,
+  TicketData,
+  TicketEvent,
+  TicketEventQuery,
+  TicketParticipant,
+  TicketPriority,
+  SlaBreach,
+  TicketRating,
+  PanelGroup,
+  parseRecordId,
+} from './storage';
+
+/**
+ * In-memory storage backend used by the test suite and for quick local experiments.
+ * Records are cloned on the way in and out, so callers never share state with the store.
+ */
+class MemoryDB extends BaseStorage {
+  // Insertion order doubles as update order: save() re-inserts the key
+  private records: Map<string, any> = new Map();
+  private sequences: Record<'panel' | 'ticket', number> = { panel: 1000, ticket: 1000 };
+  private guildCounters: Map<string, number> = new Map();
+  private events: TicketEvent[] = [];
+  private blacklist: Map<string, BlacklistEntry> = new Map();
+  private relayed: Map<string, RelayedMessage> = new Map();
+  private completedTasks: Set<string> = new Set();
+  private isConnected: boolean = true;
+
+  /**
+   * Check if the database is connected
+   */
+  isConnectionReady(): boolean {
+    return this.isConnected;
+  }
+
+  /**
+   * Save any data object (insert or update)
+   */
+  async save<T extends StoredData>(data: T): Promise<void> {
+    const record = data as any;
+    if (!parseRecordId(record.id)) {
+      throw new Error(`Cannot save record of unknown type: ${record.type}`);
+    }
+
+    this.records.delete(record.id);
+    this.records.set(record.id, structuredClone(record));
+  }
+
+  /**
+   * Get a specific object by ID
+   */
+  async get<T extends StoredData>(id: string): Promise<T | null> {
+    const record = this.records.get(id);
+    return record ? structuredClone(record) : null;
+  }
+
+  /**
+   * Get all objects of a specific type, most recently updated first
+   */
+  async getByType<T extends StoredData>(type: RecordType): Promise<T[]> {
+    return this.filter<T>(record => record.type === type);
+  }
+
+  /**
+   * Delete an object by ID
+   */
+  async delete(id: string): Promise<void> {
+    this.records.delete(id);
+
+    const parsed = parseRecordId(id);
+    if (parsed?.type === 'config') {
+      this.clearPrefixCache(parsed.key);
+    }
+
+    // Same as the ON DELETE CASCADE foreign key on relayed_messages in the SQL backends
+    if (parsed?.type === 'ticket') {
+      for (const [sourceId, relayed] of this.relayed) {
+        if (relayed.ticketId === id) this.relayed.delete(sourceId);
+      }
+    }
+
+    // Same as the ON DELETE SET NULL foreign key in the SQL backends
+    if (parsed?.type === 'panel') {
+      for (const record of this.records.values()) {
+        if (record.type === 'ticket' && record.panelId === id) {
+          record.panelId = '';
+        }
+      }
+    }
+  }
+
+  private filter<T>(predicate: (record: any) => boolean): T[] {
+    return [...this.records.values()]
+      .filter(predicate)
+      .reverse()
+      .map(record => structuredClone(record));
+  }
+
+  /**
+   * Get all panels belonging to a guild
+   */
+  async getPanelsByGuild(guildId: string): Promise<PanelData[]> {
+    return this.filter<PanelData>(record => record.type === 'panel' && record.guildId === guildId);
+  }
+
+  /**
+   * Get all tickets belonging to a guild
+   */
+  async getTicketsByGuild(guildId: string): Promise<TicketData[]> {
+    return this.filter<TicketData>(record => record.type === 'ticket' && record.guildId === guildId);
+  }
+
+  /**
+   * Get the ticket bound to a channel
+   */
+  async getTicketByChannel(channelId: string): Promise<TicketData | null> {
+    const [ticket] = this.filter<TicketData>(record => record.type === 'ticket' && record.channelId === channelId);
+    return ticket ?? null;
+  }
+
+  /**
+   * Get tickets for a specific panel
+   */
+  async getTicketsByPanel(panelId: string): Promise<TicketData[]> {
+    return this.filter<TicketData>(record => record.type === 'ticket' && record.panelId === panelId);
+  }
+
+  /**
+   * Get open tickets for a specific user and panel
+   */
+  async getOpenTicketsForUser(userId: string, panelId: string): Promise<TicketData[]> {
+    return this.filter<TicketData>(record =>
+      record.type === 'ticket' && record.owner === userId && record.panelId === panelId && record.state === 'open'
+    );
+  }
+
+  /**
+   * Get a user's open tickets across every panel in a guild
+   */
+  async getOpenTicketsByOwner(guildId: string, userId: string): Promise<TicketData[]> {
+    return this.filter<TicketData>(record =>
+      record.type === 'ticket' && record.guildId === guildId && record.owner === userId && record.state === 'open'
+    ).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * Get the user's most recently opened modmail ticket that is still open, in any guild
+   */
+  async getOpenModmailTicket(userId: string): Promise<TicketData | null> {
+    const [ticket] = this.filter<TicketData>(record =>
+      record.type === 'ticket' && record.modmail && record.owner === userId && record.state === 'open'
+    ).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    return ticket ?? null;
+  }
+
+  /**
+   * Count open tickets on a panel
+   */
+  async countOpenTicketsByPanel(panelId: string): Promise<number> {
+    return this.filter(record => record.type === 'ticket' && record.panelId === panelId && record.state === 'open').length;
+  }
+
+  /**
+   * Record owner activity on an open ticket and cancel any pending inactivity warning.
+   * Only touches the activity columns, so it cannot overwrite a concurrent save().
+   */
+  async touchTicketActivity(ticketId: string, at: string): Promise<void> {
+    const ticket = this.records.get(ticketId);
+    if (ticket?.type === 'ticket' && ticket.state === 'open') {
+      ticket.lastActivityAt = at;
+      delete ticket.inactivityWarnedAt;
+    }
+  }
+
+  /**
+   * Record that the owner was asked whether they still need help. Only applies while the ticket is
+   * open and its activity is still what the sweep read, so a reply that landed meanwhile wins.
+   */
+  async markInactivityWarned(ticketId: string, at: string, lastActivityAt?: string): Promise<boolean> {
+    const ticket = this.records.get(ticketId);
+    if (ticket?.type !== 'ticket' || ticket.state !== 'open' || ticket.lastActivityAt !== lastActivityAt) return false;
+    ticket.inactivityWarnedAt = at;
+    return true;
+  }
+
+  /**
+   * Remember when a transcript was delivered, without touching the rest of the ticket
+   */
+  async markTranscriptSent(ticketId: string, at: string): Promise<void> {
+    const ticket = this.records.get(ticketId);
+    if (ticket?.type === 'ticket') {
+      ticket.transcriptSentAt = at;
+    }
+  }
+
+  /**
+   * Replace a ticket's participant list, without touching the rest of the ticket
+   */
+  async setTicketParticipants(ticketId: string, participants: TicketParticipant[]): Promise<void> {
+    const ticket = this.records.get(ticketId);
+    if (ticket?.type === 'ticket') {
+      ticket.participants = structuredClone(participants);
+    }
+  }
+
+  /**
+   * Change a ticket's priority, without touching the rest of the ticket
+   */
+  async setTicketPriority(ticketId: string, priority: TicketPriority): Promise<void> {
+    const ticket = this.records.get(ticketId);
+    if (ticket?.type === 'ticket') {
+      ticket.priority = priority;
+    }
+  }
+
+  /**
+   * Store the first staff reply. Returns false when one was already stored.
+   */
+  async markFirstResponse(ticketId: string, at: string, staffId: string): Promise<boolean> {
+    const ticket = this.records.get(ticketId);
+    if (ticket?.type !== 'ticket' || ticket.firstResponseAt) return false;
+    ticket.firstResponseAt = at;
+    ticket.firstResponseBy = staffId;
+    return true;
+  }
+
+  /**
+   * Remember that an SLA target was missed, without touching the rest of the ticket
+   */
+  async markSlaBreach(ticketId: string, breach: SlaBreach): Promise<void> {
+    const ticket = this.records.get(ticketId);
+    if (ticket?.type === 'ticket' && !ticket.slaBreaches?.includes(breach)) {
+      ticket.slaBreaches = [...(ticket.slaBreaches || []), breach];
+    }
+  }
+
+  /**
+   * Store the owner's rating. Returns false when the ticket was already rated.
+   */
+  async rateTicket(ticketId: string, rating: TicketRating): Promise<boolean> {
+    const ticket = this.records.get(ticketId);
+    if (ticket?.type !== 'ticket' || ticket.rating) return false;
+    ticket.rating = structuredClone(rating);
+    return true;
+  }
+
+  /**
+   * Merge changes into an existing rating, such as the feedback left after the stars
+   */
+  async updateTicketRating(ticketId: string, changes: Partial<TicketRating>): Promise<void> {
+    const ticket = this.records.get(ticketId);
+    if (ticket?.type === 'ticket' && ticket.rating) {
+      ticket.rating = { ...ticket.rating, ...structuredClone(changes) };
+    }
+  }
+
+  /**
+   * Remember where a modmail message was relayed to
+   */
+  async saveRelayedMessage(relayed: RelayedMessage): Promise<void> {
+    this.relayed.set(relayed.sourceId, structuredClone(relayed));
+  }
+
+  /**
+   * Find the relayed copy of a modmail message
+   */
+  async getRelayedMessage(sourceId: string): Promise<RelayedMessage | null> {
+    const relayed = this.relayed.get(sourceId);
+    return relayed ? structuredClone(relayed) : null;
+  }
+
+  /**
+   * Check whether a one-time job has already run
+   */
+  async hasCompletedTask(name: string): Promise<boolean> {
+    return this.completedTasks.has(name);
+  }
+
+  /**
+   * Remember that a one-time job has run
+   */
+  async markTaskCompleted(name: string): Promise<void> {
+    this.completedTasks.add(name);
+  }
+
+  /**
+   * Generate a unique panel ID
+   */
+  async generatePanelId(): Promise<string> {
+    return `panel:${++this.sequences.panel}`;
+  }
+
+  /**
+   * Generate a unique ticket ID
+   */
+  async generateTicketId(): Promise<string> {
+    return `ticket:${++this.sequences.ticket}`;
+  }
+
+  /**
+   * Allocate the next human-facing ticket number for a guild (1, 2, 3, ...)
+   */
+  async nextTicketNumber(guildId: string): Promise<number> {
+    const next = (this.guildCounters.get(guildId) || 0) + 1;
+    this.guildCounters.set(guildId, next);
+    return next;
+  }
+
+  /**
+   * Get templates saved from a specific guild
+   */
+  async getTemplatesByGuild(guildId: string): Promise<any[]> {
+    return this.filter(record => record.type === 'template' && record.guildId === guildId);
+  }
+
+  /**
+   * Get the panel groups of a guild, oldest first
+   */
+  async getPanelGroupsByGuild(guildId: string): Promise<PanelGroup[]> {
+    return this.filter<PanelGroup>(record => record.type === 'group' && record.guildId === guildId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * Append an entry to a ticket's audit trail
+   */
+  async addTicketEvent(event: Omit<TicketEvent, 'id' | 'createdAt'> & { createdAt?: string }): Promise<void> {
+    this.events.push(structuredClone({
+      ...event,
+      id: this.events.length + 1,
+      createdAt: event.createdAt ?? new Date().toISOString(),
+    }));
+  }
+
+  /**
+   * Get a ticket's audit trail, oldest first
+   */
+  async getTicketEvents(ticketId: string): Promise<TicketEvent[]> {
+    return this.sortedEvents(event => event.ticketId === ticketId);
+  }
+
+  /**
+   * Get a guild's ticket events, oldest first, optionally filtered by time range and type
+   */
+  async getGuildEvents(guildId: string, query: TicketEventQuery = {}): Promise<TicketEvent[]> {
+    const events = this.sortedEvents(event =>
+      event.guildId === guildId &&
+      (!query.since || event.createdAt >= query.since) &&
+      (!query.until || event.createdAt < query.until) &&
+      (!query.types || query.types.includes(event.type))
+    );
+    return query.limit !== undefined ? events.slice(0, query.limit) : events;
+  }
+
+  /**
+   * Add or replace a blacklist entry (one per target and scope)
+   */
+  async saveBlacklistEntry(entry: BlacklistEntry): Promise<void> {
+    this.blacklist.set(`${entry.guildId}:${entry.targetId}:${entry.panelId ?? ''}`, structuredClone(entry));
+  }
+
+  /**
+   * Remove a blacklist entry; returns whether one existed
+   */
+  async deleteBlacklistEntry(guildId: string, targetId: string, panelId?: string): Promise<boolean> {
+    return this.blacklist.delete(`${guildId}:${targetId}:${panelId ?? ''}`);
+  }
+
+  /**
+   * Get every blacklist entry of a guild, including expired ones
+   */
+  async getBlacklist(guildId: string): Promise<BlacklistEntry[]> {
+    return [...this.blacklist.values()]
+      .filter(entry => entry.guildId === guildId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map(entry => structuredClone(entry));
+  }
+
+  private sortedEvents(predicate: (event: TicketEvent) => boolean): TicketEvent[] {
+    return this.events
+      .filter(predicate)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.id! - b.id!)
+      .map(event => structuredClone(event));
+  }
+
+  /**
+   * Collect counts for /status
+   */
+  async getStatus(guildId: string | null): Promise<DatabaseStatus> {
+    const tickets = guildId ? await this.getTicketsByGuild(guildId) : [];
+    const panels = guildId ? await this.getPanelsByGuild(guildId) : [];
+
+    return {
+      connected: this.isConnected,
+      engine: 'In-memory',
+      totalRecords: this.records.size,
+      panels: panels.length,
+      tickets: tickets.length,
+      openTickets: tickets.filter(t => t.state === 'open').length,
+      closedTickets: tickets.filter(t => t.state === 'closed').length,
+      storage: 'N/A',
+      totalStorage: 'N/A',
+      host: 'local',
+      port: 'N/A',
+      dbName: 'in-memory',
+      dbVersion: 'N/A',
+      maxConnections: 1,
+      activeConnections: 1,
+      responseTime: 0
+    };
+  }
+
+  /**
+   * Drop all records
+   */
+  async close(): Promise<void> {
+    this.records.clear();
+    this.events = [];
+    this.blacklist.clear();
+    this.isConnected = false;
+  }
+}
+
+export default MemoryDB;
@@ -0,0 +1,379 @@
+import { PoolClient } from 'pg';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+}
+
+/**
+ * Numbered schema migrations, applied in order at startup.
+ * Never edit a migration that has shipped - add a new one instead.
+ */
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'create_relational_schema',
+    up: `
+      CREATE TABLE IF NOT EXISTS guild_configs (
+        guild_id TEXT PRIMARY KEY,
+        prefix TEXT NOT NULL DEFAULT '$',
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+
+      -- guild_id is NULL only for legacy panels whose guild could not be resolved yet
+      CREATE TABLE IF NOT EXISTS panels (
+        id TEXT PRIMARY KEY,
+        guild_id TEXT,
+        name TEXT,
+        channel_id TEXT,
+        message_id TEXT,
+        enabled BOOLEAN NOT NULL DEFAULT TRUE,
+        tickets_created INTEGER NOT NULL DEFAULT 0,
+        settings JSONB NOT NULL DEFAULT '{}'::jsonb,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+      CREATE INDEX IF NOT EXISTS idx_panels_guild ON panels(guild_id);
+
+      CREATE TABLE IF NOT EXISTS tickets (
+        id TEXT PRIMARY KEY,
+        guild_id TEXT,
+        panel_id TEXT REFERENCES panels(id) ON DELETE SET NULL,
+        owner_id TEXT NOT NULL,
+        channel_id TEXT NOT NULL UNIQUE,
+        state TEXT NOT NULL DEFAULT 'open' CHECK (state IN ('open', 'closed')),
+        claimed_by TEXT,
+        welcome_message_id TEXT,
+        close_message_id TEXT,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        closed_at TIMESTAMPTZ,
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+      CREATE INDEX IF NOT EXISTS idx_tickets_guild_state ON tickets(guild_id, state);
+      CREATE INDEX IF NOT EXISTS idx_tickets_panel_state ON tickets(panel_id, state);
+      CREATE INDEX IF NOT EXISTS idx_tickets_owner_state ON tickets(owner_id, state);
+      CREATE INDEX IF NOT EXISTS idx_tickets_claimed_by ON tickets(claimed_by);
+
+      CREATE TABLE IF NOT EXISTS ticket_events (
+        id BIGSERIAL PRIMARY KEY,
+        ticket_id TEXT NOT NULL REFERENCES tickets(id) ON DELETE CASCADE,
+        guild_id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        actor_id TEXT,
+        payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+      CREATE INDEX IF NOT EXISTS idx_ticket_events_ticket ON ticket_events(ticket_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_ticket_events_guild ON ticket_events(guild_id, created_at);
+
+      CREATE TABLE IF NOT EXISTS templates (
+        id TEXT PRIMARY KEY,
+        guild_id TEXT NOT NULL,
+        name TEXT,
+        data JSONB NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+      CREATE INDEX IF NOT EXISTS idx_templates_guild ON templates(guild_id);
+
+      CREATE TABLE IF NOT EXISTS autosaves (
+        user_id TEXT PRIMARY KEY,
+        data JSONB NOT NULL,
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+    `,
+  },
+  {
+    version: 2,
+    name: 'move_jsonb_data_rows',
+    // Copies every row of the old single `data` table into the relational tables,
+    // then keeps the old table around as `legacy_data` so nothing is lost.
+    up: `
+      DO $$
+      BEGIN
+        IF to_regclass('public.data') IS NOT NULL THEN
+          INSERT INTO guild_configs (guild_id, prefix, updated_at)
+          SELECT data->>'guildId', COALESCE(data->>'prefix', '$'), "updatedAt"
+          FROM data
+          WHERE type = 'config' AND data->>'guildId' IS NOT NULL
+          ON CONFLICT DO NOTHING;
+
+          INSERT INTO panels (id, guild_id, name, channel_id, message_id, enabled, tickets_created, settings, updated_at)
+          SELECT
+            id,
+            data->>'guildId',
+            data->>'name',
+            data->>'channel',
+            data->>'messageId',
+            COALESCE((data->>'enabled')::boolean, TRUE),
+            COALESCE((data->>'ticketsCreated')::integer, 0),
+            data - 'id' - 'type' - 'guildId' - 'name' - 'channel' - 'messageId' - 'enabled' - 'ticketsCreated',
+            "updatedAt"
+          FROM data
+          WHERE type = 'panel'
+          ON CONFLICT DO NOTHING;
+
+          INSERT INTO tickets (
+            id, guild_id, panel_id, owner_id, channel_id, state, claimed_by,
+            welcome_message_id, close_message_id, created_at, closed_at, updated_at
+          )
+          SELECT
+            d.id,
+            COALESCE(d.data->>'guildId', p.guild_id),
+            p.id,
+            d.data->>'owner',
+            d.data->>'channelId',
+            COALESCE(d.data->>'state', 'open'),
+            d.data->>'claimedBy',
+            d.data->>'welcomeMessageId',
+            d.data->>'closeMessageId',
+            COALESCE((d.data->>'createdAt')::timestamptz, d."updatedAt"),
+            (d.data->>'closedAt')::timestamptz,
+            d."updatedAt"
+          FROM data d
+          LEFT JOIN panels p ON p.id = d.data->>'panelId'
+          WHERE d.type = 'ticket' AND d.data->>'owner' IS NOT NULL AND d.data->>'channelId' IS NOT NULL
+          ON CONFLICT DO NOTHING;
+
+          INSERT INTO templates (id, guild_id, name, data, created_at, updated_at)
+          SELECT
+            id,
+            COALESCE(data->>'guildId', data->>'originalGuild', 'unknown'),
+            data->>'name',
+            data - 'id' - 'type',
+            COALESCE((data->>'createdAt')::timestamptz, "updatedAt"),
+            "updatedAt"
+          FROM data
+          WHERE type = 'template'
+          ON CONFLICT DO NOTHING;
+
+          INSERT INTO autosaves (user_id, data, updated_at)
+          SELECT data->>'userId', data - 'id' - 'type', "updatedAt"
+          FROM data
+          WHERE type = 'autosave' AND data->>'userId' IS NOT NULL
+          ON CONFLICT DO NOTHING;
+
+          ALTER TABLE data RENAME TO legacy_data;
+        END IF;
+      END
+      $$;
+    `,
+  },
+  {
+    version: 3,
+    name: 'atomic_id_allocation',
+    // IDs come from sequences seeded past the highest existing ID; ticket numbers
+    // count up per guild through guild_counters, starting from the existing tickets.
+    up: `
+      CREATE SEQUENCE IF NOT EXISTS panel_id_seq MINVALUE 1001 START 1001;
+      CREATE SEQUENCE IF NOT EXISTS ticket_id_seq MINVALUE 1001 START 1001;
+
+      SELECT setval('panel_id_seq', GREATEST(1000, MAX(split_part(id, ':', 2)::bigint)) + 1, false)
+      FROM panels WHERE id ~ '^panel:[0-9]+$';
+      SELECT setval('ticket_id_seq', GREATEST(1000, MAX(split_part(id, ':', 2)::bigint)) + 1, false)
+      FROM tickets WHERE id ~ '^ticket:[0-9]+$';
+
+      ALTER TABLE tickets ADD COLUMN IF NOT EXISTS number INTEGER;
+
+      UPDATE tickets t SET number = numbered.rn
+      FROM (
+        SELECT id, ROW_NUMBER() OVER (PARTITION BY guild_id ORDER BY created_at, id) AS rn
+        FROM tickets
+        WHERE guild_id IS NOT NULL
+      ) numbered
+      WHERE t.id = numbered.id;
+
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_tickets_guild_number ON tickets(guild_id, number);
+
+      CREATE TABLE IF NOT EXISTS guild_counters (
+        guild_id TEXT PRIMARY KEY,
+        last_ticket_number INTEGER NOT NULL DEFAULT 0
+      );
+
+      INSERT INTO guild_counters (guild_id, last_ticket_number)
+      SELECT guild_id, MAX(number) FROM tickets WHERE guild_id IS NOT NULL GROUP BY guild_id
+      ON CONFLICT (guild_id) DO UPDATE SET last_ticket_number = EXCLUDED.last_ticket_number;
+    `,
+  },
+  {
+    version: 4,
+    name: 'keep_events_after_ticket_delete',
+    // The audit trail must survive `/ticket delete`, so events no longer cascade with their ticket
+    up: `
+      ALTER TABLE ticket_events DROP CONSTRAINT IF EXISTS ticket_events_ticket_id_fkey;
+      CREATE INDEX IF NOT EXISTS idx_ticket_events_guild_type ON ticket_events(guild_id, type, created_at);
+    `,
+  },
+  {
+    version: 5,
+    name: 'track_ticket_activity',
+    up: `
+      ALTER TABLE tickets ADD COLUMN IF NOT EXISTS last_activity_at TIMESTAMPTZ;
+      ALTER TABLE tickets ADD COLUMN IF NOT EXISTS inactivity_warned_at TIMESTAMPTZ;
+      -- Existing tickets start their inactivity clock now rather than being closed on the first sweep
+      UPDATE tickets SET last_activity_at = NOW() WHERE last_activity_at IS NULL AND state = 'open';
+    `,
+  },
+  {
+    version: 6,
+    name: 'track_transcript_delivery',
+    up: `
+      ALTER TABLE tickets ADD COLUMN IF NOT EXISTS transcript_sent_at TIMESTAMPTZ;
+      CREATE INDEX IF NOT EXISTS idx_tickets_state_closed_at ON tickets(state, closed_at);
+    `,
+  },
+  {
+    version: 7,
+    name: 'create_blacklist',
+    up: `
+      CREATE TABLE IF NOT EXISTS blacklist (
+        guild_id TEXT NOT NULL,
+        target_id TEXT NOT NULL,
+        -- Empty string for guild-wide entries so the primary key stays usable for upserts
+        panel_id TEXT NOT NULL DEFAULT '',
+        target_type TEXT NOT NULL CHECK (target_type IN ('user', 'role')),
+        reason TEXT,
+        expires_at TIMESTAMPTZ,
+        created_by TEXT NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        PRIMARY KEY (guild_id, target_id, panel_id)
+      );
+    `,
+  },
+  {
+    version: 8,
+    name: 'track_ticket_participants',
+    up: `
+      ALTER TABLE tickets ADD COLUMN IF NOT EXISTS participants JSONB;
+    `,
+  },
+  {
+    version: 9,
+    name: 'add_ticket_priority',
+    up: `
+      ALTER TABLE tickets ADD COLUMN IF NOT EXISTS priority TEXT
+        CHECK (priority IN ('low', 'normal', 'high', 'urgent'));
+    `,
+  },
+  {
+    version: 10,
+    name: 'track_sla',
+    up: `
+      ALTER TABLE tickets ADD COLUMN IF NOT EXISTS first_response_at TIMESTAMPTZ;
+      ALTER TABLE tickets ADD COLUMN IF NOT EXISTS first_response_by TEXT;
+      ALTER TABLE tickets ADD COLUMN IF NOT EXISTS sla_breaches JSONB;
+    `,
+  },
+  {
+    version: 11,
+    name: 'add_ticket_rating',
+    up: `
+      ALTER TABLE tickets ADD COLUMN IF NOT EXISTS rating JSONB;
+    `,
+  },
+  {
+    version: 12,
+    name: 'add_close_reason',
+    up: `
+      ALTER TABLE tickets ADD COLUMN IF NOT EXISTS close_reason TEXT;
+    `,
+  },
+  {
+    version: 13,
+    name: 'add_modmail',
+    up: `
+      ALTER TABLE tickets ADD COLUMN IF NOT EXISTS modmail BOOLEAN NOT NULL DEFAULT FALSE;
+      CREATE INDEX IF NOT EXISTS idx_tickets_modmail_owner ON tickets(owner_id, state) WHERE modmail;
+      CREATE TABLE IF NOT EXISTS relayed_messages (
+        source_id TEXT PRIMARY KEY,
+        copy_id TEXT NOT NULL,
+        copy_channel_id TEXT NOT NULL,
+        ticket_id TEXT NOT NULL REFERENCES tickets(id) ON DELETE CASCADE
+      );
+    `,
+  },
+  {
+    version: 14,
+    name: 'add_panel_groups',
+    up: `
+      CREATE TABLE IF NOT EXISTS panel_groups (
+        id TEXT PRIMARY KEY,
+        guild_id TEXT NOT NULL,
+        channel_id TEXT,
+        message_id TEXT,
+        data JSONB NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+      CREATE INDEX IF NOT EXISTS idx_panel_groups_guild ON panel_groups(guild_id);
+    `,
+  },
+  {
+    version: 15,
+    name: 'add_ticket_answers',
+    up: `
+      ALTER TABLE tickets ADD COLUMN IF NOT EXISTS answers JSONB;
+    `,
+  },
+  {
+    version: 16,
+    name: 'track_completed_tasks',
+    up: `
+      -- One-time startup jobs that need Discord, such as the guild backfill, so they are not rerun on every boot
+      CREATE TABLE IF NOT EXISTS completed_tasks (
+        name TEXT PRIMARY KEY,
+        completed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+    `,
+  },
+];
+
+// Arbitrary constant used with pg_advisory_lock so that only one bot instance migrates at a time
+const MIGRATION_LOCK_ID = 724_310_001;
+
+/**
+ * Apply all pending migrations and record them in schema_migrations.
+ * Each migration runs in its own transaction.
+ * Returns the number of migrations applied.
+ */
+export async function runMigrations(client: PoolClient): Promise<number> {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `);
+
+  await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_ID]);
+  try {
+    const result = await client.query('SELECT version FROM schema_migrations');
+    const applied = new Set<number>(result.rows.map(row => Number(row.version)));
+
+    let count = 0;
+    for (const migration of [...migrations].sort((a, b) => a.version - b.version)) {
+      if (applied.has(migration.version)) continue;
+
+      try {
+        await client.query('BEGIN');
+        await client.query(migration.up);
+        await client.query(
+          'INSERT INTO schema_migrations (version, name) VALUES ($1, $2)',
+          [migration.version, migration.name]
+        );
+        await client.query('COMMIT');
+      } catch (error: any) {
+        await client.query('ROLLBACK').catch(() => {});
+        throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${error.message}`);
+      }
+
+      console.log(`📐 Applied migration ${migration.version}: ${migration.name}`);
+      count++;
+    }
+
+    return count;
+  } finally {
+    await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_ID]).catch(() => {});
+  }
+}
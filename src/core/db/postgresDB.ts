@@ -1,90 +1,173 @@
 import { Pool, PoolClient } from 'pg';
 import { ErrorHandler } from '../errorHandler';
+import { runMigrations } from './migrations';
+import {
+  BlacklistEntry,
+  BaseStorage,
+  DatabaseStatus,
+  disconnectedStatus,
+  RelayedMessage,
+  RecordType,
+  StoredData,
+  PanelData,
+  TicketData,
+  AutosaveData,
+  GuildConfig,
+  TicketEvent,
+  TicketEventQuery,
+  TicketParticipant,
+  TicketPriority,
+  SlaBreach,
+  TicketRating,
+  PanelGroup,
+  parseRecordId,
+} from './storage';
+
+const TABLES: Record<RecordType, string> = {
+  panel: 'panels',
+  ticket: 'tickets',
+  autosave: 'autosaves',
+  config: 'guild_configs',
+  template: 'templates',
+  group: 'panel_groups',
+};
+
+const toIso = (value: Date | string | null | undefined): string | undefined =>
+  value ? new Date(value).toISOString() : undefined;
+
+function rowToPanel(row: any): PanelData {
+  return {
+    ...row.settings,
+    id: row.id,
+    type: 'panel',
+    guildId: row.guild_id ?? undefined,
+    name: row.name ?? undefined,
+    channel: row.channel_id ?? undefined,
+    messageId: row.message_id ?? undefined,
+    enabled: row.enabled,
+    ticketsCreated: row.tickets_created,
+  };
+}
+
+function rowToTicket(row: any): TicketData {
+  return {
+    id: row.id,
+    type: 'ticket',
+    guildId: row.guild_id ?? undefined,
+    number: row.number ?? undefined,
+    owner: row.owner_id,
+    panelId: row.panel_id ?? '',
+    channelId: row.channel_id,
+    state: row.state,
+    claimedBy: row.claimed_by ?? undefined,
+    createdAt: toIso(row.created_at)!,
+    closedAt: toIso(row.closed_at),
+    welcomeMessageId: row.welcome_message_id ?? undefined,
+    closeMessageId: row.close_message_id ?? undefined,
+    lastActivityAt: toIso(row.last_activity_at),
+    inactivityWarnedAt: toIso(row.inactivity_warned_at),
+    transcriptSentAt: toIso(row.transcript_sent_at),
+    participants: row.participants ?? undefined,
+    priority: row.priority ?? undefined,
+    firstResponseAt: toIso(row.first_response_at),
+    firstResponseBy: row.first_response_by ?? undefined,
+    slaBreaches: row.sla_breaches ?? undefined,
+    rating: row.rating ?? undefined,
+    closeReason: row.close_reason ?? undefined,
+    modmail: row.modmail || undefined,
+    answers: row.answers ?? undefined,
+  };
+}
 
-export interface DataRow {
-  id: string;
-  type: 'panel' | 'ticket' | 'autosave' | 'config' | 'template';
-  data: string;
-  updatedAt: string;
+function rowToAutosave(row: any): AutosaveData {
+  return {
+    ...row.data,
+    id: `autosave:${row.user_id}`,
+    type: 'autosave',
+    userId: row.user_id,
+  };
 }
 
-export interface CustomQuestion {
-  text: string;
-  type: 'primary' | 'optional';
+function rowToGuildConfig(row: any): GuildConfig {
+  return {
+    id: `config:${row.guild_id}`,
+    type: 'config',
+    guildId: row.guild_id,
+    prefix: row.prefix,
+    updatedAt: toIso(row.updated_at)!,
+  };
 }
 
-export interface PanelData {
-  id: string;
-  type: 'panel';
-  name?: string;
-  channel?: string;
-  openCategory?: string;
-  closeCategory?: string;
-  staffRole?: string;
-  logsChannel?: string;
-  transcriptChannel?: string;
-  label: string;
-  emoji: string;
-  color: 'Primary' | 'Secondary' | 'Success' | 'Danger';
-  description: string;
-  openMessage: string;
-  questions: string[]; // Legacy support
-  customQuestions?: CustomQuestion[];
-  claimable: boolean;
-  allowOwnerClose?: boolean;
-  enabled: boolean;
-  messageId?: string;
-  ticketsCreated?: number;
-  userPermissions?: string[];
-  staffPermissions?: string[];
-  editChanges?: string[]; // Track changes during editing
+function rowToTemplate(row: any): any {
+  return {
+    ...row.data,
+    id: row.id,
+    type: 'template',
+    guildId: row.guild_id,
+  };
 }
 
-export interface TicketData {
-  id: string;
-  type: 'ticket';
-  owner: string;
-  panelId: string;
-  channelId: string;
-  state: 'open' | 'closed';
-  claimedBy?: string;
-  createdAt: string;
-  closedAt?: string;
-  welcomeMessageId?: string;
-  closeMessageId?: string;
+function rowToPanelGroup(row: any): PanelGroup {
+  return {
+    ...row.data,
+    id: row.id,
+    type: 'group',
+    guildId: row.guild_id,
+    channel: row.channel_id ?? undefined,
+    messageId: row.message_id ?? undefined,
+  };
 }
 
-export interface AutosaveData {
-  id: string;
-  type: 'autosave';
-  userId: string;
-  panelId?: string;
-  data: Partial<PanelData>;
-  tempPanel?: PanelData;
-  startedAt: string;
-  editChanges?: string[]; // Track changes during editing
+function rowToEvent(row: any): TicketEvent {
+  return {
+    id: Number(row.id),
+    ticketId: row.ticket_id,
+    guildId: row.guild_id,
+    type: row.type,
+    actorId: row.actor_id ?? undefined,
+    payload: row.payload,
+    createdAt: toIso(row.created_at)!,
+  };
 }
 
-export interface GuildConfig {
-  id: string;
-  type: 'config';
-  guildId: string;
-  prefix: string;
-  updatedAt: string;
+function rowToBlacklistEntry(row: any): BlacklistEntry {
+  return {
+    guildId: row.guild_id,
+    targetId: row.target_id,
+    targetType: row.target_type,
+    panelId: row.panel_id || undefined,
+    reason: row.reason ?? undefined,
+    expiresAt: toIso(row.expires_at),
+    createdBy: row.created_by,
+    createdAt: toIso(row.created_at)!,
+  };
 }
 
-export type StoredData = PanelData | TicketData | AutosaveData | GuildConfig;
+function rowToRelayedMessage(row: any): RelayedMessage {
+  return {
+    sourceId: row.source_id,
+    copyId: row.copy_id,
+    copyChannelId: row.copy_channel_id,
+    ticketId: row.ticket_id,
+  };
+}
+
+const ROW_MAPPERS: Record<RecordType, (row: any) => any> = {
+  panel: rowToPanel,
+  ticket: rowToTicket,
+  autosave: rowToAutosave,
+  config: rowToGuildConfig,
+  template: rowToTemplate,
+  group: rowToPanelGroup,
+};
 
-class PostgresDB {
+class PostgresDB extends BaseStorage {
   private pool: Pool;
   private isConnected: boolean = false;
-  
-  // Caching layer to reduce database queries
-  private prefixCache: Map<string, { prefix: string; cachedAt: number }> = new Map();
-  private panelCache: Map<string, { panel: PanelData; cachedAt: number }> = new Map();
-  private readonly CACHE_TTL = 5 * 60 * 1000; // 5 minutes
 
   constructor(connectionString?: string) {
+    super();
+
     const dbUrl = connectionString || process.env.DATABASE_URL;
     
     if (!dbUrl) {
@@ -149,27 +232,11 @@ class PostgresDB {
     for (let attempt = 1; attempt <= retries; attempt++) {
       try {
         client = await this.pool.connect();
-        
-        const createTable = `
-          CREATE TABLE IF NOT EXISTS data (
-            id TEXT PRIMARY KEY,
-            type TEXT NOT NULL,
-            data JSONB NOT NULL,
-            "updatedAt" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
-          )
-        `;
-        
-        const createIndexes = `
-          CREATE INDEX IF NOT EXISTS idx_type ON data(type);
-          CREATE INDEX IF NOT EXISTS idx_updated ON data("updatedAt");
-          CREATE INDEX IF NOT EXISTS idx_data_gin ON data USING gin(data);
-        `;
-        
-        await client.query(createTable);
-        await client.query(createIndexes);
+
+        const applied = await runMigrations(client);
         
         this.isConnected = true;
-        console.log('✅ Database tables initialized');
+        console.log(`✅ Database schema up to date (${applied} migration(s) applied)`);
         
         return; // Success, exit retry loop
         
@@ -200,20 +267,9 @@ class PostgresDB {
   }
 
   /**
-   * Wait for database to be ready (with timeout)
+   * Run a query once the schema is ready
    */
-  async waitForConnection(timeoutMs: number = 30000): Promise<boolean> {
-    const startTime = Date.now();
-    while (!this.isConnected && Date.now() - startTime < timeoutMs) {
-      await new Promise(resolve => setTimeout(resolve, 500));
-    }
-    return this.isConnected;
-  }
-
-  /**
-   * Save any data object to the database
-   */
-  async save<T extends StoredData>(data: T): Promise<void> {
+  private async query(text: string, params: any[] = []): Promise<any[]> {
     if (!this.isConnected) {
       const connected = await this.waitForConnection(5000);
       if (!connected) {
@@ -221,20 +277,109 @@ class PostgresDB {
       }
     }
 
-    const client = await this.pool.connect();
-    try {
-      const now = new Date().toISOString();
-      await client.query(
-        `INSERT INTO data (id, type, data, "updatedAt")
-         VALUES ($1, $2, $3, $4)
-         ON CONFLICT (id) DO UPDATE 
-         SET data = $3, "updatedAt" = $4`,
-        [data.id, data.type, JSON.stringify(data), now]
-      );
-    } catch (error: any) {
-      throw error;
-    } finally {
-      client.release();
+    const result = await this.pool.query(text, params);
+    return result.rows;
+  }
+
+  /**
+   * Save any data object to its table (insert or update)
+   */
+  async save<T extends StoredData>(data: T): Promise<void> {
+    const record = data as any;
+
+    switch (record.type as RecordType) {
+      case 'panel': {
+        const { id, type, guildId, name, channel, messageId, enabled, ticketsCreated, ...settings } = record as PanelData;
+        await this.query(
+          `INSERT INTO panels (id, guild_id, name, channel_id, message_id, enabled, tickets_created, settings, updated_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW())
+           ON CONFLICT (id) DO UPDATE SET
+             guild_id = EXCLUDED.guild_id, name = EXCLUDED.name, channel_id = EXCLUDED.channel_id,
+             message_id = EXCLUDED.message_id, enabled = EXCLUDED.enabled,
+             tickets_created = EXCLUDED.tickets_created, settings = EXCLUDED.settings, updated_at = NOW()`,
+          [id, guildId ?? null, name ?? null, channel ?? null, messageId ?? null, enabled !== false, ticketsCreated || 0, JSON.stringify(settings)]
+        );
+        break;
+      }
+      case 'ticket': {
+        const ticket = record as TicketData;
+        await this.query(
+          `INSERT INTO tickets (
+             id, guild_id, panel_id, owner_id, channel_id, state, claimed_by,
+             welcome_message_id, close_message_id, created_at, closed_at, number,
+             last_activity_at, inactivity_warned_at, transcript_sent_at, participants, priority,
+             first_response_at, first_response_by, sla_breaches, rating, close_reason, modmail, answers, updated_at
+           )
+           -- A ticket can outlive its panel, so a dangling panel ID is stored as NULL
+           VALUES ($1, $2, (SELECT id FROM panels WHERE id = $3), $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, NOW())
+           ON CONFLICT (id) DO UPDATE SET
+             guild_id = EXCLUDED.guild_id, panel_id = EXCLUDED.panel_id, owner_id = EXCLUDED.owner_id, number = EXCLUDED.number,
+             channel_id = EXCLUDED.channel_id, state = EXCLUDED.state, claimed_by = EXCLUDED.claimed_by,
+             welcome_message_id = EXCLUDED.welcome_message_id, close_message_id = EXCLUDED.close_message_id,
+             created_at = EXCLUDED.created_at, closed_at = EXCLUDED.closed_at,
+             last_activity_at = EXCLUDED.last_activity_at, inactivity_warned_at = EXCLUDED.inactivity_warned_at,
+             transcript_sent_at = EXCLUDED.transcript_sent_at, participants = EXCLUDED.participants,
+             priority = EXCLUDED.priority, first_response_at = EXCLUDED.first_response_at,
+             first_response_by = EXCLUDED.first_response_by, sla_breaches = EXCLUDED.sla_breaches,
+             rating = EXCLUDED.rating, close_reason = EXCLUDED.close_reason, modmail = EXCLUDED.modmail,
+             answers = EXCLUDED.answers, updated_at = NOW()`,
+          [
+            ticket.id, ticket.guildId ?? null, ticket.panelId || null, ticket.owner, ticket.channelId, ticket.state,
+            ticket.claimedBy ?? null, ticket.welcomeMessageId ?? null, ticket.closeMessageId ?? null,
+            ticket.createdAt, ticket.closedAt ?? null, ticket.number ?? null,
+            ticket.lastActivityAt ?? null, ticket.inactivityWarnedAt ?? null, ticket.transcriptSentAt ?? null,
+            ticket.participants?.length ? JSON.stringify(ticket.participants) : null, ticket.priority ?? null,
+            ticket.firstResponseAt ?? null, ticket.firstResponseBy ?? null,
+            ticket.slaBreaches?.length ? JSON.stringify(ticket.slaBreaches) : null,
+            ticket.rating ? JSON.stringify(ticket.rating) : null, ticket.closeReason ?? null, !!ticket.modmail,
+            ticket.answers?.length ? JSON.stringify(ticket.answers) : null,
+          ]
+        );
+        break;
+      }
+      case 'autosave': {
+        const { id, type, ...autosave } = record as AutosaveData;
+        await this.query(
+          `INSERT INTO autosaves (user_id, data, updated_at) VALUES ($1, $2, NOW())
+           ON CONFLICT (user_id) DO UPDATE SET data = EXCLUDED.data, updated_at = NOW()`,
+          [autosave.userId, JSON.stringify(autosave)]
+        );
+        break;
+      }
+      case 'config': {
+        const config = record as GuildConfig;
+        await this.query(
+          `INSERT INTO guild_configs (guild_id, prefix, updated_at) VALUES ($1, $2, $3)
+           ON CONFLICT (guild_id) DO UPDATE SET prefix = EXCLUDED.prefix, updated_at = EXCLUDED.updated_at`,
+          [config.guildId, config.prefix, config.updatedAt]
+        );
+        break;
+      }
+      case 'template': {
+        const { id, type, guildId, ...template } = record;
+        await this.query(
+          `INSERT INTO templates (id, guild_id, name, data, created_at, updated_at)
+           VALUES ($1, $2, $3, $4, COALESCE($5::timestamptz, NOW()), NOW())
+           ON CONFLICT (id) DO UPDATE SET
+             guild_id = EXCLUDED.guild_id, name = EXCLUDED.name, data = EXCLUDED.data, updated_at = NOW()`,
+          [id, guildId || template.originalGuild || 'unknown', template.name ?? null, JSON.stringify(template), template.createdAt ?? null]
+        );
+        break;
+      }
+      case 'group': {
+        const { id, type, guildId, channel, messageId, ...group } = record as PanelGroup;
+        await this.query(
+          `INSERT INTO panel_groups (id, guild_id, channel_id, message_id, data, created_at, updated_at)
+           VALUES ($1, $2, $3, $4, $5, $6, NOW())
+           ON CONFLICT (id) DO UPDATE SET
+             guild_id = EXCLUDED.guild_id, channel_id = EXCLUDED.channel_id, message_id = EXCLUDED.message_id,
+             data = EXCLUDED.data, updated_at = NOW()`,
+          [id, guildId, channel ?? null, messageId ?? null, JSON.stringify(group), group.createdAt]
+        );
+        break;
+      }
+      default:
+        throw new Error(`Cannot save record of unknown type: ${record.type}`);
     }
   }
 
@@ -242,101 +387,85 @@ class PostgresDB {
    * Get a specific object by ID
    */
   async get<T extends StoredData>(id: string): Promise<T | null> {
-    if (!this.isConnected) {
-      const connected = await this.waitForConnection(5000);
-      if (!connected) {
-        throw new Error('Database connection not available');
-      }
-    }
+    const parsed = parseRecordId(id);
+    if (!parsed) return null;
 
-    const client = await this.pool.connect();
-    try {
-      const result = await client.query(
-        'SELECT * FROM data WHERE id = $1',
-        [id]
-      );
-      
-      if (result.rows.length === 0) return null;
-      
-      const row = result.rows[0];
-      // data is already parsed as JSONB from PostgreSQL
-      return typeof row.data === 'string' ? JSON.parse(row.data) : row.data;
-    } catch (error: any) {
-      throw error;
-    } finally {
-      client.release();
-    }
+    const keyColumn = parsed.type === 'autosave' ? 'user_id' : parsed.type === 'config' ? 'guild_id' : 'id';
+    const rows = await this.query(
+      `SELECT * FROM ${TABLES[parsed.type]} WHERE ${keyColumn} = $1`,
+      [parsed.key]
+    );
+
+    if (rows.length === 0) return null;
+    return ROW_MAPPERS[parsed.type](rows[0]);
   }
 
   /**
    * Get all objects of a specific type
    */
-  async getByType<T extends StoredData>(type: DataRow['type']): Promise<T[]> {
-    const client = await this.pool.connect();
-    try {
-      const result = await client.query(
-        'SELECT * FROM data WHERE type = $1 ORDER BY "updatedAt" DESC',
-        [type]
-      );
-      
-      return result.rows.map(row => {
-        // data is already parsed as JSONB from PostgreSQL
-        return typeof row.data === 'string' ? JSON.parse(row.data) : row.data;
-      });
-    } catch (error: any) {
-      throw error;
-    } finally {
-      client.release();
-    }
+  async getByType<T extends StoredData>(type: RecordType): Promise<T[]> {
+    const rows = await this.query(`SELECT * FROM ${TABLES[type]} ORDER BY updated_at DESC`);
+    return rows.map(ROW_MAPPERS[type]);
   }
 
   /**
    * Delete an object by ID
    */
   async delete(id: string): Promise<void> {
-    const client = await this.pool.connect();
-    try {
-      await client.query('DELETE FROM data WHERE id = $1', [id]);
-    } catch (error: any) {
-      throw error;
-    } finally {
-      client.release();
+    const parsed = parseRecordId(id);
+    if (!parsed) return;
+
+    const keyColumn = parsed.type === 'autosave' ? 'user_id' : parsed.type === 'config' ? 'guild_id' : 'id';
+    await this.query(`DELETE FROM ${TABLES[parsed.type]} WHERE ${keyColumn} = $1`, [parsed.key]);
+
+    if (parsed.type === 'config') {
+      this.clearPrefixCache(parsed.key);
     }
   }
 
   /**
-   * Get all panels
+   * Get all panels belonging to a guild
    */
-  async getAllPanels(): Promise<PanelData[]> {
-    return this.getByType<PanelData>('panel');
+  async getPanelsByGuild(guildId: string): Promise<PanelData[]> {
+    const rows = await this.query(
+      'SELECT * FROM panels WHERE guild_id = $1 ORDER BY updated_at DESC',
+      [guildId]
+    );
+    return rows.map(rowToPanel);
   }
 
   /**
-   * Get all tickets
+   * Get all tickets belonging to a guild
    */
-  async getAllTickets(): Promise<TicketData[]> {
-    return this.getByType<TicketData>('ticket');
+  async getTicketsByGuild(guildId: string): Promise<TicketData[]> {
+    const rows = await this.query(
+      'SELECT * FROM tickets WHERE guild_id = $1 ORDER BY updated_at DESC',
+      [guildId]
+    );
+    return rows.map(rowToTicket);
+  }
+
+  /**
+   * Get the ticket bound to a channel
+   */
+  async getTicketByChannel(channelId: string): Promise<TicketData | null> {
+    const rows = await this.query('SELECT * FROM tickets WHERE channel_id = $1', [channelId]);
+    return rows.length > 0 ? rowToTicket(rows[0]) : null;
   }
 
   /**
    * Get tickets for a specific panel
    */
   async getTicketsByPanel(panelId: string): Promise<TicketData[]> {
-    const client = await this.pool.connect();
     try {
-      const result = await client.query(
-        `SELECT * FROM data WHERE type = 'ticket' AND data->>'panelId' = $1 ORDER BY "updatedAt" DESC`,
+      const rows = await this.query(
+        'SELECT * FROM tickets WHERE panel_id = $1 ORDER BY updated_at DESC',
         [panelId]
       );
-      
-      return result.rows.map(row => {
-        return typeof row.data === 'string' ? JSON.parse(row.data) : row.data;
-      });
+      return rows.map(rowToTicket);
     } catch (error: any) {
       ErrorHandler.handle(error, 'Get tickets by panel');
       throw error;
-    } finally {
-      client.release();
     }
   }
   
@@ -344,61 +473,89 @@ class PostgresDB {
    * Get open tickets for a specific user and panel (optimized query)
    */
   async getOpenTicketsForUser(userId: string, panelId: string): Promise<TicketData[]> {
-    const client = await this.pool.connect();
     try {
-      const result = await client.query(
-        `SELECT * FROM data 
-         WHERE type = 'ticket' 
-         AND data->>'owner' = $1 
-         AND data->>'panelId' = $2 
-         AND data->>'state' = 'open'
-         ORDER BY "updatedAt" DESC`,
+      const rows = await this.query(
+        `SELECT * FROM tickets
+         WHERE owner_id = $1 AND panel_id = $2 AND state = 'open'
+         ORDER BY updated_at DESC`,
         [userId, panelId]
       );
-      
-      return result.rows.map(row => {
-        return typeof row.data === 'string' ? JSON.parse(row.data) : row.data;
-      });
+      return rows.map(rowToTicket);
     } catch (error: any) {
       ErrorHandler.handle(error, 'Get open tickets for user');
       return [];
-    } finally {
-      client.release();
     }
   }
 
   /**
-   * Get autosave for a specific user
+   * Get a user's open tickets across every panel in a guild
    */
-  async getAutosave(userId: string): Promise<AutosaveData | null> {
-    return this.get<AutosaveData>(`autosave:${userId}`);
+  async getOpenTicketsByOwner(guildId: string, userId: string): Promise<TicketData[]> {
+    try {
+      const rows = await this.query(
+        `SELECT * FROM tickets
+         WHERE guild_id = $1 AND owner_id = $2 AND state = 'open'
+         ORDER BY created_at`,
+        [guildId, userId]
+      );
+      return rows.map(rowToTicket);
+    } catch (error: any) {
+      ErrorHandler.handle(error, 'Get open tickets by owner');
+      return [];
+    }
   }
 
   /**
-   * Delete autosave for a user
+   * Get the user's most recently opened modmail ticket that is still open, in any guild
    */
-  async deleteAutosave(userId: string): Promise<void> {
-    await this.delete(`autosave:${userId}`);
+  async getOpenModmailTicket(userId: string): Promise<TicketData | null> {
+    const rows = await this.query(
+      `SELECT * FROM tickets
+       WHERE owner_id = $1 AND state = 'open' AND modmail
+       ORDER BY created_at DESC LIMIT 1`,
+      [userId]
+    );
+    return rows.length > 0 ? rowToTicket(rows[0]) : null;
   }
 
   /**
-   * Generate a unique panel ID
+   * Count open tickets on a panel
+   */
+  async countOpenTicketsByPanel(panelId: string): Promise<number> {
+    const rows = await this.query(
+      `SELECT COUNT(*)::int AS count FROM tickets WHERE panel_id = $1 AND state = 'open'`,
+      [panelId]
+    );
+    return rows[0].count;
+  }
+
+  /**
+   * Generate a unique panel ID from the panel sequence
    */
   async generatePanelId(): Promise<string> {
-    const panels = await this.getAllPanels();
-    const ids = panels.map(p => parseInt(p.id.split(':')[1]));
-    const maxId = ids.length > 0 ? Math.max(...ids) : 1000;
-    return `panel:${maxId + 1}`;
+    const rows = await this.query(`SELECT nextval('panel_id_seq') AS id`);
+    return `panel:${rows[0].id}`;
   }
 
   /**
-   * Generate a unique ticket ID
+   * Generate a unique ticket ID from the ticket sequence
    */
   async generateTicketId(): Promise<string> {
-    const tickets = await this.getAllTickets();
-    const ids = tickets.map(t => parseInt(t.id.split(':')[1]));
-    const maxId = ids.length > 0 ? Math.max(...ids) : 1000;
-    return `ticket:${maxId + 1}`;
+    const rows = await this.query(`SELECT nextval('ticket_id_seq') AS id`);
+    return `ticket:${rows[0].id}`;
+  }
+
+  /**
+   * Allocate the next human-facing ticket number for a guild (1, 2, 3, ...)
+   */
+  async nextTicketNumber(guildId: string): Promise<number> {
+    const rows = await this.query(
+      `INSERT INTO guild_counters (guild_id, last_ticket_number) VALUES ($1, 1)
+       ON CONFLICT (guild_id) DO UPDATE SET last_ticket_number = guild_counters.last_ticket_number + 1
+       RETURNING last_ticket_number`,
+      [guildId]
+    );
+    return rows[0].last_ticket_number;
   }
 
   /**
@@ -416,90 +573,391 @@ class PostgresDB {
   }
 
   /**
-   * Check if database is connected
+   * Collect counts, size and connection details for /status
    */
-  isConnectionActive(): boolean {
-    return this.isConnected;
+  async getStatus(guildId: string | null): Promise<DatabaseStatus> {
+    const startTime = Date.now();
+
+    if (!this.isConnected) {
+      return disconnectedStatus('PostgreSQL', 'Not connected');
+    }
+
+    try {
+      const pool = this.pool;
+    
+      // OPTIMIZED: Single query to get all counts at once (panel/ticket counts are scoped to this guild)
+      const statsResult = await pool.query(`
+        SELECT 
+          (SELECT COUNT(*) FROM guild_configs) +
+            (SELECT COUNT(*) FROM panels) +
+            (SELECT COUNT(*) FROM tickets) +
+            (SELECT COUNT(*) FROM templates) +
+            (SELECT COUNT(*) FROM panel_groups) +
+            (SELECT COUNT(*) FROM autosaves) as total_records,
+          (SELECT COUNT(*) FROM panels WHERE guild_id = $1) as panels,
+          COUNT(*) as tickets,
+          COUNT(*) FILTER (WHERE state = 'open') as open_tickets,
+          COUNT(*) FILTER (WHERE state = 'closed') as closed_tickets
+        FROM tickets
+        WHERE guild_id = $1
+      `, [guildId]);
+    
+      const totalRecords = parseInt(statsResult.rows[0].total_records);
+      const panels = parseInt(statsResult.rows[0].panels);
+      const tickets = parseInt(statsResult.rows[0].tickets);
+      const openTickets = parseInt(statsResult.rows[0].open_tickets);
+      const closedTickets = parseInt(statsResult.rows[0].closed_tickets);
+
+      // Get database size
+      const sizeResult = await pool.query(`
+        SELECT pg_size_pretty(pg_database_size(current_database())) as size
+      `);
+      const storage = sizeResult.rows[0].size;
+    
+      // Get total available storage (disk allocation)
+      let totalStorage = 'N/A';
+      try {
+        // Try to get actual disk space information
+        const diskResult = await pool.query(`
+          SELECT 
+            pg_size_pretty(
+              (SELECT sum(pg_database_size(datname))::bigint FROM pg_database) +
+              (SELECT sum(pg_tablespace_size(oid))::bigint FROM pg_tablespace)
+            ) as total_used,
+            pg_size_pretty(
+              (SELECT setting::bigint FROM pg_settings WHERE name = 'max_wal_size') * 16 * 1024 * 1024
+            ) as wal_size
+        `);
+      
+        // Try alternative method: get from pg_stat_file (requires superuser on some systems)
+        try {
+          const fsResult = await pool.query(`
+            SELECT 
+              (pg_stat_file('base')).size as base_size,
+              (pg_stat_file('global')).size as global_size
+          `);
+          // This won't work on Cloud SQL due to permissions
+        } catch (e) {
+          // Expected to fail on Cloud SQL
+        }
+      
+        // For Cloud SQL, query the actual allocated space via pg_ls_waldir and calculate
+        const walResult = await pool.query(`
+          SELECT 
+            COALESCE(sum(size), 0) as wal_size 
+          FROM pg_ls_waldir()
+        `);
+      
+        const allDbSize = await pool.query(`
+          SELECT pg_size_pretty(sum(pg_database_size(datname))::bigint) as all_db_size
+          FROM pg_database
+          WHERE datistemplate = false
+        `);
+      
+        // Get total space used by all objects
+        const totalUsed = await pool.query(`
+          SELECT pg_size_pretty(
+            (SELECT sum(pg_database_size(datname))::bigint FROM pg_database WHERE datistemplate = false) +
+            ${walResult.rows[0].wal_size}
+          ) as total_disk_usage
+        `);
+      
+        totalStorage = totalUsed.rows[0].total_disk_usage || allDbSize.rows[0].all_db_size;
+      
+      } catch (e) {
+        // Final fallback: sum all database sizes
+        try {
+          const allDbResult = await pool.query(`
+            SELECT pg_size_pretty(sum(pg_database_size(datname))::bigint) as total_size
+            FROM pg_database
+          `);
+          totalStorage = allDbResult.rows[0].total_size;
+        } catch (e2) {
+          totalStorage = 'Unable to determine';
+        }
+      }
+   
+      // Get database version and info
+    
+      const versionResult = await pool.query('SELECT version() as version, current_database() as dbname');
+      const fullVersion = versionResult.rows[0].version;
+      const dbVersion = fullVersion.split(',')[0].replace('PostgreSQL ', '');
+      const dbName = versionResult.rows[0].dbname;
+   
+
+      // Get connection info
+   
+      const hostResult = await pool.query(`
+        SELECT 
+          inet_server_addr() as host, 
+          inet_server_port() as port,
+          current_setting('max_connections')::int as max_conn
+      `);
+      const host = hostResult.rows[0].host || 'localhost';
+      const port = hostResult.rows[0].port || '5432';
+      const maxConnections = hostResult.rows[0].max_conn || 0;
+    
+
+  
+      const activeConnResult = await pool.query(`
+        SELECT COUNT(*) as count 
+        FROM pg_stat_activity 
+        WHERE datname = current_database()
+      `);
+      const activeConnections = parseInt(activeConnResult.rows[0].count);
+
+
+      const responseTime = Date.now() - startTime;
+
+      return {
+        connected: true,
+        engine: 'PostgreSQL',
+        totalRecords,
+        panels,
+        tickets,
+        openTickets,
+        closedTickets,
+        storage,
+        totalStorage,
+        host,
+        port,
+        dbName,
+        dbVersion,
+        maxConnections,
+        activeConnections,
+        responseTime
+      };
+    } catch (error: any) {
+      return disconnectedStatus('PostgreSQL', error.message, Date.now() - startTime);
+    }
   }
 
   /**
-   * Get guild configuration
+   * Record owner activity on an open ticket and cancel any pending inactivity warning.
+   * Only touches the activity columns, so it cannot overwrite a concurrent save().
    */
-  async getGuildConfig(guildId: string): Promise<GuildConfig | null> {
-    return this.get<GuildConfig>(`config:${guildId}`);
+  async touchTicketActivity(ticketId: string, at: string): Promise<void> {
+    await this.query(
+      `UPDATE tickets SET last_activity_at = $2, inactivity_warned_at = NULL, updated_at = NOW()
+       WHERE id = $1 AND state = 'open'`,
+      [ticketId, at]
+    );
   }
 
   /**
-   * Save guild configuration
+   * Record that the owner was asked whether they still need help. Only applies while the ticket is
+   * open and its activity is still what the sweep read, so a reply that landed meanwhile wins.
    */
-  async saveGuildConfig(guildId: string, prefix: string): Promise<void> {
-    const config: GuildConfig = {
-      id: `config:${guildId}`,
-      type: 'config',
-      guildId,
-      prefix,
-      updatedAt: new Date().toISOString()
-    };
-    await this.save(config);
-    
-    // Invalidate cache
-    this.clearPrefixCache(guildId);
+  async markInactivityWarned(ticketId: string, at: string, lastActivityAt?: string): Promise<boolean> {
+    const rows = await this.query(
+      `UPDATE tickets SET inactivity_warned_at = $2, updated_at = NOW()
+       WHERE id = $1 AND state = 'open' AND last_activity_at IS NOT DISTINCT FROM $3
+       RETURNING id`,
+      [ticketId, at, lastActivityAt ?? null]
+    );
+    return rows.length > 0;
   }
 
   /**
-   * Get guild prefix or default (with caching)
+   * Remember when a transcript was delivered, without touching the rest of the ticket
    */
-  async getPrefix(guildId: string): Promise<string> {
-    // Check cache first
-    const cached = this.prefixCache.get(guildId);
-    if (cached && Date.now() - cached.cachedAt < this.CACHE_TTL) {
-      return cached.prefix;
-    }
-    
-    // Fetch from database
-    const config = await this.getGuildConfig(guildId);
-    const prefix = config?.prefix || '$';
-    
-    // Update cache
-    this.prefixCache.set(guildId, { prefix, cachedAt: Date.now() });
-    
-    return prefix;
+  async markTranscriptSent(ticketId: string, at: string): Promise<void> {
+    await this.query('UPDATE tickets SET transcript_sent_at = $2, updated_at = NOW() WHERE id = $1', [ticketId, at]);
   }
-  
+
   /**
-   * Clear prefix cache for a guild (call when prefix is updated)
+   * Replace a ticket's participant list, without touching the rest of the ticket
    */
-  clearPrefixCache(guildId: string): void {
-    this.prefixCache.delete(guildId);
+  async setTicketParticipants(ticketId: string, participants: TicketParticipant[]): Promise<void> {
+    await this.query(
+      'UPDATE tickets SET participants = $2, updated_at = NOW() WHERE id = $1',
+      [ticketId, participants.length ? JSON.stringify(participants) : null]
+    );
   }
 
   /**
-   * Save panel template
+   * Change a ticket's priority, without touching the rest of the ticket
    */
-  async savePanelTemplate(templateId: string, template: any): Promise<void> {
-    // Create a copy without the 'id' field to avoid conflicts
-    const { id: _originalId, ...templateWithoutId } = template;
-    
-    const templateData = {
-      id: `template:${templateId}`,
-      type: 'template' as const,
-      ...templateWithoutId
-    };
-    await this.save(templateData as any);
+  async setTicketPriority(ticketId: string, priority: TicketPriority): Promise<void> {
+    await this.query('UPDATE tickets SET priority = $2, updated_at = NOW() WHERE id = $1', [ticketId, priority]);
+  }
+
+  /**
+   * Store the first staff reply. Returns false when one was already stored.
+   */
+  async markFirstResponse(ticketId: string, at: string, staffId: string): Promise<boolean> {
+    const rows = await this.query(
+      `UPDATE tickets SET first_response_at = $2, first_response_by = $3, updated_at = NOW()
+       WHERE id = $1 AND first_response_at IS NULL
+       RETURNING id`,
+      [ticketId, at, staffId]
+    );
+    return rows.length > 0;
+  }
+
+  /**
+   * Remember that an SLA target was missed, without touching the rest of the ticket
+   */
+  async markSlaBreach(ticketId: string, breach: SlaBreach): Promise<void> {
+    await this.query(
+      `UPDATE tickets SET sla_breaches = COALESCE(sla_breaches, '[]'::jsonb) || to_jsonb($2::text), updated_at = NOW()
+       WHERE id = $1 AND NOT COALESCE(sla_breaches, '[]'::jsonb) ? $2`,
+      [ticketId, breach]
+    );
+  }
+
+  /**
+   * Store the owner's rating. Returns false when the ticket was already rated.
+   */
+  async rateTicket(ticketId: string, rating: TicketRating): Promise<boolean> {
+    const rows = await this.query(
+      `UPDATE tickets SET rating = $2, updated_at = NOW()
+       WHERE id = $1 AND rating IS NULL
+       RETURNING id`,
+      [ticketId, JSON.stringify(rating)]
+    );
+    return rows.length > 0;
+  }
+
+  /**
+   * Merge changes into an existing rating, such as the feedback left after the stars
+   */
+  async updateTicketRating(ticketId: string, changes: Partial<TicketRating>): Promise<void> {
+    await this.query(
+      'UPDATE tickets SET rating = rating || $2::jsonb, updated_at = NOW() WHERE id = $1 AND rating IS NOT NULL',
+      [ticketId, JSON.stringify(changes)]
+    );
+  }
+
+  /**
+   * Remember where a modmail message was relayed to
+   */
+  async saveRelayedMessage(relayed: RelayedMessage): Promise<void> {
+    await this.query(
+      `INSERT INTO relayed_messages (source_id, copy_id, copy_channel_id, ticket_id) VALUES ($1, $2, $3, $4)
+       ON CONFLICT (source_id) DO UPDATE SET copy_id = EXCLUDED.copy_id, copy_channel_id = EXCLUDED.copy_channel_id`,
+      [relayed.sourceId, relayed.copyId, relayed.copyChannelId, relayed.ticketId]
+    );
+  }
+
+  /**
+   * Find the relayed copy of a modmail message
+   */
+  async getRelayedMessage(sourceId: string): Promise<RelayedMessage | null> {
+    const rows = await this.query('SELECT * FROM relayed_messages WHERE source_id = $1', [sourceId]);
+    return rows.length > 0 ? rowToRelayedMessage(rows[0]) : null;
+  }
+
+  /**
+   * Check whether a one-time job has already run
+   */
+  async hasCompletedTask(name: string): Promise<boolean> {
+    const rows = await this.query('SELECT 1 FROM completed_tasks WHERE name = $1', [name]);
+    return rows.length > 0;
+  }
+
+  /**
+   * Remember that a one-time job has run
+   */
+  async markTaskCompleted(name: string): Promise<void> {
+    await this.query('INSERT INTO completed_tasks (name) VALUES ($1) ON CONFLICT (name) DO NOTHING', [name]);
+  }
+
+  /**
+   * Append an entry to a ticket's audit trail
+   */
+  async addTicketEvent(event: Omit<TicketEvent, 'id' | 'createdAt'> & { createdAt?: string }): Promise<void> {
+    await this.query(
+      `INSERT INTO ticket_events (ticket_id, guild_id, type, actor_id, payload, created_at)
+       VALUES ($1, $2, $3, $4, $5, COALESCE($6::timestamptz, NOW()))`,
+      [event.ticketId, event.guildId, event.type, event.actorId ?? null, JSON.stringify(event.payload), event.createdAt ?? null]
+    );
+  }
+
+  /**
+   * Get a ticket's audit trail, oldest first
+   */
+  async getTicketEvents(ticketId: string): Promise<TicketEvent[]> {
+    const rows = await this.query(
+      'SELECT * FROM ticket_events WHERE ticket_id = $1 ORDER BY created_at, id',
+      [ticketId]
+    );
+    return rows.map(rowToEvent);
+  }
+
+  /**
+   * Get a guild's ticket events, oldest first, optionally filtered by time range and type
+   */
+  async getGuildEvents(guildId: string, query: TicketEventQuery = {}): Promise<TicketEvent[]> {
+    const rows = await this.query(
+      `SELECT * FROM ticket_events
+       WHERE guild_id = $1
+         AND ($2::timestamptz IS NULL OR created_at >= $2)
+         AND ($3::timestamptz IS NULL OR created_at < $3)
+         AND ($4::text[] IS NULL OR type = ANY($4))
+       ORDER BY created_at, id
+       LIMIT $5`,
+      [guildId, query.since ?? null, query.until ?? null, query.types ?? null, query.limit ?? null]
+    );
+    return rows.map(rowToEvent);
+  }
+
+  /**
+   * Add or replace a blacklist entry (one per target and scope)
+   */
+  async saveBlacklistEntry(entry: BlacklistEntry): Promise<void> {
+    await this.query(
+      `INSERT INTO blacklist (guild_id, target_id, panel_id, target_type, reason, expires_at, created_by, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (guild_id, target_id, panel_id) DO UPDATE SET
+         target_type = EXCLUDED.target_type, reason = EXCLUDED.reason, expires_at = EXCLUDED.expires_at,
+         created_by = EXCLUDED.created_by, created_at = EXCLUDED.created_at`,
+      [
+        entry.guildId, entry.targetId, entry.panelId ?? '', entry.targetType, entry.reason ?? null,
+        entry.expiresAt ?? null, entry.createdBy, entry.createdAt,
+      ]
+    );
+  }
+
+  /**
+   * Remove a blacklist entry; returns whether one existed
+   */
+  async deleteBlacklistEntry(guildId: string, targetId: string, panelId?: string): Promise<boolean> {
+    const rows = await this.query(
+      'DELETE FROM blacklist WHERE guild_id = $1 AND target_id = $2 AND panel_id = $3 RETURNING target_id',
+      [guildId, targetId, panelId ?? '']
+    );
+    return rows.length > 0;
+  }
+
+  /**
+   * Get every blacklist entry of a guild, including expired ones
+   */
+  async getBlacklist(guildId: string): Promise<BlacklistEntry[]> {
+    const rows = await this.query('SELECT * FROM blacklist WHERE guild_id = $1 ORDER BY created_at', [guildId]);
+    return rows.map(rowToBlacklistEntry);
   }
 
   /**
-   * Get panel template
+   * Get templates saved from a specific guild
    */
-  async getPanelTemplate(templateId: string): Promise<any | null> {
-    return await this.get(`template:${templateId}`);
+  async getTemplatesByGuild(guildId: string): Promise<any[]> {
+    const rows = await this.query(
+      'SELECT * FROM templates WHERE guild_id = $1 ORDER BY updated_at DESC',
+      [guildId]
+    );
+    return rows.map(rowToTemplate);
   }
 
   /**
-   * Get all templates
+   * Get the panel groups of a guild, oldest first
    */
-  async getAllTemplates(): Promise<any[]> {
-    return this.getByType('template');
+  async getPanelGroupsByGuild(guildId: string): Promise<PanelGroup[]> {
+    const rows = await this.query(
+      'SELECT * FROM panel_groups WHERE guild_id = $1 ORDER BY created_at',
+      [guildId]
+    );
+    return rows.map(rowToPanelGroup);
   }
 }
 
@@ -0,0 +1,775 @@
+import BetterSqlite3, { Database } from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ErrorHandler } from '../errorHandler';
+import { runSqliteMigrations } from './sqliteMigrations';
+import {
+  BlacklistEntry,
+  BaseStorage,
+  DatabaseStatus,
+  disconnectedStatus,
+  RelayedMessage,
+  RecordType,
+  StoredData,
+  PanelData,
+  TicketData,
+  AutosaveData,
+  GuildConfig,
+  TicketEvent,
+  TicketEventQuery,
+  TicketParticipant,
+  TicketPriority,
+  SlaBreach,
+  TicketRating,
+  PanelGroup,
+  parseRecordId,
+} from './storage';
+
+const TABLES: Record<RecordType, string> = {
+  panel: 'panels',
+  ticket: 'tickets',
+  autosave: 'autosaves',
+  config: 'guild_configs',
+  template: 'templates',
+  group: 'panel_groups',
+};
+
+const KEY_COLUMNS: Record<RecordType, string> = {
+  panel: 'id',
+  ticket: 'id',
+  autosave: 'user_id',
+  config: 'guild_id',
+  template: 'id',
+  group: 'id',
+};
+
+const NOW = `strftime('%Y-%m-%dT%H:%M:%fZ', 'now')`;
+
+function rowToPanel(row: any): PanelData {
+  return {
+    ...JSON.parse(row.settings),
+    id: row.id,
+    type: 'panel',
+    guildId: row.guild_id ?? undefined,
+    name: row.name ?? undefined,
+    channel: row.channel_id ?? undefined,
+    messageId: row.message_id ?? undefined,
+    enabled: row.enabled === 1,
+    ticketsCreated: row.tickets_created,
+  };
+}
+
+function rowToTicket(row: any): TicketData {
+  return {
+    id: row.id,
+    type: 'ticket',
+    guildId: row.guild_id ?? undefined,
+    number: row.number ?? undefined,
+    owner: row.owner_id,
+    panelId: row.panel_id ?? '',
+    channelId: row.channel_id,
+    state: row.state,
+    claimedBy: row.claimed_by ?? undefined,
+    createdAt: row.created_at,
+    closedAt: row.closed_at ?? undefined,
+    welcomeMessageId: row.welcome_message_id ?? undefined,
+    closeMessageId: row.close_message_id ?? undefined,
+    lastActivityAt: row.last_activity_at ?? undefined,
+    inactivityWarnedAt: row.inactivity_warned_at ?? undefined,
+    transcriptSentAt: row.transcript_sent_at ?? undefined,
+    participants: row.participants ? JSON.parse(row.participants) : undefined,
+    priority: row.priority ?? undefined,
+    firstResponseAt: row.first_response_at ?? undefined,
+    firstResponseBy: row.first_response_by ?? undefined,
+    slaBreaches: row.sla_breaches ? JSON.parse(row.sla_breaches) : undefined,
+    rating: row.rating ? JSON.parse(row.rating) : undefined,
+    closeReason: row.close_reason ?? undefined,
+    modmail: row.modmail ? true : undefined,
+    answers: row.answers ? JSON.parse(row.answers) : undefined,
+  };
+}
+
+function rowToAutosave(row: any): AutosaveData {
+  return {
+    ...JSON.parse(row.data),
+    id: `autosave:${row.user_id}`,
+    type: 'autosave',
+    userId: row.user_id,
+  };
+}
+
+function rowToGuildConfig(row: any): GuildConfig {
+  return {
+    id: `config:${row.guild_id}`,
+    type: 'config',
+    guildId: row.guild_id,
+    prefix: row.prefix,
+    updatedAt: row.updated_at,
+  };
+}
+
+function rowToTemplate(row: any): any {
+  return {
+    ...JSON.parse(row.data),
+    id: row.id,
+    type: 'template',
+    guildId: row.guild_id,
+  };
+}
+
+function rowToPanelGroup(row: any): PanelGroup {
+  return {
+    ...JSON.parse(row.data),
+    id: row.id,
+    type: 'group',
+    guildId: row.guild_id,
+    channel: row.channel_id ?? undefined,
+    messageId: row.message_id ?? undefined,
+  };
+}
+
+function rowToEvent(row: any): TicketEvent {
+  return {
+    id: row.id,
+    ticketId: row.ticket_id,
+    guildId: row.guild_id,
+    type: row.type,
+    actorId: row.actor_id ?? undefined,
+    payload: JSON.parse(row.payload),
+    createdAt: row.created_at,
+  };
+}
+
+function rowToBlacklistEntry(row: any): BlacklistEntry {
+  return {
+    guildId: row.guild_id,
+    targetId: row.target_id,
+    targetType: row.target_type,
+    panelId: row.panel_id || undefined,
+    reason: row.reason ?? undefined,
+    expiresAt: row.expires_at ?? undefined,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+  };
+}
+
+function rowToRelayedMessage(row: any): RelayedMessage {
+  return {
+    sourceId: row.source_id,
+    copyId: row.copy_id,
+    copyChannelId: row.copy_channel_id,
+    ticketId: row.ticket_id,
+  };
+}
+
+const ROW_MAPPERS: Record<RecordType, (row: any) => any> = {
+  panel: rowToPanel,
+  ticket: rowToTicket,
+  autosave: rowToAutosave,
+  config: rowToGuildConfig,
+  template: rowToTemplate,
+  group: rowToPanelGroup,
+};
+
+/**
+ * SQLite storage backend for self-hosted installs.
+ * Pass ':memory:' for a throwaway database.
+ */
+class SqliteDB extends BaseStorage {
+  private db: Database;
+  private readonly filePath: string;
+  private isConnected: boolean = false;
+
+  constructor(filePath?: string) {
+    super();
+
+    this.filePath = filePath || process.env.DATABASE_PATH || './data/bot.db';
+
+    if (this.filePath !== ':memory:') {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    }
+
+    this.db = new BetterSqlite3(this.filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+
+    const applied = runSqliteMigrations(this.db);
+    this.isConnected = true;
+    console.log(`✅ SQLite schema up to date (${applied} migration(s) applied)`);
+  }
+
+  /**
+   * Check if the database is connected
+   */
+  isConnectionReady(): boolean {
+    return this.isConnected;
+  }
+
+  /**
+   * Save any data object to its table (insert or update)
+   */
+  async save<T extends StoredData>(data: T): Promise<void> {
+    const record = data as any;
+
+    switch (record.type as RecordType) {
+      case 'panel': {
+        const { id, type, guildId, name, channel, messageId, enabled, ticketsCreated, ...settings } = record as PanelData;
+        this.db.prepare(
+          `INSERT INTO panels (id, guild_id, name, channel_id, message_id, enabled, tickets_created, settings, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ${NOW})
+           ON CONFLICT (id) DO UPDATE SET
+             guild_id = excluded.guild_id, name = excluded.name, channel_id = excluded.channel_id,
+             message_id = excluded.message_id, enabled = excluded.enabled,
+             tickets_created = excluded.tickets_created, settings = excluded.settings, updated_at = excluded.updated_at`
+        ).run(id, guildId ?? null, name ?? null, channel ?? null, messageId ?? null, enabled !== false ? 1 : 0, ticketsCreated || 0, JSON.stringify(settings));
+        break;
+      }
+      case 'ticket': {
+        const ticket = record as TicketData;
+        this.db.prepare(
+          `INSERT INTO tickets (
+             id, guild_id, panel_id, owner_id, channel_id, state, claimed_by,
+             welcome_message_id, close_message_id, created_at, closed_at, number,
+             last_activity_at, inactivity_warned_at, transcript_sent_at, participants, priority,
+             first_response_at, first_response_by, sla_breaches, rating, close_reason, modmail, answers, updated_at
+           )
+           -- A ticket can outlive its panel, so a dangling panel ID is stored as NULL
+           VALUES (?, ?, (SELECT id FROM panels WHERE id = ?), ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ${NOW})
+           ON CONFLICT (id) DO UPDATE SET
+             guild_id = excluded.guild_id, panel_id = excluded.panel_id, owner_id = excluded.owner_id, number = excluded.number,
+             channel_id = excluded.channel_id, state = excluded.state, claimed_by = excluded.claimed_by,
+             welcome_message_id = excluded.welcome_message_id, close_message_id = excluded.close_message_id,
+             created_at = excluded.created_at, closed_at = excluded.closed_at,
+             last_activity_at = excluded.last_activity_at, inactivity_warned_at = excluded.inactivity_warned_at,
+             transcript_sent_at = excluded.transcript_sent_at, participants = excluded.participants,
+             priority = excluded.priority, first_response_at = excluded.first_response_at,
+             first_response_by = excluded.first_response_by, sla_breaches = excluded.sla_breaches,
+             rating = excluded.rating, close_reason = excluded.close_reason, modmail = excluded.modmail,
+             answers = excluded.answers, updated_at = excluded.updated_at`
+        ).run(
+          ticket.id, ticket.guildId ?? null, ticket.panelId || null, ticket.owner, ticket.channelId, ticket.state,
+          ticket.claimedBy ?? null, ticket.welcomeMessageId ?? null, ticket.closeMessageId ?? null,
+          ticket.createdAt, ticket.closedAt ?? null, ticket.number ?? null,
+          ticket.lastActivityAt ?? null, ticket.inactivityWarnedAt ?? null, ticket.transcriptSentAt ?? null,
+          ticket.participants?.length ? JSON.stringify(ticket.participants) : null, ticket.priority ?? null,
+          ticket.firstResponseAt ?? null, ticket.firstResponseBy ?? null,
+          ticket.slaBreaches?.length ? JSON.stringify(ticket.slaBreaches) : null,
+          ticket.rating ? JSON.stringify(ticket.rating) : null, ticket.closeReason ?? null, ticket.modmail ? 1 : 0,
+          ticket.answers?.length ? JSON.stringify(ticket.answers) : null,
+        );
+        break;
+      }
+      case 'autosave': {
+        const { id, type, ...autosave } = record as AutosaveData;
+        this.db.prepare(
+          `INSERT INTO autosaves (user_id, data, updated_at) VALUES (?, ?, ${NOW})
+           ON CONFLICT (user_id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`
+        ).run(autosave.userId, JSON.stringify(autosave));
+        break;
+      }
+      case 'config': {
+        const config = record as GuildConfig;
+        this.db.prepare(
+          `INSERT INTO guild_configs (guild_id, prefix, updated_at) VALUES (?, ?, ?)
+           ON CONFLICT (guild_id) DO UPDATE SET prefix = excluded.prefix, updated_at = excluded.updated_at`
+        ).run(config.guildId, config.prefix, config.updatedAt);
+        break;
+      }
+      case 'template': {
+        const { id, type, guildId, ...template } = record;
+        this.db.prepare(
+          `INSERT INTO templates (id, guild_id, name, data, created_at, updated_at)
+           VALUES (?, ?, ?, ?, COALESCE(?, ${NOW}), ${NOW})
+           ON CONFLICT (id) DO UPDATE SET
+             guild_id = excluded.guild_id, name = excluded.name, data = excluded.data, updated_at = excluded.updated_at`
+        ).run(id, guildId || template.originalGuild || 'unknown', template.name ?? null, JSON.stringify(template), template.createdAt ?? null);
+        break;
+      }
+      case 'group': {
+        const { id, type, guildId, channel, messageId, ...group } = record as PanelGroup;
+        this.db.prepare(
+          `INSERT INTO panel_groups (id, guild_id, channel_id, message_id, data, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ${NOW})
+           ON CONFLICT (id) DO UPDATE SET
+             guild_id = excluded.guild_id, channel_id = excluded.channel_id, message_id = excluded.message_id,
+             data = excluded.data, updated_at = excluded.updated_at`
+        ).run(id, guildId, channel ?? null, messageId ?? null, JSON.stringify(group), group.createdAt);
+        break;
+      }
+      default:
+        throw new Error(`Cannot save record of unknown type: ${record.type}`);
+    }
+  }
+
+  /**
+   * Get a specific object by ID
+   */
+  async get<T extends StoredData>(id: string): Promise<T | null> {
+    const parsed = parseRecordId(id);
+    if (!parsed) return null;
+
+    const row = this.db
+      .prepare(`SELECT * FROM ${TABLES[parsed.type]} WHERE ${KEY_COLUMNS[parsed.type]} = ?`)
+      .get(parsed.key);
+
+    return row ? ROW_MAPPERS[parsed.type](row) : null;
+  }
+
+  /**
+   * Get all objects of a specific type
+   */
+  async getByType<T extends StoredData>(type: RecordType): Promise<T[]> {
+    const rows = this.db.prepare(`SELECT * FROM ${TABLES[type]} ORDER BY updated_at DESC`).all();
+    return rows.map(ROW_MAPPERS[type]);
+  }
+
+  /**
+   * Delete an object by ID
+   */
+  async delete(id: string): Promise<void> {
+    const parsed = parseRecordId(id);
+    if (!parsed) return;
+
+    this.db
+      .prepare(`DELETE FROM ${TABLES[parsed.type]} WHERE ${KEY_COLUMNS[parsed.type]} = ?`)
+      .run(parsed.key);
+
+    if (parsed.type === 'config') {
+      this.clearPrefixCache(parsed.key);
+    }
+  }
+
+  /**
+   * Get all panels belonging to a guild
+   */
+  async getPanelsByGuild(guildId: string): Promise<PanelData[]> {
+    return this.db
+      .prepare('SELECT * FROM panels WHERE guild_id = ? ORDER BY updated_at DESC')
+      .all(guildId)
+      .map(rowToPanel);
+  }
+
+  /**
+   * Get all tickets belonging to a guild
+   */
+  async getTicketsByGuild(guildId: string): Promise<TicketData[]> {
+    return this.db
+      .prepare('SELECT * FROM tickets WHERE guild_id = ? ORDER BY updated_at DESC')
+      .all(guildId)
+      .map(rowToTicket);
+  }
+
+  /**
+   * Get the ticket bound to a channel
+   */
+  async getTicketByChannel(channelId: string): Promise<TicketData | null> {
+    const row = this.db.prepare('SELECT * FROM tickets WHERE channel_id = ?').get(channelId);
+    return row ? rowToTicket(row) : null;
+  }
+
+  /**
+   * Get tickets for a specific panel
+   */
+  async getTicketsByPanel(panelId: string): Promise<TicketData[]> {
+    try {
+      return this.db
+        .prepare('SELECT * FROM tickets WHERE panel_id = ? ORDER BY updated_at DESC')
+        .all(panelId)
+        .map(rowToTicket);
+    } catch (error: any) {
+      ErrorHandler.handle(error, 'Get tickets by panel');
+      throw error;
+    }
+  }
+
+  /**
+   * Get open tickets for a specific user and panel
+   */
+  async getOpenTicketsForUser(userId: string, panelId: string): Promise<TicketData[]> {
+    try {
+      return this.db
+        .prepare(
+          `SELECT * FROM tickets
+           WHERE owner_id = ? AND panel_id = ? AND state = 'open'
+           ORDER BY updated_at DESC`
+        )
+        .all(userId, panelId)
+        .map(rowToTicket);
+    } catch (error: any) {
+      ErrorHandler.handle(error, 'Get open tickets for user');
+      return [];
+    }
+  }
+
+  /**
+   * Get a user's open tickets across every panel in a guild
+   */
+  async getOpenTicketsByOwner(guildId: string, userId: string): Promise<TicketData[]> {
+    try {
+      return this.db
+        .prepare(
+          `SELECT * FROM tickets
+           WHERE guild_id = ? AND owner_id = ? AND state = 'open'
+           ORDER BY created_at`
+        )
+        .all(guildId, userId)
+        .map(rowToTicket);
+    } catch (error: any) {
+      ErrorHandler.handle(error, 'Get open tickets by owner');
+      return [];
+    }
+  }
+
+  /**
+   * Get the user's most recently opened modmail ticket that is still open, in any guild
+   */
+  async getOpenModmailTicket(userId: string): Promise<TicketData | null> {
+    const row = this.db
+      .prepare(
+        `SELECT * FROM tickets
+         WHERE owner_id = ? AND state = 'open' AND modmail = 1
+         ORDER BY created_at DESC LIMIT 1`
+      )
+      .get(userId);
+    return row ? rowToTicket(row) : null;
+  }
+
+  /**
+   * Count open tickets on a panel
+   */
+  async countOpenTicketsByPanel(panelId: string): Promise<number> {
+    const row = this.db
+      .prepare(`SELECT COUNT(*) AS count FROM tickets WHERE panel_id = ? AND state = 'open'`)
+      .get(panelId) as { count: number };
+    return row.count;
+  }
+
+  /**
+   * Take the next value from one of the id_sequences rows
+   */
+  private nextSequenceValue(name: 'panel' | 'ticket'): number {
+    const row = this.db
+      .prepare('UPDATE id_sequences SET value = value + 1 WHERE name = ? RETURNING value')
+      .get(name) as { value: number };
+    return row.value;
+  }
+
+  /**
+   * Generate a unique panel ID
+   */
+  async generatePanelId(): Promise<string> {
+    return `panel:${this.nextSequenceValue('panel')}`;
+  }
+
+  /**
+   * Generate a unique ticket ID
+   */
+  async generateTicketId(): Promise<string> {
+    return `ticket:${this.nextSequenceValue('ticket')}`;
+  }
+
+  /**
+   * Allocate the next human-facing ticket number for a guild (1, 2, 3, ...)
+   */
+  async nextTicketNumber(guildId: string): Promise<number> {
+    const row = this.db
+      .prepare(
+        `INSERT INTO guild_counters (guild_id, last_ticket_number) VALUES (?, 1)
+         ON CONFLICT (guild_id) DO UPDATE SET last_ticket_number = last_ticket_number + 1
+         RETURNING last_ticket_number`
+      )
+      .get(guildId) as { last_ticket_number: number };
+    return row.last_ticket_number;
+  }
+
+  /**
+   * Get templates saved from a specific guild
+   */
+  async getTemplatesByGuild(guildId: string): Promise<any[]> {
+    return this.db
+      .prepare('SELECT * FROM templates WHERE guild_id = ? ORDER BY updated_at DESC')
+      .all(guildId)
+      .map(rowToTemplate);
+  }
+
+  /**
+   * Get the panel groups of a guild, oldest first
+   */
+  async getPanelGroupsByGuild(guildId: string): Promise<PanelGroup[]> {
+    return this.db
+      .prepare('SELECT * FROM panel_groups WHERE guild_id = ? ORDER BY created_at')
+      .all(guildId)
+      .map(rowToPanelGroup);
+  }
+
+  /**
+   * Record owner activity on an open ticket and cancel any pending inactivity warning.
+   * Only touches the activity columns, so it cannot overwrite a concurrent save().
+   */
+  async touchTicketActivity(ticketId: string, at: string): Promise<void> {
+    this.db.prepare(
+      `UPDATE tickets SET last_activity_at = ?, inactivity_warned_at = NULL, updated_at = ${NOW}
+       WHERE id = ? AND state = 'open'`
+    ).run(at, ticketId);
+  }
+
+  /**
+   * Record that the owner was asked whether they still need help. Only applies while the ticket is
+   * open and its activity is still what the sweep read, so a reply that landed meanwhile wins.
+   */
+  async markInactivityWarned(ticketId: string, at: string, lastActivityAt?: string): Promise<boolean> {
+    const result = this.db.prepare(
+      `UPDATE tickets SET inactivity_warned_at = ?, updated_at = ${NOW}
+       WHERE id = ? AND state = 'open' AND last_activity_at IS ?`
+    ).run(at, ticketId, lastActivityAt ?? null);
+    return result.changes > 0;
+  }
+
+  /**
+   * Remember when a transcript was delivered, without touching the rest of the ticket
+   */
+  async markTranscriptSent(ticketId: string, at: string): Promise<void> {
+    this.db.prepare(`UPDATE tickets SET transcript_sent_at = ?, updated_at = ${NOW} WHERE id = ?`).run(at, ticketId);
+  }
+
+  /**
+   * Replace a ticket's participant list, without touching the rest of the ticket
+   */
+  async setTicketParticipants(ticketId: string, participants: TicketParticipant[]): Promise<void> {
+    this.db.prepare(`UPDATE tickets SET participants = ?, updated_at = ${NOW} WHERE id = ?`)
+      .run(participants.length ? JSON.stringify(participants) : null, ticketId);
+  }
+
+  /**
+   * Change a ticket's priority, without touching the rest of the ticket
+   */
+  async setTicketPriority(ticketId: string, priority: TicketPriority): Promise<void> {
+    this.db.prepare(`UPDATE tickets SET priority = ?, updated_at = ${NOW} WHERE id = ?`).run(priority, ticketId);
+  }
+
+  /**
+   * Store the first staff reply. Returns false when one was already stored.
+   */
+  async markFirstResponse(ticketId: string, at: string, staffId: string): Promise<boolean> {
+    const result = this.db.prepare(
+      `UPDATE tickets SET first_response_at = ?, first_response_by = ?, updated_at = ${NOW}
+       WHERE id = ? AND first_response_at IS NULL`
+    ).run(at, staffId, ticketId);
+    return result.changes > 0;
+  }
+
+  /**
+   * Remember that an SLA target was missed, without touching the rest of the ticket
+   */
+  async markSlaBreach(ticketId: string, breach: SlaBreach): Promise<void> {
+    const row = this.db.prepare('SELECT sla_breaches FROM tickets WHERE id = ?').get(ticketId) as { sla_breaches: string | null } | undefined;
+    const breaches: SlaBreach[] = row?.sla_breaches ? JSON.parse(row.sla_breaches) : [];
+    if (!row || breaches.includes(breach)) return;
+
+    this.db.prepare(`UPDATE tickets SET sla_breaches = ?, updated_at = ${NOW} WHERE id = ?`)
+      .run(JSON.stringify([...breaches, breach]), ticketId);
+  }
+
+  /**
+   * Store the owner's rating. Returns false when the ticket was already rated.
+   */
+  async rateTicket(ticketId: string, rating: TicketRating): Promise<boolean> {
+    const result = this.db.prepare(`UPDATE tickets SET rating = ?, updated_at = ${NOW} WHERE id = ? AND rating IS NULL`)
+      .run(JSON.stringify(rating), ticketId);
+    return result.changes > 0;
+  }
+
+  /**
+   * Merge changes into an existing rating, such as the feedback left after the stars
+   */
+  async updateTicketRating(ticketId: string, changes: Partial<TicketRating>): Promise<void> {
+    const row = this.db.prepare('SELECT rating FROM tickets WHERE id = ?').get(ticketId) as { rating: string | null } | undefined;
+    if (!row?.rating) return;
+
+    this.db.prepare(`UPDATE tickets SET rating = ?, updated_at = ${NOW} WHERE id = ?`)
+      .run(JSON.stringify({ ...JSON.parse(row.rating), ...changes }), ticketId);
+  }
+
+  /**
+   * Remember where a modmail message was relayed to
+   */
+  async saveRelayedMessage(relayed: RelayedMessage): Promise<void> {
+    this.db.prepare(
+      `INSERT INTO relayed_messages (source_id, copy_id, copy_channel_id, ticket_id) VALUES (?, ?, ?, ?)
+       ON CONFLICT (source_id) DO UPDATE SET copy_id = excluded.copy_id, copy_channel_id = excluded.copy_channel_id`
+    ).run(relayed.sourceId, relayed.copyId, relayed.copyChannelId, relayed.ticketId);
+  }
+
+  /**
+   * Find the relayed copy of a modmail message
+   */
+  async getRelayedMessage(sourceId: string): Promise<RelayedMessage | null> {
+    const row = this.db.prepare('SELECT * FROM relayed_messages WHERE source_id = ?').get(sourceId) as any;
+    return row ? rowToRelayedMessage(row) : null;
+  }
+
+  /**
+   * Check whether a one-time job has already run
+   */
+  async hasCompletedTask(name: string): Promise<boolean> {
+    return !!this.db.prepare('SELECT 1 FROM completed_tasks WHERE name = ?').get(name);
+  }
+
+  /**
+   * Remember that a one-time job has run
+   */
+  async markTaskCompleted(name: string): Promise<void> {
+    this.db.prepare('INSERT INTO completed_tasks (name) VALUES (?) ON CONFLICT (name) DO NOTHING').run(name);
+  }
+
+  /**
+   * Append an entry to a ticket's audit trail
+   */
+  async addTicketEvent(event: Omit<TicketEvent, 'id' | 'createdAt'> & { createdAt?: string }): Promise<void> {
+    this.db.prepare(
+      `INSERT INTO ticket_events (ticket_id, guild_id, type, actor_id, payload, created_at)
+       VALUES (?, ?, ?, ?, ?, COALESCE(?, ${NOW}))`
+    ).run(event.ticketId, event.guildId, event.type, event.actorId ?? null, JSON.stringify(event.payload), event.createdAt ?? null);
+  }
+
+  /**
+   * Get a ticket's audit trail, oldest first
+   */
+  async getTicketEvents(ticketId: string): Promise<TicketEvent[]> {
+    return this.db
+      .prepare('SELECT * FROM ticket_events WHERE ticket_id = ? ORDER BY created_at, id')
+      .all(ticketId)
+      .map(rowToEvent);
+  }
+
+  /**
+   * Get a guild's ticket events, oldest first, optionally filtered by time range and type
+   */
+  async getGuildEvents(guildId: string, query: TicketEventQuery = {}): Promise<TicketEvent[]> {
+    const types = query.types ? JSON.stringify(query.types) : null;
+    return this.db
+      .prepare(
+        `SELECT * FROM ticket_events
+         WHERE guild_id = @guildId
+           AND (@since IS NULL OR created_at >= @since)
+           AND (@until IS NULL OR created_at < @until)
+           AND (@types IS NULL OR type IN (SELECT value FROM json_each(@types)))
+         ORDER BY created_at, id
+         LIMIT COALESCE(@limit, -1)`
+      )
+      .all({ guildId, since: query.since ?? null, until: query.until ?? null, types, limit: query.limit ?? null })
+      .map(rowToEvent);
+  }
+
+  /**
+   * Add or replace a blacklist entry (one per target and scope)
+   */
+  async saveBlacklistEntry(entry: BlacklistEntry): Promise<void> {
+    this.db.prepare(
+      `INSERT INTO blacklist (guild_id, target_id, panel_id, target_type, reason, expires_at, created_by, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (guild_id, target_id, panel_id) DO UPDATE SET
+         target_type = excluded.target_type, reason = excluded.reason, expires_at = excluded.expires_at,
+         created_by = excluded.created_by, created_at = excluded.created_at`
+    ).run(
+      entry.guildId, entry.targetId, entry.panelId ?? '', entry.targetType, entry.reason ?? null,
+      entry.expiresAt ?? null, entry.createdBy, entry.createdAt,
+    );
+  }
+
+  /**
+   * Remove a blacklist entry; returns whether one existed
+   */
+  async deleteBlacklistEntry(guildId: string, targetId: string, panelId?: string): Promise<boolean> {
+    const result = this.db
+      .prepare('DELETE FROM blacklist WHERE guild_id = ? AND target_id = ? AND panel_id = ?')
+      .run(guildId, targetId, panelId ?? '');
+    return result.changes > 0;
+  }
+
+  /**
+   * Get every blacklist entry of a guild, including expired ones
+   */
+  async getBlacklist(guildId: string): Promise<BlacklistEntry[]> {
+    return this.db
+      .prepare('SELECT * FROM blacklist WHERE guild_id = ? ORDER BY created_at')
+      .all(guildId)
+      .map(rowToBlacklistEntry);
+  }
+
+  /**
+   * Collect counts, size and file details for /status
+   */
+  async getStatus(guildId: string | null): Promise<DatabaseStatus> {
+    const startTime = Date.now();
+
+    if (!this.isConnected) {
+      return disconnectedStatus('SQLite', 'Not connected');
+    }
+
+    try {
+      const counts = this.db.prepare(`
+        SELECT
+          (SELECT COUNT(*) FROM guild_configs) +
+            (SELECT COUNT(*) FROM panels) +
+            (SELECT COUNT(*) FROM tickets) +
+            (SELECT COUNT(*) FROM templates) +
+            (SELECT COUNT(*) FROM panel_groups) +
+            (SELECT COUNT(*) FROM autosaves) AS total_records,
+          (SELECT COUNT(*) FROM panels WHERE guild_id = @guildId) AS panels,
+          COUNT(*) AS tickets,
+          COALESCE(SUM(state = 'open'), 0) AS open_tickets,
+          COALESCE(SUM(state = 'closed'), 0) AS closed_tickets
+        FROM tickets
+        WHERE guild_id = @guildId
+      `).get({ guildId }) as any;
+
+      const pageCount = this.db.pragma('page_count', { simple: true }) as number;
+      const pageSize = this.db.pragma('page_size', { simple: true }) as number;
+      const sizeMb = (pageCount * pageSize / 1024 / 1024).toFixed(2);
+
+      let totalStorage = 'N/A';
+      if (this.filePath !== ':memory:') {
+        try {
+          const disk = fs.statfsSync(path.dirname(this.filePath));
+          totalStorage = `${(disk.bavail * disk.bsize / 1024 / 1024 / 1024).toFixed(2)} GB free`;
+        } catch (e) {
+          totalStorage = 'Unable to determine';
+        }
+      }
+
+      const version = this.db.prepare('SELECT sqlite_version() AS version').get() as { version: string };
+
+      return {
+        connected: true,
+        engine: 'SQLite',
+        totalRecords: counts.total_records,
+        panels: counts.panels,
+        tickets: counts.tickets,
+        openTickets: counts.open_tickets,
+        closedTickets: counts.closed_tickets,
+        storage: `${sizeMb} MB`,
+        totalStorage,
+        host: 'local',
+        port: 'N/A',
+        dbName: this.filePath === ':memory:' ? 'in-memory' : path.basename(this.filePath),
+        dbVersion: version.version,
+        maxConnections: 1,
+        activeConnections: 1,
+        responseTime: Date.now() - startTime
+      };
+    } catch (error: any) {
+      return disconnectedStatus('SQLite', error.message, Date.now() - startTime);
+    }
+  }
+
+  /**
+   * Close the database file
+   */
+  async close(): Promise<void> {
+    this.db.close();
+    this.isConnected = false;
+  }
+}
+
+export default SqliteDB;
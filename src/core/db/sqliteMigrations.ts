@@ -0,0 +1,278 @@
+import type { Database } from 'better-sqlite3';
+import { Migration } from './migrations';
+
+const NOW = `(strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))`;
+
+/**
+ * Numbered schema migrations for the SQLite backend, applied in order at startup.
+ * Mirrors the PostgreSQL schema; never edit a migration that has shipped - add a new one instead.
+ */
+export const sqliteMigrations: Migration[] = [
+  {
+    version: 1,
+    name: 'create_relational_schema',
+    up: `
+      CREATE TABLE IF NOT EXISTS guild_configs (
+        guild_id TEXT PRIMARY KEY,
+        prefix TEXT NOT NULL DEFAULT '$',
+        updated_at TEXT NOT NULL DEFAULT ${NOW}
+      );
+
+      CREATE TABLE IF NOT EXISTS panels (
+        id TEXT PRIMARY KEY,
+        guild_id TEXT,
+        name TEXT,
+        channel_id TEXT,
+        message_id TEXT,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        tickets_created INTEGER NOT NULL DEFAULT 0,
+        settings TEXT NOT NULL DEFAULT '{}',
+        created_at TEXT NOT NULL DEFAULT ${NOW},
+        updated_at TEXT NOT NULL DEFAULT ${NOW}
+      );
+      CREATE INDEX IF NOT EXISTS idx_panels_guild ON panels(guild_id);
+
+      CREATE TABLE IF NOT EXISTS tickets (
+        id TEXT PRIMARY KEY,
+        guild_id TEXT,
+        number INTEGER,
+        panel_id TEXT REFERENCES panels(id) ON DELETE SET NULL,
+        owner_id TEXT NOT NULL,
+        channel_id TEXT NOT NULL UNIQUE,
+        state TEXT NOT NULL DEFAULT 'open' CHECK (state IN ('open', 'closed')),
+        claimed_by TEXT,
+        welcome_message_id TEXT,
+        close_message_id TEXT,
+        created_at TEXT NOT NULL DEFAULT ${NOW},
+        closed_at TEXT,
+        updated_at TEXT NOT NULL DEFAULT ${NOW}
+      );
+      CREATE INDEX IF NOT EXISTS idx_tickets_guild_state ON tickets(guild_id, state);
+      CREATE INDEX IF NOT EXISTS idx_tickets_panel_state ON tickets(panel_id, state);
+      CREATE INDEX IF NOT EXISTS idx_tickets_owner_state ON tickets(owner_id, state);
+      CREATE INDEX IF NOT EXISTS idx_tickets_claimed_by ON tickets(claimed_by);
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_tickets_guild_number ON tickets(guild_id, number);
+
+      CREATE TABLE IF NOT EXISTS ticket_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        ticket_id TEXT NOT NULL REFERENCES tickets(id) ON DELETE CASCADE,
+        guild_id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        actor_id TEXT,
+        payload TEXT NOT NULL DEFAULT '{}',
+        created_at TEXT NOT NULL DEFAULT ${NOW}
+      );
+      CREATE INDEX IF NOT EXISTS idx_ticket_events_ticket ON ticket_events(ticket_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_ticket_events_guild ON ticket_events(guild_id, created_at);
+
+      CREATE TABLE IF NOT EXISTS templates (
+        id TEXT PRIMARY KEY,
+        guild_id TEXT NOT NULL,
+        name TEXT,
+        data TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT ${NOW},
+        updated_at TEXT NOT NULL DEFAULT ${NOW}
+      );
+      CREATE INDEX IF NOT EXISTS idx_templates_guild ON templates(guild_id);
+
+      CREATE TABLE IF NOT EXISTS autosaves (
+        user_id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        updated_at TEXT NOT NULL DEFAULT ${NOW}
+      );
+
+      -- SQLite has no sequences; each row holds the last ID handed out
+      CREATE TABLE IF NOT EXISTS id_sequences (
+        name TEXT PRIMARY KEY,
+        value INTEGER NOT NULL
+      );
+      INSERT OR IGNORE INTO id_sequences (name, value) VALUES ('panel', 1000), ('ticket', 1000);
+
+      CREATE TABLE IF NOT EXISTS guild_counters (
+        guild_id TEXT PRIMARY KEY,
+        last_ticket_number INTEGER NOT NULL DEFAULT 0
+      );
+    `,
+  },
+  {
+    version: 2,
+    name: 'keep_events_after_ticket_delete',
+    // SQLite cannot drop a foreign key, so the table is rebuilt without it
+    up: `
+      CREATE TABLE ticket_events_new (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        ticket_id TEXT NOT NULL,
+        guild_id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        actor_id TEXT,
+        payload TEXT NOT NULL DEFAULT '{}',
+        created_at TEXT NOT NULL DEFAULT ${NOW}
+      );
+      INSERT INTO ticket_events_new SELECT id, ticket_id, guild_id, type, actor_id, payload, created_at FROM ticket_events;
+      DROP TABLE ticket_events;
+      ALTER TABLE ticket_events_new RENAME TO ticket_events;
+      CREATE INDEX IF NOT EXISTS idx_ticket_events_ticket ON ticket_events(ticket_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_ticket_events_guild ON ticket_events(guild_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_ticket_events_guild_type ON ticket_events(guild_id, type, created_at);
+    `,
+  },
+  {
+    version: 3,
+    name: 'track_ticket_activity',
+    up: `
+      ALTER TABLE tickets ADD COLUMN last_activity_at TEXT;
+      ALTER TABLE tickets ADD COLUMN inactivity_warned_at TEXT;
+      -- Existing tickets start their inactivity clock now rather than being closed on the first sweep
+      UPDATE tickets SET last_activity_at = ${NOW} WHERE last_activity_at IS NULL AND state = 'open';
+    `,
+  },
+  {
+    version: 4,
+    name: 'track_transcript_delivery',
+    up: `
+      ALTER TABLE tickets ADD COLUMN transcript_sent_at TEXT;
+      CREATE INDEX IF NOT EXISTS idx_tickets_state_closed_at ON tickets(state, closed_at);
+    `,
+  },
+  {
+    version: 5,
+    name: 'create_blacklist',
+    up: `
+      CREATE TABLE IF NOT EXISTS blacklist (
+        guild_id TEXT NOT NULL,
+        target_id TEXT NOT NULL,
+        -- Empty string for guild-wide entries so the primary key stays usable for upserts
+        panel_id TEXT NOT NULL DEFAULT '',
+        target_type TEXT NOT NULL CHECK (target_type IN ('user', 'role')),
+        reason TEXT,
+        expires_at TEXT,
+        created_by TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT ${NOW},
+        PRIMARY KEY (guild_id, target_id, panel_id)
+      );
+    `,
+  },
+  {
+    version: 6,
+    name: 'track_ticket_participants',
+    up: `
+      ALTER TABLE tickets ADD COLUMN participants TEXT;
+    `,
+  },
+  {
+    version: 7,
+    name: 'add_ticket_priority',
+    up: `
+      ALTER TABLE tickets ADD COLUMN priority TEXT CHECK (priority IN ('low', 'normal', 'high', 'urgent'));
+    `,
+  },
+  {
+    version: 8,
+    name: 'track_sla',
+    up: `
+      ALTER TABLE tickets ADD COLUMN first_response_at TEXT;
+      ALTER TABLE tickets ADD COLUMN first_response_by TEXT;
+      ALTER TABLE tickets ADD COLUMN sla_breaches TEXT;
+    `,
+  },
+  {
+    version: 9,
+    name: 'add_ticket_rating',
+    up: `
+      ALTER TABLE tickets ADD COLUMN rating TEXT;
+    `,
+  },
+  {
+    version: 10,
+    name: 'add_close_reason',
+    up: `
+      ALTER TABLE tickets ADD COLUMN close_reason TEXT;
+    `,
+  },
+  {
+    version: 11,
+    name: 'add_modmail',
+    up: `
+      ALTER TABLE tickets ADD COLUMN modmail INTEGER NOT NULL DEFAULT 0;
+      CREATE INDEX IF NOT EXISTS idx_tickets_modmail_owner ON tickets(owner_id, state) WHERE modmail = 1;
+      CREATE TABLE IF NOT EXISTS relayed_messages (
+        source_id TEXT PRIMARY KEY,
+        copy_id TEXT NOT NULL,
+        copy_channel_id TEXT NOT NULL,
+        ticket_id TEXT NOT NULL REFERENCES tickets(id) ON DELETE CASCADE
+      );
+    `,
+  },
+  {
+    version: 12,
+    name: 'add_panel_groups',
+    up: `
+      CREATE TABLE IF NOT EXISTS panel_groups (
+        id TEXT PRIMARY KEY,
+        guild_id TEXT NOT NULL,
+        channel_id TEXT,
+        message_id TEXT,
+        data TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT ${NOW},
+        updated_at TEXT NOT NULL DEFAULT ${NOW}
+      );
+      CREATE INDEX IF NOT EXISTS idx_panel_groups_guild ON panel_groups(guild_id);
+    `,
+  },
+  {
+    version: 13,
+    name: 'add_ticket_answers',
+    up: `
+      ALTER TABLE tickets ADD COLUMN answers TEXT;
+    `,
+  },
+  {
+    version: 14,
+    name: 'track_completed_tasks',
+    up: `
+      -- One-time startup jobs that need Discord, such as the guild backfill, so they are not rerun on every boot
+      CREATE TABLE IF NOT EXISTS completed_tasks (
+        name TEXT PRIMARY KEY,
+        completed_at TEXT NOT NULL DEFAULT ${NOW}
+      );
+    `,
+  },
+];
+
+/**
+ * Apply all pending SQLite migrations and record them in schema_migrations.
+ * Each migration runs in its own transaction.
+ * Returns the number of migrations applied.
+ */
+export function runSqliteMigrations(db: Database): number {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL DEFAULT ${NOW}
+    )
+  `);
+
+  const rows = db.prepare('SELECT version FROM schema_migrations').all() as { version: number }[];
+  const applied = new Set<number>(rows.map(row => row.version));
+  const record = db.prepare('INSERT INTO schema_migrations (version, name) VALUES (?, ?)');
+
+  let count = 0;
+  for (const migration of [...sqliteMigrations].sort((a, b) => a.version - b.version)) {
+    if (applied.has(migration.version)) continue;
+
+    try {
+      db.transaction(() => {
+        db.exec(migration.up);
+        record.run(migration.version, migration.name);
+      })();
+    } catch (error: any) {
+      throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${error.message}`);
+    }
+
+    console.log(`📐 Applied migration ${migration.version}: ${migration.name}`);
+    count++;
+  }
+
+  return count;
+}
@@ -0,0 +1,580 @@
+export type RecordType = 'panel' | 'ticket' | 'autosave' | 'config' | 'template' | 'group';
+
+export interface CustomQuestion {
+  text: string;
+  type: 'primary' | 'optional';
+  style?: 'short' | 'paragraph'; // Missing means paragraph
+  placeholder?: string;
+  defaultValue?: string; // Pre-filled answer
+  minLength?: number;
+  maxLength?: number; // Missing means 1000
+  pattern?: string; // Regular expression the whole answer must match
+  patternHint?: string; // Shown when an answer does not match the pattern
+}
+
+/**
+ * One answer from the question form, in the order the questions were asked
+ */
+export interface TicketAnswer {
+  question: string;
+  answer: string;
+}
+
+/**
+ * One option of a panel's routing menu, shown before the question form. An option with sub-options leads to
+ * another menu. The option picked last decides the ticket; its staff role and category fall back to the
+ * options above it, then to the panel.
+ */
+export interface PanelRoute {
+  id: string;
+  label: string;
+  description?: string;
+  emoji?: string;
+  staffRole?: string; // Pinged instead of the panel's staff role; must be one of the panel's staff roles
+  openCategory?: string;
+  questions?: number[]; // Indexes into customQuestions to ask; missing means all of them
+  options?: PanelRoute[];
+}
+
+/**
+ * Auto-close policy for tickets whose owner stops replying. Either threshold may be unset.
+ */
+export interface InactivityPolicy {
+  warnAfterHours?: number; // Post a "Still need help?" prompt after this much owner silence
+  closeAfterHours?: number; // Close after this much owner silence, counted from the last owner message
+}
+
+/**
+ * Caps on how many tickets can be open at once, and how soon a user may open another one
+ */
+export interface TicketLimits {
+  maxOpenPerUser?: number; // Open tickets per user across every panel in the guild
+  maxOpenPerPanel?: number; // Open tickets on this panel, from everyone
+  cooldownMinutes?: number; // Wait after one of the user's tickets on this panel closes
+}
+
+/**
+ * A user or role barred from opening tickets, guild-wide or on one panel
+ */
+export interface BlacklistEntry {
+  guildId: string;
+  targetId: string;
+  targetType: 'user' | 'role';
+  panelId?: string; // Missing for guild-wide entries
+  reason?: string;
+  expiresAt?: string; // Missing for permanent entries
+  createdBy: string;
+  createdAt: string;
+}
+
+/**
+ * Service-level targets, counted from when the ticket was opened
+ */
+export interface SlaPolicy {
+  firstResponseMinutes?: number; // First message from staff
+  resolutionHours?: number; // Ticket closed
+}
+
+export type SlaBreach = 'first-response' | 'resolution';
+
+export type TicketPriority = 'low' | 'normal' | 'high' | 'urgent';
+
+/**
+ * What a staff role can do in a panel's tickets, lowest first. Each level includes the ones before it:
+ * viewers read along, responders also write and claim, closers also close and reopen, managers also reassign claims.
+ */
+export type StaffLevel = 'viewer' | 'responder' | 'closer' | 'manager';
+
+export interface PanelStaffRole {
+  roleId: string;
+  level: StaffLevel;
+}
+
+/**
+ * The owner's answer to the post-close survey
+ */
+export interface TicketRating {
+  stars: number; // 1-5
+  staffId?: string; // Who had claimed the ticket when it was rated
+  feedback?: string;
+  ratedAt: string;
+  messageId?: string; // The post in the panel's feedback channel
+}
+
+/**
+ * A user or role given access to a ticket on top of the owner and staff
+ */
+export interface TicketParticipant {
+  id: string;
+  type: 'user' | 'role';
+  addedBy: string;
+  addedAt: string;
+}
+
+export interface PanelData {
+  id: string;
+  type: 'panel';
+  guildId?: string; // Missing only on records created before guild scoping
+  name?: string;
+  channel?: string;
+  openCategory?: string;
+  closeCategory?: string;
+  ticketType?: 'channel' | 'thread'; // Missing means channel
+  threadChannel?: string; // Parent channel of private thread tickets
+  staffRole?: string; // Primary staff role, pinged on new tickets
+  staffRoles?: PanelStaffRole[]; // Without it, staffRole alone counts as a closer
+  logsChannel?: string;
+  transcriptChannel?: string;
+  label: string;
+  emoji: string;
+  color: 'Primary' | 'Secondary' | 'Success' | 'Danger';
+  description: string;
+  openMessage: string;
+  questions: string[]; // Legacy support
+  customQuestions?: CustomQuestion[];
+  routes?: PanelRoute[]; // Options picked before the question form, see PanelRoute
+  claimable: boolean;
+  exclusiveClaim?: boolean; // While claimed, only the claimer can write; other staff keep reading
+  allowOwnerClose?: boolean;
+  enabled: boolean;
+  messageId?: string;
+  ticketsCreated?: number;
+  userPermissions?: string[];
+  staffPermissions?: string[];
+  inactivity?: InactivityPolicy;
+  deleteClosedAfterHours?: number; // Delete closed ticket channels this long after closedAt
+  limits?: TicketLimits;
+  blacklistMessage?: string; // Refusal shown to blacklisted users; supports {reason} and {expires}
+  escalationRole?: string; // Pinged when a ticket is marked urgent
+  sla?: SlaPolicy;
+  feedbackChannel?: string; // Ratings are posted here; setting it turns the survey on
+  requireCloseReason?: boolean; // Close asks for a reason instead of a plain confirmation
+  modmail?: boolean; // Users can also open tickets on this panel by DMing the bot
+  editChanges?: string[]; // Track changes during editing
+}
+
+/**
+ * Several panels deployed together on one message, as buttons or as the options of a select menu
+ */
+export interface PanelGroup {
+  id: string;
+  type: 'group';
+  guildId: string;
+  name: string;
+  description: string;
+  style: 'buttons' | 'select';
+  panelIds: string[]; // In display order; each panel brings its own emoji, label and description
+  channel?: string;
+  messageId?: string;
+  createdAt: string;
+}
+
+export interface TicketData {
+  id: string;
+  type: 'ticket';
+  guildId?: string; // Missing only on records created before guild scoping
+  number?: number; // Per-guild ticket number shown to users
+  owner: string;
+  panelId: string;
+  channelId: string;
+  state: 'open' | 'closed';
+  claimedBy?: string;
+  createdAt: string;
+  closedAt?: string;
+  welcomeMessageId?: string;
+  closeMessageId?: string;
+  lastActivityAt?: string; // Last message from the owner; falls back to createdAt
+  inactivityWarnedAt?: string; // Set while an inactivity warning is pending
+  transcriptSentAt?: string; // Last time a transcript reached the transcript channel or the owner
+  participants?: TicketParticipant[]; // Users and roles added with /ticket add
+  priority?: TicketPriority; // Missing means normal
+  firstResponseAt?: string; // First message from a staff member other than the owner
+  firstResponseBy?: string;
+  slaBreaches?: SlaBreach[]; // Targets already reported as missed, so each is only warned about once
+  rating?: TicketRating;
+  closeReason?: string; // Cleared on reopen
+  modmail?: boolean; // Opened by DM: the owner has no channel access and talks to staff through the bot
+  answers?: TicketAnswer[]; // Question form answers; skipped questions are left out
+}
+
+/**
+ * A modmail message and its copy on the other side (DM → ticket channel or ticket channel → DM), so edits can follow
+ */
+export interface RelayedMessage {
+  sourceId: string;
+  copyId: string;
+  copyChannelId: string;
+  ticketId: string;
+}
+
+export interface AutosaveData {
+  id: string;
+  type: 'autosave';
+  userId: string;
+  panelId?: string;
+  data: Partial<PanelData>;
+  tempPanel?: PanelData;
+  startedAt: string;
+  editChanges?: string[]; // Track changes during editing
+}
+
+export interface GuildConfig {
+  id: string;
+  type: 'config';
+  guildId: string;
+  prefix: string;
+  updatedAt: string;
+}
+
+export type StoredData = PanelData | TicketData | AutosaveData | GuildConfig | PanelGroup;
+
+export type TicketEventType =
+  | 'created'
+  | 'closed'
+  | 'reopened'
+  | 'claimed'
+  | 'unclaimed'
+  | 'transferred'
+  | 'renamed'
+  | 'user-added'
+  | 'user-removed'
+  | 'role-added'
+  | 'role-removed'
+  | 'priority-changed'
+  | 'moved'
+  | 'first-response'
+  | 'sla-breached'
+  | 'rated'
+  | 'transcript'
+  | 'deleted';
+
+/**
+ * One entry in a ticket's audit trail. Events outlive the ticket record itself.
+ */
+export interface TicketEvent {
+  id?: number;
+  ticketId: string;
+  guildId: string;
+  type: TicketEventType;
+  actorId?: string; // Missing for actions the bot took on its own
+  payload: Record<string, any>;
+  createdAt: string;
+}
+
+export interface TicketEventQuery {
+  since?: string;
+  until?: string;
+  types?: TicketEventType[];
+  limit?: number;
+}
+
+
+const RECORD_TYPES: RecordType[] = ['panel', 'ticket', 'autosave', 'config', 'template', 'group'];
+
+/**
+ * Split a record ID such as `panel:1001` or `config:<guildId>` into its type and key.
+ * Panels, tickets, templates and panel groups are keyed by their full ID; autosaves and configs by the part after the prefix.
+ */
+export function parseRecordId(id: string): { type: RecordType; key: string } | null {
+  const separator = id.indexOf(':');
+  if (separator === -1) return null;
+
+  const type = id.slice(0, separator) as RecordType;
+  if (!RECORD_TYPES.includes(type)) return null;
+
+  const key = type === 'autosave' || type === 'config' ? id.slice(separator + 1) : id;
+  return { type, key };
+}
+
+/**
+ * Health and size information shown by `/status`
+ */
+export interface DatabaseStatus {
+  connected: boolean;
+  engine: string;
+  totalRecords: number;
+  panels: number;
+  tickets: number;
+  openTickets: number;
+  closedTickets: number;
+  storage: string;
+  totalStorage: string;
+  host: string;
+  port: string;
+  dbName: string;
+  dbVersion: string;
+  maxConnections: number;
+  activeConnections: number;
+  responseTime: number;
+  error?: string;
+}
+
+/**
+ * Status reported when the backend cannot be reached
+ */
+export function disconnectedStatus(engine: string, error: string, responseTime: number = 0): DatabaseStatus {
+  return {
+    connected: false,
+    engine,
+    totalRecords: 0,
+    panels: 0,
+    tickets: 0,
+    openTickets: 0,
+    closedTickets: 0,
+    storage: 'N/A',
+    totalStorage: 'N/A',
+    host: 'N/A',
+    port: 'N/A',
+    dbName: 'N/A',
+    dbVersion: 'N/A',
+    maxConnections: 0,
+    activeConnections: 0,
+    responseTime,
+    error
+  };
+}
+
+/**
+ * Everything the bot needs from a database backend.
+ * Implemented by PostgresDB, SqliteDB and MemoryDB; pick one with createStorage().
+ */
+export interface StorageAdapter {
+  save<T extends StoredData>(data: T): Promise<void>;
+  get<T extends StoredData>(id: string): Promise<T | null>;
+  getByType<T extends StoredData>(type: RecordType): Promise<T[]>;
+  delete(id: string): Promise<void>;
+
+  getAllPanels(): Promise<PanelData[]>;
+  getAllTickets(): Promise<TicketData[]>;
+  getPanelsByGuild(guildId: string): Promise<PanelData[]>;
+  getTicketsByGuild(guildId: string): Promise<TicketData[]>;
+  getTicketByChannel(channelId: string): Promise<TicketData | null>;
+  getTicketsByPanel(panelId: string): Promise<TicketData[]>;
+  getOpenTicketsForUser(userId: string, panelId: string): Promise<TicketData[]>;
+  getOpenTicketsByOwner(guildId: string, userId: string): Promise<TicketData[]>;
+  getOpenModmailTicket(userId: string): Promise<TicketData | null>;
+  countOpenTicketsByPanel(panelId: string): Promise<number>;
+  touchTicketActivity(ticketId: string, at: string): Promise<void>;
+  markInactivityWarned(ticketId: string, at: string, lastActivityAt?: string): Promise<boolean>;
+  markTranscriptSent(ticketId: string, at: string): Promise<void>;
+  setTicketParticipants(ticketId: string, participants: TicketParticipant[]): Promise<void>;
+  setTicketPriority(ticketId: string, priority: TicketPriority): Promise<void>;
+  markFirstResponse(ticketId: string, at: string, staffId: string): Promise<boolean>;
+  markSlaBreach(ticketId: string, breach: SlaBreach): Promise<void>;
+  rateTicket(ticketId: string, rating: TicketRating): Promise<boolean>;
+  updateTicketRating(ticketId: string, changes: Partial<TicketRating>): Promise<void>;
+  saveRelayedMessage(relayed: RelayedMessage): Promise<void>;
+  getRelayedMessage(sourceId: string): Promise<RelayedMessage | null>;
+
+  hasCompletedTask(name: string): Promise<boolean>;
+  markTaskCompleted(name: string): Promise<void>;
+
+  getAutosave(userId: string): Promise<AutosaveData | null>;
+  deleteAutosave(userId: string): Promise<void>;
+
+  generatePanelId(): Promise<string>;
+  generateTicketId(): Promise<string>;
+  nextTicketNumber(guildId: string): Promise<number>;
+
+  getGuildConfig(guildId: string): Promise<GuildConfig | null>;
+  saveGuildConfig(guildId: string, prefix: string): Promise<void>;
+  getPrefix(guildId: string): Promise<string>;
+  clearPrefixCache(guildId: string): void;
+
+  addTicketEvent(event: Omit<TicketEvent, 'id' | 'createdAt'> & { createdAt?: string }): Promise<void>;
+  getTicketEvents(ticketId: string): Promise<TicketEvent[]>;
+  getGuildEvents(guildId: string, query?: TicketEventQuery): Promise<TicketEvent[]>;
+
+  saveBlacklistEntry(entry: BlacklistEntry): Promise<void>;
+  deleteBlacklistEntry(guildId: string, targetId: string, panelId?: string): Promise<boolean>;
+  getBlacklist(guildId: string): Promise<BlacklistEntry[]>;
+
+  savePanelTemplate(templateId: string, template: any): Promise<void>;
+  getPanelTemplate(templateId: string): Promise<any | null>;
+  getAllTemplates(): Promise<any[]>;
+  getTemplatesByGuild(guildId: string): Promise<any[]>;
+
+  getPanelGroupsByGuild(guildId: string): Promise<PanelGroup[]>;
+
+  isConnectionReady(): boolean;
+  isConnectionActive(): boolean;
+  waitForConnection(timeoutMs?: number): Promise<boolean>;
+  getStatus(guildId: string | null): Promise<DatabaseStatus>;
+  close(): Promise<void>;
+}
+
+/**
+ * Backend-independent half of StorageAdapter, built on top of the record primitives
+ */
+export abstract class BaseStorage implements StorageAdapter {
+  // Caching layer to reduce database queries
+  private prefixCache: Map<string, { prefix: string; cachedAt: number }> = new Map();
+  private readonly CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+
+  abstract save<T extends StoredData>(data: T): Promise<void>;
+  abstract get<T extends StoredData>(id: string): Promise<T | null>;
+  abstract getByType<T extends StoredData>(type: RecordType): Promise<T[]>;
+  abstract delete(id: string): Promise<void>;
+  abstract getPanelsByGuild(guildId: string): Promise<PanelData[]>;
+  abstract getTicketsByGuild(guildId: string): Promise<TicketData[]>;
+  abstract getTicketByChannel(channelId: string): Promise<TicketData | null>;
+  abstract getTicketsByPanel(panelId: string): Promise<TicketData[]>;
+  abstract getOpenTicketsForUser(userId: string, panelId: string): Promise<TicketData[]>;
+  abstract getOpenTicketsByOwner(guildId: string, userId: string): Promise<TicketData[]>;
+  abstract getOpenModmailTicket(userId: string): Promise<TicketData | null>;
+  abstract countOpenTicketsByPanel(panelId: string): Promise<number>;
+  abstract touchTicketActivity(ticketId: string, at: string): Promise<void>;
+  abstract markInactivityWarned(ticketId: string, at: string, lastActivityAt?: string): Promise<boolean>;
+  abstract markTranscriptSent(ticketId: string, at: string): Promise<void>;
+  abstract setTicketParticipants(ticketId: string, participants: TicketParticipant[]): Promise<void>;
+  abstract setTicketPriority(ticketId: string, priority: TicketPriority): Promise<void>;
+  abstract markFirstResponse(ticketId: string, at: string, staffId: string): Promise<boolean>;
+  abstract markSlaBreach(ticketId: string, breach: SlaBreach): Promise<void>;
+  abstract rateTicket(ticketId: string, rating: TicketRating): Promise<boolean>;
+  abstract updateTicketRating(ticketId: string, changes: Partial<TicketRating>): Promise<void>;
+  abstract saveRelayedMessage(relayed: RelayedMessage): Promise<void>;
+  abstract getRelayedMessage(sourceId: string): Promise<RelayedMessage | null>;
+  abstract hasCompletedTask(name: string): Promise<boolean>;
+  abstract markTaskCompleted(name: string): Promise<void>;
+  abstract generatePanelId(): Promise<string>;
+  abstract generateTicketId(): Promise<string>;
+  abstract nextTicketNumber(guildId: string): Promise<number>;
+  abstract getTemplatesByGuild(guildId: string): Promise<any[]>;
+  abstract getPanelGroupsByGuild(guildId: string): Promise<PanelGroup[]>;
+  abstract addTicketEvent(event: Omit<TicketEvent, 'id' | 'createdAt'> & { createdAt?: string }): Promise<void>;
+  abstract getTicketEvents(ticketId: string): Promise<TicketEvent[]>;
+  abstract getGuildEvents(guildId: string, query?: TicketEventQuery): Promise<TicketEvent[]>;
+  abstract saveBlacklistEntry(entry: BlacklistEntry): Promise<void>;
+  abstract deleteBlacklistEntry(guildId: string, targetId: string, panelId?: string): Promise<boolean>;
+  abstract getBlacklist(guildId: string): Promise<BlacklistEntry[]>;
+  abstract isConnectionReady(): boolean;
+  abstract getStatus(guildId: string | null): Promise<DatabaseStatus>;
+  abstract close(): Promise<void>;
+
+  /**
+   * Check if database is connected
+   */
+  isConnectionActive(): boolean {
+    return this.isConnectionReady();
+  }
+
+  /**
+   * Wait for database to be ready (with timeout)
+   */
+  async waitForConnection(timeoutMs: number = 30000): Promise<boolean> {
+    const startTime = Date.now();
+    while (!this.isConnectionReady() && Date.now() - startTime < timeoutMs) {
+      await new Promise(resolve => setTimeout(resolve, 500));
+    }
+    return this.isConnectionReady();
+  }
+
+  /**
+   * Get all panels
+   */
+  async getAllPanels(): Promise<PanelData[]> {
+    return this.getByType<PanelData>('panel');
+  }
+
+  /**
+   * Get all tickets
+   */
+  async getAllTickets(): Promise<TicketData[]> {
+    return this.getByType<TicketData>('ticket');
+  }
+
+  /**
+   * Get autosave for a specific user
+   */
+  async getAutosave(userId: string): Promise<AutosaveData | null> {
+    return this.get<AutosaveData>(`autosave:${userId}`);
+  }
+
+  /**
+   * Delete autosave for a user
+   */
+  async deleteAutosave(userId: string): Promise<void> {
+    await this.delete(`autosave:${userId}`);
+  }
+
+  /**
+   * Get guild configuration
+   */
+  async getGuildConfig(guildId: string): Promise<GuildConfig | null> {
+    return this.get<GuildConfig>(`config:${guildId}`);
+  }
+
+  /**
+   * Save guild configuration
+   */
+  async saveGuildConfig(guildId: string, prefix: string): Promise<void> {
+    const config: GuildConfig = {
+      id: `config:${guildId}`,
+      type: 'config',
+      guildId,
+      prefix,
+      updatedAt: new Date().toISOString()
+    };
+    await this.save(config);
+    
+    // Invalidate cache
+    this.clearPrefixCache(guildId);
+  }
+
+  /**
+   * Get guild prefix or default (with caching)
+   */
+  async getPrefix(guildId: string): Promise<string> {
+    // Check cache first
+    const cached = this.prefixCache.get(guildId);
+    if (cached && Date.now() - cached.cachedAt < this.CACHE_TTL) {
+      return cached.prefix;
+    }
+    
+    // Fetch from database
+    const config = await this.getGuildConfig(guildId);
+    const prefix = config?.prefix || '$';
+    
+    // Update cache
+    this.prefixCache.set(guildId, { prefix, cachedAt: Date.now() });
+    
+    return prefix;
+  }
+  
+  /**
+   * Clear prefix cache for a guild (call when prefix is updated)
+   */
+  clearPrefixCache(guildId: string): void {
+    this.prefixCache.delete(guildId);
+  }
+
+  /**
+   * Save panel template
+   */
+  async savePanelTemplate(templateId: string, template: any): Promise<void> {
+    // Create a copy without the 'id' field to avoid conflicts
+    const { id: _originalId, ...templateWithoutId } = template;
+    
+    const templateData = {
+      id: `template:${templateId}`,
+      type: 'template' as const,
+      guildId: template.originalGuild,
+      ...templateWithoutId
+    };
+    await this.save(templateData as any);
+  }
+
+  /**
+   * Get panel template
+   */
+  async getPanelTemplate(templateId: string): Promise<any | null> {
+    return await this.get(`template:${templateId}`);
+  }
+
+  /**
+   * Get all templates
+   */
+  async getAllTemplates(): Promise<any[]> {
+    return this.getByType('template');
+  }
+}
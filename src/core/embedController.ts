@@ -1,5 +1,6 @@
 import { EmbedBuilder, ColorResolvable } from 'discord.js';
-import { PanelData, AutosaveData } from './db/postgresDB';
+import { PanelData, AutosaveData } from './db/storage';
+import { PermissionHelper, STAFF_LEVELS } from './permissionHelper';
 
 export class EmbedController {
   private static debounceTimers: Map<string, NodeJS.Timeout> = new Map();
@@ -13,6 +14,20 @@ export class EmbedController {
     return this.botName;
   }
 
+  /**
+   * One line per staff level that has roles, e.g. "Closer: @Support"
+   */
+  static formatStaffRoles(data: Partial<PanelData>): string {
+    const staffRoles = PermissionHelper.getStaffRoles(data);
+    if (staffRoles.length === 0) return '`Not set`';
+
+    return STAFF_LEVELS
+      .map(level => [level, staffRoles.filter(staffRole => staffRole.level === level)] as const)
+      .filter(([, roles]) => roles.length > 0)
+      .map(([level, roles]) => `${level[0].toUpperCase()}${level.slice(1)}: ${roles.map(staffRole => `<@&${staffRole.roleId}>`).join(', ')}`)
+      .join('\n');
+  }
+
   /**
    * Create the main setup wizard embed
    */
@@ -43,8 +58,13 @@ export class EmbedController {
           inline: true
         },
         {
-          name: 'Staff Role',
-          value: data.staffRole ? `<@&${data.staffRole}>` : '`Not set`',
+          name: 'Ticket Type',
+          value: `${data.ticketType === 'thread' ? `Private threads in <#${data.threadChannel}>` : 'Channels'}${data.modmail ? '\n+ Opened by DM' : ''}`,
+          inline: true
+        },
+        {
+          name: 'Staff Roles',
+          value: this.formatStaffRoles(data),
           inline: true
         },
         {
@@ -84,9 +104,14 @@ export class EmbedController {
         },
         {
           name: 'Custom Questions',
-          value: data.questions && data.questions.length > 0 
-            ? data.questions.map((q, i) => `${i + 1}. ${q}`).join('\n')
-            : '`None`',
+          value: data.customQuestions && data.customQuestions.length > 0
+            ? data.customQuestions
+                .map((q, i) => `${i + 1}. ${q.text}${q.type === 'optional' ? ' *(optional)*' : ''}${q.pattern ? ' 🔎' : ''}`)
+                .join('\n')
+                .substring(0, 1024)
+            : data.questions && data.questions.length > 0
+              ? data.questions.map((q, i) => `${i + 1}. ${q}`).join('\n').substring(0, 1024)
+              : '`None`',
           inline: false
         },
         {
@@ -105,7 +130,9 @@ export class EmbedController {
         },
         {
           name: 'Claimable',
-          value: data.claimable ? '<:tcet_tick:1437995479567962184> Yes' : '<:tcet_cross:1437995480754946178> No',
+          value: data.claimable
+            ? `<:tcet_tick:1437995479567962184> Yes${data.exclusiveClaim ? ' (exclusive)' : ''}`
+            : '<:tcet_cross:1437995480754946178> No',
           inline: true
         },
         {
@@ -160,8 +187,13 @@ export class EmbedController {
           inline: true
         },
         {
-          name: 'Staff Role',
-          value: data.staffRole ? `<@&${data.staffRole}>` : '`Not set`',
+          name: 'Ticket Type',
+          value: `${data.ticketType === 'thread' ? `Private threads in <#${data.threadChannel}>` : 'Channels'}${data.modmail ? '\n+ Opened by DM' : ''}`,
+          inline: true
+        },
+        {
+          name: 'Staff Roles',
+          value: this.formatStaffRoles(data),
           inline: true
         },
         {
@@ -173,6 +205,16 @@ export class EmbedController {
           name: 'Transcript Channel',
           value: data.transcriptChannel ? `<#${data.transcriptChannel}>` : '`Not set`',
           inline: true
+        },
+        {
+          name: 'Escalation Role',
+          value: data.escalationRole ? `<@&${data.escalationRole}>` : '`Not set`',
+          inline: true
+        },
+        {
+          name: 'Feedback Channel',
+          value: data.feedbackChannel ? `<#${data.feedbackChannel}>` : '`Not set` (no rating survey)',
+          inline: true
         }
       )
       .setFooter({ text: `Powered by ${EmbedController.botName}` })
@@ -216,6 +258,50 @@ export class EmbedController {
           name: 'Allow Owner Close',
           value: data.allowOwnerClose !== false ? '<:tcet_tick:1437995479567962184> Yes' : '<:tcet_cross:1437995480754946178> No (Staff only)',
           inline: true
+        },
+        {
+          name: 'Close Reason',
+          value: data.requireCloseReason ? '<:tcet_tick:1437995479567962184> Required' : '`Optional`',
+          inline: true
+        },
+        {
+          name: 'Auto-close',
+          value: data.inactivity?.closeAfterHours || data.inactivity?.warnAfterHours
+            ? [
+                data.inactivity.warnAfterHours ? `Warn after **${data.inactivity.warnAfterHours}h**` : 'No warning',
+                data.inactivity.closeAfterHours ? `close after **${data.inactivity.closeAfterHours}h**` : 'never close',
+              ].join(', ')
+            : '`Off`',
+          inline: true
+        },
+        {
+          name: 'Auto-delete',
+          value: data.deleteClosedAfterHours ? `**${data.deleteClosedAfterHours}h** after closing` : '`Off`',
+          inline: true
+        },
+        {
+          name: 'SLA',
+          value: [
+            data.sla?.firstResponseMinutes ? `First response in **${data.sla.firstResponseMinutes}m**` : null,
+            data.sla?.resolutionHours ? `Resolved in **${data.sla.resolutionHours}h**` : null,
+          ].filter(Boolean).join('\n') || '`None`',
+          inline: true
+        },
+        {
+          name: 'Limits',
+          value: [
+            data.limits?.maxOpenPerUser ? `**${data.limits.maxOpenPerUser}** open per user` : null,
+            data.limits?.maxOpenPerPanel ? `**${data.limits.maxOpenPerPanel}** open on this panel` : null,
+            data.limits?.cooldownMinutes ? `**${data.limits.cooldownMinutes}m** cooldown` : null,
+          ].filter(Boolean).join('\n') || '`None`',
+          inline: true
+        },
+        {
+          name: 'Routing',
+          value: data.routes && data.routes.length > 0
+            ? data.routes.map(route => `${route.label}${route.options?.length ? ` → ${route.options.length} sub-options` : ''}`).join('\n').substring(0, 1024)
+            : '`Off`',
+          inline: true
         }
       )
       .setFooter({ text: `Powered by ${EmbedController.botName}` })
@@ -241,7 +327,7 @@ export class EmbedController {
     const description = panels.map(panel => {
       return `${panel.emoji || '<:module:1437997093753983038>'} **${panel.name || 'Unnamed Panel'}**\n` +
              `→ Channel: ${panel.channel ? `<#${panel.channel}>` : 'Not set'}\n` +
-             `→ Staff Role: ${panel.staffRole ? `<@&${panel.staffRole}>` : 'Not set'}\n` +
+             `→ Staff Roles: ${this.formatStaffRoles(panel).replace(/\n/g, ' • ')}\n` +
              `→ Status: ${panel.enabled ? '<:tcet_tick:1437995479567962184> Enabled' : '<:tcet_cross:1437995480754946178> Disabled'}\n` +
              `→ Tickets Created: ${panel.ticketsCreated || 0}\n`;
     }).join('\n');
@@ -257,7 +343,7 @@ export class EmbedController {
     owner: string,
     staffRole: string,
     panel: PanelData,
-    ticketId: string
+    ticketNumber: number
   ): EmbedBuilder {
     const embed = new EmbedBuilder()
       .setTitle('New Ticket Created')
@@ -270,8 +356,8 @@ export class EmbedController {
           inline: true
         },
         {
-          name: 'Ticket ID',
-          value: ticketId.split(':')[1],
+          name: 'Ticket Number',
+          value: `#${ticketNumber}`,
           inline: true
         },
         {
@@ -37,11 +37,11 @@ export class InteractionRouter {
       const action = parts[1];
 
       // Check if this action opens a modal - if so, don't defer
-      const modalActions = ['set-name', 'set-description', 'set-openmessage', 'add-question', 'set-label', 'set-emoji'];
+      const modalActions = ['set-name', 'set-description', 'set-openmessage', 'add-question', 'set-label', 'set-emoji', 'set-inactivity', 'set-limits', 'edit-question', 'set-question-rules', 'add-route', 'edit-route', 'group-details', 'answer-page', 'route', 'rate', 'close'];
       const shouldShowModal = modalActions.includes(action);
 
       // Actions that should use ephemeral reply instead of update
-      const ephemeralActions = ['open'];
+      const ephemeralActions = ['open', 'open-select', 'modmail-open'];
       const shouldUseEphemeral = ephemeralActions.includes(action);
 
       // Defer for buttons/menus ONLY if not opening modal and not using ephemeral
@@ -1,15 +1,52 @@
-import { PermissionFlagsBits } from 'discord.js';
-import { PanelData } from './db/postgresDB';
+import { AnyThreadChannel, ChannelType, PermissionFlagsBits, TextChannel } from 'discord.js';
+import { PanelData, PanelStaffRole, StaffLevel } from './db/storage';
+
+export const STAFF_LEVELS: StaffLevel[] = ['viewer', 'responder', 'closer', 'manager'];
+
+/**
+ * A ticket lives in its own text channel, or in a private thread on panels with the thread ticket type
+ */
+export type TicketChannel = TextChannel | AnyThreadChannel;
 
 export class PermissionHelper {
   /**
-   * Check if user is staff based on panel configuration
+   * A panel's staff roles with their levels. Panels set up before tiers had one staff role, which counts as a closer.
+   */
+  static getStaffRoles(panel: Partial<PanelData> | null): PanelStaffRole[] {
+    if (panel?.staffRoles?.length) return panel.staffRoles;
+    return panel?.staffRole ? [{ roleId: panel.staffRole, level: 'closer' }] : [];
+  }
+
+  /**
+   * The highest staff level a member holds on a panel, or null for non-staff. Manage Channels counts as manager.
+   */
+  static getStaffLevel(member: any, panel: PanelData | null, hasManageChannels: boolean): StaffLevel | null {
+    if (hasManageChannels) return 'manager';
+    if (!member || !panel) return null;
+
+    let level: StaffLevel | null = null;
+    for (const staffRole of this.getStaffRoles(panel)) {
+      if (!member.roles?.cache?.has(staffRole.roleId)) continue;
+      if (!level || STAFF_LEVELS.indexOf(staffRole.level) > STAFF_LEVELS.indexOf(level)) {
+        level = staffRole.level;
+      }
+    }
+    return level;
+  }
+
+  /**
+   * Check if a member holds at least the given staff level on a panel
+   */
+  static hasStaffLevel(member: any, panel: PanelData | null, hasManageChannels: boolean, level: StaffLevel): boolean {
+    const held = this.getStaffLevel(member, panel, hasManageChannels);
+    return held !== null && STAFF_LEVELS.indexOf(held) >= STAFF_LEVELS.indexOf(level);
+  }
+
+  /**
+   * Check if user is staff based on panel configuration. Viewers only read along, so they do not count.
    */
   static isStaff(member: any, panel: PanelData | null, hasManageChannels: boolean): boolean {
-    if (!member || !panel) return hasManageChannels;
-    
-    const hasStaffRole = member.roles?.cache?.has(panel.staffRole || '');
-    return hasStaffRole || hasManageChannels;
+    return this.hasStaffLevel(member, panel, hasManageChannels, 'responder');
   }
 
   /**
@@ -27,10 +64,10 @@ export class PermissionHelper {
    */
   static canCloseTicket(userId: string, ownerId: string, member: any, panel: PanelData | null, hasManageChannels: boolean): boolean {
     const isOwner = userId === ownerId;
-    const isStaff = this.isStaff(member, panel, hasManageChannels);
+    const isCloser = this.hasStaffLevel(member, panel, hasManageChannels, 'closer');
     
-    // Staff can always close
-    if (isStaff) return true;
+    // Closers and managers can always close
+    if (isCloser) return true;
     
     // Owner can close only if panel allows it (default: true)
     if (isOwner && panel?.allowOwnerClose !== false) return true;
@@ -38,6 +75,83 @@ export class PermissionHelper {
     return false;
   }
 
+  /**
+   * Overwrite options for a panel's staff role, from the panel's staff permissions or the defaults
+   */
+  static staffOverwrite(panel: PanelData): Record<string, boolean> {
+    const staffPermissions = panel.staffPermissions || [];
+    if (staffPermissions.length === 0) {
+      return { ViewChannel: true, SendMessages: true, ReadMessageHistory: true, ManageMessages: true };
+    }
+
+    return Object.fromEntries(staffPermissions.map(perm => [perm, true]));
+  }
+
+  /**
+   * Overwrite options for one staff role: viewers can only read, every other level gets the panel's staff permissions
+   */
+  static staffRoleOverwrite(panel: PanelData, level: StaffLevel): Record<string, boolean> {
+    if (level === 'viewer') {
+      return { ViewChannel: true, ReadMessageHistory: true, SendMessages: false };
+    }
+    return this.staffOverwrite(panel);
+  }
+
+  /**
+   * Channel overwrites for every staff role of a panel, in the form guild.channels.create takes
+   */
+  static staffRoleOverwrites(panel: PanelData): { id: string; allow: bigint[]; deny: bigint[] }[] {
+    return this.getStaffRoles(panel).map(({ roleId, level }) => {
+      const options = Object.entries(this.staffRoleOverwrite(panel, level));
+      return {
+        id: roleId,
+        allow: this.mapPermissionsToFlags(options.filter(([, value]) => value).map(([name]) => name)),
+        deny: this.mapPermissionsToFlags(options.filter(([, value]) => !value).map(([name]) => name)),
+      };
+    });
+  }
+
+  /**
+   * Check if a fetched channel can hold a ticket
+   */
+  static isTicketChannel(channel: any): channel is TicketChannel {
+    return channel?.type === ChannelType.GuildText || channel?.type === ChannelType.PrivateThread;
+  }
+
+  static isThread(channel: TicketChannel): channel is AnyThreadChannel {
+    return channel.type !== ChannelType.GuildText;
+  }
+
+  /**
+   * Let a user or role into a ticket. Threads have no overwrites, so there the user joins the thread instead
+   * and the permissions come from the parent channel.
+   */
+  static async grantAccess(channel: TicketChannel, targetId: string, permissions: Record<string, boolean | null>): Promise<void> {
+    if (this.isThread(channel)) {
+      await channel.members.add(targetId);
+      return;
+    }
+    await channel.permissionOverwrites.edit(targetId, permissions);
+  }
+
+  /**
+   * Take a user's or role's access away: drop their overwrite, or remove them from a thread ticket
+   */
+  static async revokeAccess(channel: TicketChannel, targetId: string): Promise<void> {
+    if (this.isThread(channel)) {
+      await channel.members.remove(targetId);
+      return;
+    }
+    await channel.permissionOverwrites.delete(targetId);
+  }
+
+  /**
+   * Whether a user or role was let into the ticket on its own, as an overwrite or a thread member
+   */
+  static hasAccessEntry(channel: TicketChannel, targetId: string): boolean {
+    return this.isThread(channel) ? channel.members.cache.has(targetId) : channel.permissionOverwrites.cache.has(targetId);
+  }
+
   /**
    * Map permission names to Discord PermissionFlagsBits
    */
@@ -1,5 +1,10 @@
 import { Message, PermissionFlagsBits, EmbedBuilder } from 'discord.js';
 import { BotClient } from './client';
+import { PanelData } from './db/storage';
+import { PermissionHelper } from './permissionHelper';
+import { recordTicketEvent } from '../modules/ticket/ticketEvents';
+import { addTicketParticipant, removeTicketParticipant, formatParticipant } from '../modules/ticket/participants';
+import { withPriorityPrefix } from '../modules/ticket/priority';
 
 export class PrefixCommandHandler {
   /**
@@ -129,7 +134,7 @@ export class PrefixCommandHandler {
 
     switch (subcommand) {
       case 'close':
-        await this.handleTicketClose(message, client);
+        await this.handleTicketClose(message, args.slice(1).join(' '), client);
         break;
       case 'reopen':
         await this.handleTicketReopen(message, client);
@@ -155,21 +160,21 @@ export class PrefixCommandHandler {
         await this.handleTicketDelete(message, client);
         break;
       case 'add':
+      case 'remove':
         if (!hasPerms) {
           await message.reply('<:tcet_cross:1437995480754946178> You need **Manage Channels** permission to use this command.');
           return;
         }
         // Check if in ticket channel
-        const tickets = await client.db.getAllTickets();
-        const isTicketChannel = tickets.some(t => t.channelId === message.channel.id);
+        const isTicketChannel = !!(await client.db.getTicketByChannel(message.channel.id));
         if (!isTicketChannel) {
           await message.reply('<:tcet_cross:1437995480754946178> This command can only be used in ticket channels.');
           return;
         }
-        await this.handleTicketAdd(message, args.slice(1), client);
+        await this.handleTicketParticipant(message, subcommand, client);
         break;
       default:
-        await message.reply(`<:module:1437997093753983038> **Ticket Commands:**\n\`\`\`\nticket close - Close the current ticket\nticket reopen - Reopen a closed ticket\nticket claim - Claim the ticket\nticket unclaim - Unclaim the ticket\nticket rename <name> - Rename the ticket channel\nticket delete - Delete the ticket permanently\nticket add @user - Add a user to the ticket\n\`\`\``);
+        await message.reply(`<:module:1437997093753983038> **Ticket Commands:**\n\`\`\`\nticket close [reason] - Close the current ticket\nticket reopen - Reopen a closed ticket\nticket claim - Claim the ticket\nticket unclaim - Unclaim the ticket\nticket rename <name> - Rename the ticket channel\nticket delete - Delete the ticket permanently\nticket add @user|@role - Add a user or role to the ticket\nticket remove @user|@role - Remove a user or role from the ticket\n\`\`\``);
         break;
     }
   }
@@ -177,13 +182,12 @@ export class PrefixCommandHandler {
   /**
    * Handle ticket close
    */
-  private async handleTicketClose(message: Message, client: BotClient): Promise<void> {
+  private async handleTicketClose(message: Message, reason: string, client: BotClient): Promise<void> {
     const channel = message.channel;
     if (!channel.isTextBased()) return;
 
     // Find ticket
-    const tickets = await client.db.getAllTickets();
-    const ticket = tickets.find(t => t.channelId === channel.id);
+    const ticket = await client.db.getTicketByChannel(channel.id);
 
     if (!ticket) {
       await message.reply('<:tcet_cross:1437995480754946178> This is not a ticket channel.');
@@ -199,21 +203,21 @@ export class PrefixCommandHandler {
     const { TicketHandler } = await import('../modules/ticket/ticketHandler');
     const handler = new TicketHandler();
     
-    // Create a pseudo-interaction object
+    // Create a pseudo-interaction object. A message has nothing to defer, so it counts as deferred already.
     const pseudoInteraction = {
       user: message.author,
       member: message.member,
       guild: message.guild,
       channel: message.channel,
       replied: false,
-      deferred: false,
+      deferred: true,
       followUp: async (options: any) => {
         await message.reply(options.content || 'Done!');
       },
       memberPermissions: message.member?.permissions
     };
 
-    await handler.closeTicket(pseudoInteraction, client, ticket.id);
+    await handler.closeTicket(pseudoInteraction, client, ticket.id, reason.trim() || undefined);
   }
 
   /**
@@ -223,8 +227,7 @@ export class PrefixCommandHandler {
     const channel = message.channel;
     if (!channel.isTextBased()) return;
 
-    const tickets = await client.db.getAllTickets();
-    const ticket = tickets.find(t => t.channelId === channel.id);
+    const ticket = await client.db.getTicketByChannel(channel.id);
 
     if (!ticket) {
       await message.reply('<:tcet_cross:1437995480754946178> This is not a ticket channel.');
@@ -262,8 +265,7 @@ export class PrefixCommandHandler {
     const channel = message.channel;
     if (!channel.isTextBased()) return;
 
-    const tickets = await client.db.getAllTickets();
-    const ticket = tickets.find(t => t.channelId === channel.id);
+    const ticket = await client.db.getTicketByChannel(channel.id);
 
     if (!ticket) {
       await message.reply('<:tcet_cross:1437995480754946178> This is not a ticket channel.');
@@ -296,8 +298,7 @@ export class PrefixCommandHandler {
     const channel = message.channel;
     if (!channel.isTextBased()) return;
 
-    const tickets = await client.db.getAllTickets();
-    const ticket = tickets.find(t => t.channelId === channel.id);
+    const ticket = await client.db.getTicketByChannel(channel.id);
 
     if (!ticket) {
       await message.reply('<:tcet_cross:1437995480754946178> This is not a ticket channel.');
@@ -332,12 +333,19 @@ export class PrefixCommandHandler {
       return;
     }
 
-    const newName = args.join('-').toLowerCase().replace(/[^a-z0-9-]/g, '-');
     const channel = message.channel;
+    const ticket = await client.db.getTicketByChannel(channel.id);
+    const newName = withPriorityPrefix(args.join('-').toLowerCase().replace(/[^a-z0-9-]/g, '-'), ticket?.priority);
 
     if ('setName' in channel) {
       try {
+        const previousName = channel.name;
         await channel.setName(newName);
+
+        if (ticket) {
+          await recordTicketEvent(client, ticket, 'renamed', message.author.id, { from: previousName, to: newName });
+        }
+
         await message.reply(`<:tcet_tick:1437995479567962184> Ticket channel renamed to **${newName}**`);
       } catch (error) {
         await message.reply('<:tcet_cross:1437995480754946178> Failed to rename channel. Please check permissions.');
@@ -350,8 +358,7 @@ export class PrefixCommandHandler {
    */
   private async handleTicketDelete(message: Message, client: BotClient): Promise<void> {
     const channel = message.channel;
-    const tickets = await client.db.getAllTickets();
-    const ticket = tickets.find(t => t.channelId === channel.id);
+    const ticket = await client.db.getTicketByChannel(channel.id);
 
     if (!ticket) {
       await message.reply('<:tcet_cross:1437995480754946178> This is not a ticket channel.');
@@ -362,6 +369,7 @@ export class PrefixCommandHandler {
     
     setTimeout(async () => {
       await client.db.delete(ticket.id);
+      await recordTicketEvent(client, ticket, 'deleted', message.author.id, { state: ticket.state });
       if ('delete' in channel) {
         await channel.delete();
       }
@@ -371,33 +379,54 @@ export class PrefixCommandHandler {
   /**
    * Handle ticket add user
    */
-  private async handleTicketAdd(message: Message, args: string[], client: BotClient): Promise<void> {
-    if (args.length === 0 || !message.mentions.users.first()) {
-      await message.reply('<:tcet_cross:1437995480754946178> Please mention a user to add to the ticket.');
+  private async handleTicketParticipant(message: Message, action: 'add' | 'remove', client: BotClient): Promise<void> {
+    const user = message.mentions.users.first();
+    const role = message.mentions.roles.first();
+    if (!user && !role) {
+      await message.reply(`<:tcet_cross:1437995480754946178> Please mention a user or role to ${action} ${action === 'add' ? 'to' : 'from'} the ticket.`);
       return;
     }
 
-    const user = message.mentions.users.first()!;
     const channel = message.channel;
+    const ticket = await client.db.getTicketByChannel(channel.id);
+    if (!ticket || !PermissionHelper.isTicketChannel(channel)) return;
+
+    const target = user ? { id: user.id, type: 'user' as const } : { id: role!.id, type: 'role' as const };
+    const panel = await client.db.get<PanelData>(ticket.panelId);
+    const isStaffRole = PermissionHelper.getStaffRoles(panel).some(staffRole => staffRole.roleId === target.id);
+    if (target.id === ticket.owner || isStaffRole || target.id === message.guildId) {
+      await message.reply(`<:tcet_cross:1437995480754946178> ${formatParticipant(target)} cannot be ${action === 'add' ? 'added' : 'removed'}.`);
+      return;
+    }
 
-    if ('permissionOverwrites' in channel) {
-      try {
-        await channel.permissionOverwrites.edit(user.id, {
-          ViewChannel: true,
-          SendMessages: true,
-          ReadMessageHistory: true,
-        });
+    if (target.type === 'role' && PermissionHelper.isThread(channel)) {
+      await message.reply(`<:tcet_cross:1437995480754946178> Roles cannot be ${action === 'add' ? 'added to' : 'removed from'} thread tickets, only members.`);
+      return;
+    }
 
-        await message.reply(`<:tcet_tick:1437995479567962184> Added <@${user.id}> to the ticket.`);
-        if ('send' in message.channel) {
-          await message.channel.send(`<@${user.id}> has been added to the ticket by <@${message.author.id}>`);
-        }
-      } catch (error) {
-        await message.reply('<:tcet_cross:1437995480754946178> Failed to add user. Please check permissions.');
+    try {
+      const changed = action === 'add'
+        ? await addTicketParticipant(client, ticket, panel, channel, target, message.author.id)
+        : await removeTicketParticipant(client, ticket, channel, target, message.author.id);
+
+      if (!changed) {
+        await message.reply(`<:tcet_cross:1437995480754946178> ${formatParticipant(target)} is ${action === 'add' ? 'already' : 'not'} in this ticket.`);
+        return;
       }
+
+      await message.reply(`<:tcet_tick:1437995479567962184> ${action === 'add' ? 'Added' : 'Removed'} ${formatParticipant(target)} ${action === 'add' ? 'to' : 'from'} the ticket.`);
+      if ('send' in message.channel) {
+        await message.channel.send({
+          content: `${formatParticipant(target)} has been ${action === 'add' ? 'added to' : 'removed from'} the ticket by <@${message.author.id}>`,
+          ...(action === 'remove' ? { allowedMentions: { parse: [] } } : {}),
+        });
+      }
+    } catch (error) {
+      await message.reply(`<:tcet_cross:1437995480754946178> Failed to ${action} ${target.type}. Please check permissions.`);
     }
   }
 
+
   /**
    * Handle setprefix command
    */
@@ -457,8 +486,8 @@ export class PrefixCommandHandler {
    * Handle status command
    */
   private async handleStatus(message: Message, client: BotClient): Promise<void> {
-    const panels = await client.db.getAllPanels();
-    const tickets = await client.db.getAllTickets();
+    const panels = await client.db.getPanelsByGuild(message.guild!.id);
+    const tickets = await client.db.getTicketsByGuild(message.guild!.id);
     const openTickets = tickets.filter(t => t.state === 'open').length;
     const closedTickets = tickets.filter(t => t.state === 'closed').length;
 
@@ -1,4 +1,8 @@
 import { BotClient } from './client';
+import { PanelData } from './db/storage';
+import { ErrorHandler } from './errorHandler';
+
+const GUILD_BACKFILL_TASK = 'backfill_guild_ids';
 
 export class StartupLoader {
   /**
@@ -8,6 +12,9 @@ export class StartupLoader {
   static async load(client: BotClient): Promise<void> {
 
     try {
+      // Tag records created before guild scoping with their guild
+      await this.backfillGuildIds(client);
+
       // Pre-warm the database caches by loading all panels
       const panels = await client.db.getAllPanels();
       console.log(`📂 Loaded ${panels.length} panel(s)`);
@@ -49,6 +56,95 @@ export class StartupLoader {
     }
   }
 
+  /**
+   * One-time backfill of guildId on panels, tickets and templates saved before guild scoping.
+   * Panels resolve their guild from the panel channel, tickets from their panel (or channel),
+   * templates from the guild they were saved in. Records already tagged are skipped.
+   * Runs until it completes once per database: records it cannot resolve are logged for an operator to fix
+   * by hand, while lookups that failed for another reason leave the task open for the next startup.
+   */
+  static async backfillGuildIds(client: BotClient): Promise<void> {
+    if (await client.db.hasCompletedTask(GUILD_BACKFILL_TASK)) return;
+
+    // Only "Unknown Channel" means it is gone; anything else may be transient, so it is thrown to retry later
+    const resolveGuild = async (channelId?: string): Promise<string | undefined> => {
+      if (!channelId) return undefined;
+      const channel = await client.channels.fetch(channelId).catch((error: any) => {
+        if (error?.code === 10003) return null;
+        throw error;
+      });
+      return channel && 'guildId' in channel ? channel.guildId ?? undefined : undefined;
+    };
+
+    let tagged = 0;
+    const unresolved: string[] = [];
+    const retry: string[] = [];
+
+    const panels = await client.db.getAllPanels();
+    const panelGuilds = new Map<string, string>();
+
+    for (const panel of panels) {
+      if (!panel.guildId) {
+        let guildId: string | undefined;
+        try {
+          guildId = await resolveGuild(panel.channel);
+        } catch (error) {
+          retry.push(panel.id);
+          continue;
+        }
+        if (!guildId) {
+          unresolved.push(panel.id);
+          continue;
+        }
+        panel.guildId = guildId;
+        await client.db.save<PanelData>(panel);
+        tagged++;
+      }
+      panelGuilds.set(panel.id, panel.guildId);
+    }
+
+    const tickets = await client.db.getAllTickets();
+    for (const ticket of tickets) {
+      if (ticket.guildId) continue;
+
+      let guildId: string | undefined;
+      try {
+        guildId = panelGuilds.get(ticket.panelId) || await resolveGuild(ticket.channelId);
+      } catch (error) {
+        retry.push(ticket.id);
+        continue;
+      }
+      if (!guildId) {
+        unresolved.push(ticket.id);
+        continue;
+      }
+      ticket.guildId = guildId;
+      await client.db.save(ticket);
+      tagged++;
+    }
+
+    const templates = await client.db.getAllTemplates();
+    for (const template of templates) {
+      if (template.guildId || !template.originalGuild) continue;
+
+      template.guildId = template.originalGuild;
+      await client.db.save(template);
+      tagged++;
+    }
+
+    if (tagged > 0 || unresolved.length > 0 || retry.length > 0) {
+      console.log(`🏷️ Guild backfill: tagged ${tagged} record(s), ${unresolved.length} unresolved, ${retry.length} to retry`);
+    }
+    if (unresolved.length > 0) {
+      ErrorHandler.warn(`Guild backfill could not resolve the guild of: ${unresolved.join(', ')}`);
+    }
+    if (retry.length > 0) {
+      ErrorHandler.warn(`Guild backfill will retry on the next startup: ${retry.join(', ')}`);
+      return;
+    }
+    await client.db.markTaskCompleted(GUILD_BACKFILL_TASK);
+  }
+
   /**
    * Verify ticket channels still exist
    */
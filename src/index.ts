@@ -9,6 +9,11 @@ import { EmbedController } from './core/embedController';
 import { SetupWizardHandler } from './modules/ticket/setupWizard';
 import { TicketHandler } from './modules/ticket/ticketHandler';
 import { PanelHandler } from './modules/panel/panelHandler';
+import { ticketScheduler } from './modules/ticket/ticketScheduler';
+import { recordFirstResponse } from './modules/ticket/sla';
+import { StatsHandler } from './modules/ticket/ticketStats';
+import { RatingHandler } from './modules/ticket/ratings';
+import { relayModmailEdit, relayModmailMessage } from './modules/ticket/modmail';
 import { ActivityType } from 'discord.js';
 import * as ticketCommand from './commands/ticket';
 import * as statusCommand from './commands/status';
@@ -41,6 +46,8 @@ console.log('✅ Client created');
 router.register('wizard', new SetupWizardHandler());
 router.register('ticket', new TicketHandler());
 router.register('panel', new PanelHandler());
+router.register('stats', new StatsHandler());
+router.register('rating', new RatingHandler());
 console.log('✅ Interaction handlers registered');
 
 // Register commands
@@ -82,6 +89,10 @@ client.once('clientReady', async () => {
   await StartupLoader.load(client);
   console.log('✅ Startup data loaded');
 
+  // Start the inactivity sweeper (state lives in the database, so this just resumes after a restart)
+  ticketScheduler.start(client);
+  console.log('✅ Ticket scheduler started');
+
   // Set bot activity status
   client.user?.setPresence({
     activities: [{
@@ -109,7 +120,7 @@ client.on('interactionCreate', async interaction => {
         try {
           const focusedOption = interaction.options.getFocused(true);
           if (focusedOption.name === 'panel-name') {
-            const panels = await client.db.getAllPanels();
+            const panels = await client.db.getPanelsByGuild(interaction.guildId!);
             const choices = panels
               .filter(p => p.name)
               .map(p => ({ name: p.name!, value: p.name! }))
@@ -140,6 +151,33 @@ client.on('messageCreate', async message => {
   } catch (error) {
     ErrorHandler.handle(error as Error, 'Message handler');
   }
+
+  try {
+    await ticketScheduler.recordActivity(message, client);
+  } catch (error) {
+    ErrorHandler.handle(error as Error, 'Ticket activity tracker');
+  }
+
+  try {
+    await recordFirstResponse(message, client);
+  } catch (error) {
+    ErrorHandler.handle(error as Error, 'First response tracker');
+  }
+
+  try {
+    await relayModmailMessage(message, client);
+  } catch (error) {
+    ErrorHandler.handle(error as Error, 'Modmail relay');
+  }
+});
+
+// Event: Message Update (edits of relayed modmail messages)
+client.on('messageUpdate', async (_oldMessage, newMessage) => {
+  try {
+    await relayModmailEdit(newMessage, client);
+  } catch (error) {
+    ErrorHandler.handle(error as Error, 'Modmail edit relay');
+  }
 });
 
 // Event: Error
@@ -180,12 +218,14 @@ client.login(TOKEN).catch(error => {
 
 // Graceful shutdown
 process.on('SIGINT', () => {
+  ticketScheduler.stop();
   client.db.close();
   client.destroy();
   process.exit(0);
 });
 
 process.on('SIGTERM', () => {
+  ticketScheduler.stop();
   client.db.close();
   client.destroy();
   process.exit(0);
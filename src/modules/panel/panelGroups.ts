@@ -0,0 +1,141 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  EmbedBuilder,
+  MessageCreateOptions,
+  StringSelectMenuBuilder,
+} from 'discord.js';
+import { BotClient } from '../../core/client';
+import { PanelData, PanelGroup } from '../../core/db/storage';
+import { ErrorHandler } from '../../core/errorHandler';
+
+export const MAX_GROUP_PANELS = 25;
+
+const BUTTON_STYLES: Record<PanelData['color'], ButtonStyle> = {
+  Primary: ButtonStyle.Primary,
+  Secondary: ButtonStyle.Secondary,
+  Success: ButtonStyle.Success,
+  Danger: ButtonStyle.Danger,
+};
+
+/**
+ * The group's panels in display order. Deleted panels are dropped from the group as a side effect.
+ */
+async function getGroupPanels(client: BotClient, group: PanelGroup): Promise<PanelData[]> {
+  const panels: PanelData[] = [];
+  for (const panelId of group.panelIds) {
+    const panel = await client.db.get<PanelData>(panelId);
+    if (panel && panel.guildId === group.guildId) panels.push(panel);
+  }
+  group.panelIds = panels.map(panel => panel.id);
+  return panels;
+}
+
+/**
+ * One embed for the whole group, with a button per enabled panel (five to a row) or a single select menu
+ * whose options carry each panel's emoji and description. Both open tickets through the regular open flow.
+ */
+export function createPanelGroupMessage(group: PanelGroup, panels: PanelData[]): Pick<MessageCreateOptions, 'embeds' | 'components'> {
+  const enabled = panels.filter(panel => panel.enabled !== false).slice(0, MAX_GROUP_PANELS);
+
+  const embed = new EmbedBuilder()
+    .setTitle(group.name)
+    .setDescription(group.description)
+    .setColor(null)
+    .setFooter({ text: group.style === 'select' ? 'Select an option below to open a ticket' : 'Click a button below to open a ticket' })
+    .setTimestamp();
+
+  if (group.style === 'select') {
+    if (enabled.length === 0) return { embeds: [embed], components: [] };
+
+    const select = new StringSelectMenuBuilder()
+      .setCustomId('ticket:open-select')
+      .setPlaceholder('What do you need help with?')
+      .addOptions(enabled.map(panel => ({
+        label: (panel.name || panel.label).substring(0, 100),
+        description: panel.description ? panel.description.substring(0, 100) : undefined,
+        emoji: panel.emoji || undefined,
+        value: panel.id,
+      })));
+    return { embeds: [embed], components: [new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(select)] };
+  }
+
+  embed.addFields(enabled.map(panel => ({
+    name: `${panel.emoji ? `${panel.emoji} ` : ''}${panel.name || panel.label}`.substring(0, 256),
+    value: (panel.description || '\u200b').substring(0, 1024),
+  })));
+
+  const rows: ActionRowBuilder<ButtonBuilder>[] = [];
+  for (let i = 0; i < enabled.length; i += 5) {
+    rows.push(new ActionRowBuilder<ButtonBuilder>().addComponents(
+      enabled.slice(i, i + 5).map(panel => {
+        const button = new ButtonBuilder()
+          .setCustomId(`ticket:open:${panel.id}`)
+          .setLabel(panel.label)
+          .setStyle(BUTTON_STYLES[panel.color] || ButtonStyle.Primary);
+        return panel.emoji ? button.setEmoji(panel.emoji) : button;
+      })
+    ));
+  }
+  return { embeds: [embed], components: rows };
+}
+
+/**
+ * Post the group's message, or edit it in place when it is still there. Throws when the channel is gone.
+ */
+export async function deployPanelGroup(client: BotClient, group: PanelGroup): Promise<void> {
+  const channel = group.channel ? await client.channels.fetch(group.channel).catch(() => null) : null;
+  if (!channel?.isTextBased() || !('send' in channel)) {
+    throw new Error(`Channel of panel group ${group.id} not found`);
+  }
+
+  const payload = createPanelGroupMessage(group, await getGroupPanels(client, group));
+  const existing = group.messageId ? await channel.messages.fetch(group.messageId).catch(() => null) : null;
+  if (existing) {
+    await existing.edit(payload);
+  } else {
+    const message = await channel.send(payload);
+    group.messageId = message.id;
+  }
+  await client.db.save(group);
+}
+
+/**
+ * Delete a group's message, if it was deployed. The group record itself is left alone.
+ */
+export async function removePanelGroupMessage(client: BotClient, group: PanelGroup): Promise<void> {
+  if (!group.channel || !group.messageId) return;
+  try {
+    const channel = await client.channels.fetch(group.channel);
+    if (channel?.isTextBased()) {
+      const message = await channel.messages.fetch(group.messageId);
+      await message.delete();
+    }
+  } catch (error) {
+    ErrorHandler.warn(`Could not delete the message of panel group ${group.id}`);
+  }
+}
+
+/**
+ * Re-render every deployed group that shows a panel, after the panel was edited or deleted.
+ * A group whose message was removed by hand is skipped until it is deployed again from the wizard.
+ */
+export async function refreshPanelGroups(client: BotClient, guildId: string, panelId: string): Promise<void> {
+  const groups = (await client.db.getPanelGroupsByGuild(guildId)).filter(group => group.panelIds.includes(panelId));
+
+  for (const group of groups) {
+    try {
+      const channel = group.channel && group.messageId ? await client.channels.fetch(group.channel).catch(() => null) : null;
+      const message = channel?.isTextBased() ? await channel.messages.fetch(group.messageId!).catch(() => null) : null;
+
+      const panels = await getGroupPanels(client, group);
+      if (message) {
+        await message.edit(createPanelGroupMessage(group, panels));
+      }
+      await client.db.save(group);
+    } catch (error) {
+      ErrorHandler.handle(error as Error, `Refresh panel group ${group.id}`);
+    }
+  }
+}
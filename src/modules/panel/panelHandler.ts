@@ -88,8 +88,7 @@ export class PanelHandler implements InteractionHandler {
     }
 
     // Get all templates created by this user's guild
-    const allTemplates = await client.db.getAllTemplates();
-    const userTemplates = allTemplates.filter((t: any) => t.originalGuild === interaction.guildId);
+    const userTemplates = await client.db.getTemplatesByGuild(interaction.guildId!);
 
     let deletedCount = 0;
 
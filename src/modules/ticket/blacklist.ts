@@ -0,0 +1,98 @@
+import { EmbedBuilder } from 'discord.js';
+import { BotClient } from '../../core/client';
+import { BlacklistEntry, PanelData } from '../../core/db/storage';
+import { ErrorHandler } from '../../core/errorHandler';
+
+const DURATION_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+const DEFAULT_REFUSAL = '<:tcet_cross:1437995480754946178> You are not allowed to open tickets here.';
+
+/**
+ * Parse a duration such as `30m`, `12h`, `7d` or `2w` into milliseconds. Returns null when invalid.
+ */
+export function parseDuration(input: string): number | null {
+  const match = input.trim().toLowerCase().match(/^(\d+)\s*([mhdw])$/);
+  if (!match) return null;
+
+  const amount = parseInt(match[1], 10);
+  return amount > 0 ? amount * DURATION_UNITS[match[2]] : null;
+}
+
+export function isBlacklistEntryActive(entry: BlacklistEntry, now: Date = new Date()): boolean {
+  return !entry.expiresAt || new Date(entry.expiresAt).getTime() > now.getTime();
+}
+
+/**
+ * Find the active entry that bars a member from a panel, if any.
+ * User entries win over role entries so the refusal shows the most specific reason.
+ */
+export async function findBlacklistEntry(
+  client: BotClient,
+  guildId: string,
+  panelId: string,
+  userId: string,
+  member: any
+): Promise<BlacklistEntry | null> {
+  const entries = (await client.db.getBlacklist(guildId))
+    .filter(entry => isBlacklistEntryActive(entry) && (!entry.panelId || entry.panelId === panelId));
+
+  return entries.find(entry => entry.targetType === 'user' && entry.targetId === userId)
+    ?? entries.find(entry => entry.targetType === 'role' && member?.roles?.cache?.has(entry.targetId))
+    ?? null;
+}
+
+/**
+ * The ephemeral refusal for a blacklisted user, from the panel's template or the default
+ */
+export function formatBlacklistRefusal(panel: PanelData, entry: BlacklistEntry): string {
+  const reason = entry.reason || 'No reason given';
+  const expires = entry.expiresAt ? `<t:${Math.floor(new Date(entry.expiresAt).getTime() / 1000)}:R>` : 'never';
+
+  if (panel.blacklistMessage) {
+    return panel.blacklistMessage.replace(/\{reason\}/g, reason).replace(/\{expires\}/g, expires);
+  }
+
+  return `${DEFAULT_REFUSAL}\n**Reason:** ${reason}\n**Expires:** ${expires}`;
+}
+
+/**
+ * One line for `/ticket blacklist list`
+ */
+export function describeBlacklistEntry(entry: BlacklistEntry, panelName?: string): string {
+  const target = entry.targetType === 'user' ? `<@${entry.targetId}>` : `<@&${entry.targetId}>`;
+  const scope = entry.panelId ? (panelName || `\`${entry.panelId}\``) : 'all panels';
+  const expires = entry.expiresAt ? `expires <t:${Math.floor(new Date(entry.expiresAt).getTime() / 1000)}:R>` : 'permanent';
+  return `${target} • ${scope} • ${expires}${entry.reason ? ` • ${entry.reason}` : ''}`;
+}
+
+/**
+ * Post a blacklist change to the affected panel's logs channel, or to every panel's logs channel for guild-wide entries
+ */
+export async function logBlacklistChange(
+  client: BotClient,
+  guildId: string,
+  panelId: string | undefined,
+  embed: EmbedBuilder
+): Promise<void> {
+  const panels = panelId
+    ? [await client.db.get<PanelData>(panelId)].filter((panel): panel is PanelData => !!panel)
+    : await client.db.getPanelsByGuild(guildId);
+
+  const logChannelIds = new Set(panels.map(panel => panel.logsChannel).filter((id): id is string => !!id));
+
+  for (const logChannelId of logChannelIds) {
+    try {
+      const logChannel = await client.channels.fetch(logChannelId);
+      if (logChannel?.isTextBased() && 'send' in logChannel) {
+        await logChannel.send({ embeds: [embed] });
+      }
+    } catch (error) {
+      ErrorHandler.handle(error as Error, 'Log blacklist change');
+    }
+  }
+}
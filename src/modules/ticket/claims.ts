@@ -0,0 +1,60 @@
+import { PanelData, TicketData } from '../../core/db/storage';
+import { ErrorHandler } from '../../core/errorHandler';
+import { PermissionHelper, TicketChannel } from '../../core/permissionHelper';
+
+/**
+ * The claimer's own overwrite: the panel's staff permissions, always able to write
+ */
+export function claimerOverwrite(panel: PanelData): Record<string, boolean> {
+  return { ...PermissionHelper.staffOverwrite(panel), ViewChannel: true, SendMessages: true };
+}
+
+/**
+ * Users whose overwrite was not granted by a claim, and so must not be removed with it
+ */
+export function keepsOwnAccess(ticket: TicketData, userId: string): boolean {
+  return userId === ticket.owner || (ticket.participants || []).some(participant => participant.id === userId);
+}
+
+/**
+ * On panels with exclusive claims, mute the staff roles in a claimed ticket and let only the claimer write.
+ * Also used on reopen, so the claim keeps its effect after the channel was closed and moved.
+ * Thread tickets take their permissions from the parent channel, so there is nothing to mute in them.
+ */
+export async function applyExclusiveClaim(ticket: TicketData, panel: PanelData, channel: TicketChannel): Promise<void> {
+  if (!panel.exclusiveClaim || !ticket.claimedBy || PermissionHelper.isThread(channel)) return;
+
+  try {
+    for (const { roleId } of PermissionHelper.getStaffRoles(panel)) {
+      await channel.permissionOverwrites.edit(roleId, { ViewChannel: true, SendMessages: false });
+    }
+    if (!keepsOwnAccess(ticket, ticket.claimedBy)) {
+      await channel.permissionOverwrites.create(ticket.claimedBy, claimerOverwrite(panel));
+    }
+  } catch (error) {
+    ErrorHandler.warn(`Could not apply the exclusive claim on ${ticket.id}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Undo an exclusive claim: the staff roles get their usual permissions back and the former claimer loses their own overwrite
+ */
+export async function releaseExclusiveClaim(
+  ticket: TicketData,
+  panel: PanelData,
+  channel: TicketChannel,
+  previousClaimer: string
+): Promise<void> {
+  if (!panel.exclusiveClaim || PermissionHelper.isThread(channel)) return;
+
+  try {
+    for (const { roleId, level } of PermissionHelper.getStaffRoles(panel)) {
+      await channel.permissionOverwrites.create(roleId, PermissionHelper.staffRoleOverwrite(panel, level));
+    }
+    if (!keepsOwnAccess(ticket, previousClaimer)) {
+      await channel.permissionOverwrites.delete(previousClaimer);
+    }
+  } catch (error) {
+    ErrorHandler.warn(`Could not release the exclusive claim on ${ticket.id}: ${(error as Error).message}`);
+  }
+}
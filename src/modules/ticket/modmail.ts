@@ -0,0 +1,214 @@
+import {
+  ActionRowBuilder,
+  EmbedBuilder,
+  Message,
+  MessageCreateOptions,
+  PartialMessage,
+  StringSelectMenuBuilder,
+} from 'discord.js';
+import { BotClient } from '../../core/client';
+import { PanelData, TicketData } from '../../core/db/storage';
+import { ErrorHandler } from '../../core/errorHandler';
+import { PermissionHelper, TicketChannel } from '../../core/permissionHelper';
+import { getTicketNumber } from './transcriptGenerator';
+
+const OWNER_COLOR = 0x5865F2;
+const STAFF_COLOR = 0x57F287;
+
+/**
+ * The embed a relayed message is shown as on the other side. Owner messages are signed with their username,
+ * staff replies with their server nickname and the server name.
+ */
+function createRelayEmbed(message: Message, edited = false): EmbedBuilder {
+  const fromStaff = !!message.guild;
+  const embed = new EmbedBuilder()
+    .setAuthor({
+      name: fromStaff ? message.member?.displayName || message.author.username : message.author.username,
+      iconURL: message.author.displayAvatarURL(),
+    })
+    .setColor(fromStaff ? STAFF_COLOR : OWNER_COLOR)
+    .setFooter({ text: [fromStaff ? message.guild!.name : 'Ticket owner', edited ? 'edited' : null].filter(Boolean).join(' • ') })
+    .setTimestamp(message.createdAt);
+  if (message.content) {
+    embed.setDescription(message.content);
+  }
+  return embed;
+}
+
+function relayPayload(message: Message): MessageCreateOptions {
+  return {
+    embeds: [createRelayEmbed(message)],
+    files: message.attachments.map(attachment => attachment.url),
+  };
+}
+
+/**
+ * Send something to a modmail ticket's owner. Returns the sent message, or null when their DMs are closed.
+ */
+export async function sendToModmailOwner(client: BotClient, ticket: TicketData, payload: MessageCreateOptions): Promise<Message | null> {
+  try {
+    const owner = await client.users.fetch(ticket.owner);
+    return await owner.send(payload);
+  } catch (error) {
+    ErrorHandler.warn(`Could not DM the owner of ${ticket.id}: ${(error as Error).message}`);
+    return null;
+  }
+}
+
+/**
+ * Tell a modmail owner that staff closed or reopened their ticket, since they cannot see the channel
+ */
+export async function notifyModmailOwner(
+  client: BotClient,
+  ticket: TicketData,
+  change: 'closed' | 'reopened',
+  reason?: string
+): Promise<void> {
+  const guildName = ticket.guildId ? client.guilds.cache.get(ticket.guildId)?.name : undefined;
+  const where = `**#${getTicketNumber(ticket)}**${guildName ? ` in **${guildName}**` : ''}`;
+  const embed = change === 'closed'
+    ? new EmbedBuilder()
+        .setTitle('<:tcet_cross:1437995480754946178> Ticket Closed')
+        .setDescription(
+          `Your ticket ${where} has been closed.${reason ? `\n**Reason:** ${reason}` : ''}\n` +
+          'Send another message here if you need help again.'
+        )
+        .setColor(0xED4245)
+    : new EmbedBuilder()
+        .setTitle('<:tcet_tick:1437995479567962184> Ticket Reopened')
+        .setDescription(`Your ticket ${where} has been reopened. Your messages here go to staff again.`)
+        .setColor(0x57F287);
+
+  await sendToModmailOwner(client, ticket, { embeds: [embed.setTimestamp()] });
+}
+
+/**
+ * Panels the user can open a DM ticket on: modmail panels of servers they are in
+ */
+async function getModmailPanels(client: BotClient, userId: string): Promise<PanelData[]> {
+  const panels = (await client.db.getAllPanels()).filter(panel => panel.modmail && panel.enabled !== false && panel.guildId);
+  const memberOf = new Map<string, boolean>();
+
+  const available: PanelData[] = [];
+  for (const panel of panels) {
+    if (!memberOf.has(panel.guildId!)) {
+      const guild = client.guilds.cache.get(panel.guildId!);
+      memberOf.set(panel.guildId!, !!guild && !!(await guild.members.fetch(userId).catch(() => null)));
+    }
+    if (memberOf.get(panel.guildId!)) available.push(panel);
+  }
+  return available;
+}
+
+/**
+ * Reply to a DM from someone without an open modmail ticket with the panels they can open one on.
+ * The picker replies to their message, so that message can be passed on once the ticket exists.
+ */
+async function sendPanelPicker(client: BotClient, message: Message): Promise<void> {
+  const panels = (await getModmailPanels(client, message.author.id)).slice(0, 25);
+  if (panels.length === 0) {
+    await message.reply('<:tcet_cross:1437995480754946178> There is no server where you can open a ticket by DM.');
+    return;
+  }
+
+  const embed = new EmbedBuilder()
+    .setTitle('<:module:1437997093753983038> Open a Ticket')
+    .setDescription('Pick where your message should go. Staff will answer you here, in this DM.')
+    .setColor(OWNER_COLOR);
+
+  const select = new StringSelectMenuBuilder()
+    .setCustomId('ticket:modmail-open')
+    .setPlaceholder('Select a panel')
+    .addOptions(panels.map(panel => ({
+      label: (panel.name || 'Support').substring(0, 100),
+      description: (client.guilds.cache.get(panel.guildId!)?.name || 'Unknown server').substring(0, 100),
+      value: panel.id,
+    })));
+
+  await message.reply({ embeds: [embed], components: [new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(select)] });
+}
+
+async function relayToTicket(client: BotClient, ticket: TicketData, message: Message): Promise<void> {
+  const channel = await client.channels.fetch(ticket.channelId).catch(() => null);
+  if (!PermissionHelper.isTicketChannel(channel)) {
+    await message.reply('<:tcet_cross:1437995480754946178> Your ticket could not be reached. Please try again later.');
+    return;
+  }
+
+  const copy = await channel.send(relayPayload(message));
+  await client.db.saveRelayedMessage({ sourceId: message.id, copyId: copy.id, copyChannelId: channel.id, ticketId: ticket.id });
+  // Owner messages never reach the channel themselves, so the inactivity clock is reset here instead
+  await client.db.touchTicketActivity(ticket.id, message.createdAt.toISOString());
+  await message.react('✅').catch(() => {});
+}
+
+async function relayToOwner(client: BotClient, ticket: TicketData, message: Message): Promise<void> {
+  const copy = await sendToModmailOwner(client, ticket, relayPayload(message));
+  if (!copy) {
+    await message.reply('<:tcet_cross:1437995480754946178> The ticket owner has closed their DMs, so this message was not delivered.');
+    return;
+  }
+
+  await client.db.saveRelayedMessage({ sourceId: message.id, copyId: copy.id, copyChannelId: copy.channelId, ticketId: ticket.id });
+  await message.react('✅').catch(() => {});
+}
+
+/**
+ * Pass a new message along: DMs go to the author's open modmail ticket (or get the panel picker),
+ * and messages in a modmail ticket go to its owner. Staff messages starting with the server's prefix are
+ * commands or staff-only notes and stay in the channel. Called from messageCreate for every message.
+ */
+export async function relayModmailMessage(message: Message, client: BotClient): Promise<void> {
+  if (message.author.bot) return;
+
+  if (!message.guildId) {
+    const ticket = await client.db.getOpenModmailTicket(message.author.id);
+    if (ticket) {
+      await relayToTicket(client, ticket, message);
+    } else {
+      await sendPanelPicker(client, message);
+    }
+    return;
+  }
+
+  const ticket = await client.db.getTicketByChannel(message.channelId);
+  if (!ticket?.modmail || ticket.state !== 'open') return;
+
+  const prefix = await client.db.getPrefix(message.guildId);
+  if (message.content.startsWith(prefix)) return;
+
+  await relayToOwner(client, ticket, message);
+}
+
+/**
+ * Pass the DM that brought up the panel picker on to the new ticket, so the owner does not have to repeat it
+ */
+export async function relayPickedMessage(client: BotClient, ticket: TicketData, channel: TicketChannel, picker: Message | null): Promise<void> {
+  const messageId = picker?.reference?.messageId;
+  if (!picker || !messageId) return;
+
+  const message = await picker.channel.messages.fetch(messageId).catch(() => null);
+  await picker.edit({ components: [] }).catch(() => {});
+  if (!message) return;
+
+  const copy = await channel.send(relayPayload(message));
+  await client.db.saveRelayedMessage({ sourceId: message.id, copyId: copy.id, copyChannelId: channel.id, ticketId: ticket.id });
+  await message.react('✅').catch(() => {});
+}
+
+/**
+ * Update the copy of an edited modmail message. Called from messageUpdate.
+ */
+export async function relayModmailEdit(message: Message | PartialMessage, client: BotClient): Promise<void> {
+  const relayed = await client.db.getRelayedMessage(message.id);
+  if (!relayed) return;
+
+  const current = message.partial ? await message.fetch().catch(() => null) : message;
+  if (!current || current.author.bot) return;
+
+  const channel = await client.channels.fetch(relayed.copyChannelId).catch(() => null);
+  if (!channel?.isTextBased()) return;
+
+  const copy = await channel.messages.fetch(relayed.copyId).catch(() => null);
+  await copy?.edit({ embeds: [createRelayEmbed(current, true)] });
+}
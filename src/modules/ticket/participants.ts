@@ -0,0 +1,113 @@
+import { BotClient } from '../../core/client';
+import { PanelData, TicketData, TicketParticipant } from '../../core/db/storage';
+import { ErrorHandler } from '../../core/errorHandler';
+import { PermissionHelper, TicketChannel } from '../../core/permissionHelper';
+import { recordTicketEvent } from './ticketEvents';
+
+/**
+ * Overwrite options for an added user or role, from the panel's user permissions or the defaults
+ */
+export function participantPermissions(panel: PanelData | null): Record<string, boolean> {
+  const userPermissions = panel?.userPermissions || [];
+  if (userPermissions.length === 0) {
+    return { ViewChannel: true, SendMessages: true, ReadMessageHistory: true };
+  }
+
+  const permissions: Record<string, boolean> = { ViewChannel: true };
+  for (const perm of userPermissions) {
+    permissions[perm] = true;
+  }
+  return permissions;
+}
+
+export function formatParticipant(participant: Pick<TicketParticipant, 'id' | 'type'>): string {
+  return participant.type === 'user' ? `<@${participant.id}>` : `<@&${participant.id}>`;
+}
+
+/**
+ * Give a user or role access to the ticket and remember it on the ticket.
+ * Returns false when they were already a participant.
+ */
+export async function addTicketParticipant(
+  client: BotClient,
+  ticket: TicketData,
+  panel: PanelData | null,
+  channel: TicketChannel,
+  target: Pick<TicketParticipant, 'id' | 'type'>,
+  actorId: string
+): Promise<boolean> {
+  const participants = ticket.participants || [];
+  if (participants.some(participant => participant.id === target.id)) return false;
+
+  // A closed ticket only records the participant; access is granted when it is reopened
+  if (ticket.state === 'open') {
+    await PermissionHelper.grantAccess(channel, target.id, participantPermissions(panel));
+  }
+
+  ticket.participants = [...participants, { ...target, addedBy: actorId, addedAt: new Date().toISOString() }];
+  await client.db.setTicketParticipants(ticket.id, ticket.participants);
+  await recordTicketEvent(client, ticket, target.type === 'user' ? 'user-added' : 'role-added', actorId, {
+    [target.type === 'user' ? 'userId' : 'roleId']: target.id,
+  });
+  return true;
+}
+
+/**
+ * Take a user's or role's access away and drop them from the ticket.
+ * Returns false when they were neither a participant nor had access of their own to the channel.
+ */
+export async function removeTicketParticipant(
+  client: BotClient,
+  ticket: TicketData,
+  channel: TicketChannel,
+  target: Pick<TicketParticipant, 'id' | 'type'>,
+  actorId: string
+): Promise<boolean> {
+  const participants = ticket.participants || [];
+  const wasParticipant = participants.some(participant => participant.id === target.id);
+  // Users added before participants were tracked only exist as channel overwrites
+  const hasAccess = PermissionHelper.hasAccessEntry(channel, target.id);
+  if (!wasParticipant && !hasAccess) return false;
+
+  if (hasAccess) {
+    await PermissionHelper.revokeAccess(channel, target.id);
+  }
+
+  ticket.participants = participants.filter(participant => participant.id !== target.id);
+  await client.db.setTicketParticipants(ticket.id, ticket.participants);
+  await recordTicketEvent(client, ticket, target.type === 'user' ? 'user-removed' : 'role-removed', actorId, {
+    [target.type === 'user' ? 'userId' : 'roleId']: target.id,
+  });
+  return true;
+}
+
+/**
+ * Hide a closing ticket from its participants; they are restored on reopen
+ */
+export async function revokeParticipantAccess(ticket: TicketData, channel: TicketChannel): Promise<void> {
+  for (const participant of ticket.participants || []) {
+    try {
+      await PermissionHelper.revokeAccess(channel, participant.id);
+    } catch (error) {
+      ErrorHandler.warn(`Could not remove ${participant.id} from ${ticket.id}: ${(error as Error).message}`);
+    }
+  }
+}
+
+/**
+ * Give every participant their access back when a ticket is reopened
+ */
+export async function restoreParticipantAccess(
+  ticket: TicketData,
+  panel: PanelData | null,
+  channel: TicketChannel
+): Promise<void> {
+  const permissions = participantPermissions(panel);
+  for (const participant of ticket.participants || []) {
+    try {
+      await PermissionHelper.grantAccess(channel, participant.id, permissions);
+    } catch (error) {
+      ErrorHandler.warn(`Could not restore ${participant.id} on ${ticket.id}: ${(error as Error).message}`);
+    }
+  }
+}
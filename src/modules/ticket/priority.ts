@@ -0,0 +1,74 @@
+import { ActionRowBuilder, StringSelectMenuBuilder } from 'discord.js';
+import { TicketData, TicketPriority } from '../../core/db/storage';
+
+export const TICKET_PRIORITIES: TicketPriority[] = ['low', 'normal', 'high', 'urgent'];
+
+export const PRIORITY_DETAILS: Record<TicketPriority, { label: string; emoji: string; color: number }> = {
+  low: { label: 'Low', emoji: '🔵', color: 0x5865F2 },
+  normal: { label: 'Normal', emoji: '⚪', color: 0x99AAB5 },
+  high: { label: 'High', emoji: '🟠', color: 0xE67E22 },
+  urgent: { label: 'Urgent', emoji: '🔴', color: 0xED4245 },
+};
+
+export function isTicketPriority(value: string): value is TicketPriority {
+  return (TICKET_PRIORITIES as string[]).includes(value);
+}
+
+export function getTicketPriority(ticket: TicketData): TicketPriority {
+  return ticket.priority ?? 'normal';
+}
+
+/**
+ * "🔴 Urgent", for embeds and listings
+ */
+export function formatPriority(priority: TicketPriority): string {
+  return `${PRIORITY_DETAILS[priority].emoji} ${PRIORITY_DETAILS[priority].label}`;
+}
+
+/**
+ * Remove the priority emoji a channel name may start with
+ */
+export function stripPriorityPrefix(name: string): string {
+  for (const priority of TICKET_PRIORITIES) {
+    const prefix = `${PRIORITY_DETAILS[priority].emoji}-`;
+    if (name.startsWith(prefix)) return name.slice(prefix.length);
+  }
+  return name;
+}
+
+/**
+ * Channel name with the priority emoji in front. Normal tickets keep a plain name.
+ */
+export function withPriorityPrefix(name: string, priority: TicketPriority = 'normal'): string {
+  const base = stripPriorityPrefix(name);
+  return priority === 'normal' ? base : `${PRIORITY_DETAILS[priority].emoji}-${base}`;
+}
+
+/**
+ * Sort order for listings: most urgent first, then oldest first
+ */
+export function compareTicketsByPriority(a: TicketData, b: TicketData): number {
+  const byPriority = TICKET_PRIORITIES.indexOf(getTicketPriority(b)) - TICKET_PRIORITIES.indexOf(getTicketPriority(a));
+  return byPriority || a.createdAt.localeCompare(b.createdAt);
+}
+
+/**
+ * Staff-only priority picker shown under the welcome message buttons
+ */
+export function createPrioritySelect(ticket: TicketData): ActionRowBuilder<StringSelectMenuBuilder> {
+  const current = getTicketPriority(ticket);
+
+  return new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(
+    new StringSelectMenuBuilder()
+      .setCustomId(`ticket:priority:${ticket.id}`)
+      .setPlaceholder('Set priority')
+      .addOptions(
+        TICKET_PRIORITIES.map(priority => ({
+          label: `${PRIORITY_DETAILS[priority].label} priority`,
+          value: priority,
+          emoji: PRIORITY_DETAILS[priority].emoji,
+          default: priority === current,
+        }))
+      )
+  );
+}
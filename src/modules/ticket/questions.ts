@@ -0,0 +1,212 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  EmbedBuilder,
+  embedLength,
+  ModalBuilder,
+  TextInputBuilder,
+  TextInputStyle,
+} from 'discord.js';
+import { CustomQuestion, PanelData, TicketAnswer } from '../../core/db/storage';
+
+/** Discord allows five inputs per modal, so longer forms are split into pages */
+export const QUESTIONS_PER_PAGE = 5;
+export const DEFAULT_MAX_LENGTH = 1000;
+const MAX_LABEL_LENGTH = 45;
+const DRAFT_TTL = 30 * 60 * 1000; // 30 minutes
+// Discord caps an embed at 25 fields and 6000 characters; room is left for the close reason added later
+const MAX_ANSWER_FIELDS = 24;
+const MAX_ANSWER_EMBED_LENGTH = 5000;
+
+/**
+ * Answers given on earlier pages of a question form, keyed by `userId:panelId:routeId`. The routing option is
+ * part of the key because it decides which questions the answer indexes refer to. Kept in memory only:
+ * after a restart the user simply starts the form again.
+ */
+const drafts: Map<string, { values: Record<number, string>; updatedAt: number }> = new Map();
+
+/**
+ * The questions a panel asks, required ones first. Panels from before custom questions only have plain texts.
+ * A routing option can narrow them down to the ones at the given indexes.
+ */
+export function getPanelQuestions(panel: PanelData, only?: number[]): CustomQuestion[] {
+  const all: CustomQuestion[] = panel.customQuestions && panel.customQuestions.length > 0
+    ? panel.customQuestions
+    : (panel.questions || []).map(text => ({ text, type: 'primary' as const }));
+  const asked = only ? all.filter((_, i) => only.includes(i)) : all;
+
+  const primary = asked.filter(q => q.type === 'primary');
+  const optional = asked.filter(q => q.type === 'optional');
+  return [...primary, ...optional];
+}
+
+export function getPageCount(questions: CustomQuestion[]): number {
+  return Math.ceil(questions.length / QUESTIONS_PER_PAGE);
+}
+
+/**
+ * Indexes into the question list shown on a page
+ */
+export function getPageIndexes(questions: CustomQuestion[], page: number): number[] {
+  const start = page * QUESTIONS_PER_PAGE;
+  return questions.slice(start, start + QUESTIONS_PER_PAGE).map((_, i) => start + i);
+}
+
+/**
+ * One page of the question form. Inputs are named after the question's index in the whole form, and are
+ * pre-filled with what the user typed before (when fixing an answer) or the question's default.
+ * Labels are capped at 45 characters by Discord, so a longer question is shown in full as the placeholder.
+ * The routing option picked before the form, if any, travels along in the custom ID.
+ */
+export function createQuestionModal(
+  panel: PanelData,
+  questions: CustomQuestion[],
+  page: number,
+  values: Record<number, string> = {},
+  routeId?: string
+): ModalBuilder {
+  const pages = getPageCount(questions);
+  const modal = new ModalBuilder()
+    .setCustomId(`ticket:answer:${panel.id}:${page}${routeId ? `:${routeId}` : ''}`)
+    .setTitle(pages > 1 ? `Ticket Information (${page + 1}/${pages})` : 'Ticket Information');
+
+  for (const index of getPageIndexes(questions, page)) {
+    const question = questions[index];
+    const tooLong = question.text.length > MAX_LABEL_LENGTH;
+    const input = new TextInputBuilder()
+      .setCustomId(`question_${index}`)
+      .setLabel(tooLong ? `${question.text.substring(0, MAX_LABEL_LENGTH - 1)}…` : question.text)
+      .setStyle(question.style === 'short' ? TextInputStyle.Short : TextInputStyle.Paragraph)
+      .setRequired(question.type === 'primary') // Primary questions are required, optional are not
+      .setMaxLength(question.maxLength || DEFAULT_MAX_LENGTH);
+
+    if (question.minLength) input.setMinLength(question.minLength);
+    const placeholder = question.placeholder || (tooLong ? question.text : undefined);
+    if (placeholder) input.setPlaceholder(placeholder.substring(0, 100));
+    const value = values[index] ?? question.defaultValue;
+    if (value) input.setValue(value);
+
+    modal.addComponents(new ActionRowBuilder<TextInputBuilder>().addComponents(input));
+  }
+
+  return modal;
+}
+
+/**
+ * Button that brings up a page of the form again: the next page, or the same one to fix an answer
+ */
+export function createPageButton(panelId: string, page: number, label: string, routeId?: string): ActionRowBuilder<ButtonBuilder> {
+  return new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId(`ticket:answer-page:${panelId}:${page}${routeId ? `:${routeId}` : ''}`)
+      .setLabel(label)
+      .setEmoji('📝')
+      .setStyle(ButtonStyle.Primary)
+  );
+}
+
+export function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check one answer against its question. Returns what is wrong with it, or null when it is fine.
+ * Discord already enforces required and length limits in the modal; they are checked again here
+ * because a pre-filled answer from an older version of the question may no longer fit.
+ */
+export function validateAnswer(question: CustomQuestion, answer: string): string | null {
+  if (!answer) {
+    return question.type === 'primary' ? 'An answer is required.' : null;
+  }
+  if (question.minLength && answer.length < question.minLength) {
+    return `Use at least ${question.minLength} characters.`;
+  }
+  if (answer.length > (question.maxLength || DEFAULT_MAX_LENGTH)) {
+    return `Use at most ${question.maxLength || DEFAULT_MAX_LENGTH} characters.`;
+  }
+  // A pattern that stopped compiling is a setup mistake, not the user's, so it is not held against them
+  if (question.pattern && isValidPattern(question.pattern) && !new RegExp(`^(?:${question.pattern})$`).test(answer)) {
+    return question.patternHint || 'This answer is not in the expected format.';
+  }
+  return null;
+}
+
+/**
+ * The filled-in answers in question order
+ */
+export function collectAnswers(questions: CustomQuestion[], values: Record<number, string>): TicketAnswer[] {
+  return questions
+    .map((question, index) => ({ question: question.text, answer: values[index] || '' }))
+    .filter(answer => answer.answer);
+}
+
+// Field values are capped at 1024 characters; the full answer stays on the ticket record
+function toField({ question, answer }: TicketAnswer) {
+  return { name: question.substring(0, 256), value: `\`\`\`${answer.substring(0, 1000)}\`\`\``, inline: false };
+}
+
+/**
+ * Add answers to an embed while they fit. Returns the ones that did not, in order.
+ */
+export function addAnswerFields(embed: EmbedBuilder, answers: TicketAnswer[]): TicketAnswer[] {
+  for (let i = 0; i < answers.length; i++) {
+    const field = toField(answers[i]);
+    const fieldLength = field.name.length + field.value.length;
+    if ((embed.data.fields?.length || 0) >= MAX_ANSWER_FIELDS || embedLength(embed.data) + fieldLength > MAX_ANSWER_EMBED_LENGTH) {
+      return answers.slice(i);
+    }
+    embed.addFields(field);
+  }
+  return [];
+}
+
+/**
+ * Embeds for the answers that did not fit on the welcome message, one per follow-up message
+ */
+export function createAnswerEmbeds(answers: TicketAnswer[]): EmbedBuilder[] {
+  const embeds: EmbedBuilder[] = [];
+  let rest = answers;
+  while (rest.length > 0) {
+    const embed = new EmbedBuilder().setTitle('More Answers').setColor(null);
+    const left = addAnswerFields(embed, rest);
+    // A single answer always fits an empty embed, so this only guards against looping forever
+    if (left.length === rest.length) break;
+    embeds.push(embed);
+    rest = left;
+  }
+  return embeds;
+}
+
+const draftKey = (userId: string, panelId: string, routeId?: string) => `${userId}:${panelId}:${routeId ?? ''}`;
+
+export function getAnswerDraft(userId: string, panelId: string, routeId?: string): Record<number, string> | null {
+  const key = draftKey(userId, panelId, routeId);
+  const draft = drafts.get(key);
+  if (!draft) return null;
+  if (Date.now() - draft.updatedAt > DRAFT_TTL) {
+    drafts.delete(key);
+    return null;
+  }
+  return draft.values;
+}
+
+/**
+ * Remember a user's answers so far. Abandoned forms are dropped here as well, so drafts do not pile up.
+ */
+export function saveAnswerDraft(userId: string, panelId: string, values: Record<number, string>, routeId?: string): void {
+  const now = Date.now();
+  for (const [key, draft] of drafts) {
+    if (now - draft.updatedAt > DRAFT_TTL) drafts.delete(key);
+  }
+  drafts.set(draftKey(userId, panelId, routeId), { values, updatedAt: now });
+}
+
+export function clearAnswerDraft(userId: string, panelId: string, routeId?: string): void {
+  drafts.delete(draftKey(userId, panelId, routeId));
+}
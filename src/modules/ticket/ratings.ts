@@ -0,0 +1,229 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonInteraction,
+  ButtonStyle,
+  EmbedBuilder,
+  ModalBuilder,
+  ModalSubmitInteraction,
+  TextInputBuilder,
+  TextInputStyle,
+} from 'discord.js';
+import { BotClient } from '../../core/client';
+import { PanelData, TicketData, TicketRating } from '../../core/db/storage';
+import { ErrorHandler } from '../../core/errorHandler';
+import { InteractionHandler } from '../../core/interactionRouter';
+import { PermissionHelper, TicketChannel } from '../../core/permissionHelper';
+import { recordTicketEvent } from './ticketEvents';
+import { getTicketNumber } from './transcriptGenerator';
+
+export function formatStars(stars: number): string {
+  return '⭐'.repeat(stars);
+}
+
+/**
+ * "4.3 ⭐ (12)", or "N/A" when nobody has rated yet
+ */
+export function formatAverageRating(total: number, count: number): string {
+  return count > 0 ? `${(total / count).toFixed(1)} ⭐ (${count})` : 'N/A';
+}
+
+function createSurveyRow(ticketId: string): ActionRowBuilder<ButtonBuilder> {
+  return new ActionRowBuilder<ButtonBuilder>().addComponents(
+    [1, 2, 3, 4, 5].map(stars =>
+      new ButtonBuilder()
+        .setCustomId(`rating:rate:${ticketId}:${stars}`)
+        .setLabel(`${stars}`)
+        .setEmoji('⭐')
+        .setStyle(ButtonStyle.Secondary)
+    )
+  );
+}
+
+/**
+ * Ask the owner of a closed ticket to rate it: by DM, or in the ticket channel when their DMs are closed.
+ * Only panels with a feedback channel run the survey, and a ticket is only rated once.
+ */
+export async function sendRatingSurvey(client: BotClient, ticket: TicketData, panel: PanelData, channel: TicketChannel): Promise<void> {
+  if (!panel.feedbackChannel || ticket.rating) return;
+
+  const guildName = ticket.guildId ? client.guilds.cache.get(ticket.guildId)?.name : undefined;
+  const embed = new EmbedBuilder()
+    .setTitle('⭐ How did we do?')
+    .setDescription(
+      `Your ticket **#${getTicketNumber(ticket)}**${guildName ? ` in **${guildName}**` : ''} has been closed.\n` +
+      'How would you rate the support you received?'
+    )
+    .setColor(0xFEE75C)
+    .setTimestamp();
+  const payload = { embeds: [embed], components: [createSurveyRow(ticket.id)] };
+
+  try {
+    const owner = await client.users.fetch(ticket.owner);
+    await owner.send(payload);
+    return;
+  } catch (error) {
+    // Modmail owners have no access to the channel, so there is nowhere else to ask them
+    if (ticket.modmail) {
+      ErrorHandler.warn(`Could not DM the rating survey for ${ticket.id}: ${(error as Error).message}`);
+      return;
+    }
+    ErrorHandler.warn(`Could not DM the rating survey for ${ticket.id}, asking in the channel: ${(error as Error).message}`);
+  }
+
+  // The owner keeps read-only access to the closed ticket until they answer; a closed thread is locked, so joining it is enough
+  await PermissionHelper.grantAccess(channel, ticket.owner, { ViewChannel: true, ReadMessageHistory: true, SendMessages: false });
+  await channel.send({ content: `<@${ticket.owner}>`, ...payload });
+}
+
+function createRatingEmbed(ticket: TicketData, panel: PanelData | null, rating: TicketRating): EmbedBuilder {
+  const embed = new EmbedBuilder()
+    .setTitle(`⭐ New Rating: ${rating.stars}/5`)
+    .setColor(rating.stars >= 4 ? 0x57F287 : rating.stars === 3 ? 0xFEE75C : 0xED4245)
+    .addFields(
+      { name: 'Rating', value: formatStars(rating.stars), inline: true },
+      { name: 'Ticket', value: `#${getTicketNumber(ticket)}`, inline: true },
+      { name: 'Owner', value: `<@${ticket.owner}>`, inline: true },
+      { name: 'Handled By', value: rating.staffId ? `<@${rating.staffId}>` : 'Unclaimed', inline: true },
+      { name: 'Panel', value: panel?.name || 'Unknown', inline: true }
+    )
+    .setTimestamp(new Date(rating.ratedAt));
+  if (rating.feedback) {
+    embed.addFields({ name: 'Feedback', value: rating.feedback, inline: false });
+  }
+  return embed;
+}
+
+/**
+ * Post a rating to the panel's feedback channel, or refresh the existing post. Returns the post's message ID.
+ */
+async function postRating(client: BotClient, ticket: TicketData, rating: TicketRating): Promise<string | undefined> {
+  const panel = await client.db.get<PanelData>(ticket.panelId);
+  if (!panel?.feedbackChannel) return undefined;
+
+  try {
+    const feedbackChannel = await client.channels.fetch(panel.feedbackChannel);
+    if (!feedbackChannel?.isTextBased() || !('send' in feedbackChannel)) return undefined;
+
+    const embed = createRatingEmbed(ticket, panel, rating);
+    if (rating.messageId) {
+      const message = await feedbackChannel.messages.fetch(rating.messageId);
+      await message.edit({ embeds: [embed] });
+      return message.id;
+    }
+    const message = await feedbackChannel.send({ embeds: [embed] });
+    return message.id;
+  } catch (error) {
+    ErrorHandler.handle(error as Error, 'Post ticket rating');
+    return undefined;
+  }
+}
+
+/**
+ * Star buttons and the feedback modal of the post-close survey.
+ * Everything needed is in the custom ID and the ticket, so surveys keep working after a restart.
+ */
+export class RatingHandler implements InteractionHandler {
+  async execute(interaction: any, client: BotClient, parts: string[]): Promise<void> {
+    const action = parts[1];
+    const ticketId = `${parts[2]}:${parts[3]}`;
+
+    try {
+      switch (action) {
+        case 'rate':
+          await this.handleRate(interaction, client, ticketId, parseInt(parts[4], 10));
+          break;
+        case 'comment':
+          await this.handleComment(interaction, client, ticketId);
+          break;
+      }
+    } catch (error) {
+      ErrorHandler.handle(error as Error, 'RatingHandler');
+      await ErrorHandler.sendError(interaction);
+    }
+  }
+
+  async handleRate(interaction: ButtonInteraction, client: BotClient, ticketId: string, stars: number): Promise<void> {
+    if (!(stars >= 1 && stars <= 5)) return;
+
+    const refuse = (message: string) => interaction.reply({
+      content: `<:tcet_cross:1437995480754946178> ${message}`,
+      flags: 1 << 6 // MessageFlags.Ephemeral
+    });
+
+    const ticket = await client.db.get<TicketData>(ticketId);
+    if (!ticket) {
+      await refuse('This ticket no longer exists.');
+      return;
+    }
+    if (interaction.user.id !== ticket.owner) {
+      await refuse('Only the ticket owner can rate this ticket.');
+      return;
+    }
+    if (ticket.rating) {
+      await refuse('You have already rated this ticket.');
+      return;
+    }
+
+    // The modal has to be the first response, so it is shown before anything is saved
+    const modal = new ModalBuilder()
+      .setCustomId(`rating:comment:${ticket.id}`)
+      .setTitle(`You rated us ${stars}/5`)
+      .addComponents(
+        new ActionRowBuilder<TextInputBuilder>().addComponents(
+          new TextInputBuilder()
+            .setCustomId('feedback')
+            .setLabel('Anything you would like to add? (optional)')
+            .setStyle(TextInputStyle.Paragraph)
+            .setRequired(false)
+            .setMaxLength(1000)
+        )
+      );
+    await interaction.showModal(modal);
+
+    const rating: TicketRating = { stars, staffId: ticket.claimedBy, ratedAt: new Date().toISOString() };
+    if (!(await client.db.rateTicket(ticket.id, rating))) return;
+
+    await recordTicketEvent(client, ticket, 'rated', interaction.user.id, {
+      panelId: ticket.panelId,
+      staffId: rating.staffId,
+      stars,
+    });
+
+    const messageId = await postRating(client, ticket, rating);
+    if (messageId) {
+      await client.db.updateTicketRating(ticket.id, { messageId });
+    }
+
+    // Swap the stars for a thank-you so the survey cannot be answered twice
+    const thanks = new EmbedBuilder()
+      .setTitle('<:tcet_tick:1437995479567962184> Thanks for your rating!')
+      .setDescription(`You rated ticket **#${getTicketNumber(ticket)}** ${formatStars(stars)}`)
+      .setColor(0x57F287);
+    await interaction.message.edit({ content: null, embeds: [thanks], components: [] }).catch((error: Error) => {
+      ErrorHandler.warn(`Could not update the rating survey for ${ticket.id}: ${error.message}`);
+    });
+
+    // An in-channel survey was the only reason the owner could still see the closed ticket
+    if (interaction.channelId === ticket.channelId && ticket.state === 'closed') {
+      const channel = await client.channels.fetch(ticket.channelId).catch(() => null);
+      if (PermissionHelper.isTicketChannel(channel)) {
+        await PermissionHelper.revokeAccess(channel, ticket.owner).catch(() => {});
+      }
+    }
+  }
+
+  async handleComment(interaction: ModalSubmitInteraction, client: BotClient, ticketId: string): Promise<void> {
+    // Nothing to show: the survey message already thanks the owner
+    await interaction.deferUpdate();
+
+    const feedback = interaction.fields.getTextInputValue('feedback').trim();
+    if (!feedback) return;
+
+    const ticket = await client.db.get<TicketData>(ticketId);
+    if (!ticket?.rating || ticket.owner !== interaction.user.id) return;
+
+    await client.db.updateTicketRating(ticket.id, { feedback });
+    await postRating(client, ticket, { ...ticket.rating, feedback });
+  }
+}
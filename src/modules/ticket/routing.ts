@@ -0,0 +1,79 @@
+import { ActionRowBuilder, StringSelectMenuBuilder } from 'discord.js';
+import { PanelData, PanelRoute } from '../../core/db/storage';
+import { PermissionHelper } from '../../core/permissionHelper';
+
+/** One select menu per level, so a level holds at most 25 options */
+export const MAX_ROUTE_OPTIONS = 25;
+export const MAX_ROUTE_DEPTH = 3;
+
+/**
+ * What the option picked last decides for a new ticket
+ */
+export interface ResolvedRoute {
+  id: string;
+  path: string; // "Billing → Refund"
+  staffRole?: string;
+  openCategory?: string;
+  questions?: number[];
+}
+
+/**
+ * The options leading to an option, itself included, or null when it is not in the tree (anymore)
+ */
+export function findRoutePath(routes: PanelRoute[] | undefined, routeId: string): PanelRoute[] | null {
+  for (const route of routes || []) {
+    if (route.id === routeId) return [route];
+    const rest = findRoutePath(route.options, routeId);
+    if (rest) return [route, ...rest];
+  }
+  return null;
+}
+
+export function formatRoutePath(path: PanelRoute[]): string {
+  return path.map(route => route.label).join(' → ');
+}
+
+/**
+ * Work out what a picked option decides. Only an option without sub-options can be picked last.
+ * Staff roles that were since taken off the panel are ignored, so the panel's own role is pinged instead.
+ */
+export function resolveRoute(panel: PanelData, routeId: string): ResolvedRoute | null {
+  const path = findRoutePath(panel.routes, routeId);
+  const route = path?.[path.length - 1];
+  if (!path || !route || route.options?.length) return null;
+
+  const staffRoleIds = PermissionHelper.getStaffRoles(panel).map(staffRole => staffRole.roleId);
+  const staffRole = [...path].reverse().find(option => option.staffRole && staffRoleIds.includes(option.staffRole))?.staffRole;
+  const openCategory = [...path].reverse().find(option => option.openCategory)?.openCategory;
+
+  return { id: route.id, path: formatRoutePath(path), staffRole, openCategory, questions: route.questions };
+}
+
+/**
+ * Menu of one level of the routing tree. Picks go to `ticket:route`, which leads on to the next level or the form.
+ */
+export function createRouteMenu(panel: PanelData, routes: PanelRoute[]): ActionRowBuilder<StringSelectMenuBuilder> {
+  return new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(
+    new StringSelectMenuBuilder()
+      .setCustomId(`ticket:route:${panel.id}`)
+      .setPlaceholder('What do you need help with?')
+      .addOptions(routes.slice(0, MAX_ROUTE_OPTIONS).map(route => ({
+        label: route.label.substring(0, 100),
+        description: route.description ? route.description.substring(0, 100) : undefined,
+        emoji: route.emoji || undefined,
+        value: route.id,
+      })))
+  );
+}
+
+/**
+ * Keep routing options pointing at the same questions after one is deleted
+ */
+export function removeRouteQuestion(routes: PanelRoute[] | undefined, index: number): void {
+  for (const route of routes || []) {
+    if (route.questions) {
+      route.questions = route.questions.filter(i => i !== index).map(i => (i > index ? i - 1 : i));
+    }
+    removeRouteQuestion(route.options, index);
+  }
+}
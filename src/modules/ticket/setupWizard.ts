@@ -17,9 +17,17 @@ import {
 } from 'discord.js';
 import { BotClient } from '../../core/client';
 import { EmbedController } from '../../core/embedController';
-import { PanelData, AutosaveData } from '../../core/db/postgresDB';
+import { PanelData, AutosaveData, StaffLevel, PanelGroup, CustomQuestion, PanelRoute } from '../../core/db/storage';
+import { PermissionHelper, STAFF_LEVELS } from '../../core/permissionHelper';
 import { InteractionHandler } from '../../core/interactionRouter';
 import { ErrorHandler } from '../../core/errorHandler';
+import { deployPanelGroup, MAX_GROUP_PANELS, refreshPanelGroups, removePanelGroupMessage } from '../panel/panelGroups';
+import { DEFAULT_MAX_LENGTH, isValidPattern } from './questions';
+import { findRoutePath, formatRoutePath, MAX_ROUTE_DEPTH, MAX_ROUTE_OPTIONS, removeRouteQuestion } from './routing';
+import { randomBytes } from 'crypto';
+
+// One select menu lists them all in the wizard
+const MAX_QUESTIONS = 25;
 
 export class SetupWizardHandler implements InteractionHandler {
   /**
@@ -140,6 +148,15 @@ export class SetupWizardHandler implements InteractionHandler {
         case 'show-transcript':
           await this.showTranscriptChannelDropdown(interaction, client, userId);
           break;
+        case 'show-escalationrole':
+          await this.showEscalationRoleDropdown(interaction, client, userId);
+          break;
+        case 'show-feedback':
+          await this.showFeedbackChannelDropdown(interaction, client, userId);
+          break;
+        case 'show-tickettype':
+          await this.showTicketTypeDropdown(interaction, client, userId);
+          break;
         case 'set-label':
           await this.showLabelModal(interaction, client, userId);
           break;
@@ -159,7 +176,22 @@ export class SetupWizardHandler implements InteractionHandler {
           await this.showOpenMessageModal(interaction, client, userId);
           break;
         case 'add-question':
-          await this.showAddQuestionModal(interaction, client, userId);
+          await this.showQuestionModal(interaction, client, userId);
+          break;
+        case 'edit-question':
+          await this.showQuestionModal(interaction, client, userId, parseInt(parts[2], 10));
+          break;
+        case 'set-question-rules':
+          await this.showQuestionRulesModal(interaction, client, userId, parseInt(parts[2], 10));
+          break;
+        case 'select-question':
+          await this.showQuestionMenu(interaction, client, userId, parseInt(interaction.values[0], 10));
+          break;
+        case 'set-inactivity':
+          await this.showInactivityModal(interaction, client, userId);
+          break;
+        case 'set-limits':
+          await this.showLimitsModal(interaction, client, userId);
           break;
         case 'select-channel':
           await this.handleChannelSelect(interaction as StringSelectMenuInteraction, client, userId);
@@ -171,7 +203,7 @@ export class SetupWizardHandler implements InteractionHandler {
           await this.handleCloseCategorySelect(interaction as StringSelectMenuInteraction, client, userId);
           break;
         case 'select-staffrole':
-          await this.handleStaffRoleSelect(interaction as StringSelectMenuInteraction, client, userId);
+          await this.handleStaffRoleSelect(interaction as StringSelectMenuInteraction, client, userId, parts[2] as StaffLevel);
           break;
         case 'select-logs':
           await this.handleLogsChannelSelect(interaction as StringSelectMenuInteraction, client, userId);
@@ -179,6 +211,15 @@ export class SetupWizardHandler implements InteractionHandler {
         case 'select-transcript':
           await this.handleTranscriptChannelSelect(interaction as StringSelectMenuInteraction, client, userId);
           break;
+        case 'select-escalationrole':
+          await this.handleEscalationRoleSelect(interaction as StringSelectMenuInteraction, client, userId);
+          break;
+        case 'select-feedback':
+          await this.handleFeedbackChannelSelect(interaction as StringSelectMenuInteraction, client, userId);
+          break;
+        case 'select-tickettype':
+          await this.handleTicketTypeSelect(interaction as StringSelectMenuInteraction, client, userId);
+          break;
         case 'select-claimable':
           await this.handleClaimableSelect(interaction as StringSelectMenuInteraction, client, userId);
           break;
@@ -189,7 +230,7 @@ export class SetupWizardHandler implements InteractionHandler {
           await this.handleColorSelect(interaction as StringSelectMenuInteraction, client, userId);
           break;
         case 'delete-question':
-          await this.handleDeleteQuestion(interaction as StringSelectMenuInteraction, client, userId);
+          await this.handleDeleteQuestion(interaction, client, userId, parseInt(parts[2], 10));
           break;
         case 'modal-name':
           await this.handleNameModal(interaction as ModalSubmitInteraction, client, userId);
@@ -204,7 +245,69 @@ export class SetupWizardHandler implements InteractionHandler {
           await this.handleOpenMessageModal(interaction as ModalSubmitInteraction, client, userId);
           break;
         case 'modal-question':
-          await this.handleQuestionModal(interaction as ModalSubmitInteraction, client, userId);
+          await this.handleQuestionModal(interaction as ModalSubmitInteraction, client, userId, parts[2] === 'setup' ? undefined : parseInt(parts[2], 10));
+          break;
+        case 'modal-question-rules':
+          await this.handleQuestionRulesModal(interaction as ModalSubmitInteraction, client, userId, parseInt(parts[2], 10));
+          break;
+        case 'routes':
+          await this.showRouteMenu(interaction, client, userId, parts[2]);
+          break;
+        case 'route-select':
+          await this.showRouteEditor(interaction, client, userId, interaction.values[0]);
+          break;
+        case 'route-edit':
+          await this.showRouteEditor(interaction, client, userId, parts[2]);
+          break;
+        case 'add-route':
+          await this.showRouteModal(interaction, client, userId, 'add', parts[2]);
+          break;
+        case 'edit-route':
+          await this.showRouteModal(interaction, client, userId, 'edit', parts[2]);
+          break;
+        case 'modal-route':
+          await this.handleRouteModal(interaction as ModalSubmitInteraction, client, userId, parts[2] as 'add' | 'edit', parts[3]);
+          break;
+        case 'route-role':
+        case 'route-category':
+        case 'route-questions':
+          await this.handleRouteSettingSelect(interaction as StringSelectMenuInteraction, client, userId, action, parts[2]);
+          break;
+        case 'delete-route':
+          await this.handleDeleteRoute(interaction, client, userId, parts[2]);
+          break;
+        case 'modal-inactivity':
+          await this.handleInactivityModal(interaction as ModalSubmitInteraction, client, userId);
+          break;
+        case 'modal-limits':
+          await this.handleLimitsModal(interaction as ModalSubmitInteraction, client, userId);
+          break;
+        case 'group-list':
+          await this.showGroupList(interaction, client);
+          break;
+        case 'group-select':
+          await this.handleGroupSelect(interaction as StringSelectMenuInteraction, client);
+          break;
+        case 'group-panels':
+          await this.handleGroupPanelsSelect(interaction as StringSelectMenuInteraction, client, `${parts[2]}:${parts[3]}`);
+          break;
+        case 'group-channel':
+          await this.handleGroupChannelSelect(interaction as StringSelectMenuInteraction, client, `${parts[2]}:${parts[3]}`);
+          break;
+        case 'group-style':
+          await this.handleGroupStyle(interaction, client, `${parts[2]}:${parts[3]}`);
+          break;
+        case 'group-details':
+          await this.showGroupDetailsModal(interaction, client, `${parts[2]}:${parts[3]}`);
+          break;
+        case 'modal-group':
+          await this.handleGroupDetailsModal(interaction as ModalSubmitInteraction, client, `${parts[2]}:${parts[3]}`);
+          break;
+        case 'group-deploy':
+          await this.handleGroupDeploy(interaction, client, `${parts[2]}:${parts[3]}`);
+          break;
+        case 'group-delete':
+          await this.handleGroupDelete(interaction, client, `${parts[2]}:${parts[3]}`);
           break;
       }
     } catch (error) {
@@ -327,19 +430,29 @@ export class SetupWizardHandler implements InteractionHandler {
         .setCustomId('wizard:show-closecategory:setup')
         .setLabel('Close Category')
         .setEmoji('📦')
+        .setStyle(ButtonStyle.Secondary),
+      new ButtonBuilder()
+        .setCustomId('wizard:show-tickettype:setup')
+        .setLabel('Ticket Type')
+        .setEmoji('🧵')
         .setStyle(ButtonStyle.Secondary)
     );
 
     const row3 = new ActionRowBuilder<ButtonBuilder>().addComponents(
       new ButtonBuilder()
         .setCustomId('wizard:show-staffrole:setup')
-        .setLabel('Staff Role')
+        .setLabel('Staff Roles')
         .setEmoji('<:xieron_staffs:1437995300164730931>')
         .setStyle(ButtonStyle.Secondary),
       new ButtonBuilder()
         .setCustomId('wizard:show-logs:setup')
         .setLabel('Logs Channel')
         .setEmoji('🗒️')
+        .setStyle(ButtonStyle.Secondary),
+      new ButtonBuilder()
+        .setCustomId('wizard:show-feedback:setup')
+        .setLabel('Feedback Channel')
+        .setEmoji('⭐')
         .setStyle(ButtonStyle.Secondary)
     );
 
@@ -349,6 +462,11 @@ export class SetupWizardHandler implements InteractionHandler {
         .setLabel('Transcript Channel')
         .setEmoji('<:module:1437997093753983038>')
         .setStyle(ButtonStyle.Secondary),
+      new ButtonBuilder()
+        .setCustomId('wizard:show-escalationrole:setup')
+        .setLabel('Escalation Role')
+        .setEmoji('🔴')
+        .setStyle(ButtonStyle.Secondary),
       new ButtonBuilder()
         .setCustomId('wizard:main:back')
         .setLabel('Back to Main')
@@ -378,7 +496,17 @@ export class SetupWizardHandler implements InteractionHandler {
         .setCustomId('wizard:add-question:setup')
         .setLabel('Add Question')
         .setEmoji('➕')
-        .setStyle(ButtonStyle.Success)
+        .setStyle(ButtonStyle.Success),
+      new ButtonBuilder()
+        .setCustomId('wizard:set-inactivity:setup')
+        .setLabel('Automation')
+        .setEmoji('<:settings:1437996913180934144>')
+        .setStyle(ButtonStyle.Secondary),
+      new ButtonBuilder()
+        .setCustomId('wizard:set-limits:setup')
+        .setLabel('Limits')
+        .setEmoji('<:xieron_staffs:1437995300164730931>')
+        .setStyle(ButtonStyle.Secondary)
     );
 
     const row2 = new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(
@@ -387,6 +515,7 @@ export class SetupWizardHandler implements InteractionHandler {
         .setPlaceholder('Claimable?')
         .addOptions([
           { label: 'Yes', value: 'true', emoji: '<:tcet_tick:1437995479567962184>' },
+          { label: 'Yes - Exclusive', description: 'Only the claimer can reply, other staff can still read', value: 'exclusive', emoji: '🔒' },
           { label: 'No', value: 'false', emoji: '<:tcet_cross:1437995480754946178>' },
         ])
     );
@@ -394,14 +523,21 @@ export class SetupWizardHandler implements InteractionHandler {
     const row3 = new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(
       new StringSelectMenuBuilder()
         .setCustomId('wizard:select-ownerclose:setup')
-        .setPlaceholder('Allow Owner to Close Ticket?')
+        .setPlaceholder('Closing Options')
         .addOptions([
           { label: 'Yes - Owner can close', value: 'true', emoji: '<:tcet_tick:1437995479567962184>' },
           { label: 'No - Only staff can close', value: 'false', emoji: '<:tcet_cross:1437995480754946178>' },
+          { label: 'Require a close reason', value: 'reason-required', emoji: '📝' },
+          { label: 'Close reason is optional', value: 'reason-optional', emoji: '<:tcet_cross:1437995480754946178>' },
         ])
     );
 
     const row4 = new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId('wizard:routes:root')
+        .setLabel('Routing')
+        .setEmoji('🧭')
+        .setStyle(ButtonStyle.Secondary),
       new ButtonBuilder()
         .setCustomId('wizard:main:back')
         .setLabel('Back to Main')
@@ -411,21 +547,22 @@ export class SetupWizardHandler implements InteractionHandler {
 
     const components: any[] = [row1, row2, row3];
 
-    // Add delete question dropdown if there are questions
-    if (data.questions && data.questions.length > 0) {
-      const deleteRow = new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(
+    // Add a question dropdown to edit, validate or delete questions
+    const questions = this.getWizardQuestions(data);
+    if (questions.length > 0) {
+      const questionRow = new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(
         new StringSelectMenuBuilder()
-          .setCustomId('wizard:delete-question:setup')
-          .setPlaceholder('Delete a question')
+          .setCustomId('wizard:select-question:setup')
+          .setPlaceholder('Edit or delete a question')
           .addOptions(
-            data.questions.map((q, i) => ({
-              label: `Question ${i + 1}`,
-              description: q.substring(0, 100),
+            questions.map((q, i) => ({
+              label: `Question ${i + 1}${q.type === 'optional' ? ' (optional)' : ''}`,
+              description: q.text.substring(0, 100),
               value: i.toString(),
             }))
           )
       );
-      components.push(deleteRow);
+      components.push(questionRow);
     }
 
     // Always add back button as last component (limit is 5 total)
@@ -511,10 +648,157 @@ export class SetupWizardHandler implements InteractionHandler {
     await interaction.showModal(modal);
   }
 
-  async showAddQuestionModal(interaction: ButtonInteraction, client: BotClient, userId: string): Promise<void> {
+  async showInactivityModal(interaction: ButtonInteraction, client: BotClient, userId: string): Promise<void> {
+    const data = await this.getOrCreateAutosave(client, userId);
+
+    const modal = new ModalBuilder()
+      .setCustomId('wizard:modal-inactivity:setup')
+      .setTitle('Ticket Automation');
+
+    const warnInput = new TextInputBuilder()
+      .setCustomId('warn')
+      .setLabel('Warn after (hours without owner reply)')
+      .setStyle(TextInputStyle.Short)
+      .setPlaceholder('e.g., 24 - leave empty to skip the warning')
+      .setRequired(false)
+      .setMaxLength(5);
+
+    const closeInput = new TextInputBuilder()
+      .setCustomId('close')
+      .setLabel('Close after (hours without owner reply)')
+      .setStyle(TextInputStyle.Short)
+      .setPlaceholder('e.g., 48 - leave empty to never auto-close')
+      .setRequired(false)
+      .setMaxLength(5);
+
+    const deleteInput = new TextInputBuilder()
+      .setCustomId('delete')
+      .setLabel('Delete closed tickets after (hours)')
+      .setStyle(TextInputStyle.Short)
+      .setPlaceholder('e.g., 72 - leave empty to keep closed tickets')
+      .setRequired(false)
+      .setMaxLength(5);
+
+    const responseSlaInput = new TextInputBuilder()
+      .setCustomId('sla-response')
+      .setLabel('First staff response target (minutes)')
+      .setStyle(TextInputStyle.Short)
+      .setPlaceholder('e.g., 30 - leave empty for no target')
+      .setRequired(false)
+      .setMaxLength(5);
+
+    const resolutionSlaInput = new TextInputBuilder()
+      .setCustomId('sla-resolution')
+      .setLabel('Resolution target (hours)')
+      .setStyle(TextInputStyle.Short)
+      .setPlaceholder('e.g., 24 - leave empty for no target')
+      .setRequired(false)
+      .setMaxLength(5);
+
+    // Auto-load current value if editing
+    if (data.inactivity?.warnAfterHours) {
+      warnInput.setValue(String(data.inactivity.warnAfterHours));
+    }
+    if (data.inactivity?.closeAfterHours) {
+      closeInput.setValue(String(data.inactivity.closeAfterHours));
+    }
+    if (data.deleteClosedAfterHours) {
+      deleteInput.setValue(String(data.deleteClosedAfterHours));
+    }
+    if (data.sla?.firstResponseMinutes) {
+      responseSlaInput.setValue(String(data.sla.firstResponseMinutes));
+    }
+    if (data.sla?.resolutionHours) {
+      resolutionSlaInput.setValue(String(data.sla.resolutionHours));
+    }
+
+    modal.addComponents(
+      new ActionRowBuilder<TextInputBuilder>().addComponents(warnInput),
+      new ActionRowBuilder<TextInputBuilder>().addComponents(closeInput),
+      new ActionRowBuilder<TextInputBuilder>().addComponents(deleteInput),
+      new ActionRowBuilder<TextInputBuilder>().addComponents(responseSlaInput),
+      new ActionRowBuilder<TextInputBuilder>().addComponents(resolutionSlaInput)
+    );
+
+    await interaction.showModal(modal);
+  }
+
+  async showLimitsModal(interaction: ButtonInteraction, client: BotClient, userId: string): Promise<void> {
+    const data = await this.getOrCreateAutosave(client, userId);
+
+    const modal = new ModalBuilder()
+      .setCustomId('wizard:modal-limits:setup')
+      .setTitle('Ticket Limits');
+
+    const inputs = [
+      { id: 'per-user', label: 'Max open tickets per user (whole server)', placeholder: 'e.g., 2', value: data.limits?.maxOpenPerUser },
+      { id: 'per-panel', label: 'Max open tickets on this panel', placeholder: 'e.g., 50', value: data.limits?.maxOpenPerPanel },
+      { id: 'cooldown', label: 'Cooldown after a ticket closes (minutes)', placeholder: 'e.g., 30', value: data.limits?.cooldownMinutes },
+    ];
+
+    for (const input of inputs) {
+      const textInput = new TextInputBuilder()
+        .setCustomId(input.id)
+        .setLabel(input.label)
+        .setStyle(TextInputStyle.Short)
+        .setPlaceholder(`${input.placeholder} - leave empty for no limit`)
+        .setRequired(false)
+        .setMaxLength(5);
+
+      // Auto-load current value if editing
+      if (input.value) {
+        textInput.setValue(String(input.value));
+      }
+
+      modal.addComponents(new ActionRowBuilder<TextInputBuilder>().addComponents(textInput));
+    }
+
+    const blacklistInput = new TextInputBuilder()
+      .setCustomId('blacklist-message')
+      .setLabel('Refusal message for blacklisted users')
+      .setStyle(TextInputStyle.Paragraph)
+      .setPlaceholder('Supports {reason} and {expires} - leave empty for the default')
+      .setRequired(false)
+      .setMaxLength(500);
+
+    if (data.blacklistMessage) {
+      blacklistInput.setValue(data.blacklistMessage);
+    }
+
+    modal.addComponents(new ActionRowBuilder<TextInputBuilder>().addComponents(blacklistInput));
+
+    await interaction.showModal(modal);
+  }
+
+  /**
+   * Questions of the panel being set up. Panels from before custom questions only have texts; they are
+   * converted on first use so both lists stay in step.
+   */
+  private getWizardQuestions(data: Partial<PanelData>): CustomQuestion[] {
+    if (!data.customQuestions || data.customQuestions.length === 0) {
+      data.customQuestions = (data.questions || []).map(text => ({ text, type: 'primary' as const }));
+    }
+    return data.customQuestions;
+  }
+
+  /**
+   * Add a question, or edit one when an index is given
+   */
+  async showQuestionModal(interaction: ButtonInteraction, client: BotClient, userId: string, index?: number): Promise<void> {
+    const data = await this.getOrCreateAutosave(client, userId);
+    const question = index !== undefined ? this.getWizardQuestions(data)[index] : undefined;
+
+    if (index === undefined && this.getWizardQuestions(data).length >= MAX_QUESTIONS) {
+      await interaction.reply({
+        content: `<:tcet_cross:1437995480754946178> A panel can ask at most ${MAX_QUESTIONS} questions.`,
+        flags: 1 << 6 // MessageFlags.Ephemeral
+      });
+      return;
+    }
+
     const modal = new ModalBuilder()
-      .setCustomId('wizard:modal-question:setup')
-      .setTitle('Add Custom Question');
+      .setCustomId(`wizard:modal-question:${index ?? 'setup'}`)
+      .setTitle(question ? `Edit Question ${index! + 1}` : 'Add Custom Question');
 
     const questionInput = new TextInputBuilder()
       .setCustomId('question')
@@ -531,16 +815,159 @@ export class SetupWizardHandler implements InteractionHandler {
       .setPlaceholder('primary')
       .setRequired(false)
       .setMaxLength(10)
-      .setValue('primary');
+      .setValue(question?.type || 'primary');
+
+    const styleInput = new TextInputBuilder()
+      .setCustomId('style')
+      .setLabel('Answer Field (short or paragraph)')
+      .setStyle(TextInputStyle.Short)
+      .setPlaceholder('paragraph')
+      .setRequired(false)
+      .setMaxLength(10)
+      .setValue(question?.style || 'paragraph');
+
+    const placeholderInput = new TextInputBuilder()
+      .setCustomId('placeholder')
+      .setLabel('Placeholder (optional)')
+      .setStyle(TextInputStyle.Short)
+      .setPlaceholder('e.g., Order #12345')
+      .setRequired(false)
+      .setMaxLength(100);
+
+    const defaultInput = new TextInputBuilder()
+      .setCustomId('default')
+      .setLabel('Pre-filled Answer (optional)')
+      .setStyle(TextInputStyle.Paragraph)
+      .setRequired(false)
+      .setMaxLength(1000);
+
+    // Auto-load current values if editing
+    if (question) {
+      questionInput.setValue(question.text);
+      if (question.placeholder) placeholderInput.setValue(question.placeholder);
+      if (question.defaultValue) defaultInput.setValue(question.defaultValue);
+    }
 
     modal.addComponents(
       new ActionRowBuilder<TextInputBuilder>().addComponents(questionInput),
-      new ActionRowBuilder<TextInputBuilder>().addComponents(typeInput)
+      new ActionRowBuilder<TextInputBuilder>().addComponents(typeInput),
+      new ActionRowBuilder<TextInputBuilder>().addComponents(styleInput),
+      new ActionRowBuilder<TextInputBuilder>().addComponents(placeholderInput),
+      new ActionRowBuilder<TextInputBuilder>().addComponents(defaultInput)
     );
 
     await interaction.showModal(modal);
   }
 
+  async showQuestionRulesModal(interaction: ButtonInteraction, client: BotClient, userId: string, index: number): Promise<void> {
+    const data = await this.getOrCreateAutosave(client, userId);
+    const question = this.getWizardQuestions(data)[index];
+    if (!question) return;
+
+    const minInput = new TextInputBuilder()
+      .setCustomId('min')
+      .setLabel('Minimum length (empty for none)')
+      .setStyle(TextInputStyle.Short)
+      .setRequired(false)
+      .setMaxLength(4);
+    const maxInput = new TextInputBuilder()
+      .setCustomId('max')
+      .setLabel(`Maximum length (empty for ${DEFAULT_MAX_LENGTH})`)
+      .setStyle(TextInputStyle.Short)
+      .setRequired(false)
+      .setMaxLength(4);
+    const patternInput = new TextInputBuilder()
+      .setCustomId('pattern')
+      .setLabel('Pattern the answer must match (regex)')
+      .setStyle(TextInputStyle.Short)
+      .setPlaceholder('e.g., \\d{5,} for an order number')
+      .setRequired(false)
+      .setMaxLength(200);
+    const hintInput = new TextInputBuilder()
+      .setCustomId('hint')
+      .setLabel('Message when the pattern does not match')
+      .setStyle(TextInputStyle.Short)
+      .setPlaceholder('e.g., Order numbers have at least 5 digits.')
+      .setRequired(false)
+      .setMaxLength(200);
+
+    // Auto-load current values
+    if (question.minLength) minInput.setValue(question.minLength.toString());
+    if (question.maxLength) maxInput.setValue(question.maxLength.toString());
+    if (question.pattern) patternInput.setValue(question.pattern);
+    if (question.patternHint) hintInput.setValue(question.patternHint);
+
+    const modal = new ModalBuilder()
+      .setCustomId(`wizard:modal-question-rules:${index}`)
+      .setTitle(`Validation for Question ${index + 1}`)
+      .addComponents(
+        new ActionRowBuilder<TextInputBuilder>().addComponents(minInput),
+        new ActionRowBuilder<TextInputBuilder>().addComponents(maxInput),
+        new ActionRowBuilder<TextInputBuilder>().addComponents(patternInput),
+        new ActionRowBuilder<TextInputBuilder>().addComponents(hintInput)
+      );
+
+    await interaction.showModal(modal);
+  }
+
+  async showQuestionMenu(interaction: any, client: BotClient, userId: string, index: number): Promise<void> {
+    const data = await this.getOrCreateAutosave(client, userId);
+    const question = this.getWizardQuestions(data)[index];
+    if (!question) {
+      await this.showExtraMenu(interaction, client, userId);
+      return;
+    }
+
+    const limits = [
+      question.minLength ? `at least ${question.minLength}` : null,
+      `at most ${question.maxLength || DEFAULT_MAX_LENGTH}`,
+    ].filter(Boolean).join(', ');
+
+    const embed = new EmbedBuilder()
+      .setTitle(`📝 Question ${index + 1}`)
+      .setDescription(question.text)
+      .setColor(null)
+      .addFields(
+        { name: 'Type', value: question.type === 'optional' ? 'Optional' : 'Required', inline: true },
+        { name: 'Answer Field', value: question.style === 'short' ? 'Short' : 'Paragraph', inline: true },
+        { name: 'Length', value: `${limits} characters`, inline: true },
+        { name: 'Placeholder', value: question.placeholder || '`None`', inline: true },
+        { name: 'Pre-filled Answer', value: question.defaultValue?.substring(0, 1024) || '`None`', inline: true },
+        {
+          name: 'Pattern',
+          value: question.pattern ? `\`${question.pattern}\`${question.patternHint ? `\n${question.patternHint}` : ''}` : '`None`',
+          inline: false,
+        }
+      )
+      .setFooter({ text: `Powered by ${client.user?.username || 'Ticket Bot'}` })
+      .setTimestamp();
+
+    const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(`wizard:edit-question:${index}`)
+        .setLabel('Edit Question')
+        .setEmoji('📝')
+        .setStyle(ButtonStyle.Primary),
+      new ButtonBuilder()
+        .setCustomId(`wizard:set-question-rules:${index}`)
+        .setLabel('Validation')
+        .setEmoji('🔎')
+        .setStyle(ButtonStyle.Secondary),
+      new ButtonBuilder()
+        .setCustomId(`wizard:delete-question:${index}`)
+        .setLabel('Delete')
+        .setEmoji('<:tcet_cross:1437995480754946178>')
+        .setStyle(ButtonStyle.Danger),
+      new ButtonBuilder()
+        .setCustomId('wizard:extra:setup')
+        .setLabel('Back')
+        .setEmoji('<:caution:1437997212008185866>')
+        .setStyle(ButtonStyle.Secondary)
+    );
+
+    await interaction.editReply({ embeds: [embed], components: [row] });
+  }
+
   async handleChannelSelect(interaction: StringSelectMenuInteraction, client: BotClient, userId: string): Promise<void> {
     const data = await this.getOrCreateAutosave(client, userId);
     data.channel = interaction.values[0];
@@ -562,9 +989,52 @@ export class SetupWizardHandler implements InteractionHandler {
     await this.showChannelMenu(interaction, client, userId);
   }
 
-  async handleStaffRoleSelect(interaction: StringSelectMenuInteraction, client: BotClient, userId: string): Promise<void> {
+  async handleStaffRoleSelect(interaction: StringSelectMenuInteraction, client: BotClient, userId: string, level: StaffLevel): Promise<void> {
+    if (!STAFF_LEVELS.includes(level)) return;
+
+    // A role holds one level, so picking it here takes it out of the others
+    const data = await this.getOrCreateAutosave(client, userId);
+    const others = PermissionHelper.getStaffRoles(data)
+      .filter(staffRole => staffRole.level !== level && !interaction.values.includes(staffRole.roleId));
+    const staffRoles = [...others, ...interaction.values.map(roleId => ({ roleId, level }))];
+    data.staffRoles = staffRoles;
+
+    // The primary role is pinged on new tickets, so it has to be one that can answer them
+    const answering = staffRoles.filter(staffRole => staffRole.level !== 'viewer');
+    if (!answering.some(staffRole => staffRole.roleId === data.staffRole)) {
+      data.staffRole = answering[0]?.roleId;
+    }
+    this.saveAutosave(client, userId, data);
+    await this.showStaffRoleDropdown(interaction, client, userId);
+  }
+
+  async handleEscalationRoleSelect(interaction: StringSelectMenuInteraction, client: BotClient, userId: string): Promise<void> {
+    const data = await this.getOrCreateAutosave(client, userId);
+    data.escalationRole = interaction.values[0] === 'none' ? undefined : interaction.values[0];
+    this.saveAutosave(client, userId, data);
+    await this.showChannelMenu(interaction, client, userId);
+  }
+
+  async handleFeedbackChannelSelect(interaction: StringSelectMenuInteraction, client: BotClient, userId: string): Promise<void> {
     const data = await this.getOrCreateAutosave(client, userId);
-    data.staffRole = interaction.values[0];
+    data.feedbackChannel = interaction.values[0] === 'none' ? undefined : interaction.values[0];
+    this.saveAutosave(client, userId, data);
+    await this.showChannelMenu(interaction, client, userId);
+  }
+
+  async handleTicketTypeSelect(interaction: StringSelectMenuInteraction, client: BotClient, userId: string): Promise<void> {
+    const data = await this.getOrCreateAutosave(client, userId);
+    const value = interaction.values[0];
+    // The same menu also holds the modmail toggle, since DM tickets are opened as channels or threads too
+    if (value === 'modmail-on' || value === 'modmail-off') {
+      data.modmail = value === 'modmail-on' || undefined;
+    } else if (value.startsWith('thread:')) {
+      data.ticketType = 'thread';
+      data.threadChannel = value.slice('thread:'.length);
+    } else {
+      data.ticketType = undefined;
+      data.threadChannel = undefined;
+    }
     this.saveAutosave(client, userId, data);
     await this.showChannelMenu(interaction, client, userId);
   }
@@ -585,14 +1055,21 @@ export class SetupWizardHandler implements InteractionHandler {
 
   async handleClaimableSelect(interaction: StringSelectMenuInteraction, client: BotClient, userId: string): Promise<void> {
     const data = await this.getOrCreateAutosave(client, userId);
-    data.claimable = interaction.values[0] === 'true';
+    data.claimable = interaction.values[0] !== 'false';
+    data.exclusiveClaim = interaction.values[0] === 'exclusive';
     this.saveAutosave(client, userId, data);
     await this.showExtraMenu(interaction, client, userId);
   }
 
   async handleOwnerCloseSelect(interaction: StringSelectMenuInteraction, client: BotClient, userId: string): Promise<void> {
     const data = await this.getOrCreateAutosave(client, userId);
-    data.allowOwnerClose = interaction.values[0] === 'true';
+    // The same menu also holds the close reason toggle, as the extra menu has no free row
+    const value = interaction.values[0];
+    if (value === 'reason-required' || value === 'reason-optional') {
+      data.requireCloseReason = value === 'reason-required';
+    } else {
+      data.allowOwnerClose = value === 'true';
+    }
     this.saveAutosave(client, userId, data);
     await this.showExtraMenu(interaction, client, userId);
   }
@@ -608,11 +1085,13 @@ export class SetupWizardHandler implements InteractionHandler {
     await this.showButtonMenu(interaction, client, userId);
   }
 
-  async handleDeleteQuestion(interaction: StringSelectMenuInteraction, client: BotClient, userId: string): Promise<void> {
+  async handleDeleteQuestion(interaction: ButtonInteraction, client: BotClient, userId: string, index: number): Promise<void> {
     const data = await this.getOrCreateAutosave(client, userId);
-    const index = parseInt(interaction.values[0]);
-    if (data.questions) {
-      data.questions.splice(index, 1);
+    const questions = this.getWizardQuestions(data);
+    if (questions[index]) {
+      questions.splice(index, 1);
+      data.questions = questions.map(q => q.text);
+      removeRouteQuestion(data.routes, index);
       this.saveAutosave(client, userId, data);
     }
     await this.showExtraMenu(interaction, client, userId);
@@ -622,7 +1101,7 @@ export class SetupWizardHandler implements InteractionHandler {
     const panelId = interaction.values[0];
     const panel = await client.db.get(panelId) as PanelData;
 
-    if (!panel) {
+    if (!panel || panel.guildId !== interaction.guildId) {
       await interaction.editReply({
         content: '<:tcet_cross:1437995480754946178> Panel not found.',
         components: [],
@@ -637,7 +1116,11 @@ export class SetupWizardHandler implements InteractionHandler {
       channel: panel.channel,
       openCategory: panel.openCategory,
       closeCategory: panel.closeCategory,
+      ticketType: panel.ticketType,
+      threadChannel: panel.threadChannel,
+      modmail: panel.modmail,
       staffRole: panel.staffRole,
+      staffRoles: panel.staffRoles,
       logsChannel: panel.logsChannel,
       transcriptChannel: panel.transcriptChannel,
       label: panel.label,
@@ -646,68 +1129,523 @@ export class SetupWizardHandler implements InteractionHandler {
       description: panel.description,
       openMessage: panel.openMessage,
       questions: panel.questions,
+      customQuestions: panel.customQuestions,
+      routes: panel.routes,
       claimable: panel.claimable,
+      exclusiveClaim: panel.exclusiveClaim,
+      allowOwnerClose: panel.allowOwnerClose,
+      requireCloseReason: panel.requireCloseReason,
       enabled: panel.enabled,
+      inactivity: panel.inactivity,
+      sla: panel.sla,
+      deleteClosedAfterHours: panel.deleteClosedAfterHours,
+      limits: panel.limits,
+      blacklistMessage: panel.blacklistMessage,
+      escalationRole: panel.escalationRole,
+      feedbackChannel: panel.feedbackChannel,
       userPermissions: panel.userPermissions || [],
       staffPermissions: panel.staffPermissions || [],
     };
 
-    this.saveAutosave(client, userId, autosaveData);
+    this.saveAutosave(client, userId, autosaveData);
+
+    // Show the main setup wizard with loaded data
+    await this.showMainMenu(interaction, client, userId);
+  }
+
+  async handleNameModal(interaction: ModalSubmitInteraction, client: BotClient, userId: string): Promise<void> {
+    const name = interaction.fields.getTextInputValue('name');
+    const data = await this.getOrCreateAutosave(client, userId);
+    const oldValue = data.name;
+    data.name = name;
+    if (oldValue) this.addEditChange(data, 'Panel Name', oldValue, name);
+    this.saveAutosave(client, userId, data);
+    await interaction.deferUpdate();
+    await this.showChannelMenu(interaction, client, userId);
+  }
+
+  async handleDescriptionModal(interaction: ModalSubmitInteraction, client: BotClient, userId: string): Promise<void> {
+    const description = interaction.fields.getTextInputValue('description');
+    const data = await this.getOrCreateAutosave(client, userId);
+    const oldValue = data.description;
+    data.description = description;
+    if (oldValue) this.addEditChange(data, 'Description', oldValue.substring(0, 30), description.substring(0, 30));
+    this.saveAutosave(client, userId, data);
+    await interaction.deferUpdate();
+    await this.showExtraMenu(interaction, client, userId);
+  }
+
+  async handleOpenMessageModal(interaction: ModalSubmitInteraction, client: BotClient, userId: string): Promise<void> {
+    const message = interaction.fields.getTextInputValue('openmessage');
+    const data = await this.getOrCreateAutosave(client, userId);
+    data.openMessage = message;
+    this.saveAutosave(client, userId, data);
+    await interaction.deferUpdate();
+    await this.showExtraMenu(interaction, client, userId);
+  }
+
+  async handleQuestionModal(interaction: ModalSubmitInteraction, client: BotClient, userId: string, index?: number): Promise<void> {
+    const text = interaction.fields.getTextInputValue('question');
+    const typeInput = interaction.fields.getTextInputValue('type').toLowerCase().trim();
+    const type = (typeInput === 'optional' || typeInput === 'primary') ? typeInput as 'primary' | 'optional' : 'primary';
+    const styleInput = interaction.fields.getTextInputValue('style').toLowerCase().trim();
+    const placeholder = interaction.fields.getTextInputValue('placeholder').trim();
+    const defaultValue = interaction.fields.getTextInputValue('default').trim();
+
+    const data = await this.getOrCreateAutosave(client, userId);
+    const questions = this.getWizardQuestions(data);
+
+    // Validation rules are kept when an existing question is edited
+    const question: CustomQuestion = {
+      ...(index !== undefined ? questions[index] : {}),
+      text,
+      type,
+      style: styleInput === 'short' ? 'short' : 'paragraph',
+      placeholder: placeholder || undefined,
+      defaultValue: defaultValue || undefined,
+    };
+
+    if (index !== undefined && questions[index]) {
+      questions[index] = question;
+    } else {
+      questions.push(question);
+    }
+
+    // Also keep legacy questions array for backward compatibility
+    data.questions = questions.map(q => q.text);
+
+    this.saveAutosave(client, userId, data);
+    await interaction.deferUpdate();
+    if (index !== undefined) {
+      await this.showQuestionMenu(interaction, client, userId, index);
+    } else {
+      await this.showExtraMenu(interaction, client, userId);
+    }
+  }
+
+  async handleQuestionRulesModal(interaction: ModalSubmitInteraction, client: BotClient, userId: string, index: number): Promise<void> {
+    const parseLength = (value: string): number | undefined | null => {
+      const trimmed = value.trim();
+      if (!trimmed) return undefined;
+      const length = Number(trimmed);
+      return Number.isInteger(length) && length >= 1 && length <= 4000 ? length : null;
+    };
+
+    const minLength = parseLength(interaction.fields.getTextInputValue('min'));
+    const maxLength = parseLength(interaction.fields.getTextInputValue('max'));
+    const pattern = interaction.fields.getTextInputValue('pattern').trim();
+    const patternHint = interaction.fields.getTextInputValue('hint').trim();
+
+    const refuse = (content: string) => interaction.reply({
+      content: `<:tcet_cross:1437995480754946178> ${content}`,
+      flags: 1 << 6 // MessageFlags.Ephemeral
+    });
+
+    if (minLength === null || maxLength === null) {
+      await refuse('Lengths must be whole numbers between 1 and 4000.');
+      return;
+    }
+    if (minLength && minLength > (maxLength || DEFAULT_MAX_LENGTH)) {
+      await refuse('The minimum length cannot be more than the maximum length.');
+      return;
+    }
+    if (pattern && !isValidPattern(pattern)) {
+      await refuse('That pattern is not a valid regular expression.');
+      return;
+    }
+
+    const data = await this.getOrCreateAutosave(client, userId);
+    const question = this.getWizardQuestions(data)[index];
+    if (question) {
+      question.minLength = minLength;
+      question.maxLength = maxLength;
+      question.pattern = pattern || undefined;
+      question.patternHint = patternHint || undefined;
+      this.saveAutosave(client, userId, data);
+    }
+
+    await interaction.deferUpdate();
+    await this.showQuestionMenu(interaction, client, userId, index);
+  }
+
+  /**
+   * One level of the panel's routing tree: the top-level options, or the sub-options of an option
+   */
+  async showRouteMenu(interaction: any, client: BotClient, userId: string, parentId: string): Promise<void> {
+    const data = await this.getOrCreateAutosave(client, userId);
+    const parentPath = parentId === 'root' ? [] : findRoutePath(data.routes, parentId);
+    if (!parentPath) {
+      await this.showRouteMenu(interaction, client, userId, 'root');
+      return;
+    }
+    const parent = parentPath[parentPath.length - 1];
+    const routes = (parent ? parent.options : data.routes) || [];
+
+    const embed = new EmbedBuilder()
+      .setTitle(`🧭 Routing${parent ? `: ${formatRoutePath(parentPath)}` : ''}`)
+      .setDescription(
+        (parent
+          ? `Users who pick **${parent.label}** choose one of these next.`
+          : 'Before the question form, users pick one of these options. Each option can ping its own staff role, ' +
+            'open tickets in its own category and ask only some of the questions. Without options, tickets open directly.') +
+        '\n\n' +
+        (routes.length > 0
+          ? routes.map(route => {
+              const subOptions = route.options?.length ? ` *(${route.options.length} sub-options)*` : '';
+              return `${route.emoji ? `${route.emoji} ` : ''}**${route.label}**${route.description ? ` — ${route.description}` : ''}${subOptions}`;
+            }).join('\n')
+          : '`No options yet`')
+      )
+      .setColor(null)
+      .setFooter({ text: `Powered by ${client.user?.username || 'Ticket Bot'}` })
+      .setTimestamp();
+
+    const rows: ActionRowBuilder<any>[] = [];
+    if (routes.length > 0) {
+      rows.push(new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(
+        new StringSelectMenuBuilder()
+          .setCustomId('wizard:route-select:setup')
+          .setPlaceholder('Edit an option')
+          .addOptions(routes.map(route => ({
+            label: route.label.substring(0, 100),
+            description: route.description ? route.description.substring(0, 100) : undefined,
+            value: route.id,
+          })))
+      ));
+    }
+
+    rows.push(new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(`wizard:add-route:${parent ? parent.id : 'root'}`)
+        .setLabel('Add Option')
+        .setEmoji('➕')
+        .setStyle(ButtonStyle.Success)
+        .setDisabled(routes.length >= MAX_ROUTE_OPTIONS),
+      new ButtonBuilder()
+        .setCustomId(parent ? `wizard:route-edit:${parent.id}` : 'wizard:extra:setup')
+        .setLabel('Back')
+        .setEmoji('<:caution:1437997212008185866>')
+        .setStyle(ButtonStyle.Secondary)
+    ));
+
+    await interaction.editReply({ content: '', embeds: [embed], components: rows });
+  }
+
+  async showRouteEditor(interaction: any, client: BotClient, userId: string, routeId: string): Promise<void> {
+    const data = await this.getOrCreateAutosave(client, userId);
+    const path = findRoutePath(data.routes, routeId);
+    if (!path) {
+      await this.showRouteMenu(interaction, client, userId, 'root');
+      return;
+    }
+    const route = path[path.length - 1];
+    const parentId = path.length > 1 ? path[path.length - 2].id : 'root';
+    const hasOptions = !!route.options?.length;
+    const questions = this.getWizardQuestions(data);
+
+    const embed = new EmbedBuilder()
+      .setTitle(`🧭 ${formatRoutePath(path)}`)
+      .setDescription(
+        `${route.emoji ? `${route.emoji} ` : ''}${route.description || 'No description'}\n\n` +
+        'Anything left unset is taken from the option above, or from the panel.'
+      )
+      .setColor(null)
+      .addFields(
+        { name: 'Staff Role Pinged', value: route.staffRole ? `<@&${route.staffRole}>` : '`Same as above`', inline: true },
+        { name: 'Category', value: route.openCategory ? `<#${route.openCategory}>` : '`Same as above`', inline: true },
+        {
+          name: 'Questions',
+          value: hasOptions
+            ? '`Decided by the sub-options`'
+            : route.questions
+              ? route.questions.map(i => `${i + 1}. ${questions[i]?.text || '?'}`).join('\n').substring(0, 1024) || '`None`'
+              : '`All`',
+          inline: false,
+        },
+        { name: 'Sub-options', value: hasOptions ? route.options!.map(option => option.label).join(', ').substring(0, 1024) : '`None`', inline: false }
+      )
+      .setFooter({ text: `Powered by ${client.user?.username || 'Ticket Bot'}` })
+      .setTimestamp();
+
+    const rows: ActionRowBuilder<any>[] = [];
+
+    // Only the panel's own staff roles can be pinged, so whoever is pinged can also answer and close
+    const roleOptions = PermissionHelper.getStaffRoles(data)
+      .filter(staffRole => staffRole.level !== 'viewer')
+      .slice(0, 24)
+      .map(staffRole => ({
+        label: (interaction.guild?.roles.cache.get(staffRole.roleId)?.name || staffRole.roleId).substring(0, 100),
+        value: staffRole.roleId,
+        default: staffRole.roleId === route.staffRole,
+      }));
+    if (roleOptions.length > 0) {
+      rows.push(new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(
+        new StringSelectMenuBuilder()
+          .setCustomId(`wizard:route-role:${route.id}`)
+          .setPlaceholder('Staff role to ping')
+          .addOptions([{ label: 'Same as above', value: 'none', default: !route.staffRole }, ...roleOptions])
+      ));
+    }
+
+    const categories = interaction.guild
+      ? Array.from(interaction.guild.channels.cache.filter((c: any) => c.type === ChannelType.GuildCategory).values())
+      : [];
+    const categoryOptions = categories.slice(0, 24).map((category: any) => ({
+      label: category.name.substring(0, 100),
+      value: category.id,
+      default: category.id === route.openCategory,
+    }));
+    if (categoryOptions.length > 0) {
+      rows.push(new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(
+        new StringSelectMenuBuilder()
+          .setCustomId(`wizard:route-category:${route.id}`)
+          .setPlaceholder('Category for these tickets')
+          .addOptions([{ label: 'Same as above', value: 'none', default: !route.openCategory }, ...categoryOptions])
+      ));
+    }
+
+    // Options with sub-options never open the form themselves, so only the last one picked asks questions
+    if (!hasOptions && questions.length > 0) {
+      rows.push(new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(
+        new StringSelectMenuBuilder()
+          .setCustomId(`wizard:route-questions:${route.id}`)
+          .setPlaceholder('Questions to ask')
+          .setMinValues(0)
+          .setMaxValues(questions.length)
+          .addOptions(questions.map((question, i) => ({
+            label: `Question ${i + 1}`,
+            description: question.text.substring(0, 100),
+            value: i.toString(),
+            default: !route.questions || route.questions.includes(i),
+          })))
+      ));
+    }
+
+    rows.push(new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(`wizard:edit-route:${route.id}`)
+        .setLabel('Edit')
+        .setEmoji('📝')
+        .setStyle(ButtonStyle.Primary),
+      new ButtonBuilder()
+        .setCustomId(`wizard:routes:${route.id}`)
+        .setLabel('Sub-options')
+        .setEmoji('🧭')
+        .setStyle(ButtonStyle.Secondary)
+        .setDisabled(path.length >= MAX_ROUTE_DEPTH),
+      new ButtonBuilder()
+        .setCustomId(`wizard:delete-route:${route.id}`)
+        .setLabel('Delete')
+        .setEmoji('<:tcet_cross:1437995480754946178>')
+        .setStyle(ButtonStyle.Danger),
+      new ButtonBuilder()
+        .setCustomId(`wizard:routes:${parentId}`)
+        .setLabel('Back')
+        .setEmoji('<:caution:1437997212008185866>')
+        .setStyle(ButtonStyle.Secondary)
+    ));
+
+    await interaction.editReply({ content: '', embeds: [embed], components: rows });
+  }
+
+  /**
+   * Add an option under a parent ('root' for the top level), or edit one
+   */
+  async showRouteModal(interaction: ButtonInteraction, client: BotClient, userId: string, mode: 'add' | 'edit', id: string): Promise<void> {
+    const data = await this.getOrCreateAutosave(client, userId);
+    const path = findRoutePath(data.routes, id);
+    const route = mode === 'edit' ? path?.[path.length - 1] : undefined;
+    if (mode === 'edit' && !route) return;
+
+    const labelInput = new TextInputBuilder()
+      .setCustomId('label')
+      .setLabel('Option Name')
+      .setStyle(TextInputStyle.Short)
+      .setPlaceholder('e.g., Billing')
+      .setRequired(true)
+      .setMaxLength(100);
+    const descriptionInput = new TextInputBuilder()
+      .setCustomId('description')
+      .setLabel('Description (optional)')
+      .setStyle(TextInputStyle.Short)
+      .setPlaceholder('e.g., Payments, invoices and refunds')
+      .setRequired(false)
+      .setMaxLength(100);
+    const emojiInput = new TextInputBuilder()
+      .setCustomId('emoji')
+      .setLabel('Emoji (optional)')
+      .setStyle(TextInputStyle.Short)
+      .setPlaceholder('e.g., 💳')
+      .setRequired(false)
+      .setMaxLength(100);
+
+    // Auto-load current values if editing
+    if (route) {
+      labelInput.setValue(route.label);
+      if (route.description) descriptionInput.setValue(route.description);
+      if (route.emoji) emojiInput.setValue(route.emoji);
+    }
+
+    const modal = new ModalBuilder()
+      .setCustomId(`wizard:modal-route:${mode}:${id}`)
+      .setTitle(route ? `Edit ${route.label}`.substring(0, 45) : 'Add Routing Option')
+      .addComponents(
+        new ActionRowBuilder<TextInputBuilder>().addComponents(labelInput),
+        new ActionRowBuilder<TextInputBuilder>().addComponents(descriptionInput),
+        new ActionRowBuilder<TextInputBuilder>().addComponents(emojiInput)
+      );
+
+    await interaction.showModal(modal);
+  }
+
+  async handleRouteModal(interaction: ModalSubmitInteraction, client: BotClient, userId: string, mode: 'add' | 'edit', id: string): Promise<void> {
+    const label = interaction.fields.getTextInputValue('label').trim();
+    const description = interaction.fields.getTextInputValue('description').trim() || undefined;
+    const emoji = interaction.fields.getTextInputValue('emoji').trim() || undefined;
+
+    const data = await this.getOrCreateAutosave(client, userId);
+    await interaction.deferUpdate();
+
+    if (mode === 'edit') {
+      const path = findRoutePath(data.routes, id);
+      const route = path?.[path.length - 1];
+      if (route) {
+        Object.assign(route, { label, description, emoji });
+        this.saveAutosave(client, userId, data);
+      }
+      await this.showRouteEditor(interaction, client, userId, id);
+      return;
+    }
 
-    // Show the main setup wizard with loaded data
-    await this.showMainMenu(interaction, client, userId);
+    const parentPath = id === 'root' ? [] : findRoutePath(data.routes, id);
+    if (!parentPath) {
+      await this.showRouteMenu(interaction, client, userId, 'root');
+      return;
+    }
+    const parent = parentPath[parentPath.length - 1];
+    const routes = parent ? (parent.options ||= []) : (data.routes ||= []);
+    if (routes.length < MAX_ROUTE_OPTIONS) {
+      // An option that gets sub-options stops asking questions itself, so its own selection no longer applies
+      if (parent) parent.questions = undefined;
+      routes.push({ id: randomBytes(4).toString('hex'), label, description, emoji });
+      this.saveAutosave(client, userId, data);
+    }
+    await this.showRouteMenu(interaction, client, userId, id);
   }
 
-  async handleNameModal(interaction: ModalSubmitInteraction, client: BotClient, userId: string): Promise<void> {
-    const name = interaction.fields.getTextInputValue('name');
+  async handleRouteSettingSelect(
+    interaction: StringSelectMenuInteraction,
+    client: BotClient,
+    userId: string,
+    setting: 'route-role' | 'route-category' | 'route-questions',
+    routeId: string
+  ): Promise<void> {
     const data = await this.getOrCreateAutosave(client, userId);
-    const oldValue = data.name;
-    data.name = name;
-    if (oldValue) this.addEditChange(data, 'Panel Name', oldValue, name);
-    this.saveAutosave(client, userId, data);
-    await interaction.deferUpdate();
-    await this.showChannelMenu(interaction, client, userId);
+    const path = findRoutePath(data.routes, routeId);
+    const route = path?.[path.length - 1];
+    if (route) {
+      const value = interaction.values[0] === 'none' ? undefined : interaction.values[0];
+      switch (setting) {
+        case 'route-role':
+          route.staffRole = value;
+          break;
+        case 'route-category':
+          route.openCategory = value;
+          break;
+        case 'route-questions': {
+          // Picking every question is the same as not narrowing them down, and keeps new questions included
+          const picked = interaction.values.map(value => parseInt(value, 10)).sort((a, b) => a - b);
+          route.questions = picked.length === this.getWizardQuestions(data).length ? undefined : picked;
+          break;
+        }
+      }
+      this.saveAutosave(client, userId, data);
+    }
+    await this.showRouteEditor(interaction, client, userId, routeId);
   }
 
-  async handleDescriptionModal(interaction: ModalSubmitInteraction, client: BotClient, userId: string): Promise<void> {
-    const description = interaction.fields.getTextInputValue('description');
+  async handleDeleteRoute(interaction: ButtonInteraction, client: BotClient, userId: string, routeId: string): Promise<void> {
     const data = await this.getOrCreateAutosave(client, userId);
-    const oldValue = data.description;
-    data.description = description;
-    if (oldValue) this.addEditChange(data, 'Description', oldValue.substring(0, 30), description.substring(0, 30));
+    const path = findRoutePath(data.routes, routeId);
+    if (!path) {
+      await this.showRouteMenu(interaction, client, userId, 'root');
+      return;
+    }
+
+    const parent: PanelRoute | undefined = path[path.length - 2];
+    const siblings = (parent ? parent.options : data.routes) || [];
+    siblings.splice(siblings.findIndex(route => route.id === routeId), 1);
     this.saveAutosave(client, userId, data);
-    await interaction.deferUpdate();
-    await this.showExtraMenu(interaction, client, userId);
+    await this.showRouteMenu(interaction, client, userId, parent ? parent.id : 'root');
   }
 
-  async handleOpenMessageModal(interaction: ModalSubmitInteraction, client: BotClient, userId: string): Promise<void> {
-    const message = interaction.fields.getTextInputValue('openmessage');
+  async handleInactivityModal(interaction: ModalSubmitInteraction, client: BotClient, userId: string): Promise<void> {
+    const parseHours = (value: string): number | undefined | null => {
+      const trimmed = value.trim();
+      if (!trimmed) return undefined;
+      const hours = Number(trimmed);
+      return Number.isFinite(hours) && hours > 0 ? hours : null;
+    };
+
+    const warnAfterHours = parseHours(interaction.fields.getTextInputValue('warn'));
+    const closeAfterHours = parseHours(interaction.fields.getTextInputValue('close'));
+    const deleteClosedAfterHours = parseHours(interaction.fields.getTextInputValue('delete'));
+    const firstResponseMinutes = parseHours(interaction.fields.getTextInputValue('sla-response'));
+    const resolutionHours = parseHours(interaction.fields.getTextInputValue('sla-resolution'));
+
+    if (
+      warnAfterHours === null || closeAfterHours === null || deleteClosedAfterHours === null ||
+      firstResponseMinutes === null || resolutionHours === null
+    ) {
+      await interaction.reply({
+        content: '<:tcet_cross:1437995480754946178> Times must be positive numbers, or empty to disable.',
+        flags: 1 << 6 // MessageFlags.Ephemeral
+      });
+      return;
+    }
+
+    if (warnAfterHours !== undefined && closeAfterHours !== undefined && closeAfterHours <= warnAfterHours) {
+      await interaction.reply({
+        content: '<:tcet_cross:1437995480754946178> The close time must be later than the warning time.',
+        flags: 1 << 6 // MessageFlags.Ephemeral
+      });
+      return;
+    }
+
     const data = await this.getOrCreateAutosave(client, userId);
-    data.openMessage = message;
+    data.inactivity = warnAfterHours || closeAfterHours ? { warnAfterHours, closeAfterHours } : undefined;
+    data.deleteClosedAfterHours = deleteClosedAfterHours;
+    data.sla = firstResponseMinutes || resolutionHours ? { firstResponseMinutes, resolutionHours } : undefined;
     this.saveAutosave(client, userId, data);
     await interaction.deferUpdate();
     await this.showExtraMenu(interaction, client, userId);
   }
 
-  async handleQuestionModal(interaction: ModalSubmitInteraction, client: BotClient, userId: string): Promise<void> {
-    const question = interaction.fields.getTextInputValue('question');
-    const typeInput = interaction.fields.getTextInputValue('type').toLowerCase().trim();
-    const type = (typeInput === 'optional' || typeInput === 'primary') ? typeInput as 'primary' | 'optional' : 'primary';
-    
+  async handleLimitsModal(interaction: ModalSubmitInteraction, client: BotClient, userId: string): Promise<void> {
+    const parseCount = (value: string): number | undefined | null => {
+      const trimmed = value.trim();
+      if (!trimmed) return undefined;
+      const count = Number(trimmed);
+      return Number.isInteger(count) && count > 0 ? count : null;
+    };
+
+    const maxOpenPerUser = parseCount(interaction.fields.getTextInputValue('per-user'));
+    const maxOpenPerPanel = parseCount(interaction.fields.getTextInputValue('per-panel'));
+    const cooldownMinutes = parseCount(interaction.fields.getTextInputValue('cooldown'));
+
+    if (maxOpenPerUser === null || maxOpenPerPanel === null || cooldownMinutes === null) {
+      await interaction.reply({
+        content: '<:tcet_cross:1437995480754946178> Limits must be whole numbers above zero, or empty for no limit.',
+        flags: 1 << 6 // MessageFlags.Ephemeral
+      });
+      return;
+    }
+
     const data = await this.getOrCreateAutosave(client, userId);
-    
-    // Initialize customQuestions if not exists
-    if (!data.customQuestions) data.customQuestions = [];
-    
-    // Also keep legacy questions array for backward compatibility
-    if (!data.questions) data.questions = [];
-    
-    // Add to customQuestions array
-    data.customQuestions.push({ text: question, type });
-    
-    // Add to legacy questions array (text only)
-    data.questions.push(question);
-    
+    data.limits = maxOpenPerUser || maxOpenPerPanel || cooldownMinutes
+      ? { maxOpenPerUser, maxOpenPerPanel, cooldownMinutes }
+      : undefined;
+    data.blacklistMessage = interaction.fields.getTextInputValue('blacklist-message').trim() || undefined;
     this.saveAutosave(client, userId, data);
     await interaction.deferUpdate();
     await this.showExtraMenu(interaction, client, userId);
@@ -728,9 +1666,11 @@ export class SetupWizardHandler implements InteractionHandler {
     const data = await this.getOrCreateAutosave(client, userId);
 
     // Validate required fields
-    if (!data.name || !data.channel || !data.openCategory || !data.staffRole) {
+    // Thread tickets live in their thread channel instead of the open category
+    const hasTicketPlace = data.ticketType === 'thread' ? !!data.threadChannel : !!data.openCategory;
+    if (!data.name || !data.channel || !hasTicketPlace || !data.staffRole) {
       await interaction.editReply({
-        content: '<:tcet_cross:1437995480754946178> Please fill in all required fields: Panel Name, Channel, Open Category, and Staff Role.',
+        content: '<:tcet_cross:1437995480754946178> Please fill in all required fields: Panel Name, Channel, Open Category (or a thread channel under Ticket Type), and a Staff Role that can answer tickets.',
         embeds: [],
         components: [],
       });
@@ -745,11 +1685,16 @@ export class SetupWizardHandler implements InteractionHandler {
     const panel: PanelData = {
       id: panelId!,
       type: 'panel',
+      guildId: interaction.guildId,
       name: data.name,
       channel: data.channel,
       openCategory: data.openCategory,
       closeCategory: data.closeCategory,
+      ticketType: data.ticketType,
+      threadChannel: data.threadChannel,
+      modmail: data.modmail || undefined,
       staffRole: data.staffRole,
+      staffRoles: data.staffRoles,
       logsChannel: data.logsChannel,
       transcriptChannel: data.transcriptChannel,
       label: data.label || 'Open Ticket',
@@ -759,17 +1704,30 @@ export class SetupWizardHandler implements InteractionHandler {
       openMessage: data.openMessage || 'Thank you for contacting support.',
       questions: data.questions || [],
       customQuestions: data.customQuestions || [],
+      routes: data.routes?.length ? data.routes : undefined,
       claimable: data.claimable || false,
+      exclusiveClaim: (data.claimable && data.exclusiveClaim) || undefined,
       allowOwnerClose: data.allowOwnerClose !== false,
+      requireCloseReason: data.requireCloseReason || undefined,
       enabled: data.enabled !== undefined ? data.enabled : true,
       ticketsCreated: isEdit ? (await client.db.get(panelId!) as PanelData | null)?.ticketsCreated || 0 : 0,
       messageId: isEdit ? (await client.db.get(panelId!) as PanelData | null)?.messageId : undefined,
       userPermissions: data.userPermissions || [],
       staffPermissions: data.staffPermissions || [],
+      inactivity: data.inactivity,
+      sla: data.sla,
+      deleteClosedAfterHours: data.deleteClosedAfterHours,
+      limits: data.limits,
+      blacklistMessage: data.blacklistMessage,
+      escalationRole: data.escalationRole,
+      feedbackChannel: data.feedbackChannel,
     };
 
-    // Save panel
+    // Save panel and re-render any panel group showing it
     await client.db.save(panel);
+    if (isEdit) {
+      await refreshPanelGroups(client, panel.guildId!, panel.id);
+    }
 
     // Delete autosave
     await client.db.deleteAutosave(userId);
@@ -1026,13 +1984,9 @@ export class SetupWizardHandler implements InteractionHandler {
     const guild = interaction.guild;
     if (!guild) return;
 
-    const roles = guild.roles.cache.filter((r: any) => !r.managed && r.name !== '@everyone');
-    const roleOptions = Array.from(roles.values()).slice(0, 25).map((role: any) => ({
-      label: role.name,
-      value: role.id,
-    }));
+    const roles = Array.from(guild.roles.cache.filter((r: any) => !r.managed && r.name !== '@everyone').values()).slice(0, 25);
 
-    if (roleOptions.length === 0) {
+    if (roles.length === 0) {
       await interaction.editReply({
         content: '<:tcet_cross:1437995480754946178> No roles found.',
         embeds: [],
@@ -1041,13 +1995,61 @@ export class SetupWizardHandler implements InteractionHandler {
       return;
     }
 
+    const data = await this.getOrCreateAutosave(client, userId);
+    const staffRoles = PermissionHelper.getStaffRoles(data);
+    const embed = EmbedController.createChannelSetupEmbed(data);
+
+    const levelPlaceholders: Record<StaffLevel, string> = {
+      viewer: 'Viewers: can read tickets',
+      responder: 'Responders: can reply and claim',
+      closer: 'Closers: can also close tickets',
+      manager: 'Managers: can also reassign claims',
+    };
+
+    const selectMenus = STAFF_LEVELS.map(level => new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(
+      new StringSelectMenuBuilder()
+        .setCustomId(`wizard:select-staffrole:${level}`)
+        .setPlaceholder(levelPlaceholders[level])
+        .setMinValues(0)
+        .setMaxValues(roles.length)
+        .addOptions(roles.map((role: any) => ({
+          label: role.name,
+          value: role.id,
+          default: staffRoles.some(staffRole => staffRole.roleId === role.id && staffRole.level === level),
+        })))
+    ));
+
+    const backButton = new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId('wizard:channel:setup')
+        .setLabel('Back')
+        .setEmoji('<:caution:1437997212008185866>')
+        .setStyle(ButtonStyle.Secondary)
+    );
+
+    await interaction.editReply({ embeds: [embed], components: [...selectMenus, backButton] });
+  }
+
+  async showEscalationRoleDropdown(interaction: any, client: BotClient, userId: string): Promise<void> {
+    const guild = interaction.guild;
+    if (!guild) return;
+
+    const roles = guild.roles.cache.filter((r: any) => !r.managed && r.name !== '@everyone');
+    const roleOptions = [
+      { label: 'No escalation role', value: 'none', description: 'Urgent tickets ping nobody' },
+      ...Array.from(roles.values()).slice(0, 24).map((role: any) => ({
+        label: role.name,
+        value: role.id,
+      })),
+    ];
+
     const data = await this.getOrCreateAutosave(client, userId);
     const embed = EmbedController.createChannelSetupEmbed(data);
 
     const selectMenu = new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(
       new StringSelectMenuBuilder()
-        .setCustomId('wizard:select-staffrole:setup')
-        .setPlaceholder('Select Staff Role')
+        .setCustomId('wizard:select-escalationrole:setup')
+        .setPlaceholder('Select the role to ping for urgent tickets')
         .addOptions(roleOptions)
     );
 
@@ -1062,6 +2064,82 @@ export class SetupWizardHandler implements InteractionHandler {
     await interaction.editReply({ embeds: [embed], components: [selectMenu, backButton] });
   }
 
+  async showFeedbackChannelDropdown(interaction: any, client: BotClient, userId: string): Promise<void> {
+    const guild = interaction.guild;
+    if (!guild) return;
+
+    const textChannels = guild.channels.cache.filter(
+      (c: any) => c.type === ChannelType.GuildText
+    );
+    const channelOptions = [
+      { label: 'No feedback channel', value: 'none', description: 'Owners are not asked to rate closed tickets' },
+      ...Array.from(textChannels.values()).slice(0, 24).map((channel: any) => ({
+        label: channel.name,
+        value: channel.id,
+      })),
+    ];
+
+    const data = await this.getOrCreateAutosave(client, userId);
+    const embed = EmbedController.createChannelSetupEmbed(data);
+
+    const selectMenu = new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(
+      new StringSelectMenuBuilder()
+        .setCustomId('wizard:select-feedback:setup')
+        .setPlaceholder('Select where ratings are posted')
+        .addOptions(channelOptions)
+    );
+
+    const backButton = new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId('wizard:channel:setup')
+        .setLabel('Back')
+        .setEmoji('<:caution:1437997212008185866>')
+        .setStyle(ButtonStyle.Secondary)
+    );
+
+    await interaction.editReply({ embeds: [embed], components: [selectMenu, backButton] });
+  }
+
+  async showTicketTypeDropdown(interaction: any, client: BotClient, userId: string): Promise<void> {
+    const guild = interaction.guild;
+    if (!guild) return;
+
+    const textChannels = guild.channels.cache.filter(
+      (c: any) => c.type === ChannelType.GuildText
+    );
+    const data = await this.getOrCreateAutosave(client, userId);
+    const typeOptions = [
+      data.modmail
+        ? { label: 'Stop taking tickets by DM', value: 'modmail-off', description: 'Tickets can only be opened from the panel' }
+        : { label: 'Also take tickets by DM', value: 'modmail-on', description: 'Users can DM the bot and pick this panel' },
+      { label: 'Channels', value: 'channel', description: 'Each ticket gets its own channel in the open category' },
+      ...Array.from(textChannels.values()).slice(0, 23).map((channel: any) => ({
+        label: `Private threads in #${channel.name}`,
+        value: `thread:${channel.id}`,
+        description: 'No channel per ticket; permissions come from this channel',
+      })),
+    ];
+
+    const embed = EmbedController.createChannelSetupEmbed(data);
+
+    const selectMenu = new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(
+      new StringSelectMenuBuilder()
+        .setCustomId('wizard:select-tickettype:setup')
+        .setPlaceholder('Select how tickets are opened')
+        .addOptions(typeOptions)
+    );
+
+    const backButton = new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId('wizard:channel:setup')
+        .setLabel('Back')
+        .setEmoji('<:caution:1437997212008185866>')
+        .setStyle(ButtonStyle.Secondary)
+    );
+
+    await interaction.editReply({ embeds: [embed], components: [selectMenu, backButton] });
+  }
+
   async showLogsChannelDropdown(interaction: any, client: BotClient, userId: string): Promise<void> {
     const guild = interaction.guild;
     if (!guild) return;
@@ -1753,4 +2831,293 @@ export class SetupWizardHandler implements InteractionHandler {
     
     await this.showPermissionsMenu(interaction, client, userId);
   }
+
+  /**
+   * Panel groups of this server, with an entry to start a new one
+   */
+  async showGroupList(interaction: any, client: BotClient): Promise<void> {
+    const groups = await client.db.getPanelGroupsByGuild(interaction.guildId);
+
+    const summary = groups.length > 0
+      ? groups.map(group =>
+          `**${group.name}** → ${group.panelIds.length} panel(s), ` +
+          (group.channel && group.messageId ? `deployed in <#${group.channel}>` : 'not deployed')
+        ).join('\n')
+      : 'No panel groups yet.';
+
+    const embed = new EmbedBuilder()
+      .setTitle('<:module:1437997093753983038> Panel Groups')
+      .setDescription(`A panel group puts several panels on one message, as buttons or as a select menu.\n\n${summary}`)
+      .setColor(null)
+      .setFooter({ text: `Powered by ${client.user?.username || 'Ticket Bot'}` })
+      .setTimestamp();
+
+    const select = new StringSelectMenuBuilder()
+      .setCustomId('wizard:group-select:setup')
+      .setPlaceholder('Select a group to edit')
+      .addOptions(
+        { label: 'New group', description: 'Compose a new panel group', value: 'new', emoji: '➕' },
+        ...groups.slice(0, 24).map(group => ({
+          label: group.name.substring(0, 100),
+          description: `${group.panelIds.length} panel(s)`,
+          value: group.id,
+        }))
+      );
+
+    await interaction.editReply({
+      content: '',
+      embeds: [embed],
+      components: [new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(select)],
+    });
+  }
+
+  private async getGroup(interaction: any, client: BotClient, groupId: string): Promise<PanelGroup | null> {
+    const group = await client.db.get<PanelGroup>(groupId);
+    if (!group || group.guildId !== interaction.guildId) {
+      await interaction.editReply({
+        content: '<:tcet_cross:1437995480754946178> Panel group not found.',
+        embeds: [],
+        components: [],
+      });
+      return null;
+    }
+    return group;
+  }
+
+  async handleGroupSelect(interaction: StringSelectMenuInteraction, client: BotClient): Promise<void> {
+    const value = interaction.values[0];
+
+    if (value === 'new') {
+      const group: PanelGroup = {
+        id: `group:${randomBytes(4).toString('hex')}`,
+        type: 'group',
+        guildId: interaction.guildId!,
+        name: 'Support',
+        description: 'Pick the kind of help you need below.',
+        style: 'buttons',
+        panelIds: [],
+        createdAt: new Date().toISOString(),
+      };
+      await client.db.save(group);
+      await this.showGroupEditor(interaction, client, group);
+      return;
+    }
+
+    const group = await this.getGroup(interaction, client, value);
+    if (!group) return;
+    await this.showGroupEditor(interaction, client, group);
+  }
+
+  async showGroupEditor(interaction: any, client: BotClient, group: PanelGroup): Promise<void> {
+    const panels = await client.db.getPanelsByGuild(group.guildId);
+    const members = group.panelIds
+      .map(panelId => panels.find(panel => panel.id === panelId))
+      .filter((panel): panel is PanelData => !!panel);
+
+    const embed = new EmbedBuilder()
+      .setTitle(`<:module:1437997093753983038> Panel Group: ${group.name}`)
+      .setDescription(group.description)
+      .setColor(null)
+      .addFields(
+        { name: 'Style', value: group.style === 'select' ? 'Select Menu' : 'Buttons', inline: true },
+        { name: 'Channel', value: group.channel ? `<#${group.channel}>` : 'Not set', inline: true },
+        { name: 'Status', value: group.messageId ? 'Deployed' : 'Not deployed', inline: true },
+        {
+          name: `Panels (${members.length}/${MAX_GROUP_PANELS})`,
+          value: members.length > 0
+            ? members.map(panel => `${panel.emoji || ''} ${panel.name || panel.label}${panel.enabled === false ? ' (disabled)' : ''}`).join('\n')
+            : 'None selected',
+          inline: false,
+        }
+      )
+      .setFooter({ text: 'Changes to the group show up once it is deployed' })
+      .setTimestamp();
+
+    const rows: ActionRowBuilder<any>[] = [];
+
+    const panelOptions = panels.slice(0, MAX_GROUP_PANELS).map(panel => ({
+      label: (panel.name || panel.label).substring(0, 100),
+      value: panel.id,
+      emoji: panel.emoji || undefined,
+      default: group.panelIds.includes(panel.id),
+    }));
+    if (panelOptions.length > 0) {
+      rows.push(new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(
+        new StringSelectMenuBuilder()
+          .setCustomId(`wizard:group-panels:${group.id}`)
+          .setPlaceholder('Select the panels in this group')
+          .setMinValues(1)
+          .setMaxValues(panelOptions.length)
+          .addOptions(panelOptions)
+      ));
+    }
+
+    const channelOptions = Array.from(
+      interaction.guild.channels.cache.filter((c: any) => c.type === ChannelType.GuildText).values()
+    ).slice(0, 25).map((channel: any) => ({
+      label: channel.name,
+      value: channel.id,
+      default: channel.id === group.channel,
+    }));
+    if (channelOptions.length > 0) {
+      rows.push(new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(
+        new StringSelectMenuBuilder()
+          .setCustomId(`wizard:group-channel:${group.id}`)
+          .setPlaceholder('Select Group Channel')
+          .addOptions(channelOptions)
+      ));
+    }
+
+    rows.push(new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(`wizard:group-details:${group.id}`)
+        .setLabel('Title & Description')
+        .setEmoji('<:pb_utils:1437999137919340546>')
+        .setStyle(ButtonStyle.Primary),
+      new ButtonBuilder()
+        .setCustomId(`wizard:group-style:${group.id}`)
+        .setLabel(group.style === 'select' ? 'Use Buttons' : 'Use Select Menu')
+        .setEmoji('🔘')
+        .setStyle(ButtonStyle.Primary),
+      new ButtonBuilder()
+        .setCustomId(`wizard:group-deploy:${group.id}`)
+        .setLabel(group.messageId ? 'Update Message' : 'Deploy')
+        .setEmoji('<:tcet_tick:1437995479567962184>')
+        .setStyle(ButtonStyle.Success),
+      new ButtonBuilder()
+        .setCustomId(`wizard:group-delete:${group.id}`)
+        .setLabel('Delete')
+        .setEmoji('<:tcet_cross:1437995480754946178>')
+        .setStyle(ButtonStyle.Danger),
+      new ButtonBuilder()
+        .setCustomId('wizard:group-list:setup')
+        .setLabel('Back')
+        .setEmoji('<:caution:1437997212008185866>')
+        .setStyle(ButtonStyle.Secondary)
+    ));
+
+    await interaction.editReply({ content: '', embeds: [embed], components: rows });
+  }
+
+  async handleGroupPanelsSelect(interaction: StringSelectMenuInteraction, client: BotClient, groupId: string): Promise<void> {
+    const group = await this.getGroup(interaction, client, groupId);
+    if (!group) return;
+
+    // Kept in the order of the panel list, which is also the order they are shown in
+    const panels = await client.db.getPanelsByGuild(group.guildId);
+    group.panelIds = panels.filter(panel => interaction.values.includes(panel.id)).map(panel => panel.id);
+    await client.db.save(group);
+    await this.showGroupEditor(interaction, client, group);
+  }
+
+  async handleGroupChannelSelect(interaction: StringSelectMenuInteraction, client: BotClient, groupId: string): Promise<void> {
+    const group = await this.getGroup(interaction, client, groupId);
+    if (!group) return;
+
+    const channelId = interaction.values[0];
+    if (group.messageId && group.channel !== channelId) {
+      // Moving the group takes its message down; deploying posts it in the new channel
+      await removePanelGroupMessage(client, group);
+      group.messageId = undefined;
+    }
+    group.channel = channelId;
+    await client.db.save(group);
+    await this.showGroupEditor(interaction, client, group);
+  }
+
+  async handleGroupStyle(interaction: ButtonInteraction, client: BotClient, groupId: string): Promise<void> {
+    const group = await this.getGroup(interaction, client, groupId);
+    if (!group) return;
+
+    group.style = group.style === 'select' ? 'buttons' : 'select';
+    await client.db.save(group);
+    await this.showGroupEditor(interaction, client, group);
+  }
+
+  async showGroupDetailsModal(interaction: ButtonInteraction, client: BotClient, groupId: string): Promise<void> {
+    const group = await client.db.get<PanelGroup>(groupId);
+    if (!group || group.guildId !== interaction.guildId) {
+      await interaction.reply({
+        content: '<:tcet_cross:1437995480754946178> Panel group not found.',
+        flags: 1 << 6 // MessageFlags.Ephemeral
+      });
+      return;
+    }
+
+    const modal = new ModalBuilder()
+      .setCustomId(`wizard:modal-group:${group.id}`)
+      .setTitle('Panel Group Details')
+      .addComponents(
+        new ActionRowBuilder<TextInputBuilder>().addComponents(
+          new TextInputBuilder()
+            .setCustomId('name')
+            .setLabel('Title')
+            .setStyle(TextInputStyle.Short)
+            .setValue(group.name)
+            .setRequired(true)
+            .setMaxLength(256)
+        ),
+        new ActionRowBuilder<TextInputBuilder>().addComponents(
+          new TextInputBuilder()
+            .setCustomId('description')
+            .setLabel('Description')
+            .setStyle(TextInputStyle.Paragraph)
+            .setValue(group.description)
+            .setRequired(true)
+            .setMaxLength(4000)
+        )
+      );
+
+    await interaction.showModal(modal);
+  }
+
+  async handleGroupDetailsModal(interaction: ModalSubmitInteraction, client: BotClient, groupId: string): Promise<void> {
+    await interaction.deferUpdate();
+    const group = await this.getGroup(interaction, client, groupId);
+    if (!group) return;
+
+    group.name = interaction.fields.getTextInputValue('name');
+    group.description = interaction.fields.getTextInputValue('description');
+    await client.db.save(group);
+    await this.showGroupEditor(interaction, client, group);
+  }
+
+  async handleGroupDeploy(interaction: ButtonInteraction, client: BotClient, groupId: string): Promise<void> {
+    const group = await this.getGroup(interaction, client, groupId);
+    if (!group) return;
+
+    if (!group.channel || group.panelIds.length === 0) {
+      await interaction.followUp({
+        content: '<:tcet_cross:1437995480754946178> Pick a channel and at least one panel before deploying the group.',
+        flags: 1 << 6 // MessageFlags.Ephemeral
+      });
+      return;
+    }
+
+    try {
+      await deployPanelGroup(client, group);
+    } catch (error) {
+      ErrorHandler.handle(error as Error, 'Deploy panel group');
+      await interaction.followUp({
+        content: '<:tcet_cross:1437995480754946178> Failed to send the panel group message. Check that the channel still exists and I can send messages there.',
+        flags: 1 << 6 // MessageFlags.Ephemeral
+      });
+      return;
+    }
+
+    await interaction.editReply({
+      content: `<:tcet_tick:1437995479567962184> **Panel group "${group.name}" deployed!**\n\nYou can now use it in <#${group.channel}>`,
+      embeds: [],
+      components: [],
+    });
+  }
+
+  async handleGroupDelete(interaction: ButtonInteraction, client: BotClient, groupId: string): Promise<void> {
+    const group = await this.getGroup(interaction, client, groupId);
+    if (!group) return;
+
+    await removePanelGroupMessage(client, group);
+    await client.db.delete(group.id);
+    await this.showGroupList(interaction, client);
+  }
 }
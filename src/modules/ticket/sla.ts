@@ -0,0 +1,168 @@
+import { EmbedBuilder, Message, PermissionFlagsBits } from 'discord.js';
+import { BotClient } from '../../core/client';
+import { PanelData, SlaBreach, TicketData, TicketEvent } from '../../core/db/storage';
+import { ErrorHandler } from '../../core/errorHandler';
+import { PermissionHelper } from '../../core/permissionHelper';
+import { recordTicketEvent } from './ticketEvents';
+import { formatPriority, getTicketPriority } from './priority';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+/**
+ * Milliseconds after opening that a panel allows for each SLA target, or null when it has none
+ */
+export function slaTargetMs(panel: PanelData, breach: SlaBreach): number | null {
+  if (breach === 'first-response') {
+    return panel.sla?.firstResponseMinutes ? panel.sla.firstResponseMinutes * MINUTE : null;
+  }
+  return panel.sla?.resolutionHours ? panel.sla.resolutionHours * HOUR : null;
+}
+
+export function formatSlaTarget(panel: PanelData, breach: SlaBreach): string {
+  return breach === 'first-response'
+    ? `${panel.sla?.firstResponseMinutes} minutes`
+    : `${panel.sla?.resolutionHours} hours`;
+}
+
+/**
+ * Store the first reply from staff in a ticket. Called from messageCreate for every guild message.
+ */
+export async function recordFirstResponse(message: Message, client: BotClient): Promise<void> {
+  if (message.author.bot || !message.guildId) return;
+
+  const ticket = await client.db.getTicketByChannel(message.channelId);
+  if (!ticket || ticket.state !== 'open' || ticket.firstResponseAt || ticket.owner === message.author.id) return;
+
+  const panel = await client.db.get<PanelData>(ticket.panelId);
+  const hasManageChannels = message.member?.permissions.has(PermissionFlagsBits.ManageChannels) || false;
+  if (!PermissionHelper.isStaff(message.member, panel, hasManageChannels)) return;
+
+  const at = message.createdAt.toISOString();
+  const stored = await client.db.markFirstResponse(ticket.id, at, message.author.id);
+  if (!stored) return;
+
+  await recordTicketEvent(client, ticket, 'first-response', message.author.id, {
+    panelId: ticket.panelId,
+    responseMinutes: Math.round((message.createdAt.getTime() - new Date(ticket.createdAt).getTime()) / MINUTE),
+  });
+}
+
+/**
+ * Report every SLA target an open ticket has just missed. Each target is reported once per ticket.
+ */
+export async function checkSlaBreaches(client: BotClient, ticket: TicketData, panel: PanelData, now: Date): Promise<void> {
+  const openedAt = new Date(ticket.createdAt).getTime();
+
+  for (const breach of ['first-response', 'resolution'] as SlaBreach[]) {
+    const targetMs = slaTargetMs(panel, breach);
+    if (!targetMs || ticket.slaBreaches?.includes(breach)) continue;
+    if (breach === 'first-response' && ticket.firstResponseAt) continue;
+    if (now.getTime() - openedAt < targetMs) continue;
+
+    await client.db.markSlaBreach(ticket.id, breach);
+    ticket.slaBreaches = [...(ticket.slaBreaches || []), breach];
+    await recordTicketEvent(client, ticket, 'sla-breached', undefined, { panelId: ticket.panelId, breach });
+    await logSlaBreach(client, ticket, panel, breach);
+  }
+}
+
+async function logSlaBreach(client: BotClient, ticket: TicketData, panel: PanelData, breach: SlaBreach): Promise<void> {
+  if (!panel.logsChannel) return;
+
+  try {
+    const logChannel = await client.channels.fetch(panel.logsChannel);
+    if (logChannel?.isTextBased() && 'send' in logChannel) {
+      const logEmbed = new EmbedBuilder()
+        .setTitle(`<:caution:1437997212008185866> SLA Missed: ${breach === 'first-response' ? 'First Response' : 'Resolution'}`)
+        .setDescription(breach === 'first-response'
+          ? `No staff member has replied within **${formatSlaTarget(panel, breach)}**.`
+          : `This ticket has been open for more than **${formatSlaTarget(panel, breach)}**.`)
+        .setColor(0xFEE75C)
+        .addFields(
+          { name: 'Ticket', value: `<#${ticket.channelId}>`, inline: true },
+          { name: 'Owner', value: `<@${ticket.owner}>`, inline: true },
+          { name: 'Claimed By', value: ticket.claimedBy ? `<@${ticket.claimedBy}>` : 'Nobody', inline: true },
+          { name: 'Opened', value: `<t:${Math.floor(new Date(ticket.createdAt).getTime() / 1000)}:R>`, inline: true },
+          { name: 'Priority', value: formatPriority(getTicketPriority(ticket)), inline: true },
+          { name: 'Panel', value: panel.name || 'Unknown', inline: true }
+        )
+        .setTimestamp();
+      await logChannel.send({ embeds: [logEmbed] });
+    }
+  } catch (error) {
+    ErrorHandler.handle(error as Error, 'Log SLA breach');
+  }
+}
+
+export interface SlaCompliance {
+  met: number;
+  missed: number;
+}
+
+export interface PanelSlaCompliance {
+  panel: PanelData;
+  firstResponse: SlaCompliance;
+  resolution: SlaCompliance;
+}
+
+/**
+ * SLA results for tickets opened since `since`, per panel with SLA targets.
+ * Built from the audit trail so deleted tickets still count; tickets still within a target are left out.
+ */
+export async function computeSlaCompliance(
+  client: BotClient,
+  guildId: string,
+  panels: PanelData[],
+  since?: string,
+  now: Date = new Date()
+): Promise<PanelSlaCompliance[]> {
+  const results = new Map<string, PanelSlaCompliance>(
+    panels
+      .filter(panel => panel.sla?.firstResponseMinutes || panel.sla?.resolutionHours)
+      .map(panel => [panel.id, { panel, firstResponse: { met: 0, missed: 0 }, resolution: { met: 0, missed: 0 } }])
+  );
+  if (results.size === 0) return [];
+
+  const events = await client.db.getGuildEvents(guildId, { since, types: ['created', 'first-response', 'closed'] });
+  const firstOfType = new Map<string, TicketEvent>();
+  for (const event of events) {
+    const key = `${event.ticketId}:${event.type}`;
+    if (!firstOfType.has(key)) firstOfType.set(key, event);
+  }
+
+  const tally = (compliance: SlaCompliance, openedAt: number, targetMs: number | null, doneAt?: string): void => {
+    if (!targetMs) return;
+    if (doneAt) {
+      if (new Date(doneAt).getTime() - openedAt <= targetMs) {
+        compliance.met++;
+      } else {
+        compliance.missed++;
+      }
+    } else if (now.getTime() - openedAt > targetMs) {
+      compliance.missed++;
+    }
+  };
+
+  for (const created of events.filter(event => event.type === 'created')) {
+    const result = results.get(created.payload.panelId);
+    if (!result) continue;
+
+    const openedAt = new Date(created.createdAt).getTime();
+    tally(result.firstResponse, openedAt, slaTargetMs(result.panel, 'first-response'),
+      firstOfType.get(`${created.ticketId}:first-response`)?.createdAt);
+    tally(result.resolution, openedAt, slaTargetMs(result.panel, 'resolution'),
+      firstOfType.get(`${created.ticketId}:closed`)?.createdAt);
+  }
+
+  return [...results.values()];
+}
+
+/**
+ * "92% (23/25)", or "No data" when nothing has been measured yet
+ */
+export function formatCompliance(compliance: SlaCompliance): string {
+  const total = compliance.met + compliance.missed;
+  if (total === 0) return 'No data';
+  return `${Math.round((compliance.met / total) * 100)}% (${compliance.met}/${total})`;
+}
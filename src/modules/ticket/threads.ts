@@ -0,0 +1,54 @@
+import { AnyThreadChannel, ChannelType, ThreadAutoArchiveDuration } from 'discord.js';
+import { BotClient } from '../../core/client';
+import { PanelData } from '../../core/db/storage';
+import { PermissionHelper } from '../../core/permissionHelper';
+
+/**
+ * Open a ticket as a private thread in the panel's thread channel, for servers close to the channel limit.
+ * Only the owner is added here, unless it is a modmail ticket; staff join when the welcome message mentions their roles.
+ */
+export async function createTicketThread(
+  client: BotClient,
+  panel: PanelData,
+  ownerId: string | undefined,
+  name: string,
+  ticketNumber: number
+): Promise<AnyThreadChannel> {
+  const parent = panel.threadChannel ? await client.channels.fetch(panel.threadChannel).catch(() => null) : null;
+  if (!parent || parent.type !== ChannelType.GuildText) {
+    throw new Error(`Thread channel of ${panel.id} not found`);
+  }
+
+  const thread = await parent.threads.create({
+    name,
+    type: ChannelType.PrivateThread,
+    invitable: false,
+    autoArchiveDuration: ThreadAutoArchiveDuration.OneWeek,
+    reason: `Ticket #${ticketNumber}`,
+  });
+  if (ownerId) {
+    await thread.members.add(ownerId);
+  }
+  return thread;
+}
+
+/**
+ * Mentions that bring staff into a new thread ticket. Every staff role is mentioned, since a private thread
+ * only shows up for role members once their role is mentioned in it.
+ */
+export function threadStaffMentions(panel: PanelData): string {
+  return PermissionHelper.getStaffRoles(panel).map(staffRole => `<@&${staffRole.roleId}>`).join(' ');
+}
+
+/**
+ * A closed thread ticket is locked and archived: it drops out of the thread list and only staff can send in it again
+ */
+export async function archiveTicketThread(thread: AnyThreadChannel): Promise<void> {
+  await thread.setLocked(true);
+  await thread.setArchived(true);
+}
+
+export async function unarchiveTicketThread(thread: AnyThreadChannel): Promise<void> {
+  await thread.setArchived(false);
+  await thread.setLocked(false);
+}
@@ -0,0 +1,97 @@
+import { BotClient } from '../../core/client';
+import { TicketData, TicketEvent, TicketEventType } from '../../core/db/storage';
+import { ErrorHandler } from '../../core/errorHandler';
+
+/**
+ * Store an action in the ticket's audit trail.
+ * Failures are logged and swallowed so a history write never breaks the action itself.
+ */
+export async function recordTicketEvent(
+  client: BotClient,
+  ticket: TicketData,
+  type: TicketEventType,
+  actorId?: string,
+  payload: Record<string, any> = {}
+): Promise<void> {
+  if (!ticket.guildId) return;
+
+  try {
+    await client.db.addTicketEvent({
+      ticketId: ticket.id,
+      guildId: ticket.guildId,
+      type,
+      actorId,
+      payload,
+    });
+  } catch (error) {
+    ErrorHandler.handle(error as Error, `Record ticket event (${type})`);
+  }
+}
+
+const EVENT_LABELS: Record<TicketEventType, string> = {
+  'created': 'Opened',
+  'closed': 'Closed',
+  'reopened': 'Reopened',
+  'claimed': 'Claimed',
+  'unclaimed': 'Unclaimed',
+  'transferred': 'Claim transferred',
+  'renamed': 'Renamed',
+  'user-added': 'User added',
+  'user-removed': 'User removed',
+  'role-added': 'Role added',
+  'role-removed': 'Role removed',
+  'priority-changed': 'Priority changed',
+  'moved': 'Moved',
+  'first-response': 'First staff response',
+  'sla-breached': 'SLA missed',
+  'rated': 'Rated',
+  'transcript': 'Transcript',
+  'deleted': 'Deleted',
+};
+
+/**
+ * One timeline line, e.g. "<t:1700000000:f> **Renamed** by @mod → `billing-help`"
+ */
+export function formatTicketEvent(event: TicketEvent): string {
+  const timestamp = `<t:${Math.floor(new Date(event.createdAt).getTime() / 1000)}:f>`;
+  const actor = event.actorId ? ` by <@${event.actorId}>` : ' automatically';
+  const payload = event.payload || {};
+
+  let detail = '';
+  switch (event.type) {
+    case 'renamed':
+      detail = ` → \`${payload.to}\``;
+      break;
+    case 'user-added':
+    case 'user-removed':
+      detail = ` → <@${payload.userId}>`;
+      break;
+    case 'role-added':
+    case 'role-removed':
+      detail = ` → <@&${payload.roleId}>`;
+      break;
+    case 'unclaimed':
+      detail = payload.previousClaimer ? ` (was <@${payload.previousClaimer}>)` : '';
+      break;
+    case 'transferred':
+      detail = ` → <@${payload.claimedBy}>${payload.previousClaimer ? ` (was <@${payload.previousClaimer}>)` : ''}`;
+      break;
+    case 'priority-changed':
+      detail = ` → ${payload.to}`;
+      break;
+    case 'moved':
+      detail = ` → ${payload.panelName || 'another panel'}`;
+      break;
+    case 'sla-breached':
+      detail = payload.breach === 'first-response' ? ' (first response)' : ' (resolution)';
+      break;
+    case 'rated':
+      detail = ` → ${'⭐'.repeat(payload.stars || 0)}`;
+      break;
+    case 'created':
+      detail = payload.panelName ? ` via ${payload.panelName}` : '';
+      break;
+  }
+
+  return `${timestamp} **${EVENT_LABELS[event.type] || event.type}**${actor}${detail}`;
+}
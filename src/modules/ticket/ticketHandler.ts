@@ -7,17 +7,65 @@ import {
   EmbedBuilder,
   AttachmentBuilder,
   TextChannel,
+  ThreadChannel,
+  StringSelectMenuBuilder,
   StringSelectMenuInteraction,
   ButtonInteraction,
+  ModalBuilder,
+  ModalSubmitInteraction,
+  TextInputBuilder,
+  TextInputStyle,
+  APIEmbedField,
 } from 'discord.js';
 import { BotClient } from '../../core/client';
-import { TicketData, PanelData } from '../../core/db/postgresDB';
+import { TicketData, PanelData, TicketPriority, TicketAnswer } from '../../core/db/storage';
 import { EmbedController } from '../../core/embedController';
 import { InteractionHandler } from '../../core/interactionRouter';
 import { ErrorHandler } from '../../core/errorHandler';
-import { PermissionHelper } from '../../core/permissionHelper';
-import { generateProfessionalTranscript, createTranscriptEmbed, generateTicketNumber, TranscriptOptions } from './transcriptGenerator';
+import { PermissionHelper, TicketChannel } from '../../core/permissionHelper';
+import { generateProfessionalTranscript, createTranscriptEmbed, getTicketNumber, TranscriptOptions } from './transcriptGenerator';
 import { SetupWizardHandler } from './setupWizard';
+import { recordTicketEvent } from './ticketEvents';
+import { findBlacklistEntry, formatBlacklistRefusal } from './blacklist';
+import { revokeParticipantAccess, restoreParticipantAccess } from './participants';
+import { sendRatingSurvey } from './ratings';
+import { applyExclusiveClaim, claimerOverwrite, keepsOwnAccess, releaseExclusiveClaim } from './claims';
+import { archiveTicketThread, createTicketThread, threadStaffMentions, unarchiveTicketThread } from './threads';
+import { notifyModmailOwner, relayPickedMessage } from './modmail';
+import { refreshPanelGroups } from '../panel/panelGroups';
+import { createRouteMenu, findRoutePath, formatRoutePath, resolveRoute, ResolvedRoute } from './routing';
+import {
+  addAnswerFields,
+  clearAnswerDraft,
+  collectAnswers,
+  createAnswerEmbeds,
+  createPageButton,
+  createQuestionModal,
+  getAnswerDraft,
+  getPageCount,
+  getPageIndexes,
+  getPanelQuestions,
+  saveAnswerDraft,
+  validateAnswer,
+} from './questions';
+import {
+  createPrioritySelect,
+  formatPriority,
+  getTicketPriority,
+  isTicketPriority,
+  PRIORITY_DETAILS,
+  stripPriorityPrefix,
+  withPriorityPrefix,
+} from './priority';
+
+const CLOSE_REASON_FIELD = 'Close Reason';
+
+/**
+ * Welcome embed fields without the close reason added when the ticket was closed
+ */
+function withoutCloseReason(embed: { data: { fields?: APIEmbedField[] } }): APIEmbedField[] {
+  return (embed.data.fields || []).filter(field => field.name !== CLOSE_REASON_FIELD);
+}
 
 export class TicketHandler implements InteractionHandler {
   // Track last channel operation time to avoid rate limits
@@ -44,14 +92,15 @@ export class TicketHandler implements InteractionHandler {
       }
       
       // Perform operation with 10 second timeout
-      const timeoutPromise = new Promise<never>((_, reject) => 
-        setTimeout(() => reject(new Error('Operation timed out after 10 seconds')), 10000)
-      );
+      let timeout: NodeJS.Timeout | undefined;
+      const timeoutPromise = new Promise<never>((_, reject) => {
+        timeout = setTimeout(() => reject(new Error('Operation timed out after 10 seconds')), 10000);
+      });
       
       const result = await Promise.race([
         operation(),
         timeoutPromise
-      ]);
+      ]).finally(() => clearTimeout(timeout));
       
       // Update last operation time
       TicketHandler.lastChannelOperation.set(channelId, Date.now());
@@ -76,11 +125,32 @@ export class TicketHandler implements InteractionHandler {
         case 'open':
           await this.openTicket(interaction, client, panelOrTicketId);
           break;
+        case 'open-select':
+          await this.openTicketFromSelect(interaction, client);
+          break;
+        case 'modmail-open':
+          await this.openTicket(interaction, client, interaction.values[0]);
+          break;
+        case 'route':
+          await this.handleRoute(interaction, client, panelOrTicketId, interaction.values[0]);
+          break;
         case 'answer':
-          await this.handleQuestionModal(interaction, client, panelOrTicketId);
+          await this.handleQuestionModal(interaction, client, panelOrTicketId, parseInt(parts[4] || '0', 10), parts[5]);
+          break;
+        case 'answer-page':
+          await this.showQuestionPage(interaction, client, panelOrTicketId, parseInt(parts[4], 10), parts[5]);
           break;
         case 'close':
-          await this.closeTicket(interaction, client, panelOrTicketId);
+          await this.requestClose(interaction, client, panelOrTicketId);
+          break;
+        case 'close-confirm':
+          await this.handleCloseConfirmation(interaction, client, panelOrTicketId, true);
+          break;
+        case 'close-cancel':
+          await this.handleCloseConfirmation(interaction, client, panelOrTicketId, false);
+          break;
+        case 'close-reason':
+          await this.handleCloseReasonModal(interaction, client, panelOrTicketId);
           break;
         case 'reopen':
           await this.reopenTicket(interaction, client, panelOrTicketId);
@@ -91,9 +161,24 @@ export class TicketHandler implements InteractionHandler {
         case 'unclaim':
           await this.unclaimTicket(interaction, client, panelOrTicketId);
           break;
+        case 'transfer-request':
+          await this.requestTransfer(interaction, client, panelOrTicketId);
+          break;
+        case 'transfer-accept':
+          await this.handleTransferAnswer(interaction, client, panelOrTicketId, parts[4], parts[5], true);
+          break;
+        case 'transfer-decline':
+          await this.handleTransferAnswer(interaction, client, panelOrTicketId, parts[4], parts[5], false);
+          break;
         case 'transcript':
           await this.generateTranscript(interaction, client, panelOrTicketId);
           break;
+        case 'still-active':
+          await this.keepTicketActive(interaction, client, panelOrTicketId);
+          break;
+        case 'priority':
+          await this.handlePrioritySelect(interaction, client, panelOrTicketId);
+          break;
         case 'edit-select':
           await this.handleEditSelect(interaction, client);
           break;
@@ -116,6 +201,16 @@ export class TicketHandler implements InteractionHandler {
     }
   }
 
+  /**
+   * A panel group's select menu. The menu is reset afterwards, otherwise picking the same panel again does nothing.
+   */
+  async openTicketFromSelect(interaction: StringSelectMenuInteraction, client: BotClient): Promise<void> {
+    await this.openTicket(interaction, client, interaction.values[0]);
+    await interaction.message.edit({ components: interaction.message.components }).catch((error: Error) => {
+      ErrorHandler.warn(`Could not reset the panel group menu: ${error.message}`);
+    });
+  }
+
   async openTicket(interaction: any, client: BotClient, panelId: string): Promise<void> {
     const panel = await client.db.get<PanelData>(panelId);
     if (!panel) {
@@ -126,99 +221,259 @@ export class TicketHandler implements InteractionHandler {
       return;
     }
 
-    const guild = interaction.guild;
     const user = interaction.user;
+    const opener = await this.getOpener(interaction, client, panel);
+    if (!opener) {
+      await interaction.reply({
+        content: '<:tcet_cross:1437995480754946178> You can no longer open a ticket on this panel by DM.',
+        flags: 1 << 6 // MessageFlags.Ephemeral
+      });
+      return;
+    }
+    const { guild, member } = opener;
 
-    // Optimized: Query only open tickets for this user and panel
-    const existingTickets = await client.db.getOpenTicketsForUser(user.id, panelId);
-
-    if (existingTickets.length > 0) {
-      const existingChannel = existingTickets[0].channelId;
+    const rejection = await this.checkOpenAllowed(client, panel, member, user.id, guild.id);
+    if (rejection) {
       await interaction.reply({
-        content: `<:tcet_cross:1437995480754946178> You already have an open ticket for this panel: <#${existingChannel}>`,
+        content: rejection,
         flags: 1 << 6 // MessageFlags.Ephemeral
       });
       return;
     }
 
-    // Check if we have custom questions (new format) or legacy questions
-    const hasQuestions = (panel.customQuestions && panel.customQuestions.length > 0) || 
-                        (panel.questions && panel.questions.length > 0);
+    // The routing option decides which questions are asked, so it is picked first
+    if (panel.routes && panel.routes.length > 0) {
+      const prompt = { content: '**What do you need help with?**', components: [createRouteMenu(panel, panel.routes)] };
+      // In DMs the modmail picker is reused, so the message it answered is still relayed once the ticket opens
+      await (interaction.guild
+        ? interaction.reply({ ...prompt, flags: 1 << 6 }) // MessageFlags.Ephemeral
+        : interaction.update(prompt));
+      return;
+    }
 
-    if (hasQuestions) {
-      const { ModalBuilder, TextInputBuilder, TextInputStyle, ActionRowBuilder } = await import('discord.js');
-      
-      type TextInputBuilderType = InstanceType<typeof TextInputBuilder>;
-      
-      const modal = new ModalBuilder()
-        .setCustomId(`ticket:answer:${panelId}`)
-        .setTitle('Ticket Information');
+    const questions = getPanelQuestions(panel);
+    if (questions.length > 0) {
+      // A fresh form: anything left over from an abandoned attempt starts over
+      clearAnswerDraft(user.id, panel.id);
+      await interaction.showModal(createQuestionModal(panel, questions, 0));
+      return;
+    }
 
-      // Use customQuestions if available, otherwise fall back to legacy questions
-      let questionsToShow: Array<{ text: string; type: 'primary' | 'optional' }> = [];
-      
-      if (panel.customQuestions && panel.customQuestions.length > 0) {
-        // Sort: primary questions first, then optional
-        const primary = panel.customQuestions.filter(q => q.type === 'primary');
-        const optional = panel.customQuestions.filter(q => q.type === 'optional');
-        questionsToShow = [...primary, ...optional].slice(0, 5);
-      } else if (panel.questions && panel.questions.length > 0) {
-        // Legacy format: treat all as primary
-        questionsToShow = panel.questions.slice(0, 5).map(q => ({ text: q, type: 'primary' as const }));
-      }
+    // No questions, so reply with ephemeral message
+    await interaction.reply({ content: ' Creating your ticket...', flags: 1 << 6 }); // MessageFlags.Ephemeral
+    await this.createTicketChannel(interaction, client, panelId, panel, user, guild, [], null);
+  }
+
+  /**
+   * An option of the panel's routing menu was picked. One with sub-options replaces the menu with the next level;
+   * the last one opens the question form with the questions it asks, or the ticket right away.
+   */
+  async handleRoute(interaction: StringSelectMenuInteraction, client: BotClient, panelId: string, routeId: string): Promise<void> {
+    const panel = await client.db.get<PanelData>(panelId);
+    const path = panel ? findRoutePath(panel.routes, routeId) : null;
+    if (!panel || !path) {
+      await interaction.update({
+        content: '<:tcet_cross:1437995480754946178> This option is no longer available. Please open the ticket again.',
+        components: [],
+      });
+      return;
+    }
 
-      for (let i = 0; i < questionsToShow.length; i++) {
-        const q = questionsToShow[i];
-        const textInput = new TextInputBuilder()
-          .setCustomId(`question_${i}`)
-          .setLabel(q.text.substring(0, 45))
-          .setStyle(TextInputStyle.Paragraph)
-          .setRequired(q.type === 'primary') // Primary questions are required, optional are not
-          .setMaxLength(1000);
+    const options = path[path.length - 1].options;
+    if (options && options.length > 0) {
+      await interaction.update({
+        content: `**${formatRoutePath(path)}**\nWhat do you need help with?`,
+        components: [createRouteMenu(panel, options)],
+      });
+      return;
+    }
 
-        modal.addComponents(new ActionRowBuilder<TextInputBuilderType>().addComponents(textInput));
-      }
+    const user = interaction.user;
+    const opener = await this.getOpener(interaction, client, panel);
+    if (!opener) {
+      await interaction.update({
+        content: '<:tcet_cross:1437995480754946178> You can no longer open a ticket on this panel by DM.',
+        components: [],
+      });
+      return;
+    }
+    const { guild, member } = opener;
 
-      await interaction.showModal(modal);
+    const rejection = await this.checkOpenAllowed(client, panel, member, user.id, guild.id);
+    if (rejection) {
+      await interaction.update({ content: rejection, components: [] });
       return;
     }
 
-    // No questions, so reply with ephemeral message
-    await interaction.reply({ content: ' Creating your ticket...', flags: 1 << 6 }); // MessageFlags.Ephemeral
-    await this.createTicketChannel(interaction, client, panelId, panel, user, guild, {});
+    const route = resolveRoute(panel, routeId)!;
+    const questions = getPanelQuestions(panel, route.questions);
+    if (questions.length > 0) {
+      clearAnswerDraft(user.id, panel.id, route.id);
+      await interaction.showModal(createQuestionModal(panel, questions, 0, {}, route.id));
+      return;
+    }
+
+    await interaction.update({ content: ' Creating your ticket...', components: [] });
+    await this.createTicketChannel(interaction, client, panelId, panel, user, guild, [], route);
+  }
+
+  /**
+   * Show a page of the question form again, from the Continue or Fix Answers button of the previous page
+   */
+  async showQuestionPage(interaction: ButtonInteraction, client: BotClient, panelId: string, page: number, routeId?: string): Promise<void> {
+    const panel = await client.db.get<PanelData>(panelId);
+    const values = getAnswerDraft(interaction.user.id, panelId, routeId);
+    const route = panel && routeId ? resolveRoute(panel, routeId) : null;
+    if (!panel || !values || (routeId && !route)) {
+      await interaction.reply({
+        content: '<:tcet_cross:1437995480754946178> Your answers have expired. Please open the ticket again.',
+        flags: 1 << 6 // MessageFlags.Ephemeral
+      });
+      return;
+    }
+
+    await interaction.showModal(createQuestionModal(panel, getPanelQuestions(panel, route?.questions), page, values, route?.id));
   }
 
-  async handleQuestionModal(interaction: any, client: BotClient, panelId: string): Promise<void> {
+  /**
+   * One page of the question form was submitted. Invalid answers send the user back to the same page with the
+   * problems listed; otherwise the next page follows, and the ticket is created after the last one.
+   */
+  async handleQuestionModal(interaction: any, client: BotClient, panelId: string, page: number, routeId?: string): Promise<void> {
     const panel = await client.db.get<PanelData>(panelId);
     if (!panel) return;
 
     const user = interaction.user;
-    const guild = interaction.guild;
+    const opener = await this.getOpener(interaction, client, panel);
+    if (!opener) return;
+    const { guild, member } = opener;
+
+    // Follow-up pages come from a button on the previous page's prompt, which is replaced instead of piling up
+    const respond = (payload: any) => interaction.isFromMessage?.()
+      ? interaction.update(payload)
+      : interaction.reply({ ...payload, flags: 1 << 6 }); // MessageFlags.Ephemeral
+
+    // The option may have been removed from the panel while the user was answering
+    const route = routeId ? resolveRoute(panel, routeId) : null;
+    if (routeId && !route) {
+      await respond({ content: '<:tcet_cross:1437995480754946178> This option is no longer available. Please open the ticket again.', components: [] });
+      return;
+    }
 
-    const answers: Record<string, string> = {};
-    
-    // Use customQuestions if available, otherwise fall back to legacy questions
-    let questionsToShow: Array<{ text: string; type: 'primary' | 'optional' }> = [];
-    
-    if (panel.customQuestions && panel.customQuestions.length > 0) {
-      // Sort: primary questions first, then optional
-      const primary = panel.customQuestions.filter(q => q.type === 'primary');
-      const optional = panel.customQuestions.filter(q => q.type === 'optional');
-      questionsToShow = [...primary, ...optional].slice(0, 5);
-    } else if (panel.questions && panel.questions.length > 0) {
-      // Legacy format
-      questionsToShow = panel.questions.slice(0, 5).map(q => ({ text: q, type: 'primary' as const }));
+    const questions = getPanelQuestions(panel, route?.questions);
+    const values = page > 0 ? getAnswerDraft(user.id, panel.id, route?.id) : {};
+    if (!values) {
+      await respond({ content: '<:tcet_cross:1437995480754946178> Your answers have expired. Please open the ticket again.', components: [] });
+      return;
     }
-    
-    for (let i = 0; i < questionsToShow.length; i++) {
-      const answer = interaction.fields.getTextInputValue(`question_${i}`);
-      if (answer) { // Only include non-empty answers
-        answers[questionsToShow[i].text] = answer;
+
+    const errors: string[] = [];
+    for (const index of getPageIndexes(questions, page)) {
+      values[index] = interaction.fields.getTextInputValue(`question_${index}`).trim();
+      const error = validateAnswer(questions[index], values[index]);
+      if (error) errors.push(`**${questions[index].text}**\n→ ${error}`);
+    }
+    saveAnswerDraft(user.id, panel.id, values, route?.id);
+
+    if (errors.length > 0) {
+      await respond({
+        content: `<:tcet_cross:1437995480754946178> **Some answers need another look:**\n\n${errors.join('\n\n')}`,
+        components: [createPageButton(panel.id, page, 'Fix Answers', route?.id)],
+      });
+      return;
+    }
+
+    const pages = getPageCount(questions);
+    if (page + 1 < pages) {
+      await respond({
+        content: `<:tcet_tick:1437995479567962184> Page ${page + 1} of ${pages} saved. Continue with the next questions.`,
+        components: [createPageButton(panel.id, page + 1, 'Continue', route?.id)],
+      });
+      return;
+    }
+
+    // Limits may have filled up while the user was answering
+    const rejection = await this.checkOpenAllowed(client, panel, member, user.id, guild.id);
+    if (rejection) {
+      clearAnswerDraft(user.id, panel.id, route?.id);
+      await respond({ content: rejection, components: [] });
+      return;
+    }
+
+    clearAnswerDraft(user.id, panel.id, route?.id);
+    await respond({ content: ' Creating your ticket...', components: [] });
+    await this.createTicketChannel(interaction, client, panelId, panel, user, guild, collectAnswers(questions, values), route);
+  }
+
+  /**
+   * The server and member a ticket is being opened in. Panel buttons carry both; a modmail pick in DMs only has
+   * the user, so they are looked up from the panel. Null when the panel stopped taking DM tickets or the user left.
+   */
+  private async getOpener(interaction: any, client: BotClient, panel: PanelData): Promise<{ guild: any; member: any } | null> {
+    if (interaction.guild) {
+      return { guild: interaction.guild, member: interaction.member };
+    }
+    if (!panel.modmail || !panel.guildId) return null;
+
+    const guild = client.guilds.cache.get(panel.guildId);
+    const member = await guild?.members.fetch(interaction.user.id).catch(() => null);
+    return guild && member ? { guild, member } : null;
+  }
+
+  /**
+   * Check whether a user may open a ticket on a panel right now: blacklist first, then limits.
+   * Returns the message to show when they may not, or null when they may.
+   */
+  private async checkOpenAllowed(
+    client: BotClient,
+    panel: PanelData,
+    member: any,
+    userId: string,
+    guildId: string
+  ): Promise<string | null> {
+    const blacklisted = await findBlacklistEntry(client, guildId, panel.id, userId, member);
+    if (blacklisted) {
+      return formatBlacklistRefusal(panel, blacklisted);
+    }
+
+    // Optimized: Query only open tickets for this user and panel
+    const existingTickets = await client.db.getOpenTicketsForUser(userId, panel.id);
+    if (existingTickets.length > 0) {
+      return `<:tcet_cross:1437995480754946178> You already have an open ticket for this panel: <#${existingTickets[0].channelId}>`;
+    }
+
+    const limits = panel.limits;
+    if (!limits) return null;
+
+    if (limits.maxOpenPerUser) {
+      const openTickets = await client.db.getOpenTicketsByOwner(guildId, userId);
+      if (openTickets.length >= limits.maxOpenPerUser) {
+        const channels = openTickets.map(t => `<#${t.channelId}>`).join(', ');
+        return `<:tcet_cross:1437995480754946178> You can have at most **${limits.maxOpenPerUser}** open ticket(s) in this server. Please close one first: ${channels}`;
       }
     }
 
-    await interaction.reply({ content: ' Creating your ticket...', flags: 1 << 6 }); // MessageFlags.Ephemeral
-    await this.createTicketChannel(interaction, client, panelId, panel, user, guild, answers);
+    if (limits.maxOpenPerPanel) {
+      const openOnPanel = await client.db.countOpenTicketsByPanel(panel.id);
+      if (openOnPanel >= limits.maxOpenPerPanel) {
+        return '<:caution:1437997212008185866> **The ticket queue is full.** Our staff are busy with other tickets right now - please try again later.';
+      }
+    }
+
+    if (limits.cooldownMinutes) {
+      const since = new Date(Date.now() - limits.cooldownMinutes * 60 * 1000).toISOString();
+      const recentCloses = await client.db.getGuildEvents(guildId, { since, types: ['closed'] });
+      const lastClose = recentCloses
+        .filter(event => event.payload.ownerId === userId && event.payload.panelId === panel.id)
+        .pop();
+
+      if (lastClose) {
+        const availableAt = new Date(lastClose.createdAt).getTime() + limits.cooldownMinutes * 60 * 1000;
+        return `<:tcet_cross:1437995480754946178> Your last ticket was closed recently. You can open a new one <t:${Math.ceil(availableAt / 1000)}:R>.`;
+      }
+    }
+
+    return null;
   }
 
   private async createTicketChannel(
@@ -228,13 +483,16 @@ export class TicketHandler implements InteractionHandler {
     panel: PanelData,
     user: any,
     guild: any,
-    answers: Record<string, string>
+    answers: TicketAnswer[],
+    route: ResolvedRoute | null
   ): Promise<void> {
     try {
       const ticketId = await client.db.generateTicketId();
-      const ticketNumber = ticketId.split(':')[1];
+      const ticketNumber = await client.db.nextTicketNumber(guild.id);
 
       const channelName = `ticket-${user.username}`.toLowerCase().replace(/[^a-z0-9-]/g, '');
+      // Opened from the DM panel picker: the owner stays out of the channel and talks through the bot
+      const modmail = !interaction.guild;
       
       
       // Build permission overwrites
@@ -277,7 +535,9 @@ export class TicketHandler implements InteractionHandler {
 
       // Add user permissions
       const userPermissions = panel.userPermissions || [];
-      if (userPermissions.length > 0) {
+      if (modmail) {
+        // No overwrite: modmail owners only ever see the conversation in their DMs
+      } else if (userPermissions.length > 0) {
         const userPerms = PermissionHelper.mapPermissionsToFlags(userPermissions);
         permissionOverwrites.push({
           id: user.id,
@@ -297,49 +557,45 @@ export class TicketHandler implements InteractionHandler {
         });
       }
 
-      // Add staff permissions
-      const staffPermissions = panel.staffPermissions || [];
-      if (staffPermissions.length > 0) {
-        const staffPerms = PermissionHelper.mapPermissionsToFlags(staffPermissions);
-        permissionOverwrites.push({
-          id: panel.staffRole,
-          allow: staffPerms,
-        });
-        staffPermissions.forEach(perm => {
-        });
-      } else {
-        // Default staff permissions if none specified
-        permissionOverwrites.push({
-          id: panel.staffRole,
-          allow: [
-            PermissionFlagsBits.ViewChannel,
-            PermissionFlagsBits.SendMessages,
-            PermissionFlagsBits.ReadMessageHistory,
-            PermissionFlagsBits.ManageMessages,
-          ],
-        });
-      }
+      // Add one overwrite per staff role, viewers read-only
+      permissionOverwrites.push(...PermissionHelper.staffRoleOverwrites(panel));
       
-      const channel = await guild.channels.create({
-        name: channelName,
-        type: ChannelType.GuildText,
-        parent: panel.openCategory,
-        topic: `Ticket #${ticketNumber} | Owner: ${user.tag} | Panel: ${panel.name}`,
-        permissionOverwrites,
-      });
+      // Thread tickets take their permissions from the parent channel, so the overwrites only apply to channels
+      const isThread = panel.ticketType === 'thread';
+      const channel: TicketChannel = isThread
+        ? await createTicketThread(client, panel, modmail ? undefined : user.id, channelName, ticketNumber)
+        : await guild.channels.create({
+            name: channelName,
+            type: ChannelType.GuildText,
+            parent: route?.openCategory || panel.openCategory,
+            topic: `Ticket #${ticketNumber} | Owner: ${user.tag} | Panel: ${panel.name}`,
+            permissionOverwrites,
+          });
 
 
       const ticket: TicketData = {
         id: ticketId,
         type: 'ticket',
+        guildId: guild.id,
+        number: ticketNumber,
         owner: user.id,
         panelId: panelId,
         channelId: channel.id,
         state: 'open',
         createdAt: new Date().toISOString(),
+        ...(modmail ? { modmail: true } : {}),
+        ...(answers.length > 0 ? { answers } : {}),
       };
+      ticket.lastActivityAt = ticket.createdAt;
 
       await client.db.save(ticket);
+      await recordTicketEvent(client, ticket, 'created', user.id, {
+        panelId,
+        panelName: panel.name,
+        number: ticketNumber,
+        ...(route ? { route: route.path } : {}),
+        answers: Object.fromEntries(answers.map(({ question, answer }) => [question, answer])),
+      });
 
       panel.ticketsCreated = (panel.ticketsCreated || 0) + 1;
       await client.db.save(panel);
@@ -348,28 +604,28 @@ export class TicketHandler implements InteractionHandler {
         user.id,
         panel.staffRole || '',
         panel,
-        ticketId
+        ticketNumber
       );
 
-      if (Object.keys(answers).length > 0) {
-        for (const [question, answer] of Object.entries(answers)) {
-          welcomeEmbed.addFields({
-            name: `${question}`,
-            value: `\`\`\`${answer}\`\`\``,
-            inline: false
-          });
-        }
+      if (route) {
+        welcomeEmbed.addFields({ name: 'Category', value: route.path, inline: false });
       }
+      const overflow = addAnswerFields(welcomeEmbed, answers);
 
+      // Threads still mention every staff role: a private thread only shows up for the roles mentioned in it
       const welcomeMsg = await channel.send({
-        content: `<@${user.id}> <@&${panel.staffRole}>`,
+        content: `<@${user.id}> ${isThread ? threadStaffMentions(panel) : `<@&${route?.staffRole || panel.staffRole}>`}`,
         embeds: [welcomeEmbed],
-        components: this.createTicketButtons(ticketId, panel), // Only show Close button for new tickets
+        components: this.createTicketButtons(ticket, panel), // Only show Close button for new tickets
       });
       
       ticket.welcomeMessageId = welcomeMsg.id;
       await client.db.save(ticket);
 
+      for (const answersEmbed of createAnswerEmbeds(overflow)) {
+        await channel.send({ embeds: [answersEmbed] });
+      }
+
 
       if (panel.logsChannel) {
         try {
@@ -384,6 +640,9 @@ export class TicketHandler implements InteractionHandler {
                 { name: 'Panel', value: panel.name || 'Unknown', inline: true }
               )
               .setTimestamp();
+            if (route) {
+              logEmbed.addFields({ name: 'Category', value: route.path, inline: true });
+            }
             await logChannel.send({ embeds: [logEmbed] });
           }
         } catch (error) {
@@ -391,6 +650,15 @@ export class TicketHandler implements InteractionHandler {
         }
       }
 
+      if (modmail) {
+        await interaction.followUp({
+          content: `<:tcet_tick:1437995479567962184> Your ticket is open in **${guild.name}**. ` +
+            'Everything you send here goes to staff, and their replies will arrive here.',
+        });
+        await relayPickedMessage(client, ticket, channel, interaction.message ?? null);
+        return;
+      }
+
       await interaction.followUp({
         content: `<:tcet_tick:1437995479567962184> Ticket created: <#${channel.id}>`,
         flags: 1 << 6 // MessageFlags.Ephemeral - only visible to author
@@ -403,8 +671,80 @@ export class TicketHandler implements InteractionHandler {
     }
   }
 
-  async closeTicket(interaction: any, client: BotClient, ticketId: string): Promise<void> {
-    
+  /**
+   * The close button: ask for a reason when the panel requires one, otherwise for a confirmation
+   */
+  async requestClose(interaction: ButtonInteraction, client: BotClient, ticketId: string): Promise<void> {
+    const closable = await this.getClosableTicket(interaction, client, ticketId);
+    if (!closable) return;
+
+    if (closable.panel.requireCloseReason) {
+      const modal = new ModalBuilder()
+        .setCustomId(`ticket:close-reason:${ticketId}`)
+        .setTitle('Close Ticket')
+        .addComponents(
+          new ActionRowBuilder<TextInputBuilder>().addComponents(
+            new TextInputBuilder()
+              .setCustomId('reason')
+              .setLabel('Why is this ticket being closed?')
+              .setStyle(TextInputStyle.Paragraph)
+              .setRequired(true)
+              .setMaxLength(500)
+          )
+        );
+      await interaction.showModal(modal);
+      return;
+    }
+
+    const confirmRow = new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(`ticket:close-confirm:${ticketId}`)
+        .setLabel('Close')
+        .setEmoji('<:tcet_cross:1437995480754946178>')
+        .setStyle(ButtonStyle.Danger),
+      new ButtonBuilder()
+        .setCustomId(`ticket:close-cancel:${ticketId}`)
+        .setLabel('Cancel')
+        .setStyle(ButtonStyle.Secondary)
+    );
+
+    await interaction.reply({
+      content: '<:caution:1437997212008185866> Are you sure you want to close this ticket?',
+      components: [confirmRow],
+      flags: 1 << 6 // MessageFlags.Ephemeral
+    });
+  }
+
+  /**
+   * Confirm or cancel on the close prompt. The prompt loses its buttons either way so it cannot be used twice.
+   */
+  async handleCloseConfirmation(interaction: ButtonInteraction, client: BotClient, ticketId: string, confirmed: boolean): Promise<void> {
+    if (!interaction.deferred && !interaction.replied) {
+      await interaction.deferUpdate();
+    }
+
+    if (!confirmed) {
+      await interaction.editReply({ content: '<:tcet_cross:1437995480754946178> Close cancelled.', components: [] });
+      return;
+    }
+
+    await interaction.editReply({ content: '<:caution:1437997212008185866> Closing ticket...', components: [] });
+    await this.closeTicket(interaction, client, ticketId);
+  }
+
+  async handleCloseReasonModal(interaction: ModalSubmitInteraction, client: BotClient, ticketId: string): Promise<void> {
+    const reason = interaction.fields.getTextInputValue('reason').trim();
+    await this.closeTicket(interaction, client, ticketId, reason);
+  }
+
+  /**
+   * Load a ticket for closing and check the user may close it, replying with the reason when not
+   */
+  private async getClosableTicket(
+    interaction: any,
+    client: BotClient,
+    ticketId: string
+  ): Promise<{ ticket: TicketData; panel: PanelData } | null> {
     const ticket = await client.db.get<TicketData>(ticketId);
     if (!ticket) {
       // Always use followUp with ephemeral for error messages (interaction may be deferred by router)
@@ -419,7 +759,7 @@ export class TicketHandler implements InteractionHandler {
           flags: 1 << 6 // MessageFlags.Ephemeral
         });
       }
-      return;
+      return null;
     }
 
     
@@ -438,7 +778,7 @@ export class TicketHandler implements InteractionHandler {
           flags: 1 << 6 // MessageFlags.Ephemeral
         });
       }
-      return;
+      return null;
     }
 
     const panel = await client.db.get<PanelData>(ticket.panelId);
@@ -455,7 +795,7 @@ export class TicketHandler implements InteractionHandler {
           flags: 1 << 6 // MessageFlags.Ephemeral
         });
       }
-      return;
+      return null;
     }
 
     // Check if user is the owner
@@ -476,6 +816,24 @@ export class TicketHandler implements InteractionHandler {
           flags: 1 << 6 // MessageFlags.Ephemeral
         });
       }
+      return null;
+    }
+
+    return { ticket, panel };
+  }
+
+  async closeTicket(interaction: any, client: BotClient, ticketId: string, reason?: string): Promise<void> {
+    const closable = await this.getClosableTicket(interaction, client, ticketId);
+    if (!closable) return;
+    const { ticket, panel } = closable;
+
+    if (panel.requireCloseReason && !reason) {
+      const content = '<:tcet_cross:1437995480754946178> This panel requires a reason to close a ticket.';
+      if (interaction.deferred || interaction.replied) {
+        await interaction.followUp({ content, flags: 1 << 6 }); // MessageFlags.Ephemeral
+      } else {
+        await interaction.reply({ content, flags: 1 << 6 }); // MessageFlags.Ephemeral
+      }
       return;
     }
 
@@ -486,7 +844,7 @@ export class TicketHandler implements InteractionHandler {
 
     try {
       const channel = await client.channels.fetch(ticket.channelId).catch(() => null);
-      if (!channel || channel.type !== ChannelType.GuildText) {
+      if (!PermissionHelper.isTicketChannel(channel)) {
         await interaction.followUp({
           content: '<:tcet_cross:1437995480754946178> Ticket channel not found.',
           flags: 1 << 6 // MessageFlags.Ephemeral
@@ -495,124 +853,394 @@ export class TicketHandler implements InteractionHandler {
       }
 
 
-      // NOTE: We do NOT delete messages anymore to preserve full transcript
-      // All messages will be kept for the transcript generation
+      const { renamed, moved } = await this.closeTicketChannel(client, ticket, panel, channel, interaction.user.id, reason);
 
-      let newName: string;
-      if (channel.name.startsWith('claimed-')) {
-        newName = channel.name.replace('claimed-', 'closed-claimed-');
-      } else if (channel.name.startsWith('ticket-')) {
-        newName = channel.name.replace('ticket-', 'closed-ticket-');
-      } else {
-        newName = `closed-${channel.name}`;
+      // Provide feedback with warnings if operations failed
+      let responseMessage = '<:tcet_tick:1437995479567962184> Ticket closed successfully.';
+      if (!renamed || !moved) {
+        responseMessage += '\n⚠️ Note: Some channel operations were rate-limited by Discord. The ticket is closed, but the channel may not have been renamed or moved yet.';
       }
+
+      await interaction.followUp({
+        content: responseMessage,
+        flags: 1 << 6 // MessageFlags.Ephemeral
+      });
       
-      // Use safe channel operations with rate limit protection
-      const renameResult = await this.safeChannelOperation(
+    } catch (error) {
+      ErrorHandler.handle(error as Error, 'Close ticket');
+      await interaction.followUp({
+        content: '<:tcet_cross:1437995480754946178> Failed to close ticket. Please try again.',
+        flags: 1 << 6 // MessageFlags.Ephemeral
+      });
+    }
+  }
+
+  /**
+   * Close an open ticket: rename and move the channel, hide it from the owner, save, log and send the transcript.
+   * Thread tickets are not moved; they are locked and archived once everything else is done.
+   * Shared by the close button and the inactivity scheduler; `closedBy` is undefined when the bot closes on its own.
+   */
+  async closeTicketChannel(
+    client: BotClient,
+    ticket: TicketData,
+    panel: PanelData,
+    channel: TicketChannel,
+    closedBy?: string,
+    reason?: string
+  ): Promise<{ renamed: boolean; moved: boolean }> {
+    // NOTE: We do NOT delete messages anymore to preserve full transcript
+    // All messages will be kept for the transcript generation
+
+    const currentName = stripPriorityPrefix(channel.name);
+    let newName: string;
+    if (currentName.startsWith('claimed-')) {
+      newName = currentName.replace('claimed-', 'closed-claimed-');
+    } else if (currentName.startsWith('ticket-')) {
+      newName = currentName.replace('ticket-', 'closed-ticket-');
+    } else {
+      newName = `closed-${currentName}`;
+    }
+    newName = withPriorityPrefix(newName, ticket.priority);
+
+    // Use safe channel operations with rate limit protection
+    const renameResult = await this.safeChannelOperation<TicketChannel>(
+      channel.id,
+      () => channel.setName(newName),
+      'CLOSE_RENAME'
+    );
+
+    let moveSuccess = true;
+    if (panel.closeCategory && !PermissionHelper.isThread(channel)) {
+      const moveResult = await this.safeChannelOperation(
         channel.id,
-        () => channel.setName(newName),
-        'CLOSE_RENAME'
+        () => channel.setParent(panel.closeCategory!),
+        'CLOSE_MOVE',
+        2000 // Wait at least 2 seconds after rename
       );
-      
-      if (renameResult.success) {
-      } else {
+      moveSuccess = moveResult.success;
+    }
+
+    // Remove user permissions (hide from user) but keep everything else
+    try {
+      await PermissionHelper.revokeAccess(channel, ticket.owner);
+    } catch (error) {
+    }
+    await revokeParticipantAccess(ticket, channel);
+
+    ticket.state = 'closed';
+    ticket.closedAt = new Date().toISOString();
+    ticket.closeReason = reason;
+    ticket.inactivityWarnedAt = undefined;
+    await client.db.save(ticket);
+    // Owner and panel are kept on the event so cooldowns still apply after the ticket is deleted
+    await recordTicketEvent(client, ticket, 'closed', closedBy, {
+      ownerId: ticket.owner,
+      panelId: ticket.panelId,
+      ...(reason ? { reason } : {}),
+    });
+
+    // Update welcome message to show closed state
+    await this.updateWelcomeMessageForClosed(channel, ticket, closedBy, client.user?.username, reason);
+
+    // Send "Closing ticket" message
+    const closeEmbed = new EmbedBuilder()
+      .setDescription(`<:tcet_cross:1437995480754946178> **Closing ticket...**${reason ? `\n${reason}` : ''}`)
+      .setColor(0xED4245)
+      .setTimestamp();
+
+    const closeMsg = await channel.send({ embeds: [closeEmbed] });
+
+    // Delete the message after 3 seconds
+    setTimeout(async () => {
+      try {
+        await closeMsg.delete();
+      } catch (error) {
+        // Message might already be deleted or channel closed
       }
-      
-      let moveSuccess = true;
-      if (panel.closeCategory) {
-        const moveResult = await this.safeChannelOperation(
-          channel.id,
-          () => channel.setParent(panel.closeCategory!),
-          'CLOSE_MOVE',
-          2000 // Wait at least 2 seconds after rename
-        );
-        
-        if (moveResult.success) {
-        } else {
-          moveSuccess = false;
+    }, 3000);
+
+    if (panel.logsChannel) {
+      try {
+        const logChannel = await client.channels.fetch(panel.logsChannel);
+        if (logChannel?.isTextBased() && 'send' in logChannel) {
+          const logEmbed = new EmbedBuilder()
+            .setTitle('<:tcet_cross:1437995480754946178> Ticket Closed')
+            .setColor(0xED4245)
+            .addFields(
+              { name: 'Ticket', value: `<#${channel.id}>`, inline: true },
+              { name: 'Closed By', value: closedBy ? `<@${closedBy}>` : 'Automatically', inline: true },
+              { name: 'Owner', value: `<@${ticket.owner}>`, inline: true },
+              { name: 'Ticket ID', value: `\`${ticket.id}\``, inline: true },
+              { name: 'Panel', value: panel.name || 'Unknown', inline: true },
+              { name: 'Priority', value: formatPriority(getTicketPriority(ticket)), inline: true }
+            )
+            .setTimestamp();
+          if (reason) {
+            logEmbed.addFields({ name: 'Reason', value: reason, inline: false });
+          }
+          await logChannel.send({ embeds: [logEmbed] });
         }
+      } catch (error) {
+        ErrorHandler.handle(error as Error, 'Log ticket closure');
       }
+    }
+
+    if (ticket.modmail) {
+      await notifyModmailOwner(client, ticket, 'closed', reason);
+    }
+
+    try {
+      await sendRatingSurvey(client, ticket, panel, channel);
+    } catch (error) {
+      ErrorHandler.handle(error as Error, 'Send rating survey');
+    }
 
-      // Remove user permissions (hide from user) but keep everything else
+    // Archived last: anything sent to the thread afterwards would unarchive it again
+    if (PermissionHelper.isThread(channel)) {
+      const archiveResult = await this.safeChannelOperation(channel.id, () => archiveTicketThread(channel), 'CLOSE_ARCHIVE');
+      moveSuccess = archiveResult.success;
+    }
+
+    setImmediate(async () => {
       try {
-        await channel.permissionOverwrites.delete(ticket.owner);
+        if (channel instanceof TextChannel || channel instanceof ThreadChannel) {
+          await this.autoGenerateTranscript(channel, ticket, panel, client);
+        }
       } catch (error) {
+        ErrorHandler.handle(error as Error, 'Auto-generate transcript');
       }
+    });
 
-      ticket.state = 'closed';
-      ticket.closedAt = new Date().toISOString();
-      await client.db.save(ticket);
+    return { renamed: renameResult.success, moved: moveSuccess };
+  }
 
-      // Update welcome message to show closed state
-      await this.updateWelcomeMessageForClosed(channel, ticket, interaction.user.id, client.user?.username);
+  /**
+   * "Still need help" on an inactivity warning: restart the inactivity clock and retire the warning
+   */
+  async keepTicketActive(interaction: ButtonInteraction, client: BotClient, ticketId: string): Promise<void> {
+    const ticket = await client.db.get<TicketData>(ticketId);
+    if (!ticket || ticket.state !== 'open') {
+      await interaction.followUp({
+        content: '<:tcet_cross:1437995480754946178> This ticket is no longer open.',
+        flags: 1 << 6 // MessageFlags.Ephemeral
+      });
+      return;
+    }
 
-      // Send "Closing ticket" message
-      const closeEmbed = new EmbedBuilder()
-        .setDescription(`<:tcet_cross:1437995480754946178> **Closing ticket...**`)
-        .setColor(0xED4245)
-        .setTimestamp();
-      
-      const closeMsg = await channel.send({ embeds: [closeEmbed] });
-      
-      // Delete the message after 3 seconds
-      setTimeout(async () => {
-        try {
-          await closeMsg.delete();
-        } catch (error) {
-          // Message might already be deleted or channel closed
-        }
-      }, 3000);
+    const panel = await client.db.get<PanelData>(ticket.panelId);
+    const hasManageChannels = interaction.memberPermissions?.has('ManageChannels') || false;
+    if (!PermissionHelper.isOwnerOrStaff(interaction.user.id, ticket.owner, interaction.member, panel, hasManageChannels)) {
+      await interaction.followUp({
+        content: '<:tcet_cross:1437995480754946178> Only the ticket owner or staff can keep this ticket open.',
+        flags: 1 << 6 // MessageFlags.Ephemeral
+      });
+      return;
+    }
 
-      // Provide feedback with warnings if operations failed
-      let responseMessage = '<:tcet_tick:1437995479567962184> Ticket closed successfully.';
-      if (!renameResult.success || !moveSuccess) {
-        responseMessage += '\n⚠️ Note: Some channel operations were rate-limited by Discord. The ticket is closed, but the channel may not have been renamed or moved yet.';
-      }
+    await client.db.touchTicketActivity(ticket.id, new Date().toISOString());
+
+    await interaction.editReply({
+      content: '',
+      embeds: [
+        new EmbedBuilder()
+          .setDescription(`<:tcet_tick:1437995479567962184> <@${interaction.user.id}> still needs help - this ticket will stay open.`)
+          .setColor(0x57F287)
+          .setTimestamp()
+      ],
+      components: [],
+    });
+  }
 
+  /**
+   * Priority picker on the welcome message; staff only
+   */
+  async handlePrioritySelect(interaction: StringSelectMenuInteraction, client: BotClient, ticketId: string): Promise<void> {
+    const ticket = await client.db.get<TicketData>(ticketId);
+    const priority = interaction.values[0];
+    if (!ticket || ticket.state !== 'open' || !isTicketPriority(priority)) {
       await interaction.followUp({
-        content: responseMessage,
+        content: '<:tcet_cross:1437995480754946178> This ticket is no longer open.',
         flags: 1 << 6 // MessageFlags.Ephemeral
       });
+      return;
+    }
 
-      if (panel.logsChannel) {
-        try {
-          const logChannel = await client.channels.fetch(panel.logsChannel);
-          if (logChannel?.isTextBased() && 'send' in logChannel) {
-            const logEmbed = new EmbedBuilder()
-              .setTitle('<:tcet_cross:1437995480754946178> Ticket Closed')
-              .setColor(0xED4245)
-              .addFields(
-                { name: 'Ticket', value: `<#${channel.id}>`, inline: true },
-                { name: 'Closed By', value: `<@${interaction.user.id}>`, inline: true },
-                { name: 'Owner', value: `<@${ticket.owner}>`, inline: true },
-                { name: 'Ticket ID', value: `\`${ticket.id}\``, inline: true },
-                { name: 'Panel', value: panel.name || 'Unknown', inline: true }
-              )
-              .setTimestamp();
-            await logChannel.send({ embeds: [logEmbed] });
-          }
-        } catch (error) {
-          ErrorHandler.handle(error as Error, 'Log ticket closure');
+    const panel = await client.db.get<PanelData>(ticket.panelId);
+    const hasManageChannels = interaction.memberPermissions?.has('ManageChannels') || false;
+    if (!panel || !PermissionHelper.isStaff(interaction.member, panel, hasManageChannels)) {
+      await interaction.followUp({
+        content: '<:tcet_cross:1437995480754946178> **Only staff members can change the priority.**',
+        flags: 1 << 6 // MessageFlags.Ephemeral
+      });
+      return;
+    }
+
+    const channel = await client.channels.fetch(ticket.channelId).catch(() => null);
+    if (!PermissionHelper.isTicketChannel(channel)) return;
+
+    await this.setPriority(client, ticket, panel, channel, priority, interaction.user.id);
+  }
+
+  /**
+   * Change a ticket's priority: rename the channel, move urgent tickets to the top of their category,
+   * ping the panel's escalation role, and log the change. Returns false when the priority is unchanged.
+   */
+  async setPriority(
+    client: BotClient,
+    ticket: TicketData,
+    panel: PanelData,
+    channel: TicketChannel,
+    priority: TicketPriority,
+    changedBy: string
+  ): Promise<boolean> {
+    const previous = getTicketPriority(ticket);
+    if (previous === priority) return false;
+
+    ticket.priority = priority;
+    await client.db.setTicketPriority(ticket.id, priority);
+    await recordTicketEvent(client, ticket, 'priority-changed', changedBy, { from: previous, to: priority });
+
+    await this.safeChannelOperation<TicketChannel>(
+      channel.id,
+      () => channel.setName(withPriorityPrefix(channel.name, priority)),
+      'PRIORITY_RENAME'
+    );
+
+    // Threads have no position to move to
+    if (priority === 'urgent' && !PermissionHelper.isThread(channel)) {
+      await this.safeChannelOperation(channel.id, () => channel.setPosition(0), 'PRIORITY_MOVE');
+    }
+
+    await this.updateWelcomeMessageButtons(channel, ticket, panel);
+
+    const escalate = priority === 'urgent' && !!panel.escalationRole;
+    const priorityEmbed = new EmbedBuilder()
+      .setDescription(`${PRIORITY_DETAILS[priority].emoji} Priority set to **${PRIORITY_DETAILS[priority].label}** by <@${changedBy}>`)
+      .setColor(PRIORITY_DETAILS[priority].color)
+      .setTimestamp();
+    await channel.send({
+      content: escalate ? `<@&${panel.escalationRole}>` : undefined,
+      embeds: [priorityEmbed],
+    });
+
+    if (panel.logsChannel) {
+      try {
+        const logChannel = await client.channels.fetch(panel.logsChannel);
+        if (logChannel?.isTextBased() && 'send' in logChannel) {
+          const logEmbed = new EmbedBuilder()
+            .setTitle(`${PRIORITY_DETAILS[priority].emoji} Ticket Priority Changed`)
+            .setColor(PRIORITY_DETAILS[priority].color)
+            .addFields(
+              { name: 'Ticket', value: `<#${channel.id}>`, inline: true },
+              { name: 'Changed By', value: `<@${changedBy}>`, inline: true },
+              { name: 'Owner', value: `<@${ticket.owner}>`, inline: true },
+              { name: 'From', value: formatPriority(previous), inline: true },
+              { name: 'To', value: formatPriority(priority), inline: true },
+              { name: 'Panel', value: panel.name || 'Unknown', inline: true }
+            )
+            .setTimestamp();
+          await logChannel.send({ embeds: [logEmbed] });
         }
+      } catch (error) {
+        ErrorHandler.handle(error as Error, 'Log priority change');
       }
+    }
 
-      setImmediate(async () => {
-        try {
-          if (channel instanceof TextChannel) {
-            await this.autoGenerateTranscript(channel, ticket, panel, client);
-          }
-        } catch (error) {
-          ErrorHandler.handle(error as Error, 'Auto-generate transcript');
+    return true;
+  }
+
+  /**
+   * Move an open ticket to another panel: swap the old panel's staff role for the new one, move the channel
+   * to the new panel's open category, and announce it in the ticket and both panels' logs.
+   * Returns false when the channel could not be moved to the new category.
+   */
+  async moveTicket(
+    client: BotClient,
+    ticket: TicketData,
+    from: PanelData | null,
+    to: PanelData,
+    channel: TicketChannel,
+    movedBy: string
+  ): Promise<boolean> {
+    const fromPanelId = ticket.panelId;
+    ticket.panelId = to.id;
+    await client.db.save(ticket);
+    await recordTicketEvent(client, ticket, 'moved', movedBy, {
+      fromPanelId,
+      fromPanelName: from?.name,
+      panelId: to.id,
+      panelName: to.name,
+    });
+
+    // Thread tickets stay in their parent channel and keep its permissions; the new staff join through the mention below
+    let moved = true;
+    if (!PermissionHelper.isThread(channel)) {
+      // A role that is also a participant keeps its access
+      const isParticipant = (roleId: string) => (ticket.participants || []).some(participant => participant.id === roleId);
+      const toRoleIds = PermissionHelper.getStaffRoles(to).map(staffRole => staffRole.roleId);
+      for (const { roleId } of PermissionHelper.getStaffRoles(from)) {
+        if (toRoleIds.includes(roleId) || isParticipant(roleId)) continue;
+        await channel.permissionOverwrites.delete(roleId).catch((error: Error) => {
+          ErrorHandler.warn(`Could not remove the old staff role from ${ticket.id}: ${error.message}`);
+        });
+      }
+      for (const { roleId, level } of PermissionHelper.getStaffRoles(to)) {
+        await channel.permissionOverwrites.create(roleId, PermissionHelper.staffRoleOverwrite(to, level));
+      }
+
+      if (to.openCategory && channel.parentId !== to.openCategory) {
+        const moveResult = await this.safeChannelOperation(
+          channel.id,
+          () => channel.setParent(to.openCategory!, { lockPermissions: false }),
+          'MOVE_PANEL'
+        );
+        moved = moveResult.success;
+      }
+      if (channel.topic?.includes('Panel: ')) {
+        const topic = channel.topic.replace(/Panel: .*$/, `Panel: ${to.name}`);
+        await this.safeChannelOperation(channel.id, () => channel.setTopic(topic), 'MOVE_TOPIC');
+      }
+    }
+    await applyExclusiveClaim(ticket, to, channel);
+
+    await this.updateWelcomeMessageButtons(channel, ticket, to);
+
+    const noticeEmbed = new EmbedBuilder()
+      .setDescription(`<:module:1437997093753983038> Ticket moved from **${from?.name || 'Deleted Panel'}** to **${to.name || 'Unknown'}** by <@${movedBy}>`)
+      .setColor(0x5865F2)
+      .setTimestamp();
+    const staffMention = PermissionHelper.isThread(channel)
+      ? threadStaffMentions(to)
+      : to.staffRole && to.staffRole !== from?.staffRole ? `<@&${to.staffRole}>` : undefined;
+    await channel.send({
+      content: staffMention || undefined,
+      embeds: [noticeEmbed],
+    });
+
+    const logChannelIds = new Set([from?.logsChannel, to.logsChannel].filter((id): id is string => !!id));
+    for (const logChannelId of logChannelIds) {
+      try {
+        const logChannel = await client.channels.fetch(logChannelId);
+        if (logChannel?.isTextBased() && 'send' in logChannel) {
+          const logEmbed = new EmbedBuilder()
+            .setTitle('<:module:1437997093753983038> Ticket Moved')
+            .setColor(0x5865F2)
+            .addFields(
+              { name: 'Ticket', value: `<#${channel.id}>`, inline: true },
+              { name: 'Moved By', value: `<@${movedBy}>`, inline: true },
+              { name: 'Owner', value: `<@${ticket.owner}>`, inline: true },
+              { name: 'From', value: from?.name || 'Deleted Panel', inline: true },
+              { name: 'To', value: to.name || 'Unknown', inline: true }
+            )
+            .setTimestamp();
+          await logChannel.send({ embeds: [logEmbed] });
         }
-      });
-      
-    } catch (error) {
-      ErrorHandler.handle(error as Error, 'Close ticket');
-      await interaction.followUp({
-        content: '<:tcet_cross:1437995480754946178> Failed to close ticket. Please try again.',
-        flags: 1 << 6 // MessageFlags.Ephemeral
-      });
+      } catch (error) {
+        ErrorHandler.handle(error as Error, 'Log ticket move');
+      }
     }
+
+    return moved;
   }
 
   async reopenTicket(interaction: any, client: BotClient, ticketId: string): Promise<void> {
@@ -669,6 +1297,23 @@ export class TicketHandler implements InteractionHandler {
       return;
     }
 
+    // Viewers can see closed tickets, but reopening takes the same tier as closing
+    const hasManageChannels = interaction.memberPermissions?.has('ManageChannels') || false;
+    if (!PermissionHelper.hasStaffLevel(interaction.member, panel, hasManageChannels, 'closer')) {
+      if (interaction.deferred || interaction.replied) {
+        await interaction.followUp({
+          content: '<:tcet_cross:1437995480754946178> **Only staff members who can close tickets can reopen them.**',
+          flags: 1 << 6 // MessageFlags.Ephemeral
+        });
+      } else {
+        await interaction.reply({
+          content: '<:tcet_cross:1437995480754946178> **Only staff members who can close tickets can reopen them.**',
+          flags: 1 << 6 // MessageFlags.Ephemeral
+        });
+      }
+      return;
+    }
+
     // Defer update if not already deferred
     if (!interaction.replied && !interaction.deferred) {
       await interaction.deferUpdate();
@@ -676,7 +1321,7 @@ export class TicketHandler implements InteractionHandler {
 
     try {
       const channel = await client.channels.fetch(ticket.channelId).catch(() => null);
-      if (!channel || channel.type !== ChannelType.GuildText) {
+      if (!PermissionHelper.isTicketChannel(channel)) {
         await interaction.followUp({
           content: '<:tcet_cross:1437995480754946178> Ticket channel not found.',
           flags: 1 << 6 // MessageFlags.Ephemeral
@@ -685,19 +1330,26 @@ export class TicketHandler implements InteractionHandler {
       }
 
 
+      const currentName = stripPriorityPrefix(channel.name);
       let newName: string;
-      if (channel.name.startsWith('closed-claimed-')) {
-        newName = channel.name.replace('closed-claimed-', 'claimed-');
-      } else if (channel.name.startsWith('closed-ticket-')) {
-        newName = channel.name.replace('closed-ticket-', 'ticket-');
-      } else if (channel.name.startsWith('closed-')) {
-        newName = channel.name.replace('closed-', '');
+      if (currentName.startsWith('closed-claimed-')) {
+        newName = currentName.replace('closed-claimed-', 'claimed-');
+      } else if (currentName.startsWith('closed-ticket-')) {
+        newName = currentName.replace('closed-ticket-', 'ticket-');
+      } else if (currentName.startsWith('closed-')) {
+        newName = currentName.replace('closed-', '');
       } else {
-        newName = channel.name.startsWith('ticket-') ? channel.name : `ticket-${channel.name}`;
+        newName = currentName.startsWith('ticket-') ? currentName : `ticket-${currentName}`;
       }
+      newName = withPriorityPrefix(newName, ticket.priority);
       
+      // An archived thread has to be opened up before it can be renamed
+      if (PermissionHelper.isThread(channel)) {
+        await unarchiveTicketThread(channel);
+      }
+
       // Use safe channel operations with rate limit protection
-      const renameResult = await this.safeChannelOperation(
+      const renameResult = await this.safeChannelOperation<TicketChannel>(
         channel.id,
         () => channel.setName(newName),
         'REOPEN_RENAME'
@@ -708,7 +1360,7 @@ export class TicketHandler implements InteractionHandler {
       }
       
       let moveSuccess = true;
-      if (panel.openCategory) {
+      if (panel.openCategory && !PermissionHelper.isThread(channel)) {
         const moveResult = await this.safeChannelOperation(
           channel.id,
           () => channel.setParent(panel.openCategory!),
@@ -725,7 +1377,11 @@ export class TicketHandler implements InteractionHandler {
       // Restore user permissions
       try {
         const userPermissions = panel.userPermissions || [];
-        if (userPermissions.length > 0) {
+        if (ticket.modmail) {
+          // Modmail owners never had access; they are told about the reopen by DM below
+        } else if (PermissionHelper.isThread(channel)) {
+          await channel.members.add(ticket.owner);
+        } else if (userPermissions.length > 0) {
           const userPerms = PermissionHelper.mapPermissionsToFlags(userPermissions);
           await channel.permissionOverwrites.create(ticket.owner, {
             ViewChannel: true,
@@ -753,11 +1409,21 @@ export class TicketHandler implements InteractionHandler {
         }
       } catch (error) {
       }
+      await restoreParticipantAccess(ticket, panel, channel);
+      await applyExclusiveClaim(ticket, panel, channel);
 
       ticket.state = 'open';
       ticket.closedAt = undefined;
+      ticket.closeReason = undefined;
       ticket.closeMessageId = undefined;
+      // Restart the inactivity clock so a long-closed ticket is not closed again right away
+      ticket.lastActivityAt = new Date().toISOString();
+      ticket.inactivityWarnedAt = undefined;
       await client.db.save(ticket);
+      await recordTicketEvent(client, ticket, 'reopened', interaction.user.id);
+      if (ticket.modmail) {
+        await notifyModmailOwner(client, ticket, 'reopened');
+      }
 
       // Update welcome message with open buttons
       await this.updateWelcomeMessageButtons(channel, ticket, panel);
@@ -803,7 +1469,8 @@ export class TicketHandler implements InteractionHandler {
                 { name: 'Reopened By', value: `<@${interaction.user.id}>`, inline: true },
                 { name: 'Owner', value: `<@${ticket.owner}>`, inline: true },
                 { name: 'Ticket ID', value: `\`${ticket.id}\``, inline: true },
-                { name: 'Panel', value: panel.name || 'Unknown', inline: true }
+                { name: 'Panel', value: panel.name || 'Unknown', inline: true },
+                { name: 'Priority', value: formatPriority(getTicketPriority(ticket)), inline: true }
               )
               .setTimestamp();
             await logChannel.send({ embeds: [logEmbed] });
@@ -900,18 +1567,24 @@ export class TicketHandler implements InteractionHandler {
 
     ticket.claimedBy = interaction.user.id;
     await client.db.save(ticket);
+    await recordTicketEvent(client, ticket, 'claimed', interaction.user.id);
 
     try {
       const channel = await client.channels.fetch(ticket.channelId);
       if (channel?.isTextBased() && 'send' in channel) {
         if ('setName' in channel) {
-          const newName = `claimed-${interaction.user.username}`.toLowerCase().replace(/[^a-z0-9-]/g, '-');
+          const newName = withPriorityPrefix(`claimed-${interaction.user.username}`.toLowerCase().replace(/[^a-z0-9-]/g, '-'), ticket.priority);
           try {
             await channel.setName(newName);
           } catch (error) {
           }
         }
 
+        if (PermissionHelper.isTicketChannel(channel)) {
+          await applyExclusiveClaim(ticket, panel, channel);
+        }
+        await this.updateWelcomeMessageButtons(channel, ticket, panel);
+
         const claimEmbed = new EmbedBuilder()
           .setTitle('<:tcet_tick:1437995479567962184> Ticket Claimed')
           .setDescription(`This ticket has been claimed by <@${interaction.user.id}>`)
@@ -934,7 +1607,8 @@ export class TicketHandler implements InteractionHandler {
                 { name: 'Claimed By', value: `<@${interaction.user.id}>`, inline: true },
                 { name: 'Owner', value: `<@${ticket.owner}>`, inline: true },
                 { name: 'Ticket ID', value: `\`${ticketId}\``, inline: true },
-                { name: 'Panel', value: panel.name || 'Unknown', inline: true }
+                { name: 'Panel', value: panel.name || 'Unknown', inline: true },
+                { name: 'Priority', value: formatPriority(getTicketPriority(ticket)), inline: true }
               )
               .setTimestamp();
             await logChannel.send({ embeds: [logEmbed] });
@@ -991,7 +1665,14 @@ export class TicketHandler implements InteractionHandler {
       return;
     }
 
-    if (ticket.claimedBy !== interaction.user.id && !interaction.memberPermissions?.has('ManageChannels')) {
+    const hasManageChannels = interaction.memberPermissions?.has('ManageChannels') || false;
+    const isManager = PermissionHelper.hasStaffLevel(
+      interaction.member,
+      await client.db.get<PanelData>(ticket.panelId),
+      hasManageChannels,
+      'manager'
+    );
+    if (ticket.claimedBy !== interaction.user.id && !isManager) {
       // Use editReply if already deferred (by router), otherwise reply
       if (interaction.deferred || interaction.replied) {
         await interaction.followUp({
@@ -1016,20 +1697,29 @@ export class TicketHandler implements InteractionHandler {
 
     ticket.claimedBy = undefined;
     await client.db.save(ticket);
+    await recordTicketEvent(client, ticket, 'unclaimed', interaction.user.id, { previousClaimer: claimedByUser });
 
     try {
       const channel = await client.channels.fetch(ticket.channelId);
       const owner = await client.users.fetch(ticket.owner);
+      const panel = await client.db.get<PanelData>(ticket.panelId);
       
       if (channel?.isTextBased() && 'send' in channel) {
         if ('setName' in channel) {
-          const newName = `ticket-${owner.username}`.toLowerCase().replace(/[^a-z0-9-]/g, '-');
+          const newName = withPriorityPrefix(`ticket-${owner.username}`.toLowerCase().replace(/[^a-z0-9-]/g, '-'), ticket.priority);
           try {
             await channel.setName(newName);
           } catch (error) {
           }
         }
 
+        if (panel) {
+          if (PermissionHelper.isTicketChannel(channel)) {
+            await releaseExclusiveClaim(ticket, panel, channel, claimedByUser);
+          }
+          await this.updateWelcomeMessageButtons(channel, ticket, panel);
+        }
+
         const unclaimEmbed = new EmbedBuilder()
           .setTitle('<:tcet_tick:1437995479567962184> Ticket Unclaimed')
           .setDescription(`This ticket has been unclaimed by <@${claimedByUser}>`)
@@ -1039,9 +1729,6 @@ export class TicketHandler implements InteractionHandler {
         await channel.send({ embeds: [unclaimEmbed] });
       }
 
-      // Get panel for logging
-      const panel = await client.db.get<PanelData>(ticket.panelId);
-      
       // Log to logs channel
       if (panel?.logsChannel && channel) {
         try {
@@ -1055,7 +1742,8 @@ export class TicketHandler implements InteractionHandler {
                 { name: 'Unclaimed By', value: `<@${claimedByUser}>`, inline: true },
                 { name: 'Owner', value: `<@${ticket.owner}>`, inline: true },
                 { name: 'Ticket ID', value: `\`${ticketId}\``, inline: true },
-                { name: 'Panel', value: panel.name || 'Unknown', inline: true }
+                { name: 'Panel', value: panel.name || 'Unknown', inline: true },
+                { name: 'Priority', value: formatPriority(getTicketPriority(ticket)), inline: true }
               )
               .setTimestamp();
             await logChannel.send({ embeds: [logEmbed] });
@@ -1078,6 +1766,225 @@ export class TicketHandler implements InteractionHandler {
     }
   }
 
+  /**
+   * "Request Transfer" on a claimed ticket: ask the claimer to hand the ticket to the staff member who clicked
+   */
+  async requestTransfer(interaction: ButtonInteraction, client: BotClient, ticketId: string): Promise<void> {
+    if (!interaction.deferred && !interaction.replied) {
+      await interaction.deferUpdate();
+    }
+    const refuse = (message: string) => interaction.followUp({
+      content: `<:tcet_cross:1437995480754946178> ${message}`,
+      flags: 1 << 6 // MessageFlags.Ephemeral
+    });
+
+    const ticket = await client.db.get<TicketData>(ticketId);
+    if (!ticket || ticket.state !== 'open') {
+      await refuse('Only open tickets can be transferred.');
+      return;
+    }
+
+    const panel = await client.db.get<PanelData>(ticket.panelId);
+    const hasManageChannels = interaction.memberPermissions?.has('ManageChannels') || false;
+    if (!panel || !PermissionHelper.isStaff(interaction.member, panel, hasManageChannels)) {
+      await refuse('**Only staff members can request a transfer.**');
+      return;
+    }
+    if (!ticket.claimedBy) {
+      await refuse('This ticket is not claimed. Claim it instead.');
+      return;
+    }
+    if (ticket.claimedBy === interaction.user.id) {
+      await refuse('You already handle this ticket. Use `/ticket transfer` to hand it to someone else.');
+      return;
+    }
+
+    const channel = await client.channels.fetch(ticket.channelId).catch(() => null);
+    if (!PermissionHelper.isTicketChannel(channel)) return;
+
+    const requestEmbed = new EmbedBuilder()
+      .setTitle('🔁 Transfer Requested')
+      .setDescription(`<@${interaction.user.id}> would like to take over this ticket from <@${ticket.claimedBy}>.`)
+      .setColor(0xFEE75C)
+      .setTimestamp();
+    const answerRow = new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(`ticket:transfer-accept:${ticket.id}:${interaction.user.id}:${ticket.claimedBy}`)
+        .setLabel('Accept')
+        .setEmoji('<:tcet_tick:1437995479567962184>')
+        .setStyle(ButtonStyle.Success),
+      new ButtonBuilder()
+        .setCustomId(`ticket:transfer-decline:${ticket.id}:${interaction.user.id}:${ticket.claimedBy}`)
+        .setLabel('Decline')
+        .setEmoji('<:tcet_cross:1437995480754946178>')
+        .setStyle(ButtonStyle.Secondary)
+    );
+    await channel.send({ content: `<@${ticket.claimedBy}>`, embeds: [requestEmbed], components: [answerRow] });
+
+    await interaction.followUp({
+      content: `<:tcet_tick:1437995479567962184> Transfer requested from <@${ticket.claimedBy}>.`,
+      flags: 1 << 6 // MessageFlags.Ephemeral
+    });
+  }
+
+  /**
+   * Accept or decline on a transfer request. The claimer answers; senior staff (managers) may answer for them.
+   * A request only stands while the claimer it was sent to still holds the ticket.
+   */
+  async handleTransferAnswer(
+    interaction: ButtonInteraction,
+    client: BotClient,
+    ticketId: string,
+    requesterId: string,
+    claimerId: string,
+    accepted: boolean
+  ): Promise<void> {
+    if (!interaction.deferred && !interaction.replied) {
+      await interaction.deferUpdate();
+    }
+    const refuse = (message: string) => interaction.followUp({
+      content: `<:tcet_cross:1437995480754946178> ${message}`,
+      flags: 1 << 6 // MessageFlags.Ephemeral
+    });
+
+    const ticket = await client.db.get<TicketData>(ticketId);
+    const panel = ticket ? await client.db.get<PanelData>(ticket.panelId) : null;
+    if (!ticket || !panel || ticket.state !== 'open') {
+      await refuse('Only open tickets can be transferred.');
+      return;
+    }
+
+    if (ticket.claimedBy !== claimerId) {
+      await interaction.editReply({ components: [] });
+      await refuse(`This request is out of date: ${ticket.claimedBy ? `<@${ticket.claimedBy}>` : 'nobody'} handles the ticket now.`);
+      return;
+    }
+
+    const hasManageChannels = interaction.memberPermissions?.has('ManageChannels') || false;
+    const isManager = PermissionHelper.hasStaffLevel(interaction.member, panel, hasManageChannels, 'manager');
+    if (interaction.user.id !== ticket.claimedBy && !isManager) {
+      await refuse(`Only ${ticket.claimedBy ? `<@${ticket.claimedBy}>` : 'the claimer'} or senior staff can answer this request.`);
+      return;
+    }
+
+    const answered = (text: string) => new EmbedBuilder()
+      .setTitle('🔁 Transfer Requested')
+      .setDescription(`<@${requesterId}> asked to take over this ticket.\n${text}`)
+      .setColor(accepted ? 0x57F287 : 0xED4245)
+      .setTimestamp();
+
+    if (!accepted) {
+      await interaction.editReply({
+        content: null,
+        embeds: [answered(`<:tcet_cross:1437995480754946178> Declined by <@${interaction.user.id}>`)],
+        components: [],
+      });
+      return;
+    }
+
+    if (ticket.claimedBy === requesterId) {
+      await interaction.editReply({ components: [] });
+      return;
+    }
+
+    // Roles may have changed since the request was made
+    const requesterMember = await interaction.guild?.members.fetch(requesterId).catch(() => null);
+    const requesterHasManageChannels = requesterMember?.permissions.has(PermissionFlagsBits.ManageChannels) || false;
+    if (!requesterMember || !PermissionHelper.isStaff(requesterMember, panel, requesterHasManageChannels)) {
+      await interaction.editReply({ components: [] });
+      await refuse(`<@${requesterId}> is no longer a staff member of this panel.`);
+      return;
+    }
+
+    const channel = await client.channels.fetch(ticket.channelId).catch(() => null);
+    if (!PermissionHelper.isTicketChannel(channel)) return;
+
+    const requester = await client.users.fetch(requesterId);
+    await this.transferClaim(client, ticket, panel, channel, requester, interaction.user.id);
+    await interaction.editReply({
+      content: null,
+      embeds: [answered(`<:tcet_tick:1437995479567962184> Accepted by <@${interaction.user.id}>`)],
+      components: [],
+    });
+  }
+
+  /**
+   * Hand a ticket's claim to another staff member: rename the channel, pass the claimer's own overwrite on,
+   * notify the new assignee and log the handoff. Also assigns tickets nobody has claimed yet.
+   */
+  async transferClaim(
+    client: BotClient,
+    ticket: TicketData,
+    panel: PanelData,
+    channel: TicketChannel,
+    to: { id: string; username: string },
+    transferredBy: string
+  ): Promise<void> {
+    const previous = ticket.claimedBy;
+    ticket.claimedBy = to.id;
+    await client.db.save(ticket);
+    await recordTicketEvent(client, ticket, 'transferred', transferredBy, {
+      panelId: ticket.panelId,
+      previousClaimer: previous,
+      claimedBy: to.id,
+      forced: !!previous && transferredBy !== previous && transferredBy !== to.id,
+    });
+
+    // Permissions the previous claimer held only as the claimer move to the new one.
+    // Owners and participants keep theirs, as those were not granted by the claim.
+    // Thread tickets have no overwrites; the new assignee only has to be in the thread.
+    if (PermissionHelper.isThread(channel)) {
+      await channel.members.add(to.id).catch((error: Error) => {
+        ErrorHandler.warn(`Could not add the new claimer to ${ticket.id}: ${error.message}`);
+      });
+    } else {
+      const claimOverwrite = previous && !keepsOwnAccess(ticket, previous) ? channel.permissionOverwrites.cache.get(previous) : undefined;
+      if (claimOverwrite) {
+        await channel.permissionOverwrites.delete(previous!).catch((error: Error) => {
+          ErrorHandler.warn(`Could not remove the previous claimer from ${ticket.id}: ${error.message}`);
+        });
+        await channel.permissionOverwrites.create(to.id, claimerOverwrite(panel));
+      }
+    }
+    await applyExclusiveClaim(ticket, panel, channel);
+
+    const newName = withPriorityPrefix(`claimed-${to.username}`.toLowerCase().replace(/[^a-z0-9-]/g, '-'), ticket.priority);
+    await this.safeChannelOperation<TicketChannel>(channel.id, () => channel.setName(newName), 'TRANSFER_RENAME');
+    await this.updateWelcomeMessageButtons(channel, ticket, panel);
+
+    const transferEmbed = new EmbedBuilder()
+      .setTitle('🔁 Ticket Transferred')
+      .setDescription(previous
+        ? `This ticket was handed from <@${previous}> to <@${to.id}> by <@${transferredBy}>`
+        : `This ticket was assigned to <@${to.id}> by <@${transferredBy}>`)
+      .setColor(0x5865F2)
+      .setTimestamp();
+    await channel.send({ content: `<@${to.id}>`, embeds: [transferEmbed] });
+
+    if (panel.logsChannel) {
+      try {
+        const logChannel = await client.channels.fetch(panel.logsChannel);
+        if (logChannel?.isTextBased() && 'send' in logChannel) {
+          const logEmbed = new EmbedBuilder()
+            .setTitle('🔁 Ticket Transferred')
+            .setColor(0x5865F2)
+            .addFields(
+              { name: 'Ticket', value: `<#${channel.id}>`, inline: true },
+              { name: 'From', value: previous ? `<@${previous}>` : 'Unclaimed', inline: true },
+              { name: 'To', value: `<@${to.id}>`, inline: true },
+              { name: 'Transferred By', value: `<@${transferredBy}>`, inline: true },
+              { name: 'Owner', value: `<@${ticket.owner}>`, inline: true },
+              { name: 'Panel', value: panel.name || 'Unknown', inline: true }
+            )
+            .setTimestamp();
+          await logChannel.send({ embeds: [logEmbed] });
+        }
+      } catch (error) {
+        ErrorHandler.handle(error as Error, 'Log ticket transfer');
+      }
+    }
+  }
+
   async generateTranscript(interaction: any, client: BotClient, ticketId: string): Promise<void> {
     const ticket = await client.db.get<TicketData>(ticketId);
     if (!ticket) {
@@ -1136,12 +2043,12 @@ export class TicketHandler implements InteractionHandler {
         return;
       }
 
-      if (!(channel instanceof TextChannel)) {
-        throw new Error('Channel is not a text channel');
+      if (!(channel instanceof TextChannel || channel instanceof ThreadChannel)) {
+        throw new Error('Channel is not a text channel or thread');
       }
 
       // Generate professional transcript using discord-html-transcripts
-      const ticketNumber = parseInt(ticket.id.split(':')[1]);
+      const ticketNumber = getTicketNumber(ticket);
       const owner = await client.users.fetch(ticket.owner);
       
       let staffName: string | undefined;
@@ -1164,7 +2071,10 @@ export class TicketHandler implements InteractionHandler {
         staffId,
         panelName: panel.name || 'Unknown Panel',
         createdAt: new Date(ticket.createdAt),
-        closedAt: ticket.closedAt ? new Date(ticket.closedAt) : undefined
+        closedAt: ticket.closedAt ? new Date(ticket.closedAt) : undefined,
+        participants: ticket.participants,
+        closeReason: ticket.closeReason,
+        threadParentId: PermissionHelper.isThread(channel) ? channel.parentId ?? undefined : undefined,
       };
 
       const attachment = await generateProfessionalTranscript(channel, transcriptOptions);
@@ -1202,6 +2112,9 @@ export class TicketHandler implements InteractionHandler {
         ErrorHandler.warn('Could not DM transcript to ticket owner');
       }
 
+      await recordTicketEvent(client, ticket, 'transcript', interaction.user.id);
+      await client.db.markTranscriptSent(ticket.id, new Date().toISOString());
+
       await interaction.followUp({
         content: '<:tcet_tick:1437995479567962184> Transcript generated and saved successfully!',
         flags: 1 << 6 // MessageFlags.Ephemeral
@@ -1227,7 +2140,7 @@ export class TicketHandler implements InteractionHandler {
     const panelId = interaction.values[0];
     const panel = await client.db.get<PanelData>(panelId);
 
-    if (!panel) {
+    if (!panel || panel.guildId !== interaction.guildId) {
       // Use editReply if already deferred (by router), otherwise reply
       if (interaction.deferred || interaction.replied) {
         await interaction.followUp({
@@ -1256,6 +2169,9 @@ export class TicketHandler implements InteractionHandler {
     }
 
     await client.db.delete(panelId);
+    if (panel.guildId) {
+      await refreshPanelGroups(client, panel.guildId, panelId);
+    }
 
     // Use editReply if already deferred (by router), otherwise reply
     if (interaction.deferred || interaction.replied) {
@@ -1272,72 +2188,180 @@ export class TicketHandler implements InteractionHandler {
   }
 
   private async autoGenerateTranscript(
-    channel: TextChannel,
+    channel: TicketChannel,
     ticket: TicketData,
     panel: PanelData,
     client: BotClient
   ): Promise<void> {
     try {
-      // Generate professional transcript using discord-html-transcripts
-      const ticketNumber = parseInt(ticket.id.split(':')[1]);
-      const owner = await client.users.fetch(ticket.owner);
-      
-      let staffName: string | undefined;
-      let staffId: string | undefined;
-      if (ticket.claimedBy) {
-        try {
-          const staff = await client.users.fetch(ticket.claimedBy);
-          staffName = staff.username;
-          staffId = staff.id;
-        } catch (error) {
-        }
-      }
-
-      const transcriptOptions: TranscriptOptions = {
-        ticketId: ticket.id,
-        ticketNumber,
-        username: owner.username,
-        userId: owner.id,
-        staffName,
-        staffId,
-        panelName: panel.name || 'Unknown Panel',
-        createdAt: new Date(ticket.createdAt),
-        closedAt: ticket.closedAt ? new Date(ticket.closedAt) : undefined
-      };
+      // Note: Transcripts are NOT sent to logs channel, only to transcript channel
+      // Logs channel is for ticket events (open, close, claim, etc.)
+      await this.deliverTranscript(client, ticket, panel, channel, {
+        dmMessage: '<:module:1437997093753983038> Your ticket has been closed. Here is the transcript:',
+      }, undefined, { automatic: true });
+    } catch (error) {
+      ErrorHandler.handle(error as Error, 'Auto-generate transcript');
+    }
+  }
 
-      const attachment = await generateProfessionalTranscript(channel, transcriptOptions);
-      const transcriptEmbed = createTranscriptEmbed(transcriptOptions);
+  /**
+   * Generate a transcript and send it to the panel's transcript channel and the owner's DMs.
+   * Returns whether at least one copy arrived (and records that on the ticket); generation errors propagate.
+   */
+  async deliverTranscript(
+    client: BotClient,
+    ticket: TicketData,
+    panel: PanelData | null,
+    channel: TicketChannel,
+    messages: { channelNote?: string; dmMessage: string },
+    actorId?: string,
+    payload: Record<string, any> = {}
+  ): Promise<boolean> {
+    // Generate professional transcript using discord-html-transcripts
+    const ticketNumber = getTicketNumber(ticket);
+    const owner = await client.users.fetch(ticket.owner);
+
+    let staffName: string | undefined;
+    let staffId: string | undefined;
+    if (ticket.claimedBy) {
+      try {
+        const staff = await client.users.fetch(ticket.claimedBy);
+        staffName = staff.username;
+        staffId = staff.id;
+      } catch (error) {
+      }
+    }
 
-      if (panel.transcriptChannel) {
-        try {
-          const transcriptChannel = await client.channels.fetch(panel.transcriptChannel);
-          if (transcriptChannel?.isTextBased() && 'send' in transcriptChannel) {
-            await transcriptChannel.send({ embeds: [transcriptEmbed], files: [attachment] });
-          }
-        } catch (error) {
-          ErrorHandler.handle(error as Error, 'Send transcript to channel');
+    const transcriptOptions: TranscriptOptions = {
+      ticketId: ticket.id,
+      ticketNumber,
+      username: owner.username,
+      userId: owner.id,
+      staffName,
+      staffId,
+      panelName: panel?.name || 'Unknown Panel',
+      createdAt: new Date(ticket.createdAt),
+      closedAt: ticket.closedAt ? new Date(ticket.closedAt) : undefined,
+      participants: ticket.participants,
+      closeReason: ticket.closeReason,
+      threadParentId: PermissionHelper.isThread(channel) ? channel.parentId ?? undefined : undefined,
+    };
+
+    const attachment = await generateProfessionalTranscript(channel, transcriptOptions);
+    const transcriptEmbed = createTranscriptEmbed(transcriptOptions);
+    let delivered = false;
+
+    if (panel?.transcriptChannel) {
+      try {
+        const transcriptChannel = await client.channels.fetch(panel.transcriptChannel);
+        if (transcriptChannel?.isTextBased() && 'send' in transcriptChannel) {
+          await transcriptChannel.send({ content: messages.channelNote, embeds: [transcriptEmbed], files: [attachment] });
+          delivered = true;
         }
+      } catch (error) {
+        ErrorHandler.handle(error as Error, 'Send transcript to channel');
       }
+    }
 
-      // Note: Transcripts are NOT sent to logs channel, only to transcript channel
-      // Logs channel is for ticket events (open, close, claim, etc.)
-
+    if (ticket.modmail) {
+      // The owner already has the conversation in their DMs, and the channel also holds staff-only notes
+      delivered = true;
+    } else {
       try {
-        const owner = await client.users.fetch(ticket.owner);
         await owner.send({
-          content: `<:module:1437997093753983038> Your ticket has been closed. Here is the transcript:`,
+          content: messages.dmMessage,
           embeds: [transcriptEmbed],
           files: [attachment],
         });
+        delivered = true;
       } catch (error) {
         ErrorHandler.warn('Could not DM transcript to ticket owner');
       }
-    } catch (error) {
-      ErrorHandler.handle(error as Error, 'Auto-generate transcript');
+    }
+
+    await recordTicketEvent(client, ticket, 'transcript', actorId, { ...payload, delivered });
+
+    if (delivered) {
+      ticket.transcriptSentAt = new Date().toISOString();
+      await client.db.markTranscriptSent(ticket.id, ticket.transcriptSentAt);
+    }
+
+    return delivered;
+  }
+
+  /**
+   * First half of deleting a ticket: make sure a closed ticket's transcript was delivered, then log the deletion.
+   * Returns false (and deletes nothing) when the transcript could not be delivered.
+   */
+  async archiveBeforeDelete(
+    client: BotClient,
+    ticket: TicketData,
+    panel: PanelData | null,
+    channel: any,
+    deletedBy?: string,
+    reason?: string
+  ): Promise<boolean> {
+    // A transcript sent after the last close already holds every message
+    const transcriptCurrent = !!ticket.transcriptSentAt && !!ticket.closedAt && ticket.transcriptSentAt >= ticket.closedAt;
+
+    if (ticket.state === 'closed' && !transcriptCurrent) {
+      const delivered = channel instanceof TextChannel || channel instanceof ThreadChannel
+        ? await this.deliverTranscript(client, ticket, panel, channel as TicketChannel, {
+            channelNote: '🗑️ **Ticket Deleted - Transcript Saved**',
+            dmMessage: '🗑️ **Your ticket has been deleted.** Here is the transcript:',
+          }, deletedBy, { beforeDelete: true })
+        : false;
+
+      // Staff asked for this deletion explicitly; the sweeper waits until a transcript gets through
+      if (!delivered && !deletedBy) {
+        return false;
+      }
+    }
+
+    // Log to logs channel before deleting
+    if (panel?.logsChannel && 'name' in channel) {
+      try {
+        const logChannel = await client.channels.fetch(panel.logsChannel);
+        if (logChannel?.isTextBased() && 'send' in logChannel) {
+          const logEmbed = new EmbedBuilder()
+            .setTitle('🗑️ Ticket Deleted')
+            .setColor(0xED4245)
+            .addFields(
+              { name: 'Ticket', value: `\`#${channel.name}\``, inline: true },
+              { name: 'Deleted By', value: deletedBy ? `<@${deletedBy}>` : 'Automatically', inline: true },
+              { name: 'Owner', value: `<@${ticket.owner}>`, inline: true },
+              { name: 'Ticket ID', value: `\`${ticket.id}\``, inline: true },
+              { name: 'State', value: ticket.state, inline: true },
+              { name: 'Panel', value: panel.name || 'Unknown', inline: true },
+              { name: 'Priority', value: formatPriority(getTicketPriority(ticket)), inline: true }
+            )
+            .setTimestamp();
+          if (reason) {
+            logEmbed.addFields({ name: 'Reason', value: reason, inline: false });
+          }
+          await logChannel.send({ embeds: [logEmbed] });
+        }
+      } catch (error) {
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Second half of deleting a ticket: drop the record and the channel. History events are kept.
+   */
+  async removeTicket(client: BotClient, ticket: TicketData, channel: any, deletedBy?: string, reason?: string): Promise<void> {
+    await client.db.delete(ticket.id);
+    await recordTicketEvent(client, ticket, 'deleted', deletedBy, reason ? { state: ticket.state, reason } : { state: ticket.state });
+
+    if (channel) {
+      await channel.delete();
     }
   }
 
-  private createTicketButtons(ticketId: string, panel: PanelData): ActionRowBuilder<ButtonBuilder>[] {
+  private createTicketButtons(ticket: TicketData, panel: PanelData): ActionRowBuilder<ButtonBuilder | StringSelectMenuBuilder>[] {
+    const ticketId = ticket.id;
     const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
       new ButtonBuilder()
         .setCustomId(`ticket:close:${ticketId}`)
@@ -1346,7 +2370,15 @@ export class TicketHandler implements InteractionHandler {
         .setStyle(ButtonStyle.Danger)
     );
 
-    if (panel.claimable) {
+    if (panel.claimable && ticket.claimedBy) {
+      row.addComponents(
+        new ButtonBuilder()
+          .setCustomId(`ticket:transfer-request:${ticketId}`)
+          .setLabel('Request Transfer')
+          .setEmoji('🔁')
+          .setStyle(ButtonStyle.Secondary)
+      );
+    } else if (panel.claimable) {
       row.addComponents(
         new ButtonBuilder()
           .setCustomId(`ticket:claim:${ticketId}`)
@@ -1356,7 +2388,7 @@ export class TicketHandler implements InteractionHandler {
       );
     }
 
-    return [row];
+    return [row, createPrioritySelect(ticket)];
   }
 
   private createClosedTicketButtons(ticketId: string): ActionRowBuilder<ButtonBuilder>[] {
@@ -1413,7 +2445,7 @@ export class TicketHandler implements InteractionHandler {
     }
   }
 
-  private async updateWelcomeMessageButtons(channel: any, ticket: TicketData, panel: PanelData): Promise<void> {
+  async updateWelcomeMessageButtons(channel: any, ticket: TicketData, panel: PanelData): Promise<void> {
     try {
       
       if (!ticket.welcomeMessageId) {
@@ -1428,16 +2460,25 @@ export class TicketHandler implements InteractionHandler {
         return;
       }
 
-      // Update with open ticket buttons
-      const buttons = this.createTicketButtons(ticket.id, panel);
-      await welcomeMsg.edit({ components: buttons }).catch((err: any) => {
+      // Update with open ticket buttons, dropping the reason left by the last close
+      const buttons = this.createTicketButtons(ticket, panel);
+      const embeds = welcomeMsg.embeds.length > 0
+        ? [EmbedBuilder.from(welcomeMsg.embeds[0]).setFields(withoutCloseReason(welcomeMsg.embeds[0])), ...welcomeMsg.embeds.slice(1)]
+        : undefined;
+      await welcomeMsg.edit({ embeds, components: buttons }).catch((err: any) => {
       });
     } catch (error) {
       ErrorHandler.warn('Could not update welcome message buttons');
     }
   }
 
-  private async updateWelcomeMessageForClosed(channel: any, ticket: TicketData, closedByUserId: string, botUsername?: string): Promise<void> {
+  private async updateWelcomeMessageForClosed(
+    channel: any,
+    ticket: TicketData,
+    closedByUserId?: string,
+    botUsername?: string,
+    reason?: string
+  ): Promise<void> {
     try {
       
       if (!ticket.welcomeMessageId) {
@@ -1460,7 +2501,11 @@ export class TicketHandler implements InteractionHandler {
       
       if (existingEmbeds.length > 0) {
         const embed = EmbedBuilder.from(existingEmbeds[0]);
-        embed.setFooter({ text: `Closed by user ${closedByUserId} • Powered by ${botUsername || 'Ticket Bot'}` });
+        embed.setFooter({ text: `${closedByUserId ? `Closed by user ${closedByUserId}` : 'Closed automatically'} • Powered by ${botUsername || 'Ticket Bot'}` });
+        embed.setFields(withoutCloseReason(embed));
+        if (reason) {
+          embed.addFields({ name: CLOSE_REASON_FIELD, value: reason.slice(0, 1024), inline: false });
+        }
         
         await welcomeMsg.edit({ 
           embeds: [embed],
@@ -1493,7 +2538,7 @@ export class TicketHandler implements InteractionHandler {
 
     for (const ticketId of ticketIds) {
       const ticket = await client.db.get(ticketId) as TicketData | null;
-      if (!ticket) continue;
+      if (!ticket || ticket.guildId !== interaction.guildId) continue;
 
       // Try to delete the channel
       try {
@@ -1508,6 +2553,7 @@ export class TicketHandler implements InteractionHandler {
 
       // Delete ticket data from database
       await client.db.delete(ticketId);
+      await recordTicketEvent(client, ticket, 'deleted', interaction.user.id, { cleared: true, state: ticket.state });
       deletedData++;
     }
 
@@ -1531,9 +2577,9 @@ export class TicketHandler implements InteractionHandler {
       await interaction.deferUpdate();
     }
 
-    // Get all tickets for this user
-    const allTickets = await client.db.getAllTickets();
-    const userTickets = allTickets.filter((t: any) => t.owner === userId);
+    // Get all tickets for this user in this server
+    const guildTickets = await client.db.getTicketsByGuild(interaction.guildId!);
+    const userTickets = guildTickets.filter((t: any) => t.owner === userId);
 
     let deletedChannels = 0;
     let deletedData = 0;
@@ -1552,6 +2598,7 @@ export class TicketHandler implements InteractionHandler {
 
       // Delete ticket data from database
       await client.db.delete(ticket.id);
+      await recordTicketEvent(client, ticket, 'deleted', interaction.user.id, { cleared: true, state: ticket.state });
       deletedData++;
     }
 
@@ -0,0 +1,189 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  EmbedBuilder,
+  Message,
+} from 'discord.js';
+import { BotClient } from '../../core/client';
+import { PanelData, TicketData } from '../../core/db/storage';
+import { ErrorHandler } from '../../core/errorHandler';
+import { PermissionHelper } from '../../core/permissionHelper';
+import { TicketHandler } from './ticketHandler';
+import { checkSlaBreaches } from './sla';
+import { sendToModmailOwner } from './modmail';
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Applies each panel's time-based policies: inactivity auto-close and SLA breach warnings
+ * for open tickets, and retention for closed ones. All state lives on the ticket rows (lastActivityAt,
+ * inactivityWarnedAt, closedAt), so a restart simply resumes on the next sweep
+ * instead of losing in-process timers.
+ */
+export class TicketScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private sweeping = false;
+
+  constructor(
+    private ticketHandler: TicketHandler = new TicketHandler(),
+    private intervalMs: number = 5 * 60 * 1000
+  ) {}
+
+  /**
+   * Start sweeping periodically; the first sweep runs immediately
+   */
+  start(client: BotClient): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.sweep(client), this.intervalMs);
+    this.timer.unref();
+    void this.sweep(client);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Warn, close or delete every ticket that is past its panel's thresholds.
+   * Overlapping sweeps are skipped, so a slow Discord API cannot pile them up.
+   */
+  async sweep(client: BotClient, now: Date = new Date()): Promise<void> {
+    if (this.sweeping || !client.db.isConnectionReady()) return;
+    this.sweeping = true;
+
+    try {
+      const panels = await client.db.getAllPanels();
+      for (const panel of panels) {
+        const hasInactivityPolicy = !!(panel.inactivity?.warnAfterHours || panel.inactivity?.closeAfterHours);
+        const hasSla = !!(panel.sla?.firstResponseMinutes || panel.sla?.resolutionHours);
+        if (!hasInactivityPolicy && !hasSla && !panel.deleteClosedAfterHours) continue;
+
+        const tickets = await client.db.getTicketsByPanel(panel.id);
+        for (const ticket of tickets) {
+          try {
+            if (ticket.state === 'open') {
+              if (hasSla) await checkSlaBreaches(client, ticket, panel, now);
+              if (hasInactivityPolicy) await this.applyInactivityPolicy(client, ticket, panel, now);
+            } else if (ticket.state === 'closed' && panel.deleteClosedAfterHours) {
+              await this.applyRetentionPolicy(client, ticket, panel, now);
+            }
+          } catch (error) {
+            ErrorHandler.handle(error as Error, `Scheduled check (${ticket.id})`);
+          }
+        }
+      }
+    } catch (error) {
+      ErrorHandler.handle(error as Error, 'Ticket scheduler sweep');
+    } finally {
+      this.sweeping = false;
+    }
+  }
+
+  private async applyInactivityPolicy(client: BotClient, ticket: TicketData, panel: PanelData, now: Date): Promise<void> {
+    const { warnAfterHours, closeAfterHours } = panel.inactivity!;
+    const idleMs = now.getTime() - new Date(ticket.lastActivityAt || ticket.createdAt).getTime();
+
+    if (warnAfterHours && !ticket.inactivityWarnedAt && idleMs >= warnAfterHours * HOUR) {
+      await this.warn(client, ticket, panel, now);
+      return;
+    }
+
+    if (!closeAfterHours || idleMs < closeAfterHours * HOUR) return;
+
+    // The owner always gets the full grace period after the warning, even if the bot was offline when it was due
+    if (warnAfterHours) {
+      const graceMs = (closeAfterHours - warnAfterHours) * HOUR;
+      if (!ticket.inactivityWarnedAt || now.getTime() - new Date(ticket.inactivityWarnedAt).getTime() < graceMs) return;
+    }
+
+    const channel = await client.channels.fetch(ticket.channelId).catch(() => null);
+    if (!PermissionHelper.isTicketChannel(channel)) return;
+
+    await this.ticketHandler.closeTicketChannel(
+      client,
+      ticket,
+      panel,
+      channel,
+      undefined,
+      `No reply from the ticket owner for ${closeAfterHours} hours.`
+    );
+  }
+
+  private async applyRetentionPolicy(client: BotClient, ticket: TicketData, panel: PanelData, now: Date): Promise<void> {
+    if (!ticket.closedAt) return;
+    if (now.getTime() - new Date(ticket.closedAt).getTime() < panel.deleteClosedAfterHours! * HOUR) return;
+
+    const reason = `Closed for more than ${panel.deleteClosedAfterHours} hours.`;
+    const channel = await client.channels.fetch(ticket.channelId).catch((error: any) => {
+      // Only "Unknown Channel" means it is gone; anything else may be transient, so retry next sweep
+      if (error?.code === 10003) return null;
+      throw error;
+    });
+
+    // Channel already removed by hand: nothing left to archive, just drop the record
+    if (!channel) {
+      await this.ticketHandler.removeTicket(client, ticket, null, undefined, reason);
+      return;
+    }
+
+    const archived = await this.ticketHandler.archiveBeforeDelete(client, ticket, panel, channel, undefined, reason);
+    if (!archived) {
+      ErrorHandler.warn(`Keeping ${ticket.id} until its transcript can be delivered`);
+      return;
+    }
+
+    await this.ticketHandler.removeTicket(client, ticket, channel, undefined, reason);
+  }
+
+  private async warn(client: BotClient, ticket: TicketData, panel: PanelData, now: Date): Promise<void> {
+    const channel = await client.channels.fetch(ticket.channelId).catch(() => null);
+    if (!PermissionHelper.isTicketChannel(channel)) return;
+
+    const { warnAfterHours, closeAfterHours } = panel.inactivity!;
+    const closeNote = closeAfterHours
+      ? `\n\nIt will be closed automatically <t:${Math.floor((now.getTime() + (closeAfterHours - warnAfterHours!) * HOUR) / 1000)}:R> unless you reply or press the button below.`
+      : '';
+
+    const embed = new EmbedBuilder()
+      .setTitle('<:caution:1437997212008185866> Are you still there?')
+      .setDescription(`We haven't heard from you in **${warnAfterHours} hours**.${closeNote}`)
+      .setColor(0xFEE75C)
+      .setTimestamp();
+
+    const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(`ticket:still-active:${ticket.id}`)
+        .setLabel('Still need help')
+        .setEmoji('<:tcet_tick:1437995479567962184>')
+        .setStyle(ButtonStyle.Success)
+    );
+
+    // Modmail owners cannot see the channel, so they are asked by DM
+    const sentByDm = ticket.modmail && !!(await sendToModmailOwner(client, ticket, { embeds: [embed], components: [row] }));
+    if (!sentByDm) {
+      await channel.send({ content: `<@${ticket.owner}>`, embeds: [embed], components: [row] });
+    }
+
+    // A reply while the ping was being sent already reset the clock, so the warning no longer applies
+    await client.db.markInactivityWarned(ticket.id, now.toISOString(), ticket.lastActivityAt);
+  }
+
+  /**
+   * Reset the inactivity clock when the ticket owner writes in their ticket
+   */
+  async recordActivity(message: Message, client: BotClient): Promise<void> {
+    if (message.author.bot || !message.guildId) return;
+
+    const ticket = await client.db.getTicketByChannel(message.channelId);
+    if (!ticket || ticket.state !== 'open' || ticket.owner !== message.author.id) return;
+
+    await client.db.touchTicketActivity(ticket.id, message.createdAt.toISOString());
+  }
+}
+
+export const ticketScheduler = new TicketScheduler();
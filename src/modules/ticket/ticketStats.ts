@@ -0,0 +1,280 @@
+import { ActionRowBuilder, ButtonBuilder, ButtonInteraction, ButtonStyle, EmbedBuilder } from 'discord.js';
+import { BotClient } from '../../core/client';
+import { PanelData } from '../../core/db/storage';
+import { ErrorHandler } from '../../core/errorHandler';
+import { InteractionHandler } from '../../core/interactionRouter';
+import { formatAverageRating } from './ratings';
+
+const PAGE_SIZE = 8;
+
+export type StatsView = 'guild' | 'panel' | 'staff';
+
+/**
+ * What a stats report covers. Panel views need a panel; staff views without a member rank all staff.
+ */
+export interface StatsQuery {
+  view: StatsView;
+  targetId?: string;
+  since?: string;
+  until?: string;
+}
+
+interface Average {
+  total: number;
+  count: number;
+}
+
+export interface TicketStats {
+  opened: number;
+  claimed: number;
+  closed: number;
+  backlog: number;
+  timeToClaim: Average;
+  resolution: Average;
+  rating: Average; // Survey stars, counted for whoever had claimed the ticket
+}
+
+export interface StatsReport {
+  summary: TicketStats;
+  /** Per panel for guild and member views, per staff member for panel views and the staff ranking */
+  breakdown: Map<string, TicketStats>;
+}
+
+const emptyStats = (): TicketStats => ({
+  opened: 0,
+  claimed: 0,
+  closed: 0,
+  backlog: 0,
+  timeToClaim: { total: 0, count: 0 },
+  resolution: { total: 0, count: 0 },
+  rating: { total: 0, count: 0 },
+});
+
+/**
+ * Claims, closes, response times and ratings for tickets in a date range, plus the current open backlog.
+ * Built from the audit trail so deleted tickets still count; each claim and close is counted for the staff member who did it.
+ */
+export async function computeTicketStats(client: BotClient, guildId: string, query: StatsQuery): Promise<StatsReport> {
+  const report: StatsReport = { summary: emptyStats(), breakdown: new Map() };
+  const breakdownByStaff = query.view === 'panel' || (query.view === 'staff' && !query.targetId);
+
+  const inScope = (panelId: string | undefined, staffId: string | undefined): boolean => {
+    if (query.view === 'panel') return panelId === query.targetId;
+    if (query.view === 'staff' && query.targetId) return staffId === query.targetId;
+    return true;
+  };
+
+  const bucketsFor = (panelId: string | undefined, staffId: string | undefined): TicketStats[] => {
+    if (!inScope(panelId, staffId)) return [];
+
+    const key = breakdownByStaff ? staffId : panelId;
+    if (!key) return [report.summary];
+    if (!report.breakdown.has(key)) report.breakdown.set(key, emptyStats());
+    return [report.summary, report.breakdown.get(key)!];
+  };
+
+  // Creation times and panels come from the live records first, then the audit trail for deleted tickets
+  const tickets = await client.db.getTicketsByGuild(guildId);
+  const origins = new Map(tickets.map(ticket => [ticket.id, { panelId: ticket.panelId, openedAt: ticket.createdAt }]));
+
+  const events = await client.db.getGuildEvents(guildId, { until: query.until, types: ['created', 'claimed', 'closed', 'rated'] });
+  for (const event of events) {
+    if (event.type === 'created' && !origins.has(event.ticketId)) {
+      origins.set(event.ticketId, { panelId: event.payload.panelId, openedAt: event.createdAt });
+    }
+  }
+
+  const claimedTickets = new Set<string>();
+  for (const event of events) {
+    const origin = origins.get(event.ticketId);
+    const sinceOpened = origin ? new Date(event.createdAt).getTime() - new Date(origin.openedAt).getTime() : null;
+    const isFirstClaim = event.type === 'claimed' && !claimedTickets.has(event.ticketId);
+    if (event.type === 'claimed') claimedTickets.add(event.ticketId);
+
+    if (query.since && event.createdAt < query.since) continue;
+
+    const panelId = origin?.panelId ?? event.payload.panelId;
+    if (event.type === 'created') {
+      for (const stats of bucketsFor(panelId, undefined)) stats.opened++;
+    } else if (event.type === 'claimed') {
+      for (const stats of bucketsFor(panelId, event.actorId)) {
+        stats.claimed++;
+        if (isFirstClaim && sinceOpened !== null) addSample(stats.timeToClaim, sinceOpened);
+      }
+    } else if (event.type === 'closed') {
+      for (const stats of bucketsFor(panelId, event.actorId)) {
+        stats.closed++;
+        if (sinceOpened !== null) addSample(stats.resolution, sinceOpened);
+      }
+    } else {
+      for (const stats of bucketsFor(panelId, event.payload.staffId)) addSample(stats.rating, event.payload.stars);
+    }
+  }
+
+  for (const ticket of tickets.filter(ticket => ticket.state === 'open')) {
+    for (const stats of bucketsFor(ticket.panelId, ticket.claimedBy)) stats.backlog++;
+  }
+
+  return report;
+}
+
+function addSample(average: Average, value: number): void {
+  average.total += Math.max(0, value);
+  average.count++;
+}
+
+/**
+ * "2d 4h", "3h 12m", "14m" or "<1m"
+ */
+export function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 1) return '<1m';
+
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days > 0) return hours ? `${days}d ${hours}h` : `${days}d`;
+  if (hours > 0) return minutes % 60 ? `${hours}h ${minutes % 60}m` : `${hours}h`;
+  return `${minutes}m`;
+}
+
+function formatAverage(average: Average): string {
+  return average.count > 0 ? formatDuration(average.total / average.count) : 'N/A';
+}
+
+function formatRange(query: StatsQuery): string {
+  const day = (iso: string): string => iso.slice(0, 10);
+  if (query.since && query.until) return `${day(query.since)} → ${day(new Date(new Date(query.until).getTime() - 1).toISOString())}`;
+  if (query.since) return `Since ${day(query.since)}`;
+  if (query.until) return `Until ${day(new Date(new Date(query.until).getTime() - 1).toISOString())}`;
+  return 'All time';
+}
+
+/**
+ * Page custom ID. Times are kept as epoch seconds so the whole query fits in 100 characters.
+ * Panel IDs contain a colon themselves, so the target is whatever sits between the view and the times.
+ */
+function pageCustomId(query: StatsQuery, page: number): string {
+  const seconds = (iso?: string): string => (iso ? String(Math.floor(new Date(iso).getTime() / 1000)) : '-');
+  return `stats:page:${query.view}:${query.targetId || '-'}:${seconds(query.since)}:${seconds(query.until)}:${page}`;
+}
+
+function parsePageCustomId(parts: string[]): { query: StatsQuery; page: number } {
+  const iso = (seconds: string): string | undefined => (seconds === '-' ? undefined : new Date(parseInt(seconds, 10) * 1000).toISOString());
+  const targetId = parts.slice(3, -3).join(':');
+  const [since, until, page] = parts.slice(-3);
+  return {
+    query: {
+      view: parts[2] as StatsView,
+      targetId: targetId === '-' ? undefined : targetId,
+      since: iso(since),
+      until: iso(until),
+    },
+    page: parseInt(page, 10) || 0,
+  };
+}
+
+/**
+ * One page of a stats report: the totals first, then the breakdown a few entries at a time
+ */
+export async function buildStatsPage(
+  client: BotClient,
+  guildId: string,
+  query: StatsQuery,
+  page: number
+): Promise<{ embeds: EmbedBuilder[]; components: ActionRowBuilder<ButtonBuilder>[] }> {
+  const report = await computeTicketStats(client, guildId, query);
+  const panels = await client.db.getPanelsByGuild(guildId);
+  const panelNames = new Map(panels.map((panel: PanelData) => [panel.id, panel.name || 'Unknown Panel']));
+
+  const breakdownByStaff = query.view === 'panel' || (query.view === 'staff' && !query.targetId);
+  const entries = [...report.breakdown.entries()]
+    .sort(([, a], [, b]) => b.closed - a.closed || b.claimed - a.claimed || b.opened - a.opened);
+  const pageCount = 1 + Math.ceil(entries.length / PAGE_SIZE);
+  const current = Math.min(Math.max(page, 0), pageCount - 1);
+
+  const scope = query.view === 'panel'
+    ? panelNames.get(query.targetId!) || 'Unknown Panel'
+    : query.view === 'staff' ? (query.targetId ? 'Staff Member' : 'Staff') : 'Server';
+
+  const embed = new EmbedBuilder()
+    .setTitle(`<:module:1437997093753983038> Ticket Stats: ${scope}`)
+    .setColor(0x5865F2)
+    .setFooter({ text: `Page ${current + 1}/${pageCount} • ${formatRange(query)}` })
+    .setTimestamp();
+
+  if (current === 0) {
+    const { summary } = report;
+    const isMember = query.view === 'staff' && !!query.targetId;
+    if (isMember) embed.setDescription(`<@${query.targetId}>`);
+
+    embed.addFields(
+      ...(isMember ? [] : [{ name: 'Opened', value: `${summary.opened}`, inline: true }]),
+      { name: 'Claimed', value: `${summary.claimed}`, inline: true },
+      { name: 'Closed', value: `${summary.closed}`, inline: true },
+      { name: isMember ? 'Claimed & Open' : 'Open Backlog', value: `${summary.backlog}`, inline: true },
+      { name: 'Avg Time to Claim', value: formatAverage(summary.timeToClaim), inline: true },
+      { name: 'Avg Resolution', value: formatAverage(summary.resolution), inline: true },
+      { name: 'Avg Rating', value: formatAverageRating(summary.rating.total, summary.rating.count), inline: true }
+    );
+  } else {
+    const lines = entries.slice((current - 1) * PAGE_SIZE, current * PAGE_SIZE).map(([key, stats]) => [
+      breakdownByStaff ? `**<@${key}>**` : `**${panelNames.get(key) || 'Deleted Panel'}**`,
+      [
+        breakdownByStaff ? null : `Opened ${stats.opened}`,
+        `Claimed ${stats.claimed}`,
+        `Closed ${stats.closed}`,
+        `${breakdownByStaff ? 'Claimed & open' : 'Backlog'} ${stats.backlog}`,
+      ].filter(Boolean).join(' • '),
+      `Avg claim ${formatAverage(stats.timeToClaim)} • Avg resolution ${formatAverage(stats.resolution)} • ` +
+        `Rating ${formatAverageRating(stats.rating.total, stats.rating.count)}`,
+    ].join('\n'));
+    embed.setDescription(lines.join('\n\n'));
+  }
+
+  const components = pageCount > 1
+    ? [
+        new ActionRowBuilder<ButtonBuilder>().addComponents(
+          new ButtonBuilder()
+            .setCustomId(pageCustomId(query, current - 1))
+            .setLabel('Previous')
+            .setStyle(ButtonStyle.Secondary)
+            .setDisabled(current === 0),
+          new ButtonBuilder()
+            .setCustomId(pageCustomId(query, current + 1))
+            .setLabel('Next')
+            .setStyle(ButtonStyle.Secondary)
+            .setDisabled(current === pageCount - 1)
+        ),
+      ]
+    : [];
+
+  return { embeds: [embed], components };
+}
+
+/**
+ * Page buttons for `/ticket stats`. The whole query lives in the custom ID, so pages keep working after a restart.
+ */
+export class StatsHandler implements InteractionHandler {
+  async execute(interaction: any, client: BotClient, parts: string[]): Promise<void> {
+    try {
+      if (parts[1] === 'page') {
+        await this.handlePage(interaction, client, parts);
+      }
+    } catch (error) {
+      ErrorHandler.handle(error as Error, 'StatsHandler');
+      await ErrorHandler.sendError(interaction);
+    }
+  }
+
+  async handlePage(interaction: ButtonInteraction, client: BotClient, parts: string[]): Promise<void> {
+    if (!interaction.guildId) return;
+
+    // Check if already deferred by router
+    if (!interaction.deferred && !interaction.replied) {
+      await interaction.deferUpdate();
+    }
+
+    const { query, page } = parsePageCustomId(parts);
+    await interaction.editReply(await buildStatsPage(client, interaction.guildId, query, page));
+  }
+}
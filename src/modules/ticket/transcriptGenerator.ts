@@ -1,5 +1,8 @@
-import { TextChannel, EmbedBuilder, AttachmentBuilder } from 'discord.js';
+import { EmbedBuilder, AttachmentBuilder } from 'discord.js';
 import * as discordTranscripts from 'discord-html-transcripts';
+import { TicketData, TicketParticipant } from '../../core/db/storage';
+import { TicketChannel } from '../../core/permissionHelper';
+import { formatParticipant } from './participants';
 
 export interface TranscriptOptions {
   ticketId: string;
@@ -11,6 +14,9 @@ export interface TranscriptOptions {
   panelName: string;
   createdAt: Date;
   closedAt?: Date;
+  participants?: TicketParticipant[];
+  closeReason?: string;
+  threadParentId?: string; // Set for thread tickets: the channel the thread lives in
 }
 
 /**
@@ -19,7 +25,7 @@ export interface TranscriptOptions {
  * Captures ALL messages, images, attachments, embeds, and formatting
  */
 export async function generateProfessionalTranscript(
-  channel: TextChannel,
+  channel: TicketChannel,
   options: TranscriptOptions
 ): Promise<AttachmentBuilder> {
   const {
@@ -61,7 +67,10 @@ export function createTranscriptEmbed(options: TranscriptOptions): EmbedBuilder
     staffId,
     panelName,
     createdAt,
-    closedAt
+    closedAt,
+    participants = [],
+    closeReason,
+    threadParentId
   } = options;
 
   const duration = closedAt 
@@ -102,6 +111,7 @@ export function createTranscriptEmbed(options: TranscriptOptions): EmbedBuilder
           `**Ticket ID:** \`${ticketId}\``,
           `**Ticket Number:** \`#${ticketNumber}\``,
           `**Panel:** ${panelName}`,
+          ...(threadParentId ? [`**Thread In:** <#${threadParentId}>`] : []),
           `**Duration:** ${durationText}`
         ].join('\n'),
         inline: false
@@ -114,7 +124,28 @@ export function createTranscriptEmbed(options: TranscriptOptions): EmbedBuilder
         ].join('\n'),
         inline: false
       }
-    )
+    );
+
+  if (closeReason) {
+    embed.addFields({
+      name: '<:tcet_cross:1437995480754946178> Close Reason',
+      value: closeReason.slice(0, 1024),
+      inline: false
+    });
+  }
+
+  if (participants.length > 0) {
+    embed.addFields({
+      name: '<:user_icon:1437995661378191493> Participants',
+      value: participants
+        .map(formatParticipant)
+        .join(', ')
+        .slice(0, 1024),
+      inline: false
+    });
+  }
+
+  embed
     .setFooter({ 
       text: `Ticket System | ${panelName}`
     })
@@ -124,8 +155,8 @@ export function createTranscriptEmbed(options: TranscriptOptions): EmbedBuilder
 }
 
 /**
- * Generates a 4-digit random ticket number
+ * Per-guild ticket number, falling back to the global ID for tickets created before numbering
  */
-export function generateTicketNumber(): number {
-  return Math.floor(1000 + Math.random() * 9000);
+export function getTicketNumber(ticket: TicketData): number {
+  return ticket.number ?? parseInt(ticket.id.split(':')[1]);
 }
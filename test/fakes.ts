@@ -0,0 +1,574 @@
+import { test } from 'node:test';
+import { ChannelType, Collection, GuildMember, PermissionFlagsBits, PermissionResolvable, PermissionsBitField } from 'discord.js';
+import { BotClient } from '../src/core/client';
+import MemoryDB from '../src/core/db/memoryDB';
+import SqliteDB from '../src/core/db/sqliteDB';
+import { StorageAdapter } from '../src/core/db/storage';
+
+/**
+ * Minimal stand-ins for the discord.js objects the handlers touch.
+ * They record what the bot did so tests can assert on it without a gateway connection.
+ */
+
+let nextSnowflake = 100000;
+const snowflake = (): string => `${nextSnowflake++}`;
+
+type PermissionName = keyof typeof PermissionFlagsBits;
+
+export interface FakeOverwrite {
+  id: string;
+  allow: bigint;
+  deny: bigint;
+}
+
+export class FakeUser {
+  readonly dms: any[] = [];
+  readonly tag: string;
+  readonly dmChannel: FakeDMChannel = new FakeDMChannel();
+  acceptsDms = true;
+  bot = false;
+
+  constructor(public id: string, public username: string) {
+    this.tag = username;
+  }
+
+  async send(payload: any): Promise<FakeMessage> {
+    if (!this.acceptsDms) throw new Error('Cannot send messages to this user');
+    this.dms.push(payload);
+    return this.dmChannel.send(payload);
+  }
+
+  displayAvatarURL(): string {
+    return `https://cdn.example/avatars/${this.id}.png`;
+  }
+}
+
+export class FakeMember {
+  readonly roles: { cache: Set<string> };
+  readonly permissions: PermissionsBitField;
+
+  constructor(public user: FakeUser, roleIds: string[] = [], permissions: PermissionResolvable[] = []) {
+    this.roles = { cache: new Set(roleIds) };
+    this.permissions = new PermissionsBitField(permissions);
+  }
+
+  get id(): string {
+    return this.user.id;
+  }
+
+  get displayName(): string {
+    return this.user.username;
+  }
+}
+// Commands narrow resolved options with `instanceof GuildMember`
+Object.setPrototypeOf(FakeMember.prototype, GuildMember.prototype);
+
+export class FakeMessage {
+  readonly id = snowflake();
+  readonly createdAt = new Date();
+  readonly partial = false;
+  embeds: any[];
+  components: any[];
+  files: any[];
+  content?: string;
+  deleted = false;
+  /** Set on messages a user wrote; the bot's own messages have none */
+  author: FakeUser | null = null;
+  member: FakeMember | null = null;
+  reference: { messageId: string } | null = null;
+  readonly attachments = new Collection<string, { url: string }>();
+  readonly reacted: string[] = [];
+
+  constructor(public channel: FakeTextChannel | FakeDMChannel | null, payload: any) {
+    this.content = payload.content;
+    this.embeds = payload.embeds || [];
+    this.components = payload.components || [];
+    this.files = payload.files || [];
+  }
+
+  get guild(): FakeGuild | null {
+    return this.channel instanceof FakeTextChannel ? this.channel.guild : null;
+  }
+
+  get guildId(): string | null {
+    return this.guild?.id ?? null;
+  }
+
+  get channelId(): string | undefined {
+    return this.channel?.id;
+  }
+
+  async react(emoji: string): Promise<void> {
+    this.reacted.push(emoji);
+  }
+
+  async reply(payload: any): Promise<FakeMessage> {
+    const reply = await this.channel!.send(payload);
+    reply.reference = { messageId: this.id };
+    return reply;
+  }
+
+  async edit(payload: any): Promise<FakeMessage> {
+    if (payload.content !== undefined) this.content = payload.content;
+    if (payload.embeds) this.embeds = payload.embeds;
+    if (payload.components) this.components = payload.components;
+    return this;
+  }
+
+  async delete(): Promise<void> {
+    this.deleted = true;
+    this.channel?.messageStore.delete(this.id);
+  }
+
+  /** Custom IDs of every button/select on the message */
+  get customIds(): string[] {
+    return this.components.flatMap((row: any) => row.toJSON().components.map((c: any) => c.custom_id));
+  }
+}
+
+/**
+ * The bot's DM channel with one user; everything the bot sends them lands here
+ */
+export class FakeDMChannel {
+  readonly id = snowflake();
+  readonly type = ChannelType.DM;
+  readonly messageStore: Map<string, FakeMessage> = new Map();
+
+  readonly messages = {
+    fetch: async (id: string): Promise<FakeMessage> => {
+      const message = this.messageStore.get(id);
+      if (!message) throw new Error('Unknown Message');
+      return message;
+    },
+  };
+
+  isTextBased(): boolean {
+    return true;
+  }
+
+  async send(payload: any): Promise<FakeMessage> {
+    const message = new FakeMessage(this, typeof payload === 'string' ? { content: payload } : payload);
+    this.messageStore.set(message.id, message);
+    return message;
+  }
+
+  get sentMessages(): FakeMessage[] {
+    return [...this.messageStore.values()];
+  }
+}
+
+export class FakeTextChannel {
+  readonly id = snowflake();
+  readonly type: ChannelType = ChannelType.GuildText;
+  readonly messageStore: Map<string, FakeMessage> = new Map();
+  readonly overwrites: Map<string, FakeOverwrite> = new Map();
+  topic?: string;
+  position?: number;
+  deleted = false;
+
+  readonly messages = {
+    fetch: async (id?: any): Promise<any> => {
+      if (typeof id === 'string') {
+        const message = this.messageStore.get(id);
+        if (!message) throw new Error('Unknown Message');
+        return message;
+      }
+      return new Collection([...this.messageStore.entries()]);
+    },
+  };
+
+  readonly permissionOverwrites = {
+    cache: this.overwrites,
+    create: async (id: string, options: Partial<Record<PermissionName, boolean | null>>) => {
+      this.overwrites.set(id, { id, allow: 0n, deny: 0n });
+      this.applyOverwriteOptions(id, options);
+    },
+    edit: async (id: string, options: Partial<Record<PermissionName, boolean | null>>) => {
+      if (!this.overwrites.has(id)) this.overwrites.set(id, { id, allow: 0n, deny: 0n });
+      this.applyOverwriteOptions(id, options);
+    },
+    delete: async (id: string) => {
+      this.overwrites.delete(id);
+    },
+  };
+
+  readonly threads = {
+    create: async (options: any): Promise<FakeThreadChannel> => {
+      const thread = new FakeThreadChannel(this.guild, options.name, this.id);
+      this.guild.client.channelStore.set(thread.id, thread);
+      return thread;
+    },
+  };
+
+  constructor(public guild: FakeGuild, public name: string, public parentId: string | null = null) {}
+
+  get guildId(): string {
+    return this.guild.id;
+  }
+
+  isTextBased(): boolean {
+    return true;
+  }
+
+  async send(payload: any): Promise<FakeMessage> {
+    const message = new FakeMessage(this, typeof payload === 'string' ? { content: payload } : payload);
+    this.messageStore.set(message.id, message);
+    return message;
+  }
+
+  async setName(name: string): Promise<this> {
+    this.name = name;
+    return this;
+  }
+
+  async setParent(parentId: string): Promise<this> {
+    this.parentId = parentId;
+    return this;
+  }
+
+  async setPosition(position: number): Promise<this> {
+    this.position = position;
+    return this;
+  }
+
+  async setTopic(topic: string): Promise<this> {
+    this.topic = topic;
+    return this;
+  }
+
+  async delete(): Promise<void> {
+    this.deleted = true;
+    this.guild.client.channelStore.delete(this.id);
+    this.guild.channels.cache.delete(this.id);
+  }
+
+  /** Whether the overwrite for `id` explicitly allows a permission */
+  allows(id: string, permission: PermissionName): boolean {
+    const overwrite = this.overwrites.get(id);
+    return !!overwrite && (overwrite.allow & PermissionFlagsBits[permission]) !== 0n;
+  }
+
+  /** Whether the overwrite for `id` explicitly denies a permission */
+  denies(id: string, permission: PermissionName): boolean {
+    const overwrite = this.overwrites.get(id);
+    return !!overwrite && (overwrite.deny & PermissionFlagsBits[permission]) !== 0n;
+  }
+
+  get sentMessages(): FakeMessage[] {
+    return [...this.messageStore.values()];
+  }
+
+  private applyOverwriteOptions(id: string, options: Partial<Record<PermissionName, boolean | null>>): void {
+    const overwrite = this.overwrites.get(id)!;
+    for (const [name, value] of Object.entries(options)) {
+      const flag = PermissionFlagsBits[name as PermissionName];
+      overwrite.allow &= ~flag;
+      overwrite.deny &= ~flag;
+      if (value === true) overwrite.allow |= flag;
+      if (value === false) overwrite.deny |= flag;
+    }
+  }
+}
+
+/**
+ * A private thread ticket. Access is thread membership; the overwrites inherited from the base should stay empty.
+ */
+export class FakeThreadChannel extends FakeTextChannel {
+  readonly type: ChannelType = ChannelType.PrivateThread;
+  readonly memberIds: Set<string> = new Set();
+  archived = false;
+  locked = false;
+
+  readonly members = {
+    cache: this.memberIds,
+    add: async (id: string) => {
+      this.memberIds.add(id);
+    },
+    remove: async (id: string) => {
+      this.memberIds.delete(id);
+    },
+  };
+
+  async setArchived(archived = true): Promise<this> {
+    this.archived = archived;
+    return this;
+  }
+
+  async setLocked(locked = true): Promise<this> {
+    this.locked = locked;
+    return this;
+  }
+}
+
+/**
+ * Guild members by user ID, plus the `fetch` used when only a user ID is known
+ */
+class FakeMemberStore extends Map<string, FakeMember> {
+  async fetch(id: string): Promise<FakeMember> {
+    const member = this.get(id);
+    if (!member) throw new Error('Unknown Member');
+    return member;
+  }
+}
+
+export class FakeGuild {
+  readonly name = 'Test Server';
+  readonly members = new FakeMemberStore();
+  readonly roles = { cache: new Collection<string, { id: string; name: string; managed: boolean }>() };
+
+  readonly channels = {
+    cache: new Collection<string, FakeTextChannel>(),
+    create: async (options: any): Promise<FakeTextChannel> => {
+      const channel = this.addTextChannel(options.name, options.parent ?? null);
+      channel.topic = options.topic;
+      for (const overwrite of options.permissionOverwrites || []) {
+        channel.overwrites.set(overwrite.id, {
+          id: overwrite.id,
+          allow: (overwrite.allow || []).reduce((bits: bigint, flag: bigint) => bits | flag, 0n),
+          deny: (overwrite.deny || []).reduce((bits: bigint, flag: bigint) => bits | flag, 0n),
+        });
+      }
+      return channel;
+    },
+  };
+
+  constructor(public id: string, public client: FakeClient) {
+    client.guilds.cache.set(id, this as any);
+  }
+
+  addTextChannel(name: string, parentId: string | null = null): FakeTextChannel {
+    const channel = new FakeTextChannel(this, name, parentId);
+    this.client.channelStore.set(channel.id, channel);
+    this.channels.cache.set(channel.id, channel);
+    return channel;
+  }
+
+  addRole(id: string, name: string): string {
+    this.roles.cache.set(id, { id, name, managed: false });
+    return id;
+  }
+
+  addMember(user: FakeUser, roleIds: string[] = [], permissions: PermissionResolvable[] = []): FakeMember {
+    const member = new FakeMember(user, roleIds, permissions);
+    this.members.set(user.id, member);
+    return member;
+  }
+}
+
+export interface FakeClient extends BotClient {
+  channelStore: Map<string, FakeTextChannel>;
+  userStore: Map<string, FakeUser>;
+}
+
+/**
+ * Storage backends the suites run against: the in-memory one, and SQLite so the real SQL is exercised too
+ */
+export const STORAGE_BACKENDS: [string, () => StorageAdapter][] = [
+  ['MemoryDB', () => new MemoryDB()],
+  ['SqliteDB', () => new SqliteDB(':memory:')],
+];
+
+/**
+ * Register a test once per storage backend; the body builds its client on the storage it is handed
+ */
+export function testWithEachStorage(name: string, fn: (db: StorageAdapter) => Promise<void>): void {
+  for (const [backend, createDb] of STORAGE_BACKENDS) {
+    test(`${name} [${backend}]`, () => fn(createDb()));
+  }
+}
+
+/**
+ * Build a client on the given storage whose channel and user caches are plain maps
+ */
+export function createFakeClient(db: StorageAdapter = new MemoryDB()): FakeClient {
+  const channelStore = new Map<string, FakeTextChannel>();
+  const userStore = new Map<string, FakeUser>();
+  const botUser = new FakeUser('bot', 'TicketBot');
+  botUser.bot = true;
+
+  const client = {
+    db,
+    commands: new Collection(),
+    user: botUser,
+    channelStore,
+    userStore,
+    guilds: { cache: new Collection() },
+    channels: {
+      fetch: async (id: string) => {
+        const channel = channelStore.get(id) ?? [...userStore.values()].find(user => user.dmChannel.id === id)?.dmChannel;
+        if (!channel) throw Object.assign(new Error('Unknown Channel'), { code: 10003 });
+        return channel;
+      },
+    },
+    users: {
+      fetch: async (id: string) => {
+        const user = userStore.get(id);
+        if (!user) throw new Error('Unknown User');
+        return user;
+      },
+    },
+  };
+
+  return client as unknown as FakeClient;
+}
+
+export function addUser(client: FakeClient, username: string): FakeUser {
+  const user = new FakeUser(snowflake(), username);
+  client.userStore.set(user.id, user);
+  return user;
+}
+
+/**
+ * A message written by `user` rather than the bot, for the handlers that react to messageCreate
+ */
+export function postAs(channel: FakeTextChannel | FakeDMChannel, user: FakeUser, content: string, attachmentUrls: string[] = []): FakeMessage {
+  const message = new FakeMessage(channel, { content });
+  message.author = user;
+  message.member = channel instanceof FakeTextChannel ? channel.guild.members.get(user.id) ?? null : null;
+  for (const url of attachmentUrls) {
+    message.attachments.set(url, { url });
+  }
+  channel.messageStore.set(message.id, message);
+  return message;
+}
+
+/**
+ * Base for fake interactions: tracks every reply so tests can read back what the user saw
+ */
+abstract class FakeInteraction {
+  replied = false;
+  deferred = false;
+  readonly responses: any[] = [];
+  readonly user: FakeUser;
+  readonly member: FakeMember | null;
+  readonly guildId: string | null;
+  readonly memberPermissions: { has: (permission: string) => boolean };
+
+  /** Without a guild the interaction comes from a DM, where only the member's user is known */
+  constructor(public guild: FakeGuild | null, member: FakeMember, permissions: string[] = []) {
+    this.member = guild ? member : null;
+    this.user = member.user;
+    this.guildId = guild?.id ?? null;
+    this.memberPermissions = { has: (permission: string) => permissions.includes(permission) };
+  }
+
+  isButton(): boolean { return false; }
+  isStringSelectMenu(): boolean { return false; }
+  isModalSubmit(): boolean { return false; }
+  isChatInputCommand(): boolean { return false; }
+  isRepliable(): boolean { return true; }
+
+  async reply(payload: any): Promise<void> {
+    this.replied = true;
+    this.responses.push(payload);
+  }
+
+  async deferReply(): Promise<void> {
+    this.deferred = true;
+  }
+
+  async deferUpdate(): Promise<void> {
+    this.deferred = true;
+  }
+
+  async followUp(payload: any): Promise<void> {
+    this.responses.push(payload);
+  }
+
+  async editReply(payload: any): Promise<void> {
+    this.responses.push(payload);
+  }
+
+  async update(payload: any): Promise<void> {
+    this.replied = true;
+    this.responses.push(payload);
+  }
+
+  /** Text of every response, for loose assertions */
+  get contents(): string[] {
+    return this.responses.map(response => (typeof response === 'string' ? response : response.content || ''));
+  }
+}
+
+export class FakeButtonInteraction extends FakeInteraction {
+  shownModal: any = null;
+  /** The message the button is on and where it was clicked, for handlers that edit it directly */
+  message: FakeMessage | null = null;
+  channelId: string | null = null;
+
+  constructor(public customId: string, guild: FakeGuild, member: FakeMember, permissions: string[] = []) {
+    super(guild, member, permissions);
+  }
+
+  isButton(): boolean {
+    return true;
+  }
+
+  async showModal(modal: any): Promise<void> {
+    this.replied = true;
+    this.shownModal = modal;
+  }
+}
+
+export class FakeSelectInteraction extends FakeInteraction {
+  shownModal: any = null;
+  /** The message the menu is on */
+  message: FakeMessage | null = null;
+
+  constructor(public customId: string, guild: FakeGuild | null, member: FakeMember, public values: string[]) {
+    super(guild, member);
+  }
+
+  isStringSelectMenu(): boolean {
+    return true;
+  }
+
+  async showModal(modal: any): Promise<void> {
+    this.replied = true;
+    this.shownModal = modal;
+  }
+}
+
+export class FakeModalInteraction extends FakeInteraction {
+  readonly fields: { getTextInputValue: (id: string) => string };
+
+  constructor(public customId: string, guild: FakeGuild, member: FakeMember, values: Record<string, string>) {
+    super(guild, member);
+    this.fields = { getTextInputValue: (id: string) => values[id] ?? '' };
+  }
+
+  isModalSubmit(): boolean {
+    return true;
+  }
+}
+
+export class FakeCommandInteraction extends FakeInteraction {
+  readonly options: any;
+
+  constructor(
+    public commandName: string,
+    public channel: FakeTextChannel,
+    guild: FakeGuild,
+    member: FakeMember,
+    command: { group?: string; subcommand: string; values?: Record<string, any> },
+    permissions: string[] = []
+  ) {
+    super(guild, member, permissions);
+    const values = command.values || {};
+    this.options = {
+      getSubcommandGroup: () => command.group ?? null,
+      getSubcommand: () => command.subcommand,
+      getString: (name: string) => values[name] ?? null,
+      getUser: (name: string) => values[name] ?? null,
+      getMember: (name: string) => (values[name] ? guild.members.get(values[name].id) ?? null : null),
+      getRole: (name: string) => values[name] ?? null,
+      getChannel: (name: string) => values[name] ?? null,
+      getInteger: (name: string) => values[name] ?? null,
+      getBoolean: (name: string) => values[name] ?? null,
+    };
+  }
+
+  isChatInputCommand(): boolean {
+    return true;
+  }
+}
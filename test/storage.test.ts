@@ -0,0 +1,139 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import SqliteDB from '../src/core/db/sqliteDB';
+import { sqliteMigrations } from '../src/core/db/sqliteMigrations';
+import { PanelData, StorageAdapter, TicketData } from '../src/core/db/storage';
+import { STORAGE_BACKENDS } from './fakes';
+
+function makePanel(id: string, guildId: string): PanelData {
+  return {
+    id,
+    type: 'panel',
+    guildId,
+    name: 'Support',
+    label: 'Open Ticket',
+    emoji: '🎫',
+    color: 'Primary',
+    description: 'Click below to open a ticket.',
+    openMessage: 'Thanks for reaching out.',
+    questions: [],
+    claimable: true,
+    enabled: true,
+  };
+}
+
+function makeTicket(id: string, panelId: string, guildId: string, channelId: string): TicketData {
+  return {
+    id,
+    type: 'ticket',
+    guildId,
+    number: 1,
+    owner: 'user-1',
+    panelId,
+    channelId,
+    state: 'open',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    lastActivityAt: '2026-01-01T00:00:00.000Z',
+  };
+}
+
+/** The raw better-sqlite3 handle, for checks the adapter has no method for */
+const rawSqlite = (db: StorageAdapter): any => (db as any).db;
+
+test('SQLite: an empty database is migrated to the latest version, and reopening it applies nothing', async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tickets-'));
+  const file = path.join(dir, 'bot.db');
+  try {
+    const db = new SqliteDB(file);
+    const versions = rawSqlite(db).prepare('SELECT version FROM schema_migrations ORDER BY version').all().map((row: any) => row.version);
+    assert.deepEqual(versions, sqliteMigrations.map(migration => migration.version).sort((a, b) => a - b));
+    const tables = rawSqlite(db).prepare(`SELECT name FROM sqlite_master WHERE type = 'table'`).all().map((row: any) => row.name);
+    for (const table of ['panels', 'tickets', 'ticket_events', 'blacklist', 'relayed_messages', 'panel_groups', 'completed_tasks']) {
+      assert.ok(tables.includes(table), `${table} exists`);
+    }
+    await db.close();
+
+    const reopened = new SqliteDB(file);
+    assert.equal(rawSqlite(reopened).prepare('SELECT COUNT(*) AS count FROM schema_migrations').get().count, versions.length);
+    await reopened.close();
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+for (const [name, createDb] of STORAGE_BACKENDS) {
+  test(`${name}: IDs come from shared sequences and ticket numbers count per guild`, async () => {
+    const db = createDb();
+    assert.deepEqual([await db.generatePanelId(), await db.generatePanelId()], ['panel:1001', 'panel:1002']);
+    assert.equal(await db.generateTicketId(), 'ticket:1001');
+
+    assert.deepEqual(
+      [await db.nextTicketNumber('guild-1'), await db.nextTicketNumber('guild-1'), await db.nextTicketNumber('guild-2')],
+      [1, 2, 1]
+    );
+    await db.close();
+  });
+
+  test(`${name}: partial updates only change their own fields`, async () => {
+    const db = createDb();
+    const panel = makePanel(await db.generatePanelId(), 'guild-1');
+    await db.save(panel);
+    const ticket = makeTicket(await db.generateTicketId(), panel.id, 'guild-1', 'channel-1');
+    await db.save({ ...ticket, inactivityWarnedAt: '2026-01-02T00:00:00.000Z', closeReason: 'kept' });
+
+    await db.touchTicketActivity(ticket.id, '2026-01-03T00:00:00.000Z');
+    await db.markTranscriptSent(ticket.id, '2026-01-03T01:00:00.000Z');
+    await db.setTicketParticipants(ticket.id, [{ id: 'user-2', type: 'user', addedBy: 'staff-1', addedAt: '2026-01-03T02:00:00.000Z' }]);
+    await db.setTicketPriority(ticket.id, 'urgent');
+    assert.equal(await db.markFirstResponse(ticket.id, '2026-01-03T03:00:00.000Z', 'staff-1'), true);
+    assert.equal(await db.markFirstResponse(ticket.id, '2026-01-03T04:00:00.000Z', 'staff-2'), false, 'only the first reply counts');
+    await db.markSlaBreach(ticket.id, 'first-response');
+    await db.markSlaBreach(ticket.id, 'first-response');
+    assert.equal(await db.rateTicket(ticket.id, { stars: 4, ratedAt: '2026-01-04T00:00:00.000Z' }), true);
+    assert.equal(await db.rateTicket(ticket.id, { stars: 1, ratedAt: '2026-01-04T00:00:00.000Z' }), false, 'a ticket is rated once');
+    await db.updateTicketRating(ticket.id, { feedback: 'Quick help' });
+
+    const stored = (await db.get<TicketData>(ticket.id))!;
+    assert.equal(stored.lastActivityAt, '2026-01-03T00:00:00.000Z');
+    assert.equal(stored.inactivityWarnedAt, undefined, 'activity cancels a pending warning');
+    assert.equal(stored.transcriptSentAt, '2026-01-03T01:00:00.000Z');
+    assert.deepEqual(stored.participants?.map(participant => participant.id), ['user-2']);
+    assert.equal(stored.priority, 'urgent');
+    assert.deepEqual([stored.firstResponseAt, stored.firstResponseBy], ['2026-01-03T03:00:00.000Z', 'staff-1']);
+    assert.deepEqual(stored.slaBreaches, ['first-response']);
+    assert.deepEqual(stored.rating, { stars: 4, ratedAt: '2026-01-04T00:00:00.000Z', feedback: 'Quick help' });
+    assert.equal(stored.closeReason, 'kept', 'fields outside the update are left alone');
+
+    // Activity on a closed ticket is ignored
+    await db.save({ ...stored, state: 'closed', inactivityWarnedAt: '2026-01-05T00:00:00.000Z' });
+    await db.touchTicketActivity(ticket.id, '2026-01-06T00:00:00.000Z');
+    const closed = (await db.get<TicketData>(ticket.id))!;
+    assert.equal(closed.lastActivityAt, '2026-01-03T00:00:00.000Z');
+    assert.equal(closed.inactivityWarnedAt, '2026-01-05T00:00:00.000Z');
+    await db.close();
+  });
+
+  test(`${name}: deleting a panel keeps its tickets, deleting a ticket keeps its events but drops its relays`, async () => {
+    const db = createDb();
+    const panel = makePanel(await db.generatePanelId(), 'guild-1');
+    await db.save(panel);
+    const ticket = makeTicket(await db.generateTicketId(), panel.id, 'guild-1', 'channel-1');
+    await db.save(ticket);
+    await db.addTicketEvent({ ticketId: ticket.id, guildId: 'guild-1', type: 'created', actorId: 'user-1', payload: {} });
+    await db.saveRelayedMessage({ sourceId: 'message-1', copyId: 'copy-1', copyChannelId: 'channel-1', ticketId: ticket.id });
+
+    await db.delete(panel.id);
+    const orphan = (await db.get<TicketData>(ticket.id))!;
+    assert.ok(orphan, 'the ticket outlives its panel');
+    assert.equal(orphan.panelId, '', 'the panel reference is cleared');
+
+    await db.delete(ticket.id);
+    assert.equal(await db.get(ticket.id), null);
+    assert.deepEqual((await db.getTicketEvents(ticket.id)).map(event => event.type), ['created'], 'the audit trail stays');
+    assert.equal(await db.getRelayedMessage('message-1'), null, 'relays go with their ticket');
+    await db.close();
+  });
+}
@@ -0,0 +1,1510 @@
+import assert from 'node:assert/strict';
+import { InteractionRouter } from '../src/core/interactionRouter';
+import { TicketHandler } from '../src/modules/ticket/ticketHandler';
+import { SetupWizardHandler } from '../src/modules/ticket/setupWizard';
+import { StatsHandler } from '../src/modules/ticket/ticketStats';
+import { RatingHandler } from '../src/modules/ticket/ratings';
+import { PanelData, StorageAdapter, TicketData } from '../src/core/db/storage';
+import { createTranscriptEmbed } from '../src/modules/ticket/transcriptGenerator';
+import { relayModmailEdit, relayModmailMessage } from '../src/modules/ticket/modmail';
+import * as ticketCommand from '../src/commands/ticket';
+import { StartupLoader } from '../src/core/startupLoader';
+import { saveAnswerDraft } from '../src/modules/ticket/questions';
+import {
+  createFakeClient,
+  testWithEachStorage,
+  addUser,
+  FakeButtonInteraction,
+  FakeModalInteraction,
+  FakeSelectInteraction,
+  FakeCommandInteraction,
+  FakeGuild,
+  FakeMessage,
+  FakeTextChannel,
+  FakeThreadChannel,
+  postAs,
+} from './fakes';
+
+function setup(db: StorageAdapter) {
+  const client = createFakeClient(db);
+  const router = new InteractionRouter();
+  router.register('wizard', new SetupWizardHandler());
+  router.register('ticket', new TicketHandler());
+
+  const guild = new FakeGuild('guild-1', client);
+  const staffRole = 'role-staff';
+  const openCategory = 'category-open';
+
+  const panelChannel: FakeTextChannel = guild.addTextChannel('support');
+  const logsChannel: FakeTextChannel = guild.addTextChannel('ticket-logs');
+
+  const admin = guild.addMember(addUser(client, 'admin'));
+  const staff = guild.addMember(addUser(client, 'staffer'), [staffRole]);
+  const customer = guild.addMember(addUser(client, 'customer'));
+
+  return { client, router, guild, staffRole, openCategory, panelChannel, logsChannel, admin, staff, customer };
+}
+
+testWithEachStorage('panel setup, then open → answer → claim → close → reopen → delete', async (db) => {
+  const { client, router, guild, staffRole, openCategory, panelChannel, logsChannel, admin, staff, customer } = setup(db);
+
+  // finishSetup reads the wizard autosave
+  await client.db.save({
+    id: `autosave:${admin.id}`,
+    type: 'autosave',
+    userId: admin.id,
+    startedAt: new Date().toISOString(),
+    data: {
+      name: 'Support',
+      channel: panelChannel.id,
+      openCategory,
+      staffRole,
+      logsChannel: logsChannel.id,
+      claimable: true,
+      customQuestions: [{ text: 'What do you need help with?', type: 'primary' }],
+    },
+  });
+
+  const finish = new FakeButtonInteraction(`wizard:finish:${admin.id}`, guild, admin, ['ManageChannels']);
+  await router.route(finish as any, client);
+
+  const [panel] = await client.db.getPanelsByGuild(guild.id);
+  assert.ok(panel, 'panel was saved');
+  assert.equal(panel.guildId, guild.id);
+  assert.equal(await client.db.getAutosave(admin.id), null, 'autosave is cleared');
+  assert.ok(panel.messageId, 'panel message was posted');
+  const panelMessage = await panelChannel.messages.fetch(panel.messageId!);
+  assert.deepEqual(panelMessage.customIds, [`ticket:open:${panel.id}`]);
+
+  // Open: the panel has a question, so a modal is shown instead of a channel being created
+  const open = new FakeButtonInteraction(`ticket:open:${panel.id}`, guild, customer);
+  await router.route(open as any, client);
+  assert.ok(open.shownModal, 'question modal shown');
+  assert.equal(open.shownModal.toJSON().custom_id, `ticket:answer:${panel.id}:0`);
+  assert.equal(open.deferred, false, 'open is not deferred, so the modal can still be shown');
+
+  // Answer
+  const answer = new FakeModalInteraction(`ticket:answer:${panel.id}:0`, guild, customer, {
+    question_0: 'My order never arrived',
+  });
+  await router.route(answer as any, client);
+
+  const [ticket] = await client.db.getTicketsByGuild(guild.id);
+  assert.ok(ticket, 'ticket was saved');
+  assert.equal(ticket.owner, customer.id);
+  assert.equal(ticket.state, 'open');
+  assert.equal(ticket.number, 1);
+
+  const channel = client.channelStore.get(ticket.channelId)!;
+  assert.equal(channel.name, 'ticket-customer');
+  assert.equal(channel.parentId, openCategory);
+  assert.ok(channel.denies(guild.id, 'ViewChannel'), '@everyone cannot see the ticket');
+  assert.ok(channel.allows(customer.id, 'ViewChannel'), 'owner can see the ticket');
+  assert.ok(channel.allows(customer.id, 'SendMessages'), 'owner can talk in the ticket');
+  assert.ok(channel.allows(staffRole, 'ViewChannel'), 'staff can see the ticket');
+  assert.ok(channel.allows('bot', 'ManageChannels'), 'bot can manage the ticket');
+
+  const welcome = await channel.messages.fetch(ticket.welcomeMessageId!);
+  const welcomeFields = welcome.embeds[0].toJSON().fields;
+  assert.ok(welcomeFields.some((f: any) => f.value.includes('My order never arrived')), 'answer shown in welcome embed');
+  assert.deepEqual(welcome.customIds, [`ticket:close:${ticket.id}`, `ticket:claim:${ticket.id}`, `ticket:priority:${ticket.id}`]);
+  assert.equal((await client.db.get<PanelData>(panel.id))!.ticketsCreated, 1);
+
+  // Only staff can claim
+  const customerClaim = new FakeButtonInteraction(`ticket:claim:${ticket.id}`, guild, customer);
+  await router.route(customerClaim as any, client);
+  assert.equal((await client.db.get<TicketData>(ticket.id))!.claimedBy, undefined);
+  assert.match(customerClaim.contents.join('\n'), /Only staff members can claim/);
+
+  const claim = new FakeButtonInteraction(`ticket:claim:${ticket.id}`, guild, staff);
+  await router.route(claim as any, client);
+  assert.equal((await client.db.get<TicketData>(ticket.id))!.claimedBy, staff.id);
+  assert.equal(channel.name, 'claimed-staffer');
+  assert.deepEqual(welcome.customIds, [`ticket:close:${ticket.id}`, `ticket:transfer-request:${ticket.id}`, `ticket:priority:${ticket.id}`]);
+
+  // Close asks for confirmation first
+  const close = new FakeButtonInteraction(`ticket:close:${ticket.id}`, guild, staff);
+  await router.route(close as any, client);
+  assert.equal((await client.db.get<TicketData>(ticket.id))!.state, 'open', 'nothing happens until confirmed');
+  assert.deepEqual(
+    close.responses[0].components.flatMap((row: any) => row.toJSON().components.map((c: any) => c.custom_id)),
+    [`ticket:close-confirm:${ticket.id}`, `ticket:close-cancel:${ticket.id}`]
+  );
+
+  await router.route(new FakeButtonInteraction(`ticket:close-confirm:${ticket.id}`, guild, staff) as any, client);
+  const closed = (await client.db.get<TicketData>(ticket.id))!;
+  assert.equal(closed.state, 'closed');
+  assert.ok(closed.closedAt);
+  assert.equal(channel.name, 'closed-claimed-staffer');
+  assert.equal(channel.overwrites.has(customer.id), false, 'owner loses access when closed');
+  assert.ok(channel.allows(staffRole, 'ViewChannel'), 'staff keeps access when closed');
+  assert.deepEqual(welcome.customIds, [`ticket:reopen:${ticket.id}`, `ticket:transcript:${ticket.id}`]);
+
+  // Reopen
+  const reopen = new FakeButtonInteraction(`ticket:reopen:${ticket.id}`, guild, staff);
+  await router.route(reopen as any, client);
+  const reopened = (await client.db.get<TicketData>(ticket.id))!;
+  assert.equal(reopened.state, 'open');
+  assert.equal(reopened.closedAt, undefined);
+  assert.equal(channel.name, 'claimed-staffer');
+  assert.ok(channel.allows(customer.id, 'ViewChannel'), 'owner regains access when reopened');
+  assert.ok(channel.allows(customer.id, 'SendMessages'));
+  assert.deepEqual(welcome.customIds, [`ticket:close:${ticket.id}`, `ticket:transfer-request:${ticket.id}`, `ticket:priority:${ticket.id}`]);
+
+  // Delete
+  const remove = new FakeCommandInteraction('ticket', channel, guild, staff, { subcommand: 'delete' });
+  await ticketCommand.execute(remove as any, client);
+  assert.equal(await client.db.get(ticket.id), null, 'ticket record removed');
+  assert.equal(channel.deleted, true, 'ticket channel deleted');
+
+  const logTitles = logsChannel.sentMessages.map(message => message.embeds[0].toJSON().title);
+  assert.equal(logTitles.length, 5, 'create, claim, close, reopen and delete are logged');
+  assert.match(logTitles[logTitles.length - 1], /Ticket Deleted/);
+
+  // History outlives the ticket and is reachable by its number
+  const events = await client.db.getTicketEvents(ticket.id);
+  assert.deepEqual(
+    events.map(event => event.type),
+    ['created', 'claimed', 'closed', 'reopened', 'deleted']
+  );
+  assert.equal(events[0].actorId, customer.id);
+
+  const history = new FakeCommandInteraction('ticket', logsChannel, guild, staff, { subcommand: 'history', values: { ticket: '1' } });
+  await ticketCommand.execute(history as any, client);
+  const historyEmbed = history.responses[history.responses.length - 1].embeds[0].toJSON();
+  assert.match(historyEmbed.title, /Ticket #1 History/);
+  assert.equal(historyEmbed.description.split('\n').length, events.length);
+});
+
+testWithEachStorage('a user cannot open a second ticket on the same panel', async (db) => {
+  const { client, router, guild, staffRole, openCategory, panelChannel, customer } = setup(db);
+
+  const panel: PanelData = {
+    id: await client.db.generatePanelId(),
+    type: 'panel',
+    guildId: guild.id,
+    name: 'Quick',
+    channel: panelChannel.id,
+    openCategory,
+    staffRole,
+    label: 'Open Ticket',
+    emoji: '🎫',
+    color: 'Primary',
+    description: 'Click below to open a ticket.',
+    openMessage: 'Thanks for reaching out.',
+    questions: [],
+    claimable: false,
+    enabled: true,
+  };
+  await client.db.save(panel);
+
+  const first = new FakeButtonInteraction(`ticket:open:${panel.id}`, guild, customer);
+  await router.route(first as any, client);
+  const second = new FakeButtonInteraction(`ticket:open:${panel.id}`, guild, customer);
+  await router.route(second as any, client);
+
+  assert.equal((await client.db.getTicketsByGuild(guild.id)).length, 1);
+  assert.match(second.contents.join('\n'), /already have an open ticket/);
+});
+
+testWithEachStorage('open limits: per-user cap, full queue and cooldown after closing', async (db) => {
+  const { client, router, guild, staffRole, openCategory, panelChannel, staff, customer } = setup(db);
+  const other = guild.addMember(addUser(client, 'other'));
+
+  const createPanel = async (name: string, limits: PanelData['limits']): Promise<PanelData> => {
+    const panel: PanelData = {
+      id: await client.db.generatePanelId(),
+      type: 'panel',
+      guildId: guild.id,
+      name,
+      channel: panelChannel.id,
+      openCategory,
+      staffRole,
+      label: 'Open Ticket',
+      emoji: '🎫',
+      color: 'Primary',
+      description: 'Click below to open a ticket.',
+      openMessage: 'Thanks for reaching out.',
+      questions: [],
+      claimable: false,
+      enabled: true,
+      limits,
+    };
+    await client.db.save(panel);
+    return panel;
+  };
+  const open = async (panel: PanelData, member = customer) => {
+    const interaction = new FakeButtonInteraction(`ticket:open:${panel.id}`, guild, member);
+    await router.route(interaction as any, client);
+    return interaction.contents.join('\n');
+  };
+
+  const general = await createPanel('General', undefined);
+  const billing = await createPanel('Billing', { maxOpenPerUser: 1, maxOpenPerPanel: 1, cooldownMinutes: 30 });
+
+  await open(general);
+  assert.match(await open(billing), /at most \*\*1\*\* open ticket/);
+
+  await open(billing, other);
+  assert.equal(await client.db.countOpenTicketsByPanel(billing.id), 1);
+  assert.match(await open(billing, staff), /queue is full/);
+
+  // Closing frees the queue, but the owner has to wait out the cooldown
+  const [otherTicket] = await client.db.getOpenTicketsByOwner(guild.id, other.id);
+  await router.route(new FakeButtonInteraction(`ticket:close-confirm:${otherTicket.id}`, guild, staff) as any, client);
+  assert.match(await open(billing, other), /closed recently/);
+  await open(billing, staff);
+  assert.equal((await client.db.getOpenTicketsByOwner(guild.id, staff.id)).length, 1);
+});
+
+testWithEachStorage('blacklisted users and roles are refused until the entry is removed or expires', async (db) => {
+  const { client, router, guild, staffRole, openCategory, panelChannel, logsChannel, admin, customer } = setup(db);
+  const muted = guild.addMember(addUser(client, 'muted'), ['role-muted']);
+
+  const panel: PanelData = {
+    id: await client.db.generatePanelId(),
+    type: 'panel',
+    guildId: guild.id,
+    name: 'Support',
+    channel: panelChannel.id,
+    openCategory,
+    staffRole,
+    logsChannel: logsChannel.id,
+    label: 'Open Ticket',
+    emoji: '🎫',
+    color: 'Primary',
+    description: 'Click below to open a ticket.',
+    openMessage: 'Thanks for reaching out.',
+    questions: [],
+    claimable: false,
+    enabled: true,
+    blacklistMessage: 'Nope: {reason}',
+  };
+  await client.db.save(panel);
+
+  const blacklist = async (subcommand: string, values: Record<string, any>) => {
+    const interaction = new FakeCommandInteraction('ticket', logsChannel, guild, admin, { group: 'blacklist', subcommand, values });
+    await ticketCommand.execute(interaction as any, client);
+    return interaction;
+  };
+  const open = async (member: typeof customer) => {
+    const interaction = new FakeButtonInteraction(`ticket:open:${panel.id}`, guild, member);
+    await router.route(interaction as any, client);
+    return interaction.contents.join('\n');
+  };
+
+  await blacklist('add', { user: customer.user, reason: 'Spam', panel: panel.id });
+  await blacklist('add', { role: { id: 'role-muted' }, duration: '1h' });
+  assert.match(logsChannel.sentMessages.at(-1)!.embeds[0].toJSON().title, /Role Blacklisted/);
+
+  assert.equal(await open(customer), 'Nope: Spam');
+  assert.equal(await open(muted), 'Nope: No reason given');
+  assert.equal((await client.db.getTicketsByGuild(guild.id)).length, 0);
+
+  const list = await blacklist('list', {});
+  assert.equal(list.responses.at(-1)!.embeds[0].toJSON().description.split('\n').length, 2);
+
+  await blacklist('remove', { user: customer.user, panel: panel.id });
+  assert.match(logsChannel.sentMessages.at(-1)!.embeds[0].toJSON().title, /Blacklist Entry Removed/);
+  await open(customer);
+
+  // Expired entries no longer apply
+  const [roleEntry] = await client.db.getBlacklist(guild.id);
+  await client.db.saveBlacklistEntry({ ...roleEntry, expiresAt: new Date(Date.now() - 1000).toISOString() });
+  await open(muted);
+  assert.equal((await client.db.getTicketsByGuild(guild.id)).length, 2);
+});
+
+testWithEachStorage('participants keep their access across close and reopen until removed', async (db) => {
+  const { client, router, guild, staffRole, openCategory, panelChannel, staff, customer } = setup(db);
+  const helper = guild.addMember(addUser(client, 'helper'));
+
+  const panel: PanelData = {
+    id: await client.db.generatePanelId(),
+    type: 'panel',
+    guildId: guild.id,
+    name: 'Support',
+    channel: panelChannel.id,
+    openCategory,
+    staffRole,
+    label: 'Open Ticket',
+    emoji: '🎫',
+    color: 'Primary',
+    description: 'Click below to open a ticket.',
+    openMessage: 'Thanks for reaching out.',
+    questions: [],
+    claimable: false,
+    enabled: true,
+  };
+  await client.db.save(panel);
+
+  await router.route(new FakeButtonInteraction(`ticket:open:${panel.id}`, guild, customer) as any, client);
+  const [ticket] = await client.db.getTicketsByGuild(guild.id);
+  const channel = client.channelStore.get(ticket.channelId)!;
+  const run = async (subcommand: string, values: Record<string, any>) => {
+    const interaction = new FakeCommandInteraction('ticket', channel, guild, staff, { subcommand, values });
+    await ticketCommand.execute(interaction as any, client);
+    return interaction.contents.join('\n');
+  };
+
+  await run('add', { user: helper.user });
+  await run('add', { role: { id: 'role-billing' } });
+  assert.match(await run('add', { user: helper.user }), /already in this ticket/);
+  assert.deepEqual((await client.db.get<TicketData>(ticket.id))!.participants!.map(p => `${p.type}:${p.id}`), [
+    `user:${helper.id}`,
+    'role:role-billing',
+  ]);
+  assert.ok(channel.allows(helper.id, 'ViewChannel'));
+  assert.ok(channel.allows('role-billing', 'ViewChannel'));
+
+  await router.route(new FakeButtonInteraction(`ticket:close-confirm:${ticket.id}`, guild, staff) as any, client);
+  assert.equal(channel.overwrites.has(helper.id), false, 'participants lose access when closed');
+  assert.equal(channel.overwrites.has('role-billing'), false);
+
+  await router.route(new FakeButtonInteraction(`ticket:reopen:${ticket.id}`, guild, staff) as any, client);
+  assert.ok(channel.allows(helper.id, 'ViewChannel'), 'participants regain access when reopened');
+  assert.ok(channel.allows('role-billing', 'SendMessages'));
+
+  await run('remove', { user: helper.user });
+  assert.equal(channel.overwrites.has(helper.id), false);
+  assert.match(await run('remove', { user: helper.user }), /not in this ticket/);
+  assert.deepEqual((await client.db.get<TicketData>(ticket.id))!.participants!.map(p => p.id), ['role-billing']);
+
+  const types = (await client.db.getTicketEvents(ticket.id)).map(event => event.type);
+  assert.deepEqual(types.filter(type => type.startsWith('user-') || type.startsWith('role-')), ['user-added', 'role-added', 'user-removed']);
+});
+
+testWithEachStorage('priority renames the channel, escalates urgent tickets and filters /ticket list', async (db) => {
+  const { client, router, guild, staffRole, openCategory, panelChannel, logsChannel, staff, customer } = setup(db);
+  const other = guild.addMember(addUser(client, 'other'));
+
+  const panel: PanelData = {
+    id: await client.db.generatePanelId(),
+    type: 'panel',
+    guildId: guild.id,
+    name: 'Support',
+    channel: panelChannel.id,
+    openCategory,
+    staffRole,
+    logsChannel: logsChannel.id,
+    escalationRole: 'role-oncall',
+    label: 'Open Ticket',
+    emoji: '🎫',
+    color: 'Primary',
+    description: 'Click below to open a ticket.',
+    openMessage: 'Thanks for reaching out.',
+    questions: [],
+    claimable: true,
+    enabled: true,
+  };
+  await client.db.save(panel);
+
+  await router.route(new FakeButtonInteraction(`ticket:open:${panel.id}`, guild, customer) as any, client);
+  await router.route(new FakeButtonInteraction(`ticket:open:${panel.id}`, guild, other) as any, client);
+  const [ticket] = await client.db.getOpenTicketsByOwner(guild.id, customer.id);
+  const [otherTicket] = await client.db.getOpenTicketsByOwner(guild.id, other.id);
+  const channel = client.channelStore.get(ticket.channelId)!;
+
+  // Customers cannot use the select
+  const denied = new FakeSelectInteraction(`ticket:priority:${ticket.id}`, guild, customer, ['urgent']);
+  await router.route(denied as any, client);
+  assert.match(denied.contents.join('\n'), /Only staff members/);
+  assert.equal((await client.db.get<TicketData>(ticket.id))!.priority, undefined);
+
+  await router.route(new FakeSelectInteraction(`ticket:priority:${ticket.id}`, guild, staff, ['urgent']) as any, client);
+  assert.equal((await client.db.get<TicketData>(ticket.id))!.priority, 'urgent');
+  assert.equal(channel.name, '🔴-ticket-customer');
+  assert.equal(channel.position, 0, 'urgent tickets move to the top of the category');
+  assert.equal(channel.sentMessages.at(-1)!.content, '<@&role-oncall>');
+  assert.match(logsChannel.sentMessages.at(-1)!.embeds[0].toJSON().title, /Priority Changed/);
+
+  // The prefix survives claim, close and reopen
+  await router.route(new FakeButtonInteraction(`ticket:claim:${ticket.id}`, guild, staff) as any, client);
+  assert.equal(channel.name, '🔴-claimed-staffer');
+  await router.route(new FakeButtonInteraction(`ticket:close-confirm:${ticket.id}`, guild, staff) as any, client);
+  assert.equal(channel.name, '🔴-closed-claimed-staffer');
+  await router.route(new FakeButtonInteraction(`ticket:reopen:${ticket.id}`, guild, staff) as any, client);
+  assert.equal(channel.name, '🔴-claimed-staffer');
+
+  const otherChannel = client.channelStore.get(otherTicket.channelId)!;
+  const setLow = new FakeCommandInteraction('ticket', otherChannel, guild, staff, { subcommand: 'priority', values: { level: 'low' } });
+  await ticketCommand.execute(setLow as any, client);
+  assert.equal(otherChannel.name, '🔵-ticket-other');
+
+  const list = async (values: Record<string, any>) => {
+    const interaction = new FakeCommandInteraction('ticket', logsChannel, guild, staff, { subcommand: 'list', values });
+    await ticketCommand.execute(interaction as any, client);
+    return interaction.responses.at(-1)!.embeds[0].toJSON().description as string;
+  };
+  const all = (await list({})).split('\n');
+  assert.equal(all.length, 2);
+  assert.ok(all[0].startsWith('🔴'), 'most urgent first');
+  const lowOnly = (await list({ priority: 'low' })).split('\n');
+  assert.deepEqual(lowOnly.map(line => line.includes(`<#${otherTicket.channelId}>`)), [true]);
+});
+
+testWithEachStorage('/ticket stats reports the server, a panel and staff, with working page buttons', async (db) => {
+  const { client, router, guild, staffRole, openCategory, logsChannel, staff, customer } = setup(db);
+  router.register('stats', new StatsHandler());
+  const nightShift = guild.addMember(addUser(client, 'nightshift'), [staffRole]);
+  const waiting = guild.addMember(addUser(client, 'waiting'));
+
+  const makePanel = async (name: string): Promise<PanelData> => {
+    const panel: PanelData = {
+      id: await client.db.generatePanelId(),
+      type: 'panel',
+      guildId: guild.id,
+      name,
+      openCategory,
+      staffRole,
+      logsChannel: logsChannel.id,
+      label: 'Open Ticket',
+      emoji: '🎫',
+      color: 'Primary',
+      description: 'Click below to open a ticket.',
+      openMessage: 'Thanks for reaching out.',
+      questions: [],
+      claimable: true,
+      enabled: true,
+    };
+    await client.db.save(panel);
+    return panel;
+  };
+  const support = await makePanel('Support');
+  const billing = await makePanel('Billing');
+
+  await router.route(new FakeButtonInteraction(`ticket:open:${support.id}`, guild, customer) as any, client);
+  await router.route(new FakeButtonInteraction(`ticket:open:${support.id}`, guild, waiting) as any, client);
+  await router.route(new FakeButtonInteraction(`ticket:open:${billing.id}`, guild, customer) as any, client);
+  const [solved, billed] = await Promise.all([support, billing].map(async panel =>
+    (await client.db.getOpenTicketsByOwner(guild.id, customer.id)).find(ticket => ticket.panelId === panel.id)!
+  ));
+
+  await router.route(new FakeButtonInteraction(`ticket:claim:${solved.id}`, guild, staff) as any, client);
+  await router.route(new FakeButtonInteraction(`ticket:close-confirm:${solved.id}`, guild, staff) as any, client);
+  await router.route(new FakeButtonInteraction(`ticket:claim:${billed.id}`, guild, nightShift) as any, client);
+
+  const stats = async (values: Record<string, any>) => {
+    const interaction = new FakeCommandInteraction('ticket', logsChannel, guild, staff, { subcommand: 'stats', values });
+    await ticketCommand.execute(interaction as any, client);
+    return interaction.responses.at(-1)!;
+  };
+  const fields = (response: any): Record<string, string> =>
+    Object.fromEntries(response.embeds[0].toJSON().fields.map((f: any) => [f.name, f.value]));
+
+  const server = await stats({});
+  assert.deepEqual(
+    [fields(server)['Opened'], fields(server)['Claimed'], fields(server)['Closed'], fields(server)['Open Backlog']],
+    ['3', '2', '1', '2']
+  );
+  assert.notEqual(fields(server)['Avg Resolution'], 'N/A');
+
+  const member = await stats({ staff: staff.user });
+  assert.equal(member.embeds[0].toJSON().description, `<@${staff.id}>`);
+  assert.deepEqual([fields(member)['Claimed'], fields(member)['Closed'], fields(member)['Claimed & Open']], ['1', '1', '0']);
+
+  const panelView = await stats({ panel: billing.id });
+  assert.deepEqual([fields(panelView)['Opened'], fields(panelView)['Claimed'], fields(panelView)['Closed']], ['1', '1', '0']);
+
+  // Panel IDs contain a colon, which the page button has to carry through intact
+  const panelNextId = panelView.components[0].toJSON().components[1].custom_id;
+  assert.equal(panelNextId, `stats:page:panel:${billing.id}:-:-:1`);
+  const panelNext = new FakeButtonInteraction(panelNextId, guild, staff);
+  await router.route(panelNext as any, client);
+  const panelPage = panelNext.responses.at(-1)!.embeds[0].toJSON();
+  assert.match(panelPage.title, /Ticket Stats: Billing$/);
+  assert.match(panelPage.footer.text, /^Page 2\/2 • All time/);
+  assert.match(panelPage.description, new RegExp(`^\\*\\*<@${nightShift.id}>\\*\\*\\nClaimed 1 • Closed 0 • Claimed & open 1\\n`));
+  assert.match((await stats({ view: 'panel' })).content, /needs a valid `panel` ID/);
+
+  // The staff ranking is on the second page, reached through a button that carries the whole query
+  const ranking = await stats({ view: 'staff', days: 7 });
+  assert.match(ranking.embeds[0].toJSON().footer.text, /^Page 1\/2 • Since /);
+  const nextId = ranking.components[0].toJSON().components[1].custom_id;
+  assert.match(nextId, /^stats:page:staff:-:\d+:-:1$/);
+
+  const next = new FakeButtonInteraction(nextId, guild, staff);
+  await router.route(next as any, client);
+  const page = next.responses.at(-1)!.embeds[0].toJSON();
+  assert.match(page.description, new RegExp(`<@${staff.id}>\\*\\*\\nClaimed 1 • Closed 1`));
+  assert.match(page.description, new RegExp(`<@${nightShift.id}>\\*\\*\\nClaimed 1 • Closed 0 • Claimed & open 1`));
+
+  // A range that ends before anything happened is empty
+  const past = await stats({ from: '2020-01-01', to: '2020-01-31' });
+  assert.deepEqual([fields(past)['Opened'], fields(past)['Claimed']], ['0', '0']);
+  assert.match((await stats({ from: '31/01/2020' })).content, /Dates must look like/);
+});
+
+testWithEachStorage('closing asks the owner for a rating by DM, or in the channel when DMs are closed', async (db) => {
+  const { client, router, guild, staffRole, openCategory, logsChannel, staff, customer } = setup(db);
+  router.register('rating', new RatingHandler());
+  router.register('stats', new StatsHandler());
+  const feedbackChannel = guild.addTextChannel('feedback');
+  const shy = guild.addMember(addUser(client, 'shy'));
+  shy.user.acceptsDms = false;
+
+  const panel: PanelData = {
+    id: await client.db.generatePanelId(),
+    type: 'panel',
+    guildId: guild.id,
+    name: 'Support',
+    openCategory,
+    staffRole,
+    logsChannel: logsChannel.id,
+    feedbackChannel: feedbackChannel.id,
+    label: 'Open Ticket',
+    emoji: '🎫',
+    color: 'Primary',
+    description: 'Click below to open a ticket.',
+    openMessage: 'Thanks for reaching out.',
+    questions: [],
+    claimable: true,
+    enabled: true,
+  };
+  await client.db.save(panel);
+
+  await router.route(new FakeButtonInteraction(`ticket:open:${panel.id}`, guild, customer) as any, client);
+  const [ticket] = await client.db.getOpenTicketsByOwner(guild.id, customer.id);
+  await router.route(new FakeButtonInteraction(`ticket:claim:${ticket.id}`, guild, staff) as any, client);
+  await router.route(new FakeButtonInteraction(`ticket:close-confirm:${ticket.id}`, guild, staff) as any, client);
+
+  const survey = new FakeMessage(null, customer.user.dms.at(-1));
+  assert.deepEqual(survey.customIds, [1, 2, 3, 4, 5].map(stars => `rating:rate:${ticket.id}:${stars}`));
+
+  const stranger = new FakeButtonInteraction(`rating:rate:${ticket.id}:1`, guild, staff);
+  await router.route(stranger as any, client);
+  assert.match(stranger.contents.join('\n'), /Only the ticket owner/);
+
+  const rate = new FakeButtonInteraction(`rating:rate:${ticket.id}:4`, guild, customer);
+  rate.message = survey;
+  await router.route(rate as any, client);
+  assert.equal(rate.shownModal.toJSON().custom_id, `rating:comment:${ticket.id}`);
+  assert.deepEqual(survey.components, [], 'the stars are replaced by a thank-you');
+
+  const rated = (await client.db.get<TicketData>(ticket.id))!.rating!;
+  assert.equal(rated.stars, 4);
+  assert.equal(rated.staffId, staff.id);
+  const post = feedbackChannel.sentMessages[0];
+  assert.equal(rated.messageId, post.id);
+  assert.match(post.embeds[0].toJSON().title, /New Rating: 4\/5/);
+
+  const again = new FakeButtonInteraction(`rating:rate:${ticket.id}:1`, guild, customer);
+  await router.route(again as any, client);
+  assert.match(again.contents.join('\n'), /already rated/);
+  assert.equal((await client.db.get<TicketData>(ticket.id))!.rating!.stars, 4);
+
+  await router.route(new FakeModalInteraction(`rating:comment:${ticket.id}`, guild, customer, { feedback: 'Quick and friendly' }) as any, client);
+  assert.equal((await client.db.get<TicketData>(ticket.id))!.rating!.feedback, 'Quick and friendly');
+  assert.equal(feedbackChannel.sentMessages.length, 1, 'the feedback is added to the same post');
+  assert.ok(post.embeds[0].toJSON().fields.some((f: any) => f.name === 'Feedback' && f.value === 'Quick and friendly'));
+
+  // Closed DMs: the survey is posted in the ticket, which the owner can read but not write in until they answer
+  await router.route(new FakeButtonInteraction(`ticket:open:${panel.id}`, guild, shy) as any, client);
+  const [privateTicket] = await client.db.getOpenTicketsByOwner(guild.id, shy.id);
+  const channel = client.channelStore.get(privateTicket.channelId)!;
+  await router.route(new FakeButtonInteraction(`ticket:close-confirm:${privateTicket.id}`, guild, staff) as any, client);
+
+  const inChannel = channel.sentMessages.find(message => message.customIds.includes(`rating:rate:${privateTicket.id}:2`))!;
+  assert.equal(inChannel.content, `<@${shy.id}>`);
+  assert.equal(channel.allows(shy.id, 'ViewChannel'), true);
+  assert.equal(channel.denies(shy.id, 'SendMessages'), true);
+
+  const rateInChannel = new FakeButtonInteraction(`rating:rate:${privateTicket.id}:2`, guild, shy);
+  rateInChannel.message = inChannel;
+  rateInChannel.channelId = channel.id;
+  await router.route(rateInChannel as any, client);
+  assert.equal(channel.overwrites.has(shy.id), false, 'answering hides the closed ticket again');
+
+  const stats = new FakeCommandInteraction('ticket', logsChannel, guild, staff, { subcommand: 'stats', values: {} });
+  await ticketCommand.execute(stats as any, client);
+  const avg = stats.responses.at(-1)!.embeds[0].toJSON().fields.find((f: any) => f.name === 'Avg Rating');
+  assert.equal(avg.value, '3.0 ⭐ (2)');
+});
+
+testWithEachStorage('close confirmation, required close reasons and /ticket close reason', async (db) => {
+  const { client, router, guild, staffRole, openCategory, logsChannel, staff, customer } = setup(db);
+
+  const panel: PanelData = {
+    id: await client.db.generatePanelId(),
+    type: 'panel',
+    guildId: guild.id,
+    name: 'Support',
+    openCategory,
+    staffRole,
+    logsChannel: logsChannel.id,
+    label: 'Open Ticket',
+    emoji: '🎫',
+    color: 'Primary',
+    description: 'Click below to open a ticket.',
+    openMessage: 'Thanks for reaching out.',
+    questions: [],
+    claimable: false,
+    enabled: true,
+  };
+  await client.db.save(panel);
+
+  await router.route(new FakeButtonInteraction(`ticket:open:${panel.id}`, guild, customer) as any, client);
+  const [ticket] = await client.db.getTicketsByGuild(guild.id);
+  const channel = client.channelStore.get(ticket.channelId)!;
+  const welcome = await channel.messages.fetch(ticket.welcomeMessageId!);
+  const welcomeReason = () => welcome.embeds[0].toJSON().fields?.find((f: any) => f.name === 'Close Reason')?.value;
+
+  // Cancelling the confirmation leaves the ticket open
+  await router.route(new FakeButtonInteraction(`ticket:close:${ticket.id}`, guild, staff) as any, client);
+  const cancel = new FakeButtonInteraction(`ticket:close-cancel:${ticket.id}`, guild, staff);
+  await router.route(cancel as any, client);
+  assert.match(cancel.contents.join('\n'), /Close cancelled/);
+  assert.equal((await client.db.get<TicketData>(ticket.id))!.state, 'open');
+
+  // With a required reason the close button opens a modal instead
+  await client.db.save({ ...panel, requireCloseReason: true });
+  const close = new FakeButtonInteraction(`ticket:close:${ticket.id}`, guild, staff);
+  await router.route(close as any, client);
+  assert.equal(close.shownModal.toJSON().custom_id, `ticket:close-reason:${ticket.id}`);
+  assert.equal((await client.db.get<TicketData>(ticket.id))!.state, 'open');
+
+  await router.route(new FakeModalInteraction(`ticket:close-reason:${ticket.id}`, guild, staff, { reason: 'Refund issued' }) as any, client);
+  const closed = (await client.db.get<TicketData>(ticket.id))!;
+  assert.equal(closed.state, 'closed');
+  assert.equal(closed.closeReason, 'Refund issued');
+  assert.equal(welcomeReason(), 'Refund issued');
+  const closeLog = logsChannel.sentMessages.at(-1)!.embeds[0].toJSON();
+  assert.match(closeLog.title, /Ticket Closed/);
+  assert.ok(closeLog.fields.some((f: any) => f.name === 'Reason' && f.value === 'Refund issued'));
+  const transcriptFields = createTranscriptEmbed({
+    ticketId: closed.id,
+    ticketNumber: 1,
+    username: customer.user.username,
+    userId: customer.id,
+    panelName: 'Support',
+    createdAt: new Date(closed.createdAt),
+    closeReason: closed.closeReason,
+  }).toJSON().fields!;
+  assert.ok(transcriptFields.some(f => f.name.endsWith('Close Reason') && f.value === 'Refund issued'));
+
+  // Reopening clears the reason
+  await router.route(new FakeButtonInteraction(`ticket:reopen:${ticket.id}`, guild, staff) as any, client);
+  assert.equal((await client.db.get<TicketData>(ticket.id))!.closeReason, undefined);
+  assert.equal(welcomeReason(), undefined);
+
+  // /ticket close needs the reason option on this panel
+  const closeCommand = async (values: Record<string, any>) => {
+    const interaction = new FakeCommandInteraction('ticket', channel, guild, staff, { subcommand: 'close', values }, ['ManageChannels']);
+    await ticketCommand.execute(interaction as any, client);
+    return interaction.contents.join('\n');
+  };
+  assert.match(await closeCommand({}), /requires a reason/);
+  assert.equal((await client.db.get<TicketData>(ticket.id))!.state, 'open');
+  await closeCommand({ reason: 'Duplicate of #2' });
+  assert.equal((await client.db.get<TicketData>(ticket.id))!.closeReason, 'Duplicate of #2');
+  assert.equal(welcomeReason(), 'Duplicate of #2');
+});
+
+testWithEachStorage('/ticket move hands the ticket to another panel, its staff role and its category', async (db) => {
+  const { client, router, guild, staffRole, openCategory, logsChannel, staff, customer } = setup(db);
+  const billingLogs = guild.addTextChannel('billing-logs');
+  const billingRole = 'role-billing-staff';
+
+  const panelBase = {
+    type: 'panel' as const,
+    guildId: guild.id,
+    label: 'Open Ticket',
+    emoji: '🎫',
+    color: 'Primary' as const,
+    description: 'Click below to open a ticket.',
+    openMessage: 'Thanks for reaching out.',
+    questions: [],
+    claimable: true,
+    enabled: true,
+  };
+  const general: PanelData = { ...panelBase, id: await client.db.generatePanelId(), name: 'General', openCategory, staffRole, logsChannel: logsChannel.id };
+  await client.db.save(general);
+  const billing: PanelData = {
+    ...panelBase,
+    id: await client.db.generatePanelId(),
+    name: 'Billing',
+    openCategory: 'category-billing',
+    staffRole: billingRole,
+    logsChannel: billingLogs.id,
+    staffPermissions: ['ViewChannel', 'SendMessages', 'ReadMessageHistory', 'AttachFiles'],
+  };
+  await client.db.save(billing);
+
+  await router.route(new FakeButtonInteraction(`ticket:open:${general.id}`, guild, customer) as any, client);
+  const [ticket] = await client.db.getTicketsByGuild(guild.id);
+  const channel = client.channelStore.get(ticket.channelId)!;
+  const move = async (panel: string, member = staff) => {
+    const interaction = new FakeCommandInteraction('ticket', channel, guild, member, { subcommand: 'move', values: { panel } });
+    await ticketCommand.execute(interaction as any, client);
+    return interaction.contents.join('\n');
+  };
+
+  assert.match(await move('billing', customer), /Only staff members can move/);
+  assert.match(await move('Nope'), /not found/);
+  assert.match(await move(general.id), /already in/);
+
+  assert.match(await move('billing'), /moved to \*\*Billing\*\*/);
+  const moved = (await client.db.get<TicketData>(ticket.id))!;
+  assert.equal(moved.panelId, billing.id);
+  assert.equal(channel.parentId, 'category-billing');
+  assert.match(channel.topic!, /Panel: Billing$/);
+  assert.equal(channel.overwrites.has(staffRole), false, 'the old staff role loses access');
+  assert.ok(channel.allows(billingRole, 'AttachFiles'), 'the new staff role gets the panel staff permissions');
+  assert.equal(channel.allows(billingRole, 'ManageMessages'), false);
+  assert.ok(channel.allows(customer.id, 'SendMessages'), 'the owner keeps access');
+
+  const notice = channel.sentMessages.at(-1)!;
+  assert.equal(notice.content, `<@&${billingRole}>`);
+  assert.match(notice.embeds[0].toJSON().description, /moved from \*\*General\*\* to \*\*Billing\*\*/);
+  assert.match(logsChannel.sentMessages.at(-1)!.embeds[0].toJSON().title, /Ticket Moved/);
+  assert.match(billingLogs.sentMessages.at(-1)!.embeds[0].toJSON().title, /Ticket Moved/);
+
+  const [event] = (await client.db.getTicketEvents(ticket.id)).filter(e => e.type === 'moved');
+  assert.deepEqual(event.payload, { fromPanelId: general.id, fromPanelName: 'General', panelId: billing.id, panelName: 'Billing' });
+});
+
+testWithEachStorage('claims can be requested, accepted, declined and reassigned with /ticket transfer', async (db) => {
+  const { client, router, guild, staffRole, openCategory, logsChannel, staff, customer } = setup(db);
+  const colleague = guild.addMember(addUser(client, 'colleague'), [staffRole]);
+  const senior = guild.addMember(addUser(client, 'senior'), [staffRole]);
+
+  const panel: PanelData = {
+    id: await client.db.generatePanelId(),
+    type: 'panel',
+    guildId: guild.id,
+    name: 'Support',
+    openCategory,
+    staffRole,
+    logsChannel: logsChannel.id,
+    label: 'Open Ticket',
+    emoji: '🎫',
+    color: 'Primary',
+    description: 'Click below to open a ticket.',
+    openMessage: 'Thanks for reaching out.',
+    questions: [],
+    claimable: true,
+    enabled: true,
+  };
+  await client.db.save(panel);
+
+  await router.route(new FakeButtonInteraction(`ticket:open:${panel.id}`, guild, customer) as any, client);
+  const [ticket] = await client.db.getTicketsByGuild(guild.id);
+  const channel = client.channelStore.get(ticket.channelId)!;
+  await router.route(new FakeButtonInteraction(`ticket:claim:${ticket.id}`, guild, staff) as any, client);
+  // A claim-only overwrite, as exclusive claims hand out
+  await channel.permissionOverwrites.edit(staff.id, { SendMessages: true });
+
+  const claimer = async () => (await client.db.get<TicketData>(ticket.id))!.claimedBy;
+  const transfer = async (member: typeof staff, to: typeof staff, permissions: string[] = []) => {
+    const interaction = new FakeCommandInteraction('ticket', channel, guild, member, { subcommand: 'transfer', values: { staff: to.user } }, permissions);
+    await ticketCommand.execute(interaction as any, client);
+    return interaction.contents.join('\n');
+  };
+
+  // The claimer cannot request their own ticket; a colleague's request goes to the claimer
+  const own = new FakeButtonInteraction(`ticket:transfer-request:${ticket.id}`, guild, staff);
+  await router.route(own as any, client);
+  assert.match(own.contents.join('\n'), /already handle this ticket/);
+
+  await router.route(new FakeButtonInteraction(`ticket:transfer-request:${ticket.id}`, guild, colleague) as any, client);
+  const request = channel.sentMessages.at(-1)!;
+  assert.equal(request.content, `<@${staff.id}>`);
+  assert.deepEqual(request.customIds, [
+    `ticket:transfer-accept:${ticket.id}:${colleague.id}:${staff.id}`,
+    `ticket:transfer-decline:${ticket.id}:${colleague.id}:${staff.id}`,
+  ]);
+
+  const answer = async (action: 'accept' | 'decline', member: typeof staff, permissions: string[] = []) => {
+    const interaction = new FakeButtonInteraction(`ticket:transfer-${action}:${ticket.id}:${colleague.id}:${staff.id}`, guild, member, permissions);
+    await router.route(interaction as any, client);
+    return interaction;
+  };
+
+  assert.match((await answer('accept', colleague)).contents.join('\n'), /Only <@.*> or senior staff/);
+  assert.equal(await claimer(), staff.id);
+
+  const declined = await answer('decline', staff);
+  assert.deepEqual(declined.responses.at(-1).components, []);
+  assert.equal(await claimer(), staff.id);
+
+  // A requester who lost their staff role cannot be handed the ticket
+  colleague.roles.cache.delete(staffRole);
+  assert.match((await answer('accept', staff)).contents.join('\n'), /no longer a staff member/);
+  assert.equal(await claimer(), staff.id);
+  colleague.roles.cache.add(staffRole);
+
+  await answer('accept', staff);
+  assert.equal(await claimer(), colleague.id);
+  assert.equal(channel.name, 'claimed-colleague');
+  assert.equal(channel.overwrites.has(staff.id), false, 'the previous claimer loses the claim-only overwrite');
+  assert.ok(channel.allows(colleague.id, 'SendMessages'), 'the new claimer gets it instead');
+  assert.equal(channel.sentMessages.at(-1)!.content, `<@${colleague.id}>`, 'the new assignee is notified');
+  assert.match(logsChannel.sentMessages.at(-1)!.embeds[0].toJSON().title, /Ticket Transferred/);
+
+  // The request was addressed to the previous claimer, so answering it again changes nothing
+  const stale = await answer('accept', staff);
+  assert.match(stale.contents.join('\n'), /out of date/);
+  assert.ok(stale.responses.some((response: any) => response.components?.length === 0), 'its buttons are removed');
+  assert.equal(await claimer(), colleague.id);
+
+  // Only the claimer or senior staff can reassign with the command
+  assert.match(await transfer(staff, senior), /Only <@.*> or senior staff/);
+  assert.match(await transfer(colleague, customer), /not a staff member/);
+  assert.match(await transfer(colleague, colleague), /already handles/);
+  assert.match(await transfer(senior, staff, ['ManageChannels']), /transferred to/);
+  assert.equal(await claimer(), staff.id);
+
+  const handoffs = (await client.db.getTicketEvents(ticket.id)).filter(event => event.type === 'transferred');
+  assert.deepEqual(handoffs.map(event => [event.actorId, event.payload.previousClaimer, event.payload.claimedBy, event.payload.forced]), [
+    [staff.id, staff.id, colleague.id, false],
+    [senior.id, colleague.id, staff.id, true],
+  ]);
+});
+
+testWithEachStorage('exclusive claims mute other staff until unclaimed, across close and reopen', async (db) => {
+  const { client, router, guild, staffRole, openCategory, staff, customer } = setup(db);
+  const colleague = guild.addMember(addUser(client, 'colleague'), [staffRole]);
+
+  const panel: PanelData = {
+    id: await client.db.generatePanelId(),
+    type: 'panel',
+    guildId: guild.id,
+    name: 'Support',
+    openCategory,
+    staffRole,
+    label: 'Open Ticket',
+    emoji: '🎫',
+    color: 'Primary',
+    description: 'Click below to open a ticket.',
+    openMessage: 'Thanks for reaching out.',
+    questions: [],
+    claimable: true,
+    exclusiveClaim: true,
+    enabled: true,
+  };
+  await client.db.save(panel);
+
+  await router.route(new FakeButtonInteraction(`ticket:open:${panel.id}`, guild, customer) as any, client);
+  const [ticket] = await client.db.getTicketsByGuild(guild.id);
+  const channel = client.channelStore.get(ticket.channelId)!;
+  assert.ok(channel.allows(staffRole, 'SendMessages'), 'staff can write before the claim');
+
+  const assertExclusiveTo = (claimerId: string, message: string) => {
+    assert.ok(channel.denies(staffRole, 'SendMessages'), `${message}: staff are muted`);
+    assert.ok(channel.allows(staffRole, 'ViewChannel'), `${message}: staff can still read`);
+    assert.ok(channel.allows(claimerId, 'SendMessages'), `${message}: the claimer can write`);
+  };
+
+  await router.route(new FakeButtonInteraction(`ticket:claim:${ticket.id}`, guild, staff) as any, client);
+  assertExclusiveTo(staff.id, 'after claiming');
+
+  await router.route(new FakeButtonInteraction(`ticket:close-confirm:${ticket.id}`, guild, staff) as any, client);
+  // Simulate the category sync Discord does when a channel moves
+  channel.overwrites.delete(staffRole);
+  channel.overwrites.delete(staff.id);
+  await router.route(new FakeButtonInteraction(`ticket:reopen:${ticket.id}`, guild, staff) as any, client);
+  assertExclusiveTo(staff.id, 'after reopening');
+
+  const transfer = new FakeCommandInteraction('ticket', channel, guild, staff, { subcommand: 'transfer', values: { staff: colleague.user } });
+  await ticketCommand.execute(transfer as any, client);
+  assertExclusiveTo(colleague.id, 'after a transfer');
+  assert.equal(channel.overwrites.has(staff.id), false, 'the previous claimer is muted with the other staff');
+
+  const unclaim = new FakeCommandInteraction('ticket', channel, guild, colleague, { subcommand: 'unclaim' });
+  await ticketCommand.execute(unclaim as any, client);
+  assert.ok(channel.allows(staffRole, 'SendMessages'), 'unclaiming gives staff their permissions back');
+  assert.ok(channel.allows(staffRole, 'ManageMessages'));
+  assert.equal(channel.denies(staffRole, 'SendMessages'), false);
+  assert.equal(channel.overwrites.has(colleague.id), false);
+});
+
+testWithEachStorage('staff tiers: the wizard assigns levels, and each level only gets its own permissions', async (db) => {
+  const { client, router, guild, openCategory, admin, customer } = setup(db);
+  const viewerRole = guild.addRole('role-viewer', 'Trainee');
+  const responderRole = guild.addRole('role-responder', 'Support');
+  const closerRole = guild.addRole('role-closer', 'Senior Support');
+  const managerRole = guild.addRole('role-manager', 'Support Lead');
+  const viewer = guild.addMember(addUser(client, 'trainee'), [viewerRole]);
+  const responder = guild.addMember(addUser(client, 'responder'), [responderRole]);
+  const closer = guild.addMember(addUser(client, 'closer'), [closerRole]);
+  const manager = guild.addMember(addUser(client, 'lead'), [managerRole]);
+
+  await client.db.save({
+    id: `autosave:${admin.id}`,
+    type: 'autosave',
+    userId: admin.id,
+    startedAt: new Date().toISOString(),
+    data: { name: 'Support', openCategory, claimable: true },
+  });
+  const pick = (level: string, roleIds: string[]) =>
+    router.route(new FakeSelectInteraction(`wizard:select-staffrole:${level}`, guild, admin, roleIds) as any, client);
+  await pick('viewer', [viewerRole, closerRole]);
+  await pick('responder', [responderRole]);
+  await pick('closer', [closerRole]);
+  await pick('manager', [managerRole]);
+  const autosave = (await client.db.getAutosave(admin.id))!;
+  assert.deepEqual(autosave.data.staffRoles, [
+    { roleId: viewerRole, level: 'viewer' },
+    { roleId: responderRole, level: 'responder' },
+    { roleId: closerRole, level: 'closer' },
+    { roleId: managerRole, level: 'manager' },
+  ], 'a role picked for another level moves there');
+  assert.equal(autosave.data.staffRole, responderRole, 'the first role that can answer tickets is pinged');
+
+  const panel: PanelData = {
+    id: await client.db.generatePanelId(),
+    type: 'panel',
+    guildId: guild.id,
+    name: 'Support',
+    openCategory,
+    staffRole: autosave.data.staffRole,
+    staffRoles: autosave.data.staffRoles,
+    label: 'Open Ticket',
+    emoji: '🎫',
+    color: 'Primary',
+    description: 'Click below to open a ticket.',
+    openMessage: 'Thanks for reaching out.',
+    questions: [],
+    claimable: true,
+    enabled: true,
+  };
+  await client.db.save(panel);
+
+  await router.route(new FakeButtonInteraction(`ticket:open:${panel.id}`, guild, customer) as any, client);
+  const [ticket] = await client.db.getTicketsByGuild(guild.id);
+  const channel = client.channelStore.get(ticket.channelId)!;
+  assert.ok(channel.allows(viewerRole, 'ViewChannel'), 'viewers can read');
+  assert.ok(channel.denies(viewerRole, 'SendMessages'), 'viewers cannot write');
+  for (const roleId of [responderRole, closerRole, managerRole]) {
+    assert.ok(channel.allows(roleId, 'SendMessages'), `${roleId} can write`);
+  }
+
+  const viewerClaim = new FakeButtonInteraction(`ticket:claim:${ticket.id}`, guild, viewer);
+  await router.route(viewerClaim as any, client);
+  assert.match(viewerClaim.contents.join('\n'), /Only staff members can claim/);
+
+  await router.route(new FakeButtonInteraction(`ticket:claim:${ticket.id}`, guild, responder) as any, client);
+  assert.equal((await client.db.get<TicketData>(ticket.id))!.claimedBy, responder.id, 'responders can claim');
+
+  // Only managers can take a claim off someone else
+  const unclaim = async (member: typeof closer) => {
+    const command = new FakeCommandInteraction('ticket', channel, guild, member, { subcommand: 'unclaim' });
+    await ticketCommand.execute(command as any, client);
+    return command.contents.join('\n');
+  };
+  assert.match(await unclaim(closer), /only unclaim tickets that you claimed/);
+  await unclaim(manager);
+  assert.equal((await client.db.get<TicketData>(ticket.id))!.claimedBy, undefined, 'managers can unclaim anyone');
+
+  // Responders cannot close; closers can
+  await router.route(new FakeButtonInteraction(`ticket:close-confirm:${ticket.id}`, guild, responder) as any, client);
+  assert.equal((await client.db.get<TicketData>(ticket.id))!.state, 'open', 'responders cannot close');
+  await router.route(new FakeButtonInteraction(`ticket:close-confirm:${ticket.id}`, guild, closer) as any, client);
+  assert.equal((await client.db.get<TicketData>(ticket.id))!.state, 'closed', 'closers can close');
+
+  // Viewers still see the closed ticket, but reopening it takes a closer as well
+  assert.ok(channel.allows(viewerRole, 'ViewChannel'));
+  const viewerReopen = new FakeButtonInteraction(`ticket:reopen:${ticket.id}`, guild, viewer);
+  await router.route(viewerReopen as any, client);
+  assert.match(viewerReopen.contents.join('\n'), /Only staff members who can close tickets can reopen them/);
+  assert.equal((await client.db.get<TicketData>(ticket.id))!.state, 'closed', 'viewers cannot reopen');
+  await router.route(new FakeButtonInteraction(`ticket:reopen:${ticket.id}`, guild, closer) as any, client);
+  assert.equal((await client.db.get<TicketData>(ticket.id))!.state, 'open', 'closers can reopen');
+});
+
+testWithEachStorage('thread panels open private threads that are archived on close and restored on reopen', async (db) => {
+  const { client, router, guild, staffRole, panelChannel, admin, staff, customer } = setup(db);
+  const threadParent = guild.addTextChannel('tickets');
+  const helper = guild.addMember(addUser(client, 'helper'));
+
+  await client.db.save({
+    id: `autosave:${admin.id}`,
+    type: 'autosave',
+    userId: admin.id,
+    startedAt: new Date().toISOString(),
+    data: { name: 'Support', channel: panelChannel.id, staffRole, claimable: true },
+  });
+  await router.route(new FakeSelectInteraction('wizard:select-tickettype:setup', guild, admin, [`thread:${threadParent.id}`]) as any, client);
+  const autosave = (await client.db.getAutosave(admin.id))!;
+  assert.equal(autosave.data.ticketType, 'thread');
+  assert.equal(autosave.data.threadChannel, threadParent.id);
+
+  await router.route(new FakeButtonInteraction(`wizard:finish:${admin.id}`, guild, admin, ['ManageChannels']) as any, client);
+  const [panel] = await client.db.getPanelsByGuild(guild.id);
+  assert.ok(panel, 'thread panels do not need an open category');
+
+  await router.route(new FakeButtonInteraction(`ticket:open:${panel.id}`, guild, customer) as any, client);
+  const [ticket] = await client.db.getTicketsByGuild(guild.id);
+  const thread = client.channelStore.get(ticket.channelId) as FakeThreadChannel;
+  assert.ok(thread instanceof FakeThreadChannel, 'the ticket is a thread');
+  assert.equal(thread.parentId, threadParent.id);
+  assert.ok(thread.memberIds.has(customer.id), 'owner is added to the thread');
+  const welcome = await thread.messages.fetch(ticket.welcomeMessageId!);
+  assert.match(welcome.content, new RegExp(`<@&${staffRole}>`), 'staff are mentioned into the thread');
+
+  const run = async (subcommand: string, values: Record<string, any>) => {
+    const interaction = new FakeCommandInteraction('ticket', thread, guild, staff, { subcommand, values });
+    await ticketCommand.execute(interaction as any, client);
+    return interaction.contents.join('\n');
+  };
+  await run('add', { user: helper.user });
+  assert.ok(thread.memberIds.has(helper.id), 'participants join the thread');
+  assert.match(await run('add', { role: { id: 'role-billing' } }), /Roles cannot be added to thread tickets/);
+
+  await router.route(new FakeButtonInteraction(`ticket:close-confirm:${ticket.id}`, guild, staff) as any, client);
+  assert.equal((await client.db.get<TicketData>(ticket.id))!.state, 'closed');
+  assert.equal(thread.name, 'closed-ticket-customer');
+  assert.ok(thread.archived && thread.locked, 'closed threads are locked and archived');
+  assert.equal(thread.memberIds.has(customer.id), false, 'owner leaves the thread when closed');
+  assert.equal(thread.memberIds.has(helper.id), false);
+
+  await router.route(new FakeButtonInteraction(`ticket:reopen:${ticket.id}`, guild, staff) as any, client);
+  assert.equal((await client.db.get<TicketData>(ticket.id))!.state, 'open');
+  assert.ok(!thread.archived && !thread.locked, 'reopened threads are unarchived');
+  assert.ok(thread.memberIds.has(customer.id) && thread.memberIds.has(helper.id), 'owner and participants rejoin');
+  assert.equal(thread.overwrites.size, 0, 'threads never get permission overwrites');
+
+  const transcriptFields = createTranscriptEmbed({
+    ticketId: ticket.id,
+    ticketNumber: 1,
+    username: customer.user.username,
+    userId: customer.id,
+    panelName: 'Support',
+    createdAt: new Date(ticket.createdAt),
+    threadParentId: threadParent.id,
+  }).toJSON().fields!;
+  assert.ok(transcriptFields.some(f => f.value.includes(`<#${threadParent.id}>`)), 'transcripts name the thread channel');
+});
+
+testWithEachStorage('modmail: a DM opens a ticket, messages and edits are relayed both ways, notes stay in the channel', async (db) => {
+  const { client, router, guild, staffRole, openCategory, staff, customer } = setup(db);
+  const panel: PanelData = {
+    id: await client.db.generatePanelId(),
+    type: 'panel',
+    guildId: guild.id,
+    name: 'Support',
+    openCategory,
+    staffRole,
+    label: 'Open Ticket',
+    emoji: '🎫',
+    color: 'Primary',
+    description: 'Click below to open a ticket.',
+    openMessage: 'Thanks for reaching out.',
+    questions: [],
+    claimable: true,
+    enabled: true,
+    modmail: true,
+  };
+  await client.db.save(panel);
+  const dm = customer.user.dmChannel;
+  const relay = (message: FakeMessage) => relayModmailMessage(message as any, client);
+
+  // Without an open ticket, a DM gets the panel picker
+  const hello = postAs(dm, customer.user, 'My order never arrived', ['https://cdn.example/receipt.png']);
+  await relay(hello);
+  const picker = dm.sentMessages.at(-1)!;
+  assert.deepEqual(picker.customIds, ['ticket:modmail-open']);
+  assert.equal(picker.reference?.messageId, hello.id);
+
+  const pick = new FakeSelectInteraction('ticket:modmail-open', null, customer, [panel.id]);
+  pick.message = picker;
+  await router.route(pick as any, client);
+  const [ticket] = await client.db.getTicketsByGuild(guild.id);
+  assert.equal(ticket.modmail, true);
+  assert.equal(ticket.owner, customer.id);
+  assert.deepEqual(picker.customIds, [], 'the picker cannot be used twice');
+
+  const channel = client.channelStore.get(ticket.channelId)!;
+  assert.equal(channel.overwrites.has(customer.id), false, 'the owner stays out of the channel');
+  const lastEmbed = () => channel.sentMessages.at(-1)!.embeds[0].toJSON();
+  assert.equal(lastEmbed().description, 'My order never arrived', 'the first DM is passed on');
+  assert.deepEqual(channel.sentMessages.at(-1)!.files, ['https://cdn.example/receipt.png']);
+  assert.deepEqual(hello.reacted, ['✅']);
+
+  await relay(postAs(dm, customer.user, 'Any update?'));
+  assert.equal(lastEmbed().description, 'Any update?');
+
+  // Staff replies go to the owner; messages starting with the prefix are notes and commands
+  const reply = postAs(channel, staff.user, 'It ships today');
+  await relay(reply);
+  const dmCount = customer.user.dms.length;
+  assert.equal(customer.user.dms.at(-1).embeds[0].toJSON().description, 'It ships today');
+  assert.equal(customer.user.dms.at(-1).embeds[0].toJSON().footer.text, guild.name);
+
+  const prefix = await client.db.getPrefix(guild.id);
+  await relay(postAs(channel, staff.user, `${prefix}note they already got a refund once`));
+  assert.equal(customer.user.dms.length, dmCount, 'notes are not relayed');
+
+  // Edits follow on both sides
+  hello.content = 'My order never arrived, order #42';
+  await relayModmailEdit(hello as any, client);
+  const helloCopy = channel.sentMessages.find(message => message.embeds[0]?.toJSON().description?.startsWith('My order'))!;
+  assert.equal(helloCopy.embeds[0].toJSON().description, 'My order never arrived, order #42');
+  assert.match(helloCopy.embeds[0].toJSON().footer.text, /edited/);
+
+  reply.content = 'It ships tomorrow';
+  await relayModmailEdit(reply as any, client);
+  assert.ok(dm.sentMessages.some(message => message.embeds[0]?.toJSON().description === 'It ships tomorrow'));
+
+  // Claim and close still go through the ticket buttons; the owner hears about the close by DM
+  await router.route(new FakeButtonInteraction(`ticket:claim:${ticket.id}`, guild, staff) as any, client);
+  assert.equal((await client.db.get<TicketData>(ticket.id))!.claimedBy, staff.id);
+  await router.route(new FakeButtonInteraction(`ticket:close-confirm:${ticket.id}`, guild, staff) as any, client);
+  assert.equal((await client.db.get<TicketData>(ticket.id))!.state, 'closed');
+  assert.match(customer.user.dms.at(-1).embeds[0].toJSON().title, /Ticket Closed/);
+
+  const dmsAfterClose = customer.user.dms.length;
+  await relay(postAs(channel, staff.user, 'Anything else?'));
+  assert.equal(customer.user.dms.length, dmsAfterClose, 'closed tickets are not relayed');
+
+  await relay(postAs(dm, customer.user, 'One more thing'));
+  assert.deepEqual(dm.sentMessages.at(-1)!.customIds, ['ticket:modmail-open'], 'after a close the next DM starts over');
+});
+
+testWithEachStorage('panel groups: the wizard composes and deploys a group, and panel edits and deletes refresh it', async (db) => {
+  const { client, router, guild, staffRole, openCategory, panelChannel, admin, customer } = setup(db);
+  const helpChannel = guild.addTextChannel('get-help');
+
+  const panelBase = {
+    type: 'panel' as const,
+    guildId: guild.id,
+    channel: panelChannel.id,
+    openCategory,
+    staffRole,
+    label: 'Open Ticket',
+    color: 'Primary' as const,
+    openMessage: 'Thanks for reaching out.',
+    questions: [],
+    claimable: false,
+    enabled: true,
+  };
+  const general: PanelData = { ...panelBase, id: await client.db.generatePanelId(), name: 'General', emoji: '💬', description: 'Anything else' };
+  await client.db.save(general);
+  const billing: PanelData = { ...panelBase, id: await client.db.generatePanelId(), name: 'Billing', emoji: '💳', label: 'Billing', description: 'Payments and refunds' };
+  await client.db.save(billing);
+
+  // /ticket panel group lists the groups, with an entry to start a new one
+  const command = new FakeCommandInteraction('ticket', panelChannel, guild, admin, { group: 'panel', subcommand: 'group' });
+  await ticketCommand.execute(command as any, client);
+  assert.deepEqual(command.responses.at(-1).components[0].toJSON().components[0].options.map((o: any) => o.value), ['new']);
+
+  await router.route(new FakeSelectInteraction('wizard:group-select:setup', guild, admin, ['new']) as any, client);
+  const [draft] = await client.db.getPanelGroupsByGuild(guild.id);
+  assert.ok(draft, 'group was saved');
+  assert.equal(draft.messageId, undefined, 'nothing is posted before deploying');
+
+  const route = async (interaction: any) => {
+    await router.route(interaction, client);
+    return interaction;
+  };
+  await route(new FakeSelectInteraction(`wizard:group-panels:${draft.id}`, guild, admin, [general.id, billing.id]));
+  await route(new FakeSelectInteraction(`wizard:group-channel:${draft.id}`, guild, admin, [helpChannel.id]));
+  await route(new FakeButtonInteraction(`wizard:group-style:${draft.id}`, guild, admin));
+
+  const details = await route(new FakeButtonInteraction(`wizard:group-details:${draft.id}`, guild, admin));
+  assert.equal(details.shownModal.toJSON().custom_id, `wizard:modal-group:${draft.id}`);
+  await route(new FakeModalInteraction(`wizard:modal-group:${draft.id}`, guild, admin, {
+    name: 'How can we help?',
+    description: 'Pick a topic',
+  }));
+
+  // Deploy: one select menu whose options carry each panel's emoji and description
+  const deploy = await route(new FakeButtonInteraction(`wizard:group-deploy:${draft.id}`, guild, admin));
+  assert.match(deploy.contents.at(-1), /deployed/);
+  const group = (await client.db.getPanelGroupsByGuild(guild.id))[0];
+  assert.equal(group.style, 'select');
+  assert.equal(group.panelIds.length, 2);
+  const groupMessage = await helpChannel.messages.fetch(group.messageId!);
+  assert.equal(groupMessage.embeds[0].toJSON().title, 'How can we help?');
+  assert.deepEqual(groupMessage.customIds, ['ticket:open-select']);
+  const options = () => groupMessage.components[0].toJSON().components[0].options;
+  assert.deepEqual(
+    options().find((o: any) => o.value === billing.id),
+    { label: 'Billing', description: 'Payments and refunds', emoji: { id: undefined, name: '💳', animated: false }, value: billing.id }
+  );
+
+  // Picking an option opens a ticket on that panel, through the regular open flow
+  const pick = new FakeSelectInteraction('ticket:open-select', guild, customer, [billing.id]);
+  pick.message = groupMessage;
+  await router.route(pick as any, client);
+  assert.equal(pick.deferred, false, 'not deferred, so a question modal could still be shown');
+  const [ticket] = await client.db.getTicketsByGuild(guild.id);
+  assert.equal(ticket.panelId, billing.id);
+  assert.equal(ticket.owner, customer.id);
+
+  // Editing a member panel in the wizard refreshes the shared message
+  await client.db.save({
+    id: `autosave:${admin.id}`,
+    type: 'autosave',
+    userId: admin.id,
+    startedAt: new Date().toISOString(),
+    data: { ...billing, description: 'Invoices, payments and refunds' },
+  });
+  await route(new FakeButtonInteraction(`wizard:finish:${admin.id}`, guild, admin));
+  assert.equal(options().find((o: any) => o.value === billing.id).description, 'Invoices, payments and refunds');
+
+  // Switching to buttons and deploying again edits the same message
+  await route(new FakeButtonInteraction(`wizard:group-style:${group.id}`, guild, admin));
+  await route(new FakeButtonInteraction(`wizard:group-deploy:${group.id}`, guild, admin));
+  assert.equal((await client.db.getPanelGroupsByGuild(guild.id))[0].messageId, groupMessage.id);
+  assert.equal(helpChannel.sentMessages.length, 1);
+  assert.deepEqual(groupMessage.customIds.sort(), [`ticket:open:${general.id}`, `ticket:open:${billing.id}`].sort());
+
+  // Deleting a member panel drops it from the group
+  await route(new FakeSelectInteraction('ticket:delete-select', guild, admin, [billing.id]));
+  assert.deepEqual(groupMessage.customIds, [`ticket:open:${general.id}`]);
+  assert.deepEqual((await client.db.getPanelGroupsByGuild(guild.id))[0].panelIds, [general.id]);
+
+  // Deleting the group takes its message down
+  await route(new FakeButtonInteraction(`wizard:group-delete:${group.id}`, guild, admin));
+  assert.equal(groupMessage.deleted, true);
+  assert.deepEqual(await client.db.getPanelGroupsByGuild(guild.id), []);
+});
+
+testWithEachStorage('question forms: long forms are paged, answers are validated and stored on the ticket', async (db) => {
+  const { client, router, guild, staffRole, openCategory, panelChannel, admin, customer } = setup(db);
+
+  // Six questions built in the wizard: the sixth has to land on a second page
+  await client.db.save({
+    id: `autosave:${admin.id}`,
+    type: 'autosave',
+    userId: admin.id,
+    startedAt: new Date().toISOString(),
+    data: { name: 'Orders', channel: panelChannel.id, openCategory, staffRole, questions: ['Order number?'] },
+  });
+  const route = async (interaction: any) => {
+    await router.route(interaction, client);
+    return interaction;
+  };
+  const addQuestion = (question: string, values: Record<string, string> = {}) =>
+    route(new FakeModalInteraction('wizard:modal-question:setup', guild, admin, { question, type: 'primary', style: 'short', ...values }));
+  for (const question of ['Name?', 'Email?', 'Country?', 'Product?']) {
+    await addQuestion(question);
+  }
+  await addQuestion('Anything else?', { type: 'optional', style: 'paragraph', default: 'No' });
+
+  // Rules for the first question, which came from the legacy list; a broken pattern is refused
+  const broken = await route(new FakeModalInteraction('wizard:modal-question-rules:0', guild, admin, { pattern: '(' }));
+  assert.match(broken.contents.join('\n'), /not a valid regular expression/);
+  await route(new FakeModalInteraction('wizard:modal-question-rules:0', guild, admin, {
+    min: '5',
+    max: '10',
+    pattern: '\\d+',
+    hint: 'Order numbers are digits only.',
+  }));
+  const edit = await route(new FakeButtonInteraction('wizard:edit-question:0', guild, admin));
+  assert.equal(edit.shownModal.toJSON().custom_id, 'wizard:modal-question:0');
+
+  const autosave = await client.db.getAutosave(admin.id);
+  assert.equal(autosave!.data.customQuestions!.length, 6);
+  assert.equal(autosave!.data.questions!.length, 6, 'legacy list is kept in step');
+  assert.deepEqual(
+    { ...autosave!.data.customQuestions![0] },
+    { text: 'Order number?', type: 'primary', minLength: 5, maxLength: 10, pattern: '\\d+', patternHint: 'Order numbers are digits only.' }
+  );
+
+  await route(new FakeButtonInteraction(`wizard:finish:${admin.id}`, guild, admin, ['ManageChannels']));
+  const [panel] = await client.db.getPanelsByGuild(guild.id);
+
+  // Page 1 holds five questions, with the rules applied to the inputs
+  const open = await route(new FakeButtonInteraction(`ticket:open:${panel.id}`, guild, customer));
+  const firstPage = open.shownModal.toJSON();
+  assert.equal(firstPage.custom_id, `ticket:answer:${panel.id}:0`);
+  assert.equal(firstPage.title, 'Ticket Information (1/2)');
+  assert.equal(firstPage.components.length, 5);
+  assert.deepEqual(
+    { min: firstPage.components[0].components[0].min_length, max: firstPage.components[0].components[0].max_length },
+    { min: 5, max: 10 }
+  );
+
+  // An answer that does not match the pattern is sent back with the hint
+  const pageOne = { question_0: 'ABC-123', question_1: 'Jo', question_2: 'jo@example.com', question_3: 'NL', question_4: 'Lamp' };
+  const invalid = await route(new FakeModalInteraction(`ticket:answer:${panel.id}:0`, guild, customer, pageOne));
+  assert.match(invalid.contents.at(-1), /Order numbers are digits only/);
+  assert.deepEqual(invalid.responses.at(-1).components[0].toJSON().components.map((c: any) => c.custom_id), [`ticket:answer-page:${panel.id}:0`]);
+  assert.deepEqual(await client.db.getTicketsByGuild(guild.id), []);
+
+  const retry = await route(new FakeButtonInteraction(`ticket:answer-page:${panel.id}:0`, guild, customer));
+  const retryInputs = retry.shownModal.toJSON().components.map((row: any) => row.components[0]);
+  assert.equal(retryInputs[1].value, 'Jo', 'earlier answers are filled in again');
+
+  const valid = await route(new FakeModalInteraction(`ticket:answer:${panel.id}:0`, guild, customer, { ...pageOne, question_0: '123456' }));
+  assert.match(valid.contents.at(-1), /Page 1 of 2 saved/);
+
+  // Page 2 has the optional question, pre-filled with its default
+  const next = await route(new FakeButtonInteraction(`ticket:answer-page:${panel.id}:1`, guild, customer));
+  const secondPage = next.shownModal.toJSON();
+  assert.equal(secondPage.title, 'Ticket Information (2/2)');
+  assert.equal(secondPage.components[0].components[0].value, 'No');
+  await route(new FakeModalInteraction(`ticket:answer:${panel.id}:1`, guild, customer, { question_5: 'Please hurry' }));
+
+  const [ticket] = await client.db.getTicketsByGuild(guild.id);
+  assert.ok(ticket, 'ticket opened after the last page');
+  assert.deepEqual(ticket.answers!.map(a => a.answer), ['123456', 'Jo', 'jo@example.com', 'NL', 'Lamp', 'Please hurry']);
+  assert.equal(ticket.answers![5].question, 'Anything else?');
+  const welcome = await client.channelStore.get(ticket.channelId)!.messages.fetch(ticket.welcomeMessageId!);
+  assert.ok(welcome.embeds[0].toJSON().fields.some((f: any) => f.value.includes('Please hurry')));
+});
+
+testWithEachStorage('routing: options picked before the form decide the questions, the role pinged and the category', async (db) => {
+  const { client, router, guild, staffRole, openCategory, panelChannel, admin, customer } = setup(db);
+  const billingRole = guild.addRole('role-billing', 'Billing Team');
+  const billingCategory = 'category-billing';
+
+  await client.db.save({
+    id: `autosave:${admin.id}`,
+    type: 'autosave',
+    userId: admin.id,
+    startedAt: new Date().toISOString(),
+    data: {
+      name: 'Support',
+      channel: panelChannel.id,
+      openCategory,
+      staffRole,
+      staffRoles: [{ roleId: staffRole, level: 'closer' }, { roleId: billingRole, level: 'responder' }],
+      questions: ['Describe the problem', 'Order number?'],
+    },
+  });
+  const route = async (interaction: any) => {
+    await router.route(interaction, client);
+    return interaction;
+  };
+  const routes = async () => (await client.db.getAutosave(admin.id))!.data.routes!;
+
+  // Billing → Refund, and General next to Billing
+  await route(new FakeModalInteraction('wizard:modal-route:add:root', guild, admin, { label: 'Billing', emoji: '💳' }));
+  await route(new FakeModalInteraction('wizard:modal-route:add:root', guild, admin, { label: 'General' }));
+  const [billing, general] = await routes();
+  const billingMenu = await route(new FakeButtonInteraction(`wizard:routes:${billing.id}`, guild, admin));
+  assert.match(billingMenu.responses.at(-1).embeds[0].toJSON().title, /Billing/);
+  await route(new FakeModalInteraction(`wizard:modal-route:add:${billing.id}`, guild, admin, { label: 'Refund', description: 'Money back' }));
+  const refund = (await routes())[0].options![0];
+
+  // The role is set on Billing and taken over by Refund; Refund only asks for the order number
+  const editor = await route(new FakeSelectInteraction('wizard:route-select:setup', guild, admin, [billing.id]));
+  const roleMenu = editor.responses.at(-1).components[0].toJSON().components[0];
+  assert.deepEqual(roleMenu.options.map((o: any) => o.value), ['none', staffRole, billingRole]);
+  await route(new FakeSelectInteraction(`wizard:route-role:${billing.id}`, guild, admin, [billingRole]));
+  await route(new FakeSelectInteraction(`wizard:route-category:${refund.id}`, guild, admin, [billingCategory]));
+  await route(new FakeSelectInteraction(`wizard:route-questions:${refund.id}`, guild, admin, ['1']));
+  assert.deepEqual((await routes())[0].options![0].questions, [1]);
+
+  await route(new FakeButtonInteraction(`wizard:finish:${admin.id}`, guild, admin, ['ManageChannels']));
+  const [panel] = await client.db.getPanelsByGuild(guild.id);
+  assert.equal(panel.routes!.length, 2, 'routes are saved on the panel');
+
+  // Opening shows the top level, picking Billing its sub-options
+  const open = await route(new FakeButtonInteraction(`ticket:open:${panel.id}`, guild, customer));
+  assert.equal(open.shownModal, null, 'the form waits for an option');
+  const topMenu = open.responses.at(-1).components[0].toJSON().components[0];
+  assert.equal(topMenu.custom_id, `ticket:route:${panel.id}`);
+  assert.deepEqual(topMenu.options.map((o: any) => o.label), ['Billing', 'General']);
+
+  const pickBilling = await route(new FakeSelectInteraction(`ticket:route:${panel.id}`, guild, customer, [billing.id]));
+  assert.equal(pickBilling.deferred, false);
+  assert.match(pickBilling.contents.at(-1), /Billing/);
+  assert.deepEqual(pickBilling.responses.at(-1).components[0].toJSON().components[0].options.map((o: any) => o.value), [refund.id]);
+
+  // Refund asks its one question; the option travels along with the form
+  const pickRefund = await route(new FakeSelectInteraction(`ticket:route:${panel.id}`, guild, customer, [refund.id]));
+  const modal = pickRefund.shownModal.toJSON();
+  assert.equal(modal.custom_id, `ticket:answer:${panel.id}:0:${refund.id}`);
+  assert.deepEqual(modal.components.map((row: any) => row.components[0].custom_id), ['question_0']);
+  assert.equal(modal.components[0].components[0].label, 'Order number?');
+  await route(new FakeModalInteraction(modal.custom_id, guild, customer, { question_0: '12345' }));
+
+  const [ticket] = await client.db.getTicketsByGuild(guild.id);
+  assert.deepEqual(ticket.answers, [{ question: 'Order number?', answer: '12345' }]);
+  const channel = client.channelStore.get(ticket.channelId)!;
+  assert.equal(channel.parentId, billingCategory);
+  const welcome = await channel.messages.fetch(ticket.welcomeMessageId!);
+  assert.equal(welcome.content, `<@${customer.id}> <@&${billingRole}>`);
+  assert.ok(welcome.embeds[0].toJSON().fields.some((f: any) => f.name === 'Category' && f.value === 'Billing → Refund'));
+
+  // General sets nothing, so it asks every question and uses the panel's role and category
+  const other = guild.addMember(addUser(client, 'other'));
+  const pickGeneral = await route(new FakeSelectInteraction(`ticket:route:${panel.id}`, guild, other, [general.id]));
+  assert.equal(pickGeneral.shownModal.toJSON().components.length, 2);
+  await route(new FakeModalInteraction(`ticket:answer:${panel.id}:0:${general.id}`, guild, other, {
+    question_0: 'It broke',
+    question_1: '999',
+  }));
+  const generalTicket = (await client.db.getTicketsByGuild(guild.id)).find(t => t.owner === other.id)!;
+  const generalChannel = client.channelStore.get(generalTicket.channelId)!;
+  assert.equal(generalChannel.parentId, openCategory);
+  assert.equal((await generalChannel.messages.fetch(generalTicket.welcomeMessageId!)).content, `<@${other.id}> <@&${staffRole}>`);
+
+  // Answers are numbered within the option's questions, so a draft does not carry over to another option
+  saveAnswerDraft(customer.id, panel.id, { 0: 'It broke', 1: '999' }, general.id);
+  const otherOption = await route(new FakeButtonInteraction(`ticket:answer-page:${panel.id}:0:${refund.id}`, guild, customer));
+  assert.equal(otherOption.shownModal, null);
+  assert.match(otherOption.contents.at(-1), /expired/);
+  const sameOption = await route(new FakeButtonInteraction(`ticket:answer-page:${panel.id}:0:${general.id}`, guild, customer));
+  assert.equal(sameOption.shownModal.toJSON().components[1].components[0].value, '999');
+});
+
+testWithEachStorage('guild backfill tags legacy records once and names the ones it cannot resolve', async (db) => {
+  const { client, guild, panelChannel, customer } = setup(db);
+  const legacyPanel: PanelData = {
+    id: await client.db.generatePanelId(),
+    type: 'panel',
+    channel: panelChannel.id,
+    label: 'Open Ticket',
+    emoji: '🎫',
+    color: 'Primary',
+    description: 'Legacy panel',
+    openMessage: 'Hi',
+    questions: [],
+    claimable: false,
+    enabled: true,
+  };
+  const orphanPanel = { ...legacyPanel, id: await client.db.generatePanelId(), channel: 'deleted-channel' };
+  await client.db.save(legacyPanel);
+  await client.db.save(orphanPanel);
+  const legacyTicket: TicketData = {
+    id: await client.db.generateTicketId(),
+    type: 'ticket',
+    owner: customer.id,
+    panelId: legacyPanel.id,
+    channelId: guild.addTextChannel('ticket-old').id,
+    state: 'open',
+    createdAt: new Date().toISOString(),
+  };
+  await client.db.save(legacyTicket);
+
+  const backfill = async (): Promise<string[]> => {
+    const warnings: string[] = [];
+    const warn = console.warn;
+    console.warn = (message: string) => { warnings.push(message); };
+    try {
+      await StartupLoader.backfillGuildIds(client);
+    } finally {
+      console.warn = warn;
+    }
+    return warnings;
+  };
+
+  // Discord failing for a moment is not the same as the channel being gone: that panel is tried again
+  const fetchChannel = client.channels.fetch;
+  client.channels.fetch = async (id: string) => {
+    if (id === panelChannel.id) throw Object.assign(new Error('Service Unavailable'), { status: 503 });
+    return fetchChannel(id);
+  };
+  let warnings = await backfill();
+  assert.equal((await client.db.get<PanelData>(legacyPanel.id))!.guildId, undefined);
+  assert.equal((await client.db.get<TicketData>(legacyTicket.id))!.guildId, guild.id, 'the ticket falls back to its own channel');
+  assert.equal(warnings.length, 2);
+  assert.match(warnings[0], new RegExp(orphanPanel.id));
+  assert.match(warnings[1], new RegExp(`retry on the next startup: ${legacyPanel.id}$`));
+
+  client.channels.fetch = fetchChannel;
+  warnings = await backfill();
+  assert.equal((await client.db.get<PanelData>(legacyPanel.id))!.guildId, guild.id);
+  assert.equal(warnings.length, 1);
+  assert.match(warnings[0], new RegExp(orphanPanel.id));
+
+  // The second boot does not look again, even though one panel is still untagged
+  client.channels.fetch = async () => { throw new Error('backfill ran twice'); };
+  await StartupLoader.backfillGuildIds(client);
+  assert.equal((await client.db.get<PanelData>(orphanPanel.id))!.guildId, undefined);
+});
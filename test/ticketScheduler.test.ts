@@ -0,0 +1,291 @@
+import assert from 'node:assert/strict';
+import { InteractionRouter } from '../src/core/interactionRouter';
+import { TicketHandler } from '../src/modules/ticket/ticketHandler';
+import { TicketScheduler } from '../src/modules/ticket/ticketScheduler';
+import { PanelData, TicketData } from '../src/core/db/storage';
+import { computeSlaCompliance, recordFirstResponse } from '../src/modules/ticket/sla';
+import { createFakeClient, testWithEachStorage, addUser, FakeButtonInteraction, FakeGuild, FakeMember, FakeTextChannel } from './fakes';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+/** A guild message as messageCreate would deliver it */
+const fakeMessage = (channel: FakeTextChannel, member: FakeMember, createdAt: Date = new Date()): any => ({
+  author: member.user,
+  member: { roles: member.roles, permissions: { has: () => false } },
+  guildId: channel.guild.id,
+  channelId: channel.id,
+  createdAt,
+});
+
+testWithEachStorage('inactive tickets are warned, can be kept open, and are closed after the grace period', async (db) => {
+  const client = createFakeClient(db);
+  const router = new InteractionRouter();
+  const handler = new TicketHandler();
+  router.register('ticket', handler);
+  const scheduler = new TicketScheduler(handler);
+
+  const guild = new FakeGuild('guild-1', client);
+  const logsChannel = guild.addTextChannel('ticket-logs');
+  const customer = guild.addMember(addUser(client, 'customer'));
+
+  const panel: PanelData = {
+    id: await client.db.generatePanelId(),
+    type: 'panel',
+    guildId: guild.id,
+    name: 'Support',
+    openCategory: 'category-open',
+    closeCategory: 'category-closed',
+    staffRole: 'role-staff',
+    logsChannel: logsChannel.id,
+    label: 'Open Ticket',
+    emoji: '🎫',
+    color: 'Primary',
+    description: 'Click below to open a ticket.',
+    openMessage: 'Thanks for reaching out.',
+    questions: [],
+    claimable: false,
+    enabled: true,
+    inactivity: { warnAfterHours: 24, closeAfterHours: 48 },
+  };
+  await client.db.save(panel);
+
+  await router.route(new FakeButtonInteraction(`ticket:open:${panel.id}`, guild, customer) as any, client);
+  const [ticket] = await client.db.getTicketsByGuild(guild.id);
+  const channel = client.channelStore.get(ticket.channelId)!;
+  const start = new Date(ticket.lastActivityAt!).getTime();
+
+  // Nothing happens before the warning threshold
+  await scheduler.sweep(client, new Date(start + 23 * HOUR));
+  assert.equal((await client.db.get<TicketData>(ticket.id))!.inactivityWarnedAt, undefined);
+
+  await scheduler.sweep(client, new Date(start + 25 * HOUR));
+  const warning = channel.sentMessages[channel.sentMessages.length - 1];
+  assert.deepEqual(warning.customIds, [`ticket:still-active:${ticket.id}`]);
+  assert.ok((await client.db.get<TicketData>(ticket.id))!.inactivityWarnedAt);
+
+  // Past 48h of silence, but the 24h grace after the warning has not run out
+  await scheduler.sweep(client, new Date(start + 48 * HOUR));
+  assert.equal((await client.db.get<TicketData>(ticket.id))!.state, 'open');
+
+  // "Still need help" restarts the clock
+  await router.route(new FakeButtonInteraction(`ticket:still-active:${ticket.id}`, guild, customer) as any, client);
+  const kept = (await client.db.get<TicketData>(ticket.id))!;
+  assert.equal(kept.inactivityWarnedAt, undefined);
+  const restarted = new Date(kept.lastActivityAt!).getTime();
+
+  await scheduler.sweep(client, new Date(restarted + 25 * HOUR));
+  await scheduler.sweep(client, new Date(restarted + 49 * HOUR));
+
+  const closed = (await client.db.get<TicketData>(ticket.id))!;
+  assert.equal(closed.state, 'closed');
+  assert.equal(channel.name, 'closed-ticket-customer');
+  assert.equal(channel.parentId, 'category-closed');
+  assert.equal(channel.overwrites.has(customer.id), false);
+
+  const closeLog = logsChannel.sentMessages[logsChannel.sentMessages.length - 1].embeds[0].toJSON();
+  assert.match(closeLog.title, /Ticket Closed/);
+  assert.ok(closeLog.fields.some((f: any) => f.name === 'Closed By' && f.value === 'Automatically'));
+
+  const [closedEvent] = await client.db.getGuildEvents(guild.id, { types: ['closed'] });
+  assert.equal(closedEvent.actorId, undefined);
+});
+
+testWithEachStorage('an owner reply that lands while the inactivity warning is sent cancels it', async (db) => {
+  const client = createFakeClient(db);
+  const router = new InteractionRouter();
+  const handler = new TicketHandler();
+  router.register('ticket', handler);
+  const scheduler = new TicketScheduler(handler);
+
+  const guild = new FakeGuild('guild-1', client);
+  const customer = guild.addMember(addUser(client, 'customer'));
+
+  const panel: PanelData = {
+    id: await client.db.generatePanelId(),
+    type: 'panel',
+    guildId: guild.id,
+    name: 'Support',
+    staffRole: 'role-staff',
+    label: 'Open Ticket',
+    emoji: '🎫',
+    color: 'Primary',
+    description: 'Click below to open a ticket.',
+    openMessage: 'Thanks for reaching out.',
+    questions: [],
+    claimable: false,
+    enabled: true,
+    inactivity: { warnAfterHours: 24, closeAfterHours: 48 },
+  };
+  await client.db.save(panel);
+
+  await router.route(new FakeButtonInteraction(`ticket:open:${panel.id}`, guild, customer) as any, client);
+  const [ticket] = await client.db.getTicketsByGuild(guild.id);
+  const channel = client.channelStore.get(ticket.channelId)!;
+  const start = new Date(ticket.lastActivityAt!).getTime();
+  const replyAt = new Date(start + 25 * HOUR);
+
+  // The owner writes while the "still there?" ping is on its way
+  const send = channel.send.bind(channel);
+  channel.send = async (options: any) => {
+    const sent = await send(options);
+    await scheduler.recordActivity(fakeMessage(channel, customer, replyAt), client);
+    return sent;
+  };
+
+  await scheduler.sweep(client, new Date(start + 25 * HOUR));
+  const stored = (await client.db.get<TicketData>(ticket.id))!;
+  assert.equal(stored.lastActivityAt, replyAt.toISOString());
+  assert.equal(stored.inactivityWarnedAt, undefined, 'the reply is not overwritten by the warning');
+
+  // So the ticket is not closed on the strength of the stale warning
+  channel.send = send;
+  await scheduler.sweep(client, new Date(start + 50 * HOUR));
+  assert.equal((await client.db.get<TicketData>(ticket.id))!.state, 'open');
+});
+
+testWithEachStorage('closed tickets are deleted after the retention period, but only once a transcript was delivered', async (db) => {
+  const client = createFakeClient(db);
+  const scheduler = new TicketScheduler(new TicketHandler());
+  const guild = new FakeGuild('guild-1', client);
+  const logsChannel = guild.addTextChannel('ticket-logs');
+  const owner = addUser(client, 'customer');
+
+  const panel: PanelData = {
+    id: await client.db.generatePanelId(),
+    type: 'panel',
+    guildId: guild.id,
+    name: 'Support',
+    staffRole: 'role-staff',
+    logsChannel: logsChannel.id,
+    label: 'Open Ticket',
+    emoji: '🎫',
+    color: 'Primary',
+    description: 'Click below to open a ticket.',
+    openMessage: 'Thanks for reaching out.',
+    questions: [],
+    claimable: false,
+    enabled: true,
+    deleteClosedAfterHours: 72,
+  };
+  await client.db.save(panel);
+
+  const closedAt = new Date('2026-01-01T00:00:00.000Z');
+  const closedTicket = async (channelId: string, transcriptSentAt?: string): Promise<TicketData> => {
+    const ticket: TicketData = {
+      id: await client.db.generateTicketId(),
+      type: 'ticket',
+      guildId: guild.id,
+      owner: owner.id,
+      panelId: panel.id,
+      channelId,
+      state: 'closed',
+      createdAt: closedAt.toISOString(),
+      closedAt: closedAt.toISOString(),
+      transcriptSentAt,
+    };
+    await client.db.save(ticket);
+    return ticket;
+  };
+
+  const archivedChannel = guild.addTextChannel('closed-ticket-a');
+  const archived = await closedTicket(archivedChannel.id, new Date(closedAt.getTime() + 60_000).toISOString());
+  const unarchivedChannel = guild.addTextChannel('closed-ticket-b');
+  const unarchived = await closedTicket(unarchivedChannel.id);
+  const orphaned = await closedTicket('channel-deleted-by-hand');
+
+  await scheduler.sweep(client, new Date(closedAt.getTime() + 71 * HOUR));
+  assert.equal((await client.db.getTicketsByGuild(guild.id)).length, 3, 'nothing is deleted before the retention period');
+
+  await scheduler.sweep(client, new Date(closedAt.getTime() + 73 * HOUR));
+
+  assert.equal(await client.db.get(archived.id), null);
+  assert.equal(archivedChannel.deleted, true);
+  assert.equal(await client.db.get(orphaned.id), null, 'records whose channel is gone are dropped');
+  assert.ok(await client.db.get(unarchived.id), 'kept until a transcript can be delivered');
+  assert.equal(unarchivedChannel.deleted, false);
+
+  const deleteLog = logsChannel.sentMessages[0].embeds[0].toJSON();
+  assert.match(deleteLog.title, /Ticket Deleted/);
+  assert.ok(deleteLog.fields.some((f: any) => f.name === 'Deleted By' && f.value === 'Automatically'));
+  assert.equal((await client.db.getTicketEvents(archived.id)).at(-1)!.type, 'deleted');
+});
+
+testWithEachStorage('SLA: first staff reply is recorded, misses are logged once and compliance is reported', async (db) => {
+  const client = createFakeClient(db);
+  const router = new InteractionRouter();
+  const handler = new TicketHandler();
+  router.register('ticket', handler);
+  const scheduler = new TicketScheduler(handler);
+
+  const guild = new FakeGuild('guild-1', client);
+  const logsChannel = guild.addTextChannel('ticket-logs');
+  const staff = guild.addMember(addUser(client, 'staffer'), ['role-staff']);
+  const answered = guild.addMember(addUser(client, 'answered'));
+  const ignored = guild.addMember(addUser(client, 'ignored'));
+
+  const panel: PanelData = {
+    id: await client.db.generatePanelId(),
+    type: 'panel',
+    guildId: guild.id,
+    name: 'Support',
+    openCategory: 'category-open',
+    closeCategory: 'category-closed',
+    staffRole: 'role-staff',
+    logsChannel: logsChannel.id,
+    label: 'Open Ticket',
+    emoji: '🎫',
+    color: 'Primary',
+    description: 'Click below to open a ticket.',
+    openMessage: 'Thanks for reaching out.',
+    questions: [],
+    claimable: false,
+    enabled: true,
+    sla: { firstResponseMinutes: 30, resolutionHours: 24 },
+  };
+  await client.db.save(panel);
+
+  await router.route(new FakeButtonInteraction(`ticket:open:${panel.id}`, guild, answered) as any, client);
+  await router.route(new FakeButtonInteraction(`ticket:open:${panel.id}`, guild, ignored) as any, client);
+  const [answeredTicket] = await client.db.getOpenTicketsByOwner(guild.id, answered.id);
+  const [ignoredTicket] = await client.db.getOpenTicketsByOwner(guild.id, ignored.id);
+  const answeredChannel = client.channelStore.get(answeredTicket.channelId)!;
+  const start = new Date(answeredTicket.createdAt).getTime();
+
+  // The owner talking to themselves is not a response
+  await recordFirstResponse(fakeMessage(answeredChannel, answered), client);
+  assert.equal((await client.db.get<TicketData>(answeredTicket.id))!.firstResponseAt, undefined);
+
+  await recordFirstResponse(fakeMessage(answeredChannel, staff, new Date(start + 10 * MINUTE)), client);
+  await recordFirstResponse(fakeMessage(answeredChannel, staff, new Date(start + 20 * MINUTE)), client);
+  const responded = (await client.db.get<TicketData>(answeredTicket.id))!;
+  assert.equal(responded.firstResponseAt, new Date(start + 10 * MINUTE).toISOString());
+  assert.equal(responded.firstResponseBy, staff.id);
+  assert.equal((await client.db.getTicketEvents(answeredTicket.id)).filter(e => e.type === 'first-response').length, 1);
+
+  const slaLogs = (): string[] => logsChannel.sentMessages
+    .map(message => message.embeds[0].toJSON().title)
+    .filter(title => /SLA Missed/.test(title));
+
+  await scheduler.sweep(client, new Date(start + 20 * MINUTE));
+  assert.deepEqual(slaLogs(), []);
+
+  await scheduler.sweep(client, new Date(start + 31 * MINUTE));
+  await scheduler.sweep(client, new Date(start + 45 * MINUTE));
+  assert.equal(slaLogs().filter(title => /First Response/.test(title)).length, 1, 'only the ignored ticket, and only once');
+  assert.deepEqual((await client.db.get<TicketData>(ignoredTicket.id))!.slaBreaches, ['first-response']);
+  assert.equal((await client.db.get<TicketData>(answeredTicket.id))!.slaBreaches, undefined);
+
+  await router.route(new FakeButtonInteraction(`ticket:close-confirm:${answeredTicket.id}`, guild, staff) as any, client);
+
+  await scheduler.sweep(client, new Date(start + 25 * HOUR));
+  assert.equal(slaLogs().filter(title => /Resolution/.test(title)).length, 1);
+  assert.deepEqual((await client.db.get<TicketData>(ignoredTicket.id))!.slaBreaches, ['first-response', 'resolution']);
+
+  // Responses are measured from the audit trail, which is stamped with the real clock
+  const [compliance] = await computeSlaCompliance(client, guild.id, [panel], undefined, new Date(start + 25 * HOUR));
+  assert.deepEqual(compliance.firstResponse, { met: 1, missed: 1 });
+  assert.deepEqual(compliance.resolution, { met: 1, missed: 1 });
+
+  assert.deepEqual(await computeSlaCompliance(client, guild.id, [{ ...panel, sla: undefined }]), []);
+});